@@ -16,10 +16,16 @@ import Profile from './Scripts/Profile/ProfileComponents';
 import Bookmarks from './Scripts/Profile/BookmarksComponents';
 import Auth from './Scripts/Auth/AuthComponents';
 import Messages from './Scripts/Messages/MessagesComponents';
+import Moderation from './Scripts/Moderation/ModerationComponents';
 import { supabase } from './Scripts/supabaseClient';
+import { countUnreadNotifications } from './Scripts/data/notifications';
+import { fetchConversationIds } from './Scripts/data/conversations';
+import { countUnreadMessages } from './Scripts/data/messages';
+import { refreshCrisisRuleSet } from './Scripts/data/crisisClassifier';
+import { isModerator } from './Scripts/data/moderation';
 import mobileAds from 'react-native-google-mobile-ads';
 
-type TabType = 'home' | 'search' | 'bookmarks' | 'notifications' | 'messages' | 'profile';
+type TabType = 'home' | 'search' | 'bookmarks' | 'notifications' | 'messages' | 'profile' | 'moderation';
 
 export default function App() {
   const isDarkMode = useColorScheme() === 'dark';
@@ -28,15 +34,22 @@ export default function App() {
   const [activeTab, setActiveTab] = useState<TabType>('home');
   const [unreadNotifications, setUnreadNotifications] = useState(0);
   const [unreadMessages, setUnreadMessages] = useState(0);
+  const [isModeratorUser, setIsModeratorUser] = useState(false);
 
   useEffect(() => {
     
     checkAuth();
+    refreshCrisisRuleSet().then(({ error }) => {
+      if (error) {
+        console.error('危険表現ルール取得エラー:', error);
+      }
+    });
 
     const authSubscription = supabase.auth.onAuthStateChange((event, session) => {
       setIsLoggedIn(!!session);
       if (session) {
         fetchUnreadCounts(session.user.id);
+        fetchModeratorRole(session.user.id);
       }
     });
 
@@ -61,6 +74,7 @@ export default function App() {
       setIsLoggedIn(!!session);
       if (session) {
         fetchUnreadCounts(session.user.id);
+        fetchModeratorRole(session.user.id);
       }
     } catch (error) {
       console.error('認証チェックエラー:', error);
@@ -71,38 +85,32 @@ export default function App() {
 
   const fetchUnreadCounts = async (userId: string) => {
     try {
-      const { count: notificationsCount } = await supabase
-        .from('notifications')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId)
-        .eq('is_read', false);
-
+      const { data: notificationsCount } = await countUnreadNotifications(userId);
       setUnreadNotifications(notificationsCount || 0);
 
-      const { data: conversations } = await supabase
-        .from('conversations')
-        .select('id')
-        .or(`user1_id.eq.${userId},user2_id.eq.${userId}`);
+      const { data: conversationIds } = await fetchConversationIds(userId);
 
-      if (conversations) {
-        let totalUnread = 0;
-        for (const conv of conversations) {
-          const { count } = await supabase
-            .from('messages')
-            .select('*', { count: 'exact', head: true })
-            .eq('conversation_id', conv.id)
-            .eq('is_read', false)
-            .neq('sender_id', userId);
-          
-          totalUnread += count || 0;
-        }
-        setUnreadMessages(totalUnread);
+      if (conversationIds) {
+        const { data: messagesCount } = await countUnreadMessages(conversationIds, userId);
+        setUnreadMessages(messagesCount || 0);
       }
     } catch (error) {
       console.error('未読数取得エラー:', error);
     }
   };
 
+  // モデレーターだけに通報対応タブを出す。操作の権限はサーバー側でも確認する
+  const fetchModeratorRole = async (userId: string) => {
+    const { data, error } = await isModerator(userId);
+
+    if (error) {
+      console.error('権限取得エラー:', error);
+      return;
+    }
+
+    setIsModeratorUser(data);
+  };
+
   const handleLoginSuccess = () => {
     setIsLoggedIn(true);
     checkAuth();
@@ -114,6 +122,7 @@ export default function App() {
     setActiveTab('home');
     setUnreadNotifications(0);
     setUnreadMessages(0);
+    setIsModeratorUser(false);
   };
 
   const renderContent = () => {
@@ -130,6 +139,8 @@ export default function App() {
         return <Messages />;
       case 'profile':
         return <Profile onLogout={handleLogout} />;
+      case 'moderation':
+        return isModeratorUser ? <Moderation /> : <Home />;
       default:
         return <Home />;
     }
@@ -293,6 +304,26 @@ export default function App() {
             activeTab === 'profile' && styles.navLabelActive
           ]}>プロフィール</Text>
         </TouchableOpacity>
+
+        {isModeratorUser && (
+          <TouchableOpacity
+            style={styles.navButton}
+            onPress={() => setActiveTab('moderation')}>
+            <Image
+              source={require('./assets/icon/setting.png')}
+              style={[
+                styles.navIcon,
+                activeTab === 'moderation' && styles.navIconActive,
+                { tintColor: activeTab === 'moderation' ? '#1DA1F2' : (isDarkMode ? '#fff' : '#000') }
+              ]}
+            />
+            <Text style={[
+              styles.navLabel,
+              { color: isDarkMode ? '#fff' : '#000' },
+              activeTab === 'moderation' && styles.navLabelActive
+            ]}>通報対応</Text>
+          </TouchableOpacity>
+        )}
       </View>
     </SafeAreaView>
   );
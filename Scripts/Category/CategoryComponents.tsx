@@ -0,0 +1,832 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  useColorScheme,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  Alert,
+  RefreshControl,
+  Modal,
+  SafeAreaView,
+} from 'react-native';
+import { supabase } from '../supabaseClient';
+import { ANONYMOUS_LABEL } from '../constants/anonymous';
+import { getCategoryLabel, getCategoryIcon } from '../constants/complexCategories';
+import { getReactionIcon } from '../constants/reactions';
+import { MUTED_WORD_PLACEHOLDERS } from '../constants/mutedWords';
+import { FeedCursor, FeedPost, fetchFeedPosts } from '../data/posts';
+import { usePostPager } from '../data/usePostPager';
+import { applyPostEvent, subscribePostEvents } from '../data/postEvents';
+import { getContentWarningReasons } from '../data/contentWarnings';
+import { useCollapsedCategories } from '../data/useCollapsedCategories';
+import { useMutedWords } from '../data/useMutedWords';
+import { filterHiddenPosts } from '../data/reports';
+import { useBlockedAndMutedUsers } from '../data/useBlockedAndMutedUsers';
+import { useHiddenTargets } from '../data/useHiddenTargets';
+import { useReactions } from '../data/useReactions';
+import { countCategoryMembers } from '../data/userComplexes';
+import { fetchFollowedCategories, followCategory, unfollowCategory } from '../data/categoryFollows';
+import { DEFAULT_TRENDING_WEIGHTS, TimeRange, fetchTrendingPosts } from '../data/trending';
+import PostDetailComponents from '../Post/PostDetailComponents';
+import ReactionPicker from '../Post/ReactionPicker';
+import ContentWarningGate from '../Post/ContentWarningGate';
+import MutedWordGate from '../Post/MutedWordGate';
+import PostMediaGrid from '../Post/PostMediaGrid';
+import ReactionSummary from '../Post/ReactionSummary';
+import PostCardActions, { PostCardMenuButton, usePostCardActions } from '../Post/PostCardActions';
+
+// 人気タブの投稿だけスコアを持つ
+interface Post extends FeedPost {
+  engagement_score?: number;
+  trending_score?: number;
+}
+
+export type CategoryTab = 'latest' | 'top';
+
+interface CategoryComponentsProps {
+  // ComplexCategory.key
+  category: string;
+  initialTab?: CategoryTab;
+  initialTimeRange?: TimeRange;
+  onClose: () => void;
+  // カテゴリのフォロー状態が変わったときに呼ばれる
+  onFollowChange?: (category: string, following: boolean) => void;
+}
+
+const PAGE_SIZE = 20;
+
+// コンプレックスカテゴリごとのコミュニティページ
+function CategoryComponents({
+  category,
+  initialTab = 'latest',
+  initialTimeRange = 'week',
+  onClose,
+  onFollowChange,
+}: CategoryComponentsProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const [tab, setTab] = useState<CategoryTab>(initialTab);
+  const [topPosts, setTopPosts] = useState<Post[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const collapsedCategories = useCollapsedCategories(currentUserId);
+  const { isMuted } = useMutedWords(currentUserId);
+  const hiddenTargets = useHiddenTargets(currentUserId);
+  const { hiddenUserIds } = useBlockedAndMutedUsers(currentUserId);
+  const cardActions = usePostCardActions(currentUserId);
+  const [timeRange, setTimeRange] = useState<TimeRange>(initialTimeRange);
+  const [memberCount, setMemberCount] = useState<number | null>(null);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [detailPostId, setDetailPostId] = useState<string | null>(null);
+  const reactions = useReactions<Post>({
+    userId: currentUserId,
+    updatePost: (postId, updater) => updatePost(postId, updater),
+  });
+
+  const fetchLatestPosts = async (cursor: { before?: FeedCursor | null; after?: FeedCursor | null }) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    const result = await fetchFeedPosts({
+      viewerId: user?.id,
+      categories: [category],
+      limit: PAGE_SIZE,
+      ...cursor,
+    });
+    if (result.data) {
+      reactions.mergeViewerReactions(result.data);
+    }
+    return result;
+  };
+
+  const latestPager = usePostPager<Post>({
+    pageSize: PAGE_SIZE,
+    loadPage: ({ last }) => fetchLatestPosts({ before: last }),
+    loadNewer: first => fetchLatestPosts({ after: first }),
+  });
+
+  useEffect(() => {
+    getCurrentUser();
+    loadCategoryInfo();
+    latestPager.reset();
+  }, [category]);
+
+  useEffect(() => {
+    if (tab === 'top') {
+      loadTopPosts();
+    }
+  }, [category, tab, timeRange]);
+
+  useEffect(() => {
+    return subscribePostEvents(event => {
+      setTopPosts(prevPosts => applyPostEvent(prevPosts, event));
+      latestPager.updatePosts(prevPosts => applyPostEvent(prevPosts, event));
+    });
+  }, []);
+
+  const getCurrentUser = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) {
+      setCurrentUserId(user.id);
+    }
+  };
+
+  // 登録メンバー数と閲覧者のフォロー状態
+  const loadCategoryInfo = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const [members, followed] = await Promise.all([
+        countCategoryMembers(category),
+        user ? fetchFollowedCategories(user.id) : null,
+      ]);
+
+      if (members.error) {
+        console.error('メンバー数取得エラー:', members.error);
+      } else {
+        setMemberCount(members.data);
+      }
+
+      if (followed?.error) {
+        console.error('カテゴリフォロー取得エラー:', followed.error);
+      } else if (followed) {
+        setIsFollowing(followed.data.includes(category));
+      }
+    } catch (error) {
+      console.error('予期しないエラー:', error);
+    }
+  };
+
+  const handleToggleFollow = async () => {
+    if (!currentUserId) {
+      Alert.alert('エラー', 'ログインが必要です');
+      return;
+    }
+
+    const wasFollowing = isFollowing;
+    setIsFollowing(!wasFollowing);
+
+    try {
+      const { error } = wasFollowing
+        ? await unfollowCategory(currentUserId, category)
+        : await followCategory(currentUserId, category);
+
+      if (error) {
+        setIsFollowing(wasFollowing);
+        console.error(wasFollowing ? 'カテゴリのフォロー解除エラー:' : 'カテゴリのフォローエラー:', error);
+        Alert.alert('エラー', 'フォローの更新に失敗しました');
+        return;
+      }
+
+      onFollowChange?.(category, !wasFollowing);
+    } catch (error) {
+      setIsFollowing(wasFollowing);
+      console.error('予期しないエラー:', error);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([
+      tab === 'latest' ? latestPager.refresh() : loadTopPosts(),
+      loadCategoryInfo(),
+    ]);
+    setRefreshing(false);
+  };
+
+  // 両方のタブで同じ投稿を更新する
+  const updatePost = (postId: string, updater: (post: Post) => Post) => {
+    const update = (prevPosts: Post[]) =>
+      prevPosts.map(post => (post.id === postId ? updater(post) : post));
+    setTopPosts(update);
+    latestPager.updatePosts(update);
+  };
+
+  const loadTopPosts = async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data: ranking, error } = await fetchTrendingPosts({
+        viewerId: user?.id,
+        timeRange,
+        category,
+      });
+
+      if (error) {
+        console.error('投稿取得エラー:', error);
+        return;
+      }
+
+      setTopPosts(ranking);
+      reactions.mergeViewerReactions(ranking);
+    } catch (error) {
+      console.error('予期しないエラー:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 詳細画面で変わった件数を一覧に反映する
+  const handleDetailPostChange = (detailPost: FeedPost) => {
+    updatePost(detailPost.id, post => ({
+      ...post,
+      replies_count: detailPost.replies_count,
+      ...(post.engagement_score !== undefined && {
+        engagement_score: post.engagement_score +
+          (detailPost.replies_count - post.replies_count) * DEFAULT_TRENDING_WEIGHTS.replies,
+      }),
+    }));
+  };
+
+  const getTimeAgo = (timestamp: string) => {
+    const now = new Date().getTime();
+    const postTime = new Date(timestamp).getTime();
+    const diffInSeconds = Math.floor((now - postTime) / 1000);
+
+    if (diffInSeconds < 60) {
+      return `${diffInSeconds}秒前`;
+    } else if (diffInSeconds < 3600) {
+      return `${Math.floor(diffInSeconds / 60)}分前`;
+    } else if (diffInSeconds < 86400) {
+      return `${Math.floor(diffInSeconds / 3600)}時間前`;
+    } else {
+      return `${Math.floor(diffInSeconds / 86400)}日前`;
+    }
+  };
+
+  const getLevelColor = (level: number) => {
+    if (level <= 20) return '#4CAF50';
+    if (level <= 40) return '#8BC34A';
+    if (level <= 60) return '#FFC107';
+    if (level <= 80) return '#FF9800';
+    return '#F44336';
+  };
+
+  const renderPost = ({ item, index }: { item: Post; index: number }) => {
+    const viewerReaction = reactions.viewerReactions.get(item.id) || null;
+    const isLiked = viewerReaction !== null;
+    const isTopThree = tab === 'top' && index < 3;
+
+    return (
+      <MutedWordGate
+        muted={isMuted([item.content, item.content_warning], 'posts')}
+        label={MUTED_WORD_PLACEHOLDERS.posts}>
+        <View style={[styles.postCard, { backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5' }]}>
+          {isTopThree && (
+            <View style={[styles.rankBadge, { backgroundColor: getRankColor(index) }]}>
+              <Text style={styles.rankText}>{index + 1}</Text>
+            </View>
+          )}
+
+          <View style={styles.postHeader}>
+            <View style={styles.userInfo}>
+              {item.profiles?.avatar_url ? (
+                <Image source={{ uri: item.profiles.avatar_url }} style={styles.avatar} />
+              ) : (
+                <View style={[styles.avatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
+                  <Text style={styles.avatarPlaceholderText}>👤</Text>
+                </View>
+              )}
+              <View style={styles.userDetails}>
+                <Text style={[styles.userName, { color: isDarkMode ? '#fff' : '#000' }]}>
+                  {item.profiles?.name || '名前未設定'}
+                </Text>
+                <View style={styles.levelBadge}>
+                  {item.is_anonymous ? (
+                    <Text style={[styles.levelText, { color: isDarkMode ? '#aaa' : '#666' }]}>
+                      {ANONYMOUS_LABEL}の投稿
+                    </Text>
+                  ) : (
+                    <Text style={[styles.levelText, { color: getLevelColor(item.profiles?.complex_level || 0) }]}>
+                      コンプレックスレベル {item.profiles?.complex_level || 0}
+                    </Text>
+                  )}
+                </View>
+              </View>
+              {cardActions.hasMenu(item) && (
+                <PostCardMenuButton onPress={() => cardActions.openMenu(item)} />
+              )}
+            </View>
+            <Text style={styles.postTime}>
+              {getTimeAgo(item.created_at)}{item.edited_at ? '・編集済み' : ''}
+            </Text>
+          </View>
+
+          {item.post_complexes && item.post_complexes.length > 0 && (
+            <View style={styles.postComplexesContainer}>
+              {item.post_complexes.map((complex, idx) => (
+                <View key={idx} style={[styles.complexChip, { backgroundColor: isDarkMode ? '#0a2a3a' : '#e3f2fd' }]}>
+                  <Text style={styles.complexChipIcon}>{getCategoryIcon(complex.category)}</Text>
+                  <Text style={[styles.complexChipText, { color: isDarkMode ? '#fff' : '#000' }]}>
+                    {getCategoryLabel(complex.category)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          <ContentWarningGate reasons={getContentWarningReasons(item, collapsedCategories)}>
+            <TouchableOpacity activeOpacity={0.7} onPress={() => setDetailPostId(item.id)}>
+              <Text style={[styles.postContent, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.content}
+              </Text>
+            </TouchableOpacity>
+
+            <PostMediaGrid media={item.post_media} />
+          </ContentWarningGate>
+
+          {tab === 'top' && item.engagement_score !== undefined && (
+            <View style={styles.engagementContainer}>
+              <View style={styles.engagementScore}>
+                <Text style={[styles.engagementScoreText, { color: '#1DA1F2' }]}>
+                  🔥 エンゲージメント: {item.engagement_score}
+                </Text>
+              </View>
+            </View>
+          )}
+        
+          <ReactionSummary counts={item.reaction_counts} />
+
+          <View style={styles.actionsContainer}>
+            <TouchableOpacity 
+              style={[styles.actionButton, isLiked && styles.actionButtonActive]}
+              onPress={() => reactions.toggleReaction(item.id)}
+              onLongPress={() => reactions.openPicker(item.id)}>
+              {viewerReaction && viewerReaction !== 'like' ? (
+                <Text style={styles.reactionIcon}>{getReactionIcon(viewerReaction)}</Text>
+              ) : (
+                <Image 
+                  source={require('../../assets/icon/heart.png')}
+                  style={[
+                    styles.actionIcon, 
+                    isLiked && styles.actionIconActive,
+                    { tintColor: isLiked ? '#e91e63' : (isDarkMode ? '#fff' : '#666') }
+                  ]}
+                />
+              )}
+              <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.likes_count}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => setDetailPostId(item.id)}>
+              <Image 
+                source={require('../../assets/icon/comment.png')}
+                style={[
+                  styles.actionIcon,
+                  { tintColor: isDarkMode ? '#fff' : '#666' }
+                ]}
+              />
+              <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.replies_count}
+              </Text>
+            </TouchableOpacity>
+
+            <View style={styles.actionButton}>
+              <Text style={styles.actionIcon}>📤</Text>
+              <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.shares_count}
+              </Text>
+            </View>
+          </View>
+        </View>
+      </MutedWordGate>
+    );
+  };
+
+  const getRankColor = (index: number) => {
+    if (index === 0) return '#FFD700';
+    if (index === 1) return '#C0C0C0';
+    if (index === 2) return '#CD7F32';
+    return '#1DA1F2';
+  };
+
+  const renderTabButton = (value: CategoryTab, label: string) => (
+    <TouchableOpacity
+      style={[
+        styles.tabButton,
+        tab === value && { borderBottomColor: '#1DA1F2' }
+      ]}
+      onPress={() => setTab(value)}>
+      <Text style={[
+        styles.tabButtonText,
+        { color: isDarkMode ? '#fff' : '#000' },
+        tab === value && styles.tabButtonTextActive
+      ]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const posts = tab === 'latest' ? latestPager.posts : topPosts;
+  const visiblePosts = filterHiddenPosts(
+    posts.filter(post => !post.user_id || !hiddenUserIds.has(post.user_id)),
+    hiddenTargets
+  );
+  const isLoading = tab === 'latest' ? !latestPager.loaded : loading;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+        <View style={styles.headerTitleContainer}>
+          <Text style={styles.headerIcon}>{getCategoryIcon(category)}</Text>
+          <Text style={[styles.headerTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
+            {getCategoryLabel(category)}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={[styles.closeButton, { color: isDarkMode ? '#fff' : '#000' }]}>
+            閉じる
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={[styles.communityInfo, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+        <Text style={styles.memberCount}>
+          {memberCount === null ? '' : `${memberCount}人がこのコンプレックスを登録しています`}
+        </Text>
+        <TouchableOpacity
+          style={[
+            styles.followButton,
+            { backgroundColor: isFollowing ? (isDarkMode ? '#333' : '#e0e0e0') : '#1DA1F2' }
+          ]}
+          onPress={handleToggleFollow}>
+          <Text style={[styles.followButtonText, isFollowing && { color: isDarkMode ? '#fff' : '#000' }]}>
+            {isFollowing ? 'フォロー中' : 'フォロー'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={[styles.tabContainer, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+        {renderTabButton('latest', '最新')}
+        {renderTabButton('top', '人気')}
+      </View>
+
+      {tab === 'top' && (
+        <View style={[styles.timeRangeContainer, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+          <TouchableOpacity
+            style={[
+              styles.timeRangeButton,
+              timeRange === 'day' && styles.timeRangeButtonActive,
+              timeRange === 'day' && { borderBottomColor: '#1DA1F2' }
+            ]}
+            onPress={() => setTimeRange('day')}>
+            <Text style={[
+              styles.timeRangeButtonText,
+              { color: isDarkMode ? '#fff' : '#000' },
+              timeRange === 'day' && styles.timeRangeButtonTextActive
+            ]}>
+              24時間
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.timeRangeButton,
+              timeRange === 'week' && styles.timeRangeButtonActive,
+              timeRange === 'week' && { borderBottomColor: '#1DA1F2' }
+            ]}
+            onPress={() => setTimeRange('week')}>
+            <Text style={[
+              styles.timeRangeButtonText,
+              { color: isDarkMode ? '#fff' : '#000' },
+              timeRange === 'week' && styles.timeRangeButtonTextActive
+            ]}>
+              7日間
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.timeRangeButton,
+              timeRange === 'month' && styles.timeRangeButtonActive,
+              timeRange === 'month' && { borderBottomColor: '#1DA1F2' }
+            ]}
+            onPress={() => setTimeRange('month')}>
+            <Text style={[
+              styles.timeRangeButtonText,
+              { color: isDarkMode ? '#fff' : '#000' },
+              timeRange === 'month' && styles.timeRangeButtonTextActive
+            ]}>
+              30日間
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {isLoading ? (
+        <View style={styles.content}>
+          <ActivityIndicator size="large" color="#1DA1F2" />
+        </View>
+      ) : visiblePosts.length === 0 ? (
+        <View style={styles.content}>
+          <Text style={[styles.emptyText, { color: isDarkMode ? '#fff' : '#000' }]}>
+            {tab === 'latest' ? 'まだ投稿がありません' : 'この期間の投稿はまだありません'}
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={visiblePosts}
+          renderItem={renderPost}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.postList}
+          onEndReached={tab === 'latest' ? latestPager.loadMore : undefined}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            tab === 'latest' && latestPager.loadingMore ? (
+              <ActivityIndicator style={styles.listFooter} color="#1DA1F2" />
+            ) : null
+          }
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor="#1DA1F2"
+              colors={['#1DA1F2']}
+            />
+          }
+        />
+      )}
+
+      <Modal
+        animationType="slide"
+        visible={detailPostId !== null}
+        onRequestClose={() => setDetailPostId(null)}>
+        <SafeAreaView style={[styles.container, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}>
+          {detailPostId && (
+            <PostDetailComponents
+              postId={detailPostId}
+              onClose={() => setDetailPostId(null)}
+              onPostChange={handleDetailPostChange}
+            />
+          )}
+        </SafeAreaView>
+      </Modal>
+
+      <ReactionPicker
+        visible={reactions.pickerPostId !== null}
+        selected={reactions.pickerPostId ? reactions.viewerReactions.get(reactions.pickerPostId) || null : null}
+        onSelect={type => reactions.pickerPostId && reactions.react(reactions.pickerPostId, type)}
+        onClose={reactions.closePicker}
+      />
+
+      <PostCardActions {...cardActions.modalProps} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    minHeight: 500,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  headerIcon: {
+    fontSize: 22,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  closeButton: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  communityInfo: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  memberCount: {
+    fontSize: 13,
+    color: '#888',
+    flex: 1,
+  },
+  followButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 14,
+    marginLeft: 8,
+  },
+  followButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  tabButton: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    opacity: 0.6,
+  },
+  tabButtonTextActive: {
+    opacity: 1,
+    color: '#1DA1F2',
+  },
+  timeRangeContainer: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    backgroundColor: 'transparent',
+  },
+  timeRangeButton: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  timeRangeButtonActive: {
+  },
+  timeRangeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    opacity: 0.6,
+  },
+  timeRangeButtonTextActive: {
+    opacity: 1,
+    color: '#1DA1F2',
+  },
+  emptyText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  postList: {
+    padding: 8,
+  },
+  listFooter: {
+    paddingVertical: 16,
+  },
+  postCard: {
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    position: 'relative',
+  },
+  rankBadge: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 1,
+  },
+  rankText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  postHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 10,
+  },
+  userInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+  },
+  avatarPlaceholder: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarPlaceholderText: {
+    fontSize: 18,
+  },
+  userDetails: {
+    marginLeft: 10,
+    flex: 1,
+  },
+  userName: {
+    fontSize: 14,
+    fontWeight: '700',
+    marginBottom: 3,
+  },
+  levelBadge: {
+    alignSelf: 'flex-start',
+  },
+  levelText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  postComplexesContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  complexChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    gap: 4,
+  },
+  complexChipIcon: {
+    fontSize: 12,
+  },
+  complexChipText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  postContent: {
+    fontSize: 14,
+    marginBottom: 10,
+    lineHeight: 20,
+  },
+  postTime: {
+    fontSize: 11,
+    color: '#888',
+    marginLeft: 8,
+  },
+  engagementContainer: {
+    marginBottom: 8,
+  },
+  engagementScore: {
+    alignSelf: 'flex-start',
+  },
+  engagementScoreText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  actionsContainer: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 6,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 5,
+    paddingVertical: 3,
+    paddingHorizontal: 6,
+    borderRadius: 6,
+  },
+  actionButtonActive: {
+    backgroundColor: 'rgba(29, 161, 242, 0.1)',
+  },
+  actionIcon: {
+    width: 16,
+    height: 16,
+    opacity: 0.6,
+  },
+  actionIconActive: {
+    opacity: 1,
+    transform: [{ scale: 1.1 }],
+    tintColor: '#1DA1F2',
+  },
+  reactionIcon: {
+    fontSize: 15,
+  },
+  actionCount: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+export default CategoryComponents;
\ No newline at end of file
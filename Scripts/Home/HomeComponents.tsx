@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -13,52 +13,117 @@ import {
   Image,
   ScrollView,
   RefreshControl,
+  SafeAreaView,
 } from 'react-native';
 import { supabase } from '../supabaseClient';
-import { COMPLEX_CATEGORIES, getCategoryLabel, getCategoryIcon } from '../constants/complexCategories';
-
-interface Post {
-  id: string;
-  content: string;
-  created_at: string;
-  user_id: string;
-  profiles: {
-    name: string | null;
-    avatar_url: string | null;
-    complex_level: number;
-  };
-  likes_count: number;
-  shares_count: number;
-  replies_count: number;
-  is_following: boolean;
-  post_complexes?: Array<{ category: string }>;
+import { launchImageLibrary } from 'react-native-image-picker';
+import { ANONYMOUS_LABEL } from '../constants/anonymous';
+import {
+  COMPLEX_CATEGORIES,
+  SENSITIVE_CATEGORY_KEYS,
+  getCategoryLabel,
+  getCategoryIcon,
+} from '../constants/complexCategories';
+import { getReactionIcon } from '../constants/reactions';
+import { MUTED_WORD_PLACEHOLDERS } from '../constants/mutedWords';
+import {
+  FeedCursor,
+  FeedPost,
+  createPost,
+  deletePost,
+  editPost,
+  fetchFeedPosts,
+  mergeViewerFlags,
+} from '../data/posts';
+import { applyPostEvent, subscribePostEvents } from '../data/postEvents';
+import {
+  CONTENT_WARNING_MAX_LENGTH,
+  DEFAULT_CONTENT_WARNING,
+  getContentWarningReasons,
+} from '../data/contentWarnings';
+import { useCollapsedCategories } from '../data/useCollapsedCategories';
+import { useMutedWords } from '../data/useMutedWords';
+import { flagCrisisContent } from '../data/moderation';
+import { useCrisisCheck } from '../data/useCrisisCheck';
+import { filterHiddenPosts } from '../data/reports';
+import { useHiddenTargets } from '../data/useHiddenTargets';
+import {
+  MAX_POST_IMAGES,
+  POST_IMAGE_MAX_SIZE,
+  POST_IMAGE_QUALITY,
+  PreparedImage,
+  prepareImage,
+} from '../data/postMedia';
+import { PageRequest, usePostPager } from '../data/usePostPager';
+import { fail, isUniqueViolation, ok } from '../data/result';
+import { useReactions } from '../data/useReactions';
+import { addBookmark, removeBookmark } from '../data/bookmarks';
+import { fetchFollowingIds, followUser, unfollowUser } from '../data/follows';
+import { fetchFollowedCategories } from '../data/categoryFollows';
+import { BLOCKED_ERROR_CODE, blockUser } from '../data/blocks';
+import { muteUser } from '../data/mutes';
+import { useBlockedAndMutedUsers } from '../data/useBlockedAndMutedUsers';
+import { DEFAULT_TRENDING_WEIGHTS, TimeRange, fetchTrendingPosts } from '../data/trending';
+import TrendingTopics from './TrendingTopicsComponents';
+import CategoryComponents from '../Category/CategoryComponents';
+import PostDetailComponents from '../Post/PostDetailComponents';
+import ReactionPicker from '../Post/ReactionPicker';
+import ContentWarningGate from '../Post/ContentWarningGate';
+import MutedWordGate from '../Post/MutedWordGate';
+import CrisisSupportModal from '../Post/CrisisSupportModal';
+import PostMediaGrid from '../Post/PostMediaGrid';
+import ReactionSummary from '../Post/ReactionSummary';
+import EditContentModal from '../Post/EditContentModal';
+import PostCardActions, { PostCardMenuButton, usePostCardActions } from '../Post/PostCardActions';
+
+// トレンドタブの投稿だけスコアを持つ
+interface Post extends FeedPost {
   engagement_score?: number;
+  trending_score?: number;
 }
 
-type FeedType = 'all' | 'following' | 'trending';
+type FeedType = 'all' | 'following' | 'categories' | 'trending';
+
+const PAGE_SIZE = 20;
+const TRENDING_MAX_POSTS = 100;
 
 export default function Home() {
   const isDarkMode = useColorScheme() === 'dark';
   const [modalVisible, setModalVisible] = useState(false);
   const [postContent, setPostContent] = useState('');
+  const [postImages, setPostImages] = useState<PreparedImage[]>([]);
+  const [preparingImages, setPreparingImages] = useState(false);
+  const [postAnonymous, setPostAnonymous] = useState(false);
+  const [contentWarningEnabled, setContentWarningEnabled] = useState(false);
+  const [contentWarning, setContentWarning] = useState('');
   const [loading, setLoading] = useState(false);
-  const [allPosts, setAllPosts] = useState<Post[]>([]);
-  const [trendingPosts, setTrendingPosts] = useState<Post[]>([]);
-  const [initialLoading, setInitialLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const [userLikedPosts, setUserLikedPosts] = useState<Set<string>>(new Set());
-  const [userSharedPosts, setUserSharedPosts] = useState<Set<string>>(new Set());
+  const collapsedCategories = useCollapsedCategories(currentUserId);
+  const { isMuted } = useMutedWords(currentUserId);
+  const crisisCheck = useCrisisCheck();
+  const editCrisisCheck = useCrisisCheck();
+  const cardActions = usePostCardActions(currentUserId, {
+    authorActions: authorId => [
+      { text: 'ミュート', onPress: () => handleMute(authorId) },
+      { text: 'ブロック', style: 'destructive', onPress: () => handleBlock(authorId) },
+    ],
+  });
+  const hiddenTargets = useHiddenTargets(currentUserId);
+  const { hiddenUserIds } = useBlockedAndMutedUsers(currentUserId);
   const [userBookmarkedPosts, setUserBookmarkedPosts] = useState<Set<string>>(new Set());
   const [followingUsers, setFollowingUsers] = useState<Set<string>>(new Set());
-  const [blockedUsers, setBlockedUsers] = useState<Set<string>>(new Set());
   const [feedType, setFeedType] = useState<FeedType>('all');
   const [selectedComplexes, setSelectedComplexes] = useState<Set<string>>(new Set());
-  const [replyModalVisible, setReplyModalVisible] = useState(false);
-  const [selectedPost, setSelectedPost] = useState<Post | null>(null);
-  const [replyContent, setReplyContent] = useState('');
-  const [postingReply, setPostingReply] = useState(false);
-  const [timeRange, setTimeRange] = useState<'day' | 'week' | 'month'>('week');
+  const [detailPostId, setDetailPostId] = useState<string | null>(null);
+  const [editingPost, setEditingPost] = useState<Post | null>(null);
+  const [timeRange, setTimeRange] = useState<TimeRange>('week');
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const trendingRankingRef = useRef<Post[]>([]);
+  const reactions = useReactions<Post>({
+    userId: currentUserId,
+    updatePost: (postId, updater) => updatePost(postId, updater),
+  });
 
   useEffect(() => {
     getCurrentUser();
@@ -97,10 +162,19 @@ export default function Home() {
       )
       .subscribe();
 
+    // 詳細画面など他の画面での編集・削除も読み込み済みのフィードに反映する
+    const unsubscribePostEvents = subscribePostEvents(event => {
+      trendingRankingRef.current = applyPostEvent(trendingRankingRef.current, event);
+      [allPager, followingPager, categoryPager, trendingPager].forEach(pager =>
+        pager.updatePosts(prevPosts => applyPostEvent(prevPosts, event))
+      );
+    });
+
     return () => {
       likesSubscription.unsubscribe();
       sharesSubscription.unsubscribe();
       followsSubscription.unsubscribe();
+      unsubscribePostEvents();
     };
   }, []);
 
@@ -127,156 +201,158 @@ export default function Home() {
     }
   };
 
-  const fetchAllData = async () => {
-    await Promise.all([
-      fetchPosts(),
-      fetchTrendingPosts(),
-      fetchUserInteractions(),
-    ]);
-    setInitialLoading(false);
+  const applyViewerFlags = (posts: FeedPost[]) => {
+    reactions.mergeViewerReactions(posts);
+    setUserBookmarkedPosts(prev => mergeViewerFlags(prev, posts, 'is_bookmarked'));
   };
 
-  const onRefresh = async () => {
-    setRefreshing(true);
-    await fetchAllData();
-    setRefreshing(false);
+  const fetchPosts = async (cursor: { before?: FeedCursor | null; after?: FeedCursor | null }) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    const result = await fetchFeedPosts({ viewerId: user?.id, limit: PAGE_SIZE, ...cursor });
+    if (result.data) {
+      applyViewerFlags(result.data);
+    }
+    return result;
   };
 
-  const fetchPosts = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('posts')
-        .select(`
-          *,
-          profiles (
-            name,
-            avatar_url,
-            complex_level
-          ),
-          post_complexes (
-            category
-          )
-        `)
-        .order('created_at', { ascending: false });
+  // フォロー中フィードはフォロー中のユーザーと自分の投稿だけをサーバー側で絞り込む
+  const fetchFollowingPosts = async (cursor: { before?: FeedCursor | null; after?: FeedCursor | null }) => {
+    const { data: { user } } = await supabase.auth.getUser();
 
-      if (error) {
-        console.error('投稿取得エラー:', error);
-        return;
-      }
+    if (!user) {
+      return ok<Post[]>([]);
+    }
 
-      if (!data) {
-        setAllPosts([]);
-        return;
-      }
+    const { data: followingIds, error } = await fetchFollowingIds(user.id);
 
-      const postsWithCounts = await Promise.all(
-        data.map(async (post) => {
-          const { count: likesCount } = await supabase
-            .from('likes')
-            .select('*', { count: 'exact', head: true })
-            .eq('post_id', post.id);
-
-          const { count: sharesCount } = await supabase
-            .from('shares')
-            .select('*', { count: 'exact', head: true })
-            .eq('post_id', post.id);
-
-          const { count: repliesCount } = await supabase
-            .from('replies')
-            .select('*', { count: 'exact', head: true })
-            .eq('post_id', post.id);
-
-          return {
-            ...post,
-            likes_count: likesCount || 0,
-            shares_count: sharesCount || 0,
-            replies_count: repliesCount || 0,
-            is_following: false,
-          };
-        })
-      );
+    if (error) {
+      return fail<Post[]>(error);
+    }
 
-      setAllPosts(postsWithCounts);
-    } catch (error) {
-      console.error('予期しないエラー:', error);
+    const result = await fetchFeedPosts({
+      viewerId: user.id,
+      userIds: [user.id, ...followingIds],
+      limit: PAGE_SIZE,
+      ...cursor,
+    });
+    if (result.data) {
+      applyViewerFlags(result.data);
     }
+    return result;
   };
 
-  const fetchTrendingPosts = async () => {
-    try {
-      let daysAgo = 7;
-      if (timeRange === 'day') daysAgo = 1;
-      if (timeRange === 'month') daysAgo = 30;
-
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - daysAgo);
-
-      const { data: postsData, error } = await supabase
-        .from('posts')
-        .select(`
-          *,
-          profiles (
-            name,
-            avatar_url,
-            complex_level
-          ),
-          post_complexes (
-            category
-          )
-        `)
-        .gte('created_at', cutoffDate.toISOString())
-        .order('created_at', { ascending: false });
+  // カテゴリフィードはフォロー中のコンプレックスカテゴリが付いた投稿をサーバー側で絞り込む
+  const fetchCategoryPosts = async (cursor: { before?: FeedCursor | null; after?: FeedCursor | null }) => {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return ok<Post[]>([]);
+    }
+
+    const { data: categories, error } = await fetchFollowedCategories(user.id);
+
+    if (error) {
+      return fail<Post[]>(error);
+    }
+
+    const result = await fetchFeedPosts({
+      viewerId: user.id,
+      categories,
+      limit: PAGE_SIZE,
+      ...cursor,
+    });
+    if (result.data) {
+      applyViewerFlags(result.data);
+    }
+    return result;
+  };
+
+  // トレンドは期間内の投稿を一度ランク付けし、ページごとに切り出す
+  const fetchTrendingPage = async ({ offset, pageSize }: PageRequest<Post>) => {
+    if (offset === 0) {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data: ranking, error } = await fetchTrendingPosts({
+        viewerId: user?.id,
+        timeRange,
+        limit: TRENDING_MAX_POSTS,
+      });
 
       if (error) {
-        console.error('投稿取得エラー:', error);
-        return;
+        return fail<Post[]>(error);
       }
 
-      if (!postsData) {
-        setTrendingPosts([]);
-        return;
-      }
+      trendingRankingRef.current = ranking;
+      applyViewerFlags(ranking);
+    }
 
-      const postsWithEngagement = await Promise.all(
-        postsData.map(async (post) => {
-          const { count: likesCount } = await supabase
-            .from('likes')
-            .select('*', { count: 'exact', head: true })
-            .eq('post_id', post.id);
-
-          const { count: sharesCount } = await supabase
-            .from('shares')
-            .select('*', { count: 'exact', head: true })
-            .eq('post_id', post.id);
-
-          const { count: repliesCount } = await supabase
-            .from('replies')
-            .select('*', { count: 'exact', head: true })
-            .eq('post_id', post.id);
-
-          const engagement_score = 
-            (likesCount || 0) * 3 + 
-            (repliesCount || 0) * 2 + 
-            (sharesCount || 0) * 5;
-
-          return {
-            ...post,
-            likes_count: likesCount || 0,
-            shares_count: sharesCount || 0,
-            replies_count: repliesCount || 0,
-            engagement_score,
-          };
-        })
-      );
+    return ok(trendingRankingRef.current.slice(offset, offset + pageSize));
+  };
 
-      const sorted = postsWithEngagement
-        .sort((a, b) => b.engagement_score! - a.engagement_score!)
-        .slice(0, 20);
+  const allPager = usePostPager<Post>({
+    pageSize: PAGE_SIZE,
+    loadPage: ({ last }) => fetchPosts({ before: last }),
+    loadNewer: first => fetchPosts({ after: first }),
+  });
+
+  const followingPager = usePostPager<Post>({
+    pageSize: PAGE_SIZE,
+    loadPage: ({ last }) => fetchFollowingPosts({ before: last }),
+    loadNewer: first => fetchFollowingPosts({ after: first }),
+  });
+
+  const categoryPager = usePostPager<Post>({
+    pageSize: PAGE_SIZE,
+    loadPage: ({ last }) => fetchCategoryPosts({ before: last }),
+    loadNewer: first => fetchCategoryPosts({ after: first }),
+  });
+
+  const trendingPager = usePostPager<Post>({
+    pageSize: PAGE_SIZE,
+    loadPage: fetchTrendingPage,
+  });
+
+  const activePager =
+    feedType === 'trending' ? trendingPager :
+    feedType === 'following' ? followingPager :
+    feedType === 'categories' ? categoryPager :
+    allPager;
 
-      setTrendingPosts(sorted);
-    } catch (error) {
-      console.error('予期しないエラー:', error);
+  useEffect(() => {
+    // フォロー関係は変わりやすいため、フォロー中・カテゴリフィードは切り替えのたびに読み直す
+    if (!activePager.loaded || feedType === 'following' || feedType === 'categories') {
+      activePager.reset();
     }
+  }, [feedType]);
+
+  useEffect(() => {
+    if (trendingPager.loaded) {
+      trendingPager.reset();
+    }
+  }, [timeRange]);
+
+  const fetchAllData = async () => {
+    await Promise.all([
+      allPager.reset(),
+      fetchUserInteractions(),
+    ]);
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([
+      activePager.refresh(),
+      fetchUserInteractions(),
+    ]);
+    setRefreshing(false);
+  };
+
+  // 読み込み済みのすべてのフィードで同じ投稿を更新する
+  const updatePost = (postId: string, updater: (post: Post) => Post) => {
+    [allPager, followingPager, categoryPager, trendingPager].forEach(pager =>
+      pager.updatePosts(prevPosts =>
+        prevPosts.map(post => (post.id === postId ? updater(post) : post))
+      )
+    );
   };
 
   const fetchUserInteractions = async () => {
@@ -285,61 +361,77 @@ export default function Home() {
 
       if (!user) return;
 
-      const { data: likedData } = await supabase
-        .from('likes')
-        .select('post_id')
-        .eq('user_id', user.id);
-
-      const { data: sharedData } = await supabase
-        .from('shares')
-        .select('post_id')
-        .eq('user_id', user.id);
-
-      const { data: bookmarkedData } = await supabase
-        .from('bookmarks')
-        .select('post_id')
-        .eq('user_id', user.id);
-
-      const { data: followingData } = await supabase
-        .from('follows')
-        .select('following_id')
-        .eq('follower_id', user.id);
-
-      const { data: blockedData } = await supabase
-        .from('blocks')
-        .select('blocked_id')
-        .eq('blocker_id', user.id);
-
-      if (likedData) {
-        setUserLikedPosts(new Set(likedData.map(like => like.post_id)));
-      }
+      const following = await fetchFollowingIds(user.id);
 
-      if (sharedData) {
-        setUserSharedPosts(new Set(sharedData.map(share => share.post_id)));
+      if (following.error) {
+        console.error('フォロー取得エラー:', following.error);
+      } else {
+        setFollowingUsers(new Set(following.data));
       }
+    } catch (error) {
+      console.error('予期しないエラー:', error);
+    }
+  };
 
-      if (bookmarkedData) {
-        setUserBookmarkedPosts(new Set(bookmarkedData.map(b => b.post_id)));
-      }
+  // 選択時に縮小・再圧縮し、アップロード前に位置情報などのメタデータを取り除く
+  const pickPostImages = async () => {
+    const remaining = MAX_POST_IMAGES - postImages.length;
 
-      if (followingData) {
-        setFollowingUsers(new Set(followingData.map(follow => follow.following_id)));
-      }
+    if (remaining <= 0) {
+      Alert.alert('エラー', `画像は${MAX_POST_IMAGES}枚までです`);
+      return;
+    }
+
+    const result = await launchImageLibrary({
+      mediaType: 'photo',
+      selectionLimit: remaining,
+      maxWidth: POST_IMAGE_MAX_SIZE,
+      maxHeight: POST_IMAGE_MAX_SIZE,
+      quality: POST_IMAGE_QUALITY,
+    });
+
+    if (result.didCancel) {
+      return;
+    }
+
+    if (result.errorCode || !result.assets) {
+      Alert.alert('エラー', '画像の選択に失敗しました');
+      return;
+    }
+
+    setPreparingImages(true);
+
+    try {
+      const prepared = await Promise.all(result.assets.slice(0, remaining).map(prepareImage));
+      const failed = prepared.find(item => item.error);
 
-      if (blockedData) {
-        setBlockedUsers(new Set(blockedData.map(b => b.blocked_id)));
+      if (failed?.error) {
+        console.error('画像読み込みエラー:', failed.error);
+        Alert.alert('エラー', failed.error.message);
       }
-    } catch (error) {
-      console.error('予期しないエラー:', error);
+
+      const images = prepared.flatMap(item => (item.data ? [item.data] : []));
+      setPostImages(prev => [...prev, ...images].slice(0, MAX_POST_IMAGES));
+    } finally {
+      setPreparingImages(false);
     }
   };
 
+  const removePostImage = (index: number) => {
+    setPostImages(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handlePost = async () => {
-    if (!postContent.trim()) {
+    if (!postContent.trim() && postImages.length === 0) {
       Alert.alert('エラー', '投稿内容を入力してください');
       return;
     }
 
+    const { proceed, match } = await crisisCheck.check(postContent);
+    if (!proceed) {
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -351,45 +443,51 @@ export default function Home() {
         return;
       }
 
-      const { data: postData, error: postError } = await supabase
-        .from('posts')
-        .insert([
-          {
-            content: postContent,
-            user_id: user.id,
-          },
-        ])
-        .select()
-        .single();
-
-      if (postError || !postData) {
-        Alert.alert('投稿エラー', postError?.message || '投稿に失敗しました');
+      const { data: created, error: postError } = await createPost({
+        userId: user.id,
+        content: postContent,
+        categories: Array.from(selectedComplexes),
+        images: postImages,
+        anonymous: postAnonymous,
+        contentWarning: contentWarningEnabled
+          ? contentWarning.trim() || DEFAULT_CONTENT_WARNING
+          : null,
+      });
+
+      if (postError) {
+        Alert.alert('投稿エラー', postError.message);
         setLoading(false);
         return;
       }
 
-      if (selectedComplexes.size > 0) {
-        const complexesToInsert = Array.from(selectedComplexes).map(category => ({
-          post_id: postData.id,
-          category: category,
-        }));
-
-        const { error: complexError } = await supabase
-          .from('post_complexes')
-          .insert(complexesToInsert);
+      if (match) {
+        const { error: flagError } = await flagCrisisContent({
+          contentType: 'post',
+          contentId: created.id,
+          userId: user.id,
+          match,
+        });
 
-        if (complexError) {
-          console.error('コンプレックス保存エラー:', complexError);
+        if (flagError) {
+          console.error('モデレーション登録エラー:', flagError);
         }
       }
 
       setPostContent('');
+      setPostImages([]);
+      setPostAnonymous(false);
+      setContentWarningEnabled(false);
+      setContentWarning('');
       setSelectedComplexes(new Set());
       setModalVisible(false);
       Alert.alert('成功', '投稿しました');
       
-      // 投稿後はデータを再取得
-      await fetchAllData();
+      // 投稿後は新着分だけを取得
+      await Promise.all(
+        [allPager, followingPager, categoryPager]
+          .filter(pager => pager.loaded)
+          .map(pager => pager.refresh())
+      );
     } catch (error) {
       Alert.alert('エラー', '予期しないエラーが発生しました');
     } finally {
@@ -409,166 +507,6 @@ export default function Home() {
     });
   };
 
-  const handleLike = async (postId: string) => {
-    if (!currentUserId) {
-      Alert.alert('エラー', 'ログインが必要です');
-      return;
-    }
-
-    if (userLikedPosts.has(postId)) {
-      return;
-    }
-
-    setUserLikedPosts(prev => new Set([...prev, postId]));
-    
-    // UIを即座に更新
-    setAllPosts(prevPosts => 
-      prevPosts.map(post => 
-        post.id === postId 
-          ? { 
-              ...post, 
-              likes_count: post.likes_count + 1,
-              engagement_score: post.engagement_score ? post.engagement_score + 3 : undefined
-            }
-          : post
-      )
-    );
-    
-    setTrendingPosts(prevPosts => 
-      prevPosts.map(post => 
-        post.id === postId 
-          ? { 
-              ...post, 
-              likes_count: post.likes_count + 1,
-              engagement_score: post.engagement_score ? post.engagement_score + 3 : undefined
-            }
-          : post
-      )
-    );
-
-    try {
-      const { error } = await supabase
-        .from('likes')
-        .insert({ post_id: postId, user_id: currentUserId });
-
-      if (error) {
-        // エラー時はロールバック
-        setUserLikedPosts(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(postId);
-          return newSet;
-        });
-        
-        setAllPosts(prevPosts => 
-          prevPosts.map(post => 
-            post.id === postId 
-              ? { 
-                  ...post, 
-                  likes_count: post.likes_count - 1,
-                  engagement_score: post.engagement_score ? post.engagement_score - 3 : undefined
-                }
-              : post
-          )
-        );
-        
-        setTrendingPosts(prevPosts => 
-          prevPosts.map(post => 
-            post.id === postId 
-              ? { 
-                  ...post, 
-                  likes_count: post.likes_count - 1,
-                  engagement_score: post.engagement_score ? post.engagement_score - 3 : undefined
-                }
-              : post
-          )
-        );
-        
-        console.error('いいねエラー:', error);
-      }
-    } catch (error) {
-      console.error('いいねエラー:', error);
-    }
-  };
-
-  const handleShare = async (postId: string) => {
-    if (!currentUserId) {
-      Alert.alert('エラー', 'ログインが必要です');
-      return;
-    }
-
-    if (userSharedPosts.has(postId)) {
-      return;
-    }
-
-    setUserSharedPosts(prev => new Set([...prev, postId]));
-    
-    setAllPosts(prevPosts => 
-      prevPosts.map(post => 
-        post.id === postId 
-          ? { 
-              ...post, 
-              shares_count: post.shares_count + 1,
-              engagement_score: post.engagement_score ? post.engagement_score + 5 : undefined
-            }
-          : post
-      )
-    );
-    
-    setTrendingPosts(prevPosts => 
-      prevPosts.map(post => 
-        post.id === postId 
-          ? { 
-              ...post, 
-              shares_count: post.shares_count + 1,
-              engagement_score: post.engagement_score ? post.engagement_score + 5 : undefined
-            }
-          : post
-      )
-    );
-
-    try {
-      const { error } = await supabase
-        .from('shares')
-        .insert({ post_id: postId, user_id: currentUserId });
-
-      if (error) {
-        setUserSharedPosts(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(postId);
-          return newSet;
-        });
-        
-        setAllPosts(prevPosts => 
-          prevPosts.map(post => 
-            post.id === postId 
-              ? { 
-                  ...post, 
-                  shares_count: post.shares_count - 1,
-                  engagement_score: post.engagement_score ? post.engagement_score - 5 : undefined
-                }
-              : post
-          )
-        );
-        
-        setTrendingPosts(prevPosts => 
-          prevPosts.map(post => 
-            post.id === postId 
-              ? { 
-                  ...post, 
-                  shares_count: post.shares_count - 1,
-                  engagement_score: post.engagement_score ? post.engagement_score - 5 : undefined
-                }
-              : post
-          )
-        );
-        
-        console.error('共有エラー:', error);
-      }
-    } catch (error) {
-      console.error('共有エラー:', error);
-    }
-  };
-
   const handleBookmark = async (postId: string) => {
     if (!currentUserId) {
       Alert.alert('エラー', 'ログインが必要です');
@@ -585,11 +523,7 @@ export default function Home() {
       });
 
       try {
-        const { error } = await supabase
-          .from('bookmarks')
-          .delete()
-          .eq('post_id', postId)
-          .eq('user_id', currentUserId);
+        const { error } = await removeBookmark(postId, currentUserId);
 
         if (error) {
           setUserBookmarkedPosts(prev => new Set([...prev, postId]));
@@ -603,9 +537,7 @@ export default function Home() {
       setUserBookmarkedPosts(prev => new Set([...prev, postId]));
 
       try {
-        const { error } = await supabase
-          .from('bookmarks')
-          .insert({ post_id: postId, user_id: currentUserId });
+        const { error } = await addBookmark(postId, currentUserId);
 
         if (error) {
           setUserBookmarkedPosts(prev => {
@@ -650,20 +582,14 @@ export default function Home() {
 
     try {
       if (isFollowing) {
-        const { error } = await supabase
-          .from('follows')
-          .delete()
-          .eq('follower_id', currentUserId)
-          .eq('following_id', userId);
+        const { error } = await unfollowUser(currentUserId, userId);
 
         if (error) {
           setFollowingUsers(prev => new Set([...prev, userId]));
           console.error('アンフォローエラー:', error);
         }
       } else {
-        const { error } = await supabase
-          .from('follows')
-          .insert({ follower_id: currentUserId, following_id: userId });
+        const { error } = await followUser(currentUserId, userId);
 
         if (error) {
           setFollowingUsers(prev => {
@@ -672,6 +598,10 @@ export default function Home() {
             return newSet;
           });
           console.error('フォローエラー:', error);
+
+          if (error.code === BLOCKED_ERROR_CODE) {
+            Alert.alert('フォローできません', error.message);
+          }
         }
       }
     } catch (error) {
@@ -704,16 +634,13 @@ export default function Home() {
           style: 'destructive',
           onPress: async () => {
             try {
-              const { error } = await supabase
-                .from('blocks')
-                .insert({ blocker_id: currentUserId, blocked_id: userId });
+              const { error } = await blockUser(userId);
 
               if (error) {
                 Alert.alert('エラー', 'ブロックに失敗しました');
                 return;
               }
 
-              setBlockedUsers(prev => new Set([...prev, userId]));
               Alert.alert('完了', 'ユーザーをブロックしました');
               
               // ブロック後はデータを再取得
@@ -727,131 +654,187 @@ export default function Home() {
     );
   };
 
-  const getLevelColor = (level: number) => {
-    if (level <= 20) return '#4CAF50';
-    if (level <= 40) return '#8BC34A';
-    if (level <= 60) return '#FFC107';
-    if (level <= 80) return '#FF9800';
-    return '#F44336';
-  };
+  const handleMute = async (userId: string) => {
+    if (!currentUserId) {
+      Alert.alert('エラー', 'ログインが必要です');
+      return;
+    }
 
-  const getRankColor = (index: number) => {
-    if (index === 0) return '#FFD700';
-    if (index === 1) return '#C0C0C0';
-    if (index === 2) return '#CD7F32';
-    return '#1DA1F2';
-  };
+    Alert.alert(
+      'ユーザーをミュート',
+      'このユーザーの投稿や通知が表示されなくなります。相手に知らされることはなく、フォロー関係もそのままです。',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: 'ミュート',
+          onPress: async () => {
+            try {
+              const { error } = await muteUser(currentUserId, userId);
 
-  const openReplyModal = (post: Post) => {
-    setSelectedPost(post);
-    setReplyModalVisible(true);
+              if (error && !isUniqueViolation(error)) {
+                console.error('ミュートエラー:', error);
+                Alert.alert('エラー', 'ミュートに失敗しました');
+              }
+            } catch (error) {
+              Alert.alert('エラー', '予期しないエラーが発生しました');
+            }
+          }
+        }
+      ]
+    );
   };
 
-  const handleReply = async () => {
-    if (!replyContent.trim() || !selectedPost) {
-      Alert.alert('エラー', 'リプライ内容を入力してください');
-      return;
-    }
+  const handleEditPost = async (content: string) => {
+    if (!currentUserId || !editingPost) return false;
 
-    if (!currentUserId) {
-      Alert.alert('エラー', 'ログインが必要です');
-      return;
+    const { proceed, match } = await editCrisisCheck.check(content);
+    if (!proceed) {
+      return false;
     }
 
-    setPostingReply(true);
-
     try {
-      const { error } = await supabase
-        .from('replies')
-        .insert([
-          {
-            post_id: selectedPost.id,
-            user_id: currentUserId,
-            content: replyContent,
-          },
-        ]);
+      const { error } = await editPost({
+        postId: editingPost.id,
+        userId: currentUserId,
+        content,
+      });
 
       if (error) {
-        Alert.alert('リプライエラー', error.message);
-        setPostingReply(false);
-        return;
+        console.error('投稿編集エラー:', error);
+        Alert.alert('エラー', '投稿の編集に失敗しました');
+        return false;
       }
 
-      setReplyContent('');
-      setReplyModalVisible(false);
-      Alert.alert('成功', 'リプライしました');
-      
-      // UIを即座に更新
-      setAllPosts(prevPosts =>
-        prevPosts.map(post =>
-          post.id === selectedPost.id
-            ? { 
-                ...post, 
-                replies_count: post.replies_count + 1,
-                engagement_score: post.engagement_score ? post.engagement_score + 2 : undefined
-              }
-            : post
-        )
-      );
-      
-      setTrendingPosts(prevPosts =>
-        prevPosts.map(post =>
-          post.id === selectedPost.id
-            ? { 
-                ...post, 
-                replies_count: post.replies_count + 1,
-                engagement_score: post.engagement_score ? post.engagement_score + 2 : undefined
-              }
-            : post
-        )
-      );
+      if (match) {
+        const { error: flagError } = await flagCrisisContent({
+          contentType: 'post',
+          contentId: editingPost.id,
+          userId: currentUserId,
+          match,
+        });
+
+        if (flagError) {
+          console.error('モデレーション登録エラー:', flagError);
+        }
+      }
+
+      return true;
     } catch (error) {
       Alert.alert('エラー', '予期しないエラーが発生しました');
-    } finally {
-      setPostingReply(false);
+      return false;
     }
   };
 
+  const handleDeletePost = (postId: string) => {
+    if (!currentUserId) {
+      Alert.alert('エラー', 'ログインが必要です');
+      return;
+    }
+
+    Alert.alert(
+      '投稿を削除',
+      'この投稿を削除しますか?いいね・共有・ブックマーク・リプライもすべて削除されます。',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '削除',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const { error } = await deletePost(postId, currentUserId);
+
+              if (error) {
+                console.error('投稿削除エラー:', error);
+                Alert.alert('エラー', '投稿の削除に失敗しました');
+              }
+            } catch (error) {
+              Alert.alert('エラー', '予期しないエラーが発生しました');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const getLevelColor = (level: number) => {
+    if (level <= 20) return '#4CAF50';
+    if (level <= 40) return '#8BC34A';
+    if (level <= 60) return '#FFC107';
+    if (level <= 80) return '#FF9800';
+    return '#F44336';
+  };
+
+  const getRankColor = (index: number) => {
+    if (index === 0) return '#FFD700';
+    if (index === 1) return '#C0C0C0';
+    if (index === 2) return '#CD7F32';
+    return '#1DA1F2';
+  };
+
+  // 詳細画面で変わった件数を一覧に反映する
+  const handleDetailPostChange = (detailPost: FeedPost) => {
+    updatePost(detailPost.id, post => ({
+      ...post,
+      replies_count: detailPost.replies_count,
+      engagement_score: post.engagement_score !== undefined
+        ? post.engagement_score +
+          (detailPost.replies_count - post.replies_count) * DEFAULT_TRENDING_WEIGHTS.replies
+        : undefined,
+    }));
+  };
+
   const renderPost = ({ item, index }: { item: Post; index?: number }) => {
-    const isLiked = userLikedPosts.has(item.id);
-    const isShared = userSharedPosts.has(item.id);
+    const viewerReaction = reactions.viewerReactions.get(item.id) || null;
+    const isLiked = viewerReaction !== null;
+    const isShared = reactions.shared.has(item.id);
     const isBookmarked = userBookmarkedPosts.has(item.id);
-    const isFollowing = followingUsers.has(item.user_id);
-    const isOwnPost = currentUserId === item.user_id;
+    // 他人の匿名投稿では投稿者の ID が返ってこない
+    const authorId = item.user_id;
+    const isFollowing = !!authorId && followingUsers.has(authorId);
+    const isOwnPost = currentUserId === authorId;
     const isTopThree = feedType === 'trending' && index !== undefined && index < 3;
 
     return (
-      <View style={[styles.postCard, { backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5' }]}>
-        {isTopThree && (
-          <View style={[styles.rankBadge, { backgroundColor: getRankColor(index!) }]}>
-            <Text style={styles.rankText}>{index! + 1}</Text>
-          </View>
-        )}
-
-        <View style={styles.postHeader}>
-          <View style={styles.userInfo}>
-            {item.profiles?.avatar_url ? (
-              <Image source={{ uri: item.profiles.avatar_url }} style={styles.avatar} />
-            ) : (
-              <View style={[styles.avatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
-                <Image 
-                  source={require('../../assets/icon/profile.png')}
-                  style={[styles.avatarPlaceholderText, { tintColor: isDarkMode ? '#fff' : '#666' }]}
-                />
-              </View>
-            )}
-            <View style={styles.userDetails}>
-              <Text style={[styles.userName, { color: isDarkMode ? '#fff' : '#000' }]}>
-                {item.profiles?.name || '名前未設定'}
-              </Text>
-              <View style={styles.levelBadge}>
-                <Text style={[styles.levelText, { color: getLevelColor(item.profiles?.complex_level || 0) }]}>
-                  コンプレックスレベル {item.profiles?.complex_level || 0}
+      <MutedWordGate
+        muted={isMuted([item.content, item.content_warning], 'posts')}
+        label={MUTED_WORD_PLACEHOLDERS.posts}>
+        <View style={[styles.postCard, { backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5' }]}>
+          {isTopThree && (
+            <View style={[styles.rankBadge, { backgroundColor: getRankColor(index!) }]}>
+              <Text style={styles.rankText}>{index! + 1}</Text>
+            </View>
+          )}
+
+          <View style={styles.postHeader}>
+            <View style={styles.userInfo}>
+              {item.profiles?.avatar_url ? (
+                <Image source={{ uri: item.profiles.avatar_url }} style={styles.avatar} />
+              ) : (
+                <View style={[styles.avatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
+                  <Image 
+                    source={require('../../assets/icon/profile.png')}
+                    style={[styles.avatarPlaceholderText, { tintColor: isDarkMode ? '#fff' : '#666' }]}
+                  />
+                </View>
+              )}
+              <View style={styles.userDetails}>
+                <Text style={[styles.userName, { color: isDarkMode ? '#fff' : '#000' }]}>
+                  {item.profiles?.name || '名前未設定'}
                 </Text>
+                <View style={styles.levelBadge}>
+                  {item.is_anonymous ? (
+                    <Text style={[styles.levelText, { color: isDarkMode ? '#aaa' : '#666' }]}>
+                      {ANONYMOUS_LABEL}の投稿
+                    </Text>
+                  ) : (
+                    <Text style={[styles.levelText, { color: getLevelColor(item.profiles?.complex_level || 0) }]}>
+                      コンプレックスレベル {item.profiles?.complex_level || 0}
+                    </Text>
+                  )}
+                </View>
               </View>
-            </View>
-            {!isOwnPost && (
-              <>
+              {/* 匿名投稿ではフォロー・ブロックで投稿者が分かってしまうため出さない */}
+              {!isOwnPost && authorId && (
                 <TouchableOpacity
                   style={[
                     styles.followButton,
@@ -860,167 +843,179 @@ export default function Home() {
                   ]}
                   onPress={(e) => {
                     e.stopPropagation();
-                    handleFollow(item.user_id);
+                    handleFollow(authorId);
                   }}>
                   <Text style={[styles.followButtonText, isFollowing && { color: isDarkMode ? '#fff' : '#000' }]}>
                     {isFollowing ? 'フォロー中' : 'フォロー'}
                   </Text>
                 </TouchableOpacity>
-                <TouchableOpacity
-                  style={styles.menuButton}
-                  onPress={(e) => {
-                    e.stopPropagation();
+              )}
+              {cardActions.hasMenu(item) && (
+                <PostCardMenuButton onPress={() => cardActions.openMenu(item)} />
+              )}
+              {isOwnPost && (
+                <PostCardMenuButton
+                  onPress={() => {
                     Alert.alert(
                       'メニュー',
                       '',
                       [
                         { text: 'キャンセル', style: 'cancel' },
                         {
-                          text: 'ブロック',
+                          text: '編集',
+                          onPress: () => setEditingPost(item)
+                        },
+                        {
+                          text: '削除',
                           style: 'destructive',
-                          onPress: () => handleBlock(item.user_id)
+                          onPress: () => handleDeletePost(item.id)
                         }
                       ]
                     );
+                  }}
+                />
+              )}
+            </View>
+            <Text style={styles.postTime}>
+              {getTimeAgo(item.created_at)}{item.edited_at ? '・編集済み' : ''}
+            </Text>
+          </View>
+
+          {item.post_complexes && item.post_complexes.length > 0 && (
+            <View style={styles.postComplexesContainer}>
+              {item.post_complexes.map((complex, idx) => (
+                <TouchableOpacity
+                  key={idx}
+                  style={[styles.complexChip, { backgroundColor: isDarkMode ? '#0a2a3a' : '#e3f2fd' }]}
+                  onPress={(e) => {
+                    e.stopPropagation();
+                    setSelectedCategory(complex.category);
                   }}>
-                  <Image
-                    source={require('../../assets/icon/setting.png')}
-                    style={[styles.menuIcon, { tintColor: isDarkMode ? '#fff' : '#666' }]}
-                  />
+                  <Text style={styles.complexChipIcon}>{getCategoryIcon(complex.category)}</Text>
+                  <Text style={[styles.complexChipText, { color: isDarkMode ? '#fff' : '#000' }]}>
+                    {getCategoryLabel(complex.category)}
+                  </Text>
                 </TouchableOpacity>
-              </>
-            )}
-          </View>
-          <Text style={styles.postTime}>
-            {getTimeAgo(item.created_at)}
-          </Text>
-        </View>
+              ))}
+            </View>
+          )}
 
-        {item.post_complexes && item.post_complexes.length > 0 && (
-          <View style={styles.postComplexesContainer}>
-            {item.post_complexes.map((complex, idx) => (
-              <View key={idx} style={[styles.complexChip, { backgroundColor: isDarkMode ? '#0a2a3a' : '#e3f2fd' }]}>
-                <Text style={styles.complexChipIcon}>{getCategoryIcon(complex.category)}</Text>
-                <Text style={[styles.complexChipText, { color: isDarkMode ? '#fff' : '#000' }]}>
-                  {getCategoryLabel(complex.category)}
-                </Text>
-              </View>
-            ))}
-          </View>
-        )}
+          <ContentWarningGate reasons={getContentWarningReasons(item, collapsedCategories)}>
+            <TouchableOpacity activeOpacity={0.7} onPress={() => setDetailPostId(item.id)}>
+              <Text style={[styles.postContent, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.content}
+              </Text>
+            </TouchableOpacity>
 
-        <Text style={[styles.postContent, { color: isDarkMode ? '#fff' : '#000' }]}>
-          {item.content}
-        </Text>
+            <PostMediaGrid media={item.post_media} />
+          </ContentWarningGate>
 
-        {feedType === 'trending' && item.engagement_score !== undefined && (
-          <View style={styles.engagementContainer}>
-            <View style={styles.engagementScore}>
-              <Text style={[styles.engagementScoreText, { color: '#1DA1F2' }]}>
-                🔥 エンゲージメント: {item.engagement_score}
-              </Text>
+          {feedType === 'trending' && item.engagement_score !== undefined && (
+            <View style={styles.engagementContainer}>
+              <View style={styles.engagementScore}>
+                <Text style={[styles.engagementScoreText, { color: '#1DA1F2' }]}>
+                  🔥 エンゲージメント: {item.engagement_score}
+                </Text>
+              </View>
             </View>
-          </View>
-        )}
+          )}
         
-        <View style={styles.actionsContainer}>
-          <TouchableOpacity 
-            style={[styles.actionButton, isLiked && styles.actionButtonActive]}
-            onPress={(e) => {
-              e.stopPropagation();
-              handleLike(item.id);
-            }}
-            disabled={isLiked}>
-            <Image 
-              source={require('../../assets/icon/heart.png')}
-              style={[
-                styles.actionIcon, 
-                isLiked && styles.actionIconActive,
-                { tintColor: isLiked ? '#e91e63' : (isDarkMode ? '#fff' : '#666') }
-              ]}
-            />
-            <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
-              {item.likes_count}
-            </Text>
-          </TouchableOpacity>
-
-          <TouchableOpacity 
-            style={styles.actionButton}
-            onPress={(e) => {
-              e.stopPropagation();
-              openReplyModal(item);
-            }}>
-            <Image 
-              source={require('../../assets/icon/comment.png')}
-              style={[
-                styles.actionIcon,
-                { tintColor: isDarkMode ? '#fff' : '#666' }
-              ]}
-            />
-            <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
-              {item.replies_count}
-            </Text>
-          </TouchableOpacity>
-
-          <TouchableOpacity 
-            style={[styles.actionButton, isShared && styles.actionButtonActive]}
-            onPress={(e) => {
-              e.stopPropagation();
-              handleShare(item.id);
-            }}
-            disabled={isShared}>
-            <Image 
-              source={require('../../assets/icon/post.png')}
-              style={[
-                styles.actionIcon, 
-                isShared && styles.actionIconActive,
-                { tintColor: isShared ? '#1DA1F2' : (isDarkMode ? '#fff' : '#666') }
-              ]}
-            />
-            <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
-              {item.shares_count}
-            </Text>
-          </TouchableOpacity>
-
-          <TouchableOpacity 
-            style={[styles.actionButton, isBookmarked && styles.actionButtonActive]}
-            onPress={(e) => {
-              e.stopPropagation();
-              handleBookmark(item.id);
-            }}>
-            <Image 
-              source={require('../../assets/icon/book.png')}
-              style={[
-                styles.actionIcon, 
-                isBookmarked && styles.actionIconActive,
-                { tintColor: isBookmarked ? '#1DA1F2' : (isDarkMode ? '#fff' : '#666') }
-              ]}
-            />
-          </TouchableOpacity>
+          <ReactionSummary counts={item.reaction_counts} />
+
+          <View style={styles.actionsContainer}>
+            <TouchableOpacity 
+              style={[styles.actionButton, isLiked && styles.actionButtonActive]}
+              onPress={(e) => {
+                e.stopPropagation();
+                reactions.toggleReaction(item.id);
+              }}
+              onLongPress={() => reactions.openPicker(item.id)}>
+              {viewerReaction && viewerReaction !== 'like' ? (
+                <Text style={styles.reactionIcon}>{getReactionIcon(viewerReaction)}</Text>
+              ) : (
+                <Image 
+                  source={require('../../assets/icon/heart.png')}
+                  style={[
+                    styles.actionIcon, 
+                    isLiked && styles.actionIconActive,
+                    { tintColor: isLiked ? '#e91e63' : (isDarkMode ? '#fff' : '#666') }
+                  ]}
+                />
+              )}
+              <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.likes_count}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.actionButton}
+              onPress={(e) => {
+                e.stopPropagation();
+                setDetailPostId(item.id);
+              }}>
+              <Image 
+                source={require('../../assets/icon/comment.png')}
+                style={[
+                  styles.actionIcon,
+                  { tintColor: isDarkMode ? '#fff' : '#666' }
+                ]}
+              />
+              <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.replies_count}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={[styles.actionButton, isShared && styles.actionButtonActive]}
+              onPress={(e) => {
+                e.stopPropagation();
+                reactions.toggleShare(item.id);
+              }}>
+              <Image 
+                source={require('../../assets/icon/post.png')}
+                style={[
+                  styles.actionIcon, 
+                  isShared && styles.actionIconActive,
+                  { tintColor: isShared ? '#1DA1F2' : (isDarkMode ? '#fff' : '#666') }
+                ]}
+              />
+              <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.shares_count}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={[styles.actionButton, isBookmarked && styles.actionButtonActive]}
+              onPress={(e) => {
+                e.stopPropagation();
+                handleBookmark(item.id);
+              }}>
+              <Image 
+                source={require('../../assets/icon/book.png')}
+                style={[
+                  styles.actionIcon, 
+                  isBookmarked && styles.actionIconActive,
+                  { tintColor: isBookmarked ? '#1DA1F2' : (isDarkMode ? '#fff' : '#666') }
+                ]}
+              />
+            </TouchableOpacity>
+          </View>
         </View>
-      </View>
+      </MutedWordGate>
     );
   };
 
   const getDisplayPosts = () => {
-    let postsToDisplay = feedType === 'trending' ? trendingPosts : allPosts;
-    
-    // ブロックユーザーをフィルタリング
-    postsToDisplay = postsToDisplay.filter(post => !blockedUsers.has(post.user_id));
-    
-    // フォロー中フィードのフィルタリング
-    if (feedType === 'following') {
-      postsToDisplay = postsToDisplay.filter(post => 
-        followingUsers.has(post.user_id) || post.user_id === currentUserId
-      );
-    }
-    
-    return postsToDisplay;
+    // ブロック・ミュートしたユーザーと、通報して非表示にした投稿・ユーザーをフィルタリング
+    return filterHiddenPosts(
+      activePager.posts.filter(post => !post.user_id || !hiddenUserIds.has(post.user_id)),
+      hiddenTargets
+    );
   };
 
   const displayPosts = getDisplayPosts();
 
-  if (initialLoading) {
+  if (!allPager.loaded) {
     return (
       <View style={styles.container}>
         <View style={styles.content}>
@@ -1065,6 +1060,22 @@ export default function Home() {
           </Text>
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={[
+            styles.toggleButton,
+            feedType === 'categories' && styles.toggleButtonActive,
+            feedType === 'categories' && { borderBottomColor: '#1DA1F2' }
+          ]}
+          onPress={() => setFeedType('categories')}>
+          <Text style={[
+            styles.toggleButtonText,
+            { color: isDarkMode ? '#fff' : '#000' },
+            feedType === 'categories' && styles.toggleButtonTextActive
+          ]}>
+            カテゴリ
+          </Text>
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={[
             styles.toggleButton,
@@ -1090,10 +1101,7 @@ export default function Home() {
               timeRange === 'day' && styles.timeRangeButtonActive,
               timeRange === 'day' && { borderBottomColor: '#1DA1F2' }
             ]}
-            onPress={() => {
-              setTimeRange('day');
-              onRefresh();
-            }}>
+            onPress={() => setTimeRange('day')}>
             <Text style={[
               styles.timeRangeButtonText,
               { color: isDarkMode ? '#fff' : '#000' },
@@ -1109,10 +1117,7 @@ export default function Home() {
               timeRange === 'week' && styles.timeRangeButtonActive,
               timeRange === 'week' && { borderBottomColor: '#1DA1F2' }
             ]}
-            onPress={() => {
-              setTimeRange('week');
-              onRefresh();
-            }}>
+            onPress={() => setTimeRange('week')}>
             <Text style={[
               styles.timeRangeButtonText,
               { color: isDarkMode ? '#fff' : '#000' },
@@ -1128,10 +1133,7 @@ export default function Home() {
               timeRange === 'month' && styles.timeRangeButtonActive,
               timeRange === 'month' && { borderBottomColor: '#1DA1F2' }
             ]}
-            onPress={() => {
-              setTimeRange('month');
-              onRefresh();
-            }}>
+            onPress={() => setTimeRange('month')}>
             <Text style={[
               styles.timeRangeButtonText,
               { color: isDarkMode ? '#fff' : '#000' },
@@ -1143,10 +1145,15 @@ export default function Home() {
         </View>
       )}
 
-      {displayPosts.length === 0 ? (
+      {!activePager.loaded ? (
+        <View style={styles.content}>
+          <ActivityIndicator size="large" color="#1DA1F2" />
+        </View>
+      ) : displayPosts.length === 0 ? (
         <View style={styles.content}>
           <Text style={[styles.emptyText, { color: isDarkMode ? '#fff' : '#000' }]}>
             {feedType === 'following' ? 'フォロー中のユーザーの投稿がありません' : 
+             feedType === 'categories' ? 'フォロー中のカテゴリの投稿がありません' : 
              feedType === 'trending' ? 'トレンド投稿がありません' : 
              'まだ投稿がありません'}
           </Text>
@@ -1157,6 +1164,18 @@ export default function Home() {
           renderItem={renderPost}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.postList}
+          onEndReached={activePager.loadMore}
+          onEndReachedThreshold={0.5}
+          ListHeaderComponent={
+            feedType === 'trending' ? (
+              <TrendingTopics timeRange={timeRange} onSelectCategory={setSelectedCategory} />
+            ) : null
+          }
+          ListFooterComponent={
+            activePager.loadingMore ? (
+              <ActivityIndicator style={styles.listFooter} color="#1DA1F2" />
+            ) : null
+          }
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
@@ -1177,6 +1196,27 @@ export default function Home() {
         />
       </TouchableOpacity>
 
+      <Modal
+        animationType="slide"
+        visible={selectedCategory !== null}
+        onRequestClose={() => setSelectedCategory(null)}>
+        <SafeAreaView style={[styles.container, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}>
+          {selectedCategory && (
+            <CategoryComponents
+              category={selectedCategory}
+              initialTab={feedType === 'trending' ? 'top' : 'latest'}
+              initialTimeRange={timeRange}
+              onClose={() => setSelectedCategory(null)}
+              onFollowChange={() => {
+                if (categoryPager.loaded) {
+                  categoryPager.reset();
+                }
+              }}
+            />
+          )}
+        </SafeAreaView>
+      </Modal>
+
       <Modal
         animationType="slide"
         transparent={true}
@@ -1191,9 +1231,9 @@ export default function Home() {
                 </Text>
               </TouchableOpacity>
               <TouchableOpacity
-                style={[styles.postButton, loading && styles.postButtonDisabled]}
+                style={[styles.postButton, (loading || preparingImages) && styles.postButtonDisabled]}
                 onPress={handlePost}
-                disabled={loading}>
+                disabled={loading || preparingImages}>
                 {loading ? (
                   <ActivityIndicator color="#fff" size="small" />
                 ) : (
@@ -1216,6 +1256,63 @@ export default function Home() {
               editable={!loading}
             />
 
+            {postImages.length > 0 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                <View style={styles.attachmentsContainer}>
+                  {postImages.map((image, index) => (
+                    <View key={image.uri} style={styles.attachment}>
+                      <Image source={{ uri: image.uri }} style={styles.attachmentImage} />
+                      <TouchableOpacity
+                        style={styles.attachmentRemoveButton}
+                        onPress={() => removePostImage(index)}
+                        disabled={loading}>
+                        <Text style={styles.attachmentRemoveText}>✕</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              </ScrollView>
+            )}
+
+            <TouchableOpacity
+              style={styles.addImageButton}
+              onPress={pickPostImages}
+              disabled={loading || preparingImages || postImages.length >= MAX_POST_IMAGES}>
+              {preparingImages ? (
+                <ActivityIndicator color="#1DA1F2" size="small" />
+              ) : (
+                <Text
+                  style={[
+                    styles.addImageText,
+                    postImages.length >= MAX_POST_IMAGES && styles.addImageTextDisabled
+                  ]}>
+                  🖼 画像を追加({postImages.length}/{MAX_POST_IMAGES})
+                </Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.optionToggle}
+              onPress={() => setPostAnonymous(prev => !prev)}
+              disabled={loading}>
+              <View
+                style={[
+                  styles.optionCheckbox,
+                  { borderColor: postAnonymous ? '#1DA1F2' : (isDarkMode ? '#555' : '#ccc') },
+                  postAnonymous && styles.optionCheckboxChecked
+                ]}>
+                {postAnonymous && <Text style={styles.optionCheckmark}>✓</Text>}
+              </View>
+              <View style={styles.optionTextContainer}>
+                <Text style={[styles.optionTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
+                  {ANONYMOUS_LABEL}で投稿する
+                </Text>
+                <Text style={styles.optionDescription}>
+                  名前とアイコンの代わりに、この投稿だけの仮名で表示されます
+                </Text>
+              </View>
+            </TouchableOpacity>
+
             <View style={styles.complexSelectionContainer}>
               <Text style={[styles.complexSelectionTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
                 コンプレックスカテゴリ(任意)
@@ -1253,77 +1350,87 @@ export default function Home() {
                 </View>
               </ScrollView>
             </View>
+
+            <TouchableOpacity
+              style={styles.optionToggle}
+              onPress={() => setContentWarningEnabled(prev => !prev)}
+              disabled={loading}>
+              <View
+                style={[
+                  styles.optionCheckbox,
+                  { borderColor: contentWarningEnabled ? '#1DA1F2' : (isDarkMode ? '#555' : '#ccc') },
+                  contentWarningEnabled && styles.optionCheckboxChecked
+                ]}>
+                {contentWarningEnabled && <Text style={styles.optionCheckmark}>✓</Text>}
+              </View>
+              <View style={styles.optionTextContainer}>
+                <Text style={[styles.optionTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
+                  注意書きを付ける
+                </Text>
+                <Text style={styles.optionDescription}>
+                  {!contentWarningEnabled &&
+                  SENSITIVE_CATEGORY_KEYS.some(key => selectedComplexes.has(key))
+                    ? '重くなりやすいカテゴリです。読む人のために注意書きをおすすめします'
+                    : '本文と画像は「表示する」をタップするまで折りたたまれます'}
+                </Text>
+              </View>
+            </TouchableOpacity>
+
+            {contentWarningEnabled && (
+              <TextInput
+                style={[
+                  styles.contentWarningInput,
+                  {
+                    color: isDarkMode ? '#fff' : '#000',
+                    borderColor: isDarkMode ? '#333' : '#ddd',
+                  }
+                ]}
+                placeholder={`例: 病気の話を含みます(空欄なら「${DEFAULT_CONTENT_WARNING}」)`}
+                placeholderTextColor={isDarkMode ? '#888' : '#999'}
+                value={contentWarning}
+                onChangeText={setContentWarning}
+                maxLength={CONTENT_WARNING_MAX_LENGTH}
+                editable={!loading}
+              />
+            )}
           </View>
         </View>
+
+        <CrisisSupportModal {...crisisCheck.modalProps} />
       </Modal>
 
+      <EditContentModal
+        visible={editingPost !== null}
+        title="投稿を編集"
+        initialContent={editingPost?.content || ''}
+        onClose={() => setEditingPost(null)}
+        onSave={handleEditPost}>
+        <CrisisSupportModal {...editCrisisCheck.modalProps} />
+      </EditContentModal>
+
+      <PostCardActions {...cardActions.modalProps} />
+
       <Modal
         animationType="slide"
-        transparent={true}
-        visible={replyModalVisible}
-        onRequestClose={() => setReplyModalVisible(false)}>
-        <TouchableOpacity 
-          style={styles.replyModalOverlay}
-          activeOpacity={1}
-          onPress={() => setReplyModalVisible(false)}>
-          <TouchableOpacity 
-            style={[styles.replyModalContent, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}
-            activeOpacity={1}
-            onPress={(e) => e.stopPropagation()}>
-            {selectedPost && (
-              <>
-                <View style={[styles.originalPost, { backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5' }]}>
-                  <View style={styles.originalPostHeader}>
-                    {selectedPost.profiles?.avatar_url ? (
-                      <Image source={{ uri: selectedPost.profiles.avatar_url }} style={styles.smallAvatar} />
-                    ) : (
-                      <View style={[styles.smallAvatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
-                        <Text style={styles.smallAvatarPlaceholderText}>👤</Text>
-                      </View>
-                    )}
-                    <Text style={[styles.originalPostUser, { color: isDarkMode ? '#fff' : '#000' }]}>
-                      {selectedPost.profiles?.name || '名前未設定'}
-                    </Text>
-                  </View>
-                  <Text style={[styles.originalPostContent, { color: isDarkMode ? '#fff' : '#000' }]}>
-                    {selectedPost.content}
-                  </Text>
-                </View>
-
-                <View style={styles.replyInputContainer}>
-                  <TextInput
-                    style={[
-                      styles.replyInput,
-                      { 
-                        color: isDarkMode ? '#fff' : '#000',
-                        backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5',
-                        borderColor: isDarkMode ? '#333' : '#ddd'
-                      }
-                    ]}
-                    placeholder="リプライを入力..."
-                    placeholderTextColor={isDarkMode ? '#888' : '#999'}
-                    value={replyContent}
-                    onChangeText={setReplyContent}
-                    multiline
-                    autoFocus
-                    editable={!postingReply}
-                  />
-                  <TouchableOpacity
-                    style={[styles.replyButton, postingReply && styles.replyButtonDisabled]}
-                    onPress={handleReply}
-                    disabled={postingReply}>
-                    {postingReply ? (
-                      <ActivityIndicator color="#fff" size="small" />
-                    ) : (
-                      <Text style={styles.replyButtonText}>送信</Text>
-                    )}
-                  </TouchableOpacity>
-                </View>
-              </>
-            )}
-          </TouchableOpacity>
-        </TouchableOpacity>
+        visible={detailPostId !== null}
+        onRequestClose={() => setDetailPostId(null)}>
+        <SafeAreaView style={[styles.container, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}>
+          {detailPostId && (
+            <PostDetailComponents
+              postId={detailPostId}
+              onClose={() => setDetailPostId(null)}
+              onPostChange={handleDetailPostChange}
+            />
+          )}
+        </SafeAreaView>
       </Modal>
+
+      <ReactionPicker
+        visible={reactions.pickerPostId !== null}
+        selected={reactions.pickerPostId ? reactions.viewerReactions.get(reactions.pickerPostId) || null : null}
+        onSelect={type => reactions.pickerPostId && reactions.react(reactions.pickerPostId, type)}
+        onClose={reactions.closePicker}
+      />
     </View>
   );
 }
@@ -1391,6 +1498,9 @@ const styles = StyleSheet.create({
   postList: {
     padding: 8,
   },
+  listFooter: {
+    paddingVertical: 16,
+  },
   postCard: {
     padding: 12,
     borderRadius: 8,
@@ -1524,6 +1634,9 @@ const styles = StyleSheet.create({
     transform: [{ scale: 1.1 }],
     tintColor: '#1DA1F2',
   },
+  reactionIcon: {
+    fontSize: 15,
+  },
   actionCount: {
     fontSize: 12,
     fontWeight: '600',
@@ -1577,6 +1690,92 @@ const styles = StyleSheet.create({
     minWidth: 70,
     alignItems: 'center',
   },
+  attachmentsContainer: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  attachment: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  attachmentImage: {
+    width: '100%',
+    height: '100%',
+  },
+  attachmentRemoveButton: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  attachmentRemoveText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  addImageButton: {
+    paddingVertical: 8,
+    marginBottom: 12,
+    alignSelf: 'flex-start',
+  },
+  addImageText: {
+    color: '#1DA1F2',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  addImageTextDisabled: {
+    opacity: 0.4,
+  },
+  optionToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  optionCheckbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 10,
+  },
+  optionCheckboxChecked: {
+    backgroundColor: '#1DA1F2',
+  },
+  optionCheckmark: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  optionTextContainer: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  contentWarningInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    marginBottom: 12,
+  },
   postButtonDisabled: {
     opacity: 0.6,
   },
@@ -1604,14 +1803,6 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '600',
   },
-  menuButton: {
-    padding: 4,
-    marginLeft: 4,
-  },
-  menuIcon: {
-    width: 20,
-    height: 20,
-  },
   complexSelectionContainer: {
     marginTop: 10,
   },
@@ -1641,79 +1832,4 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
-  replyModalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-    justifyContent: 'flex-end',
-  },
-  replyModalContent: {
-    borderTopLeftRadius: 20,
-    borderTopRightRadius: 20,
-    padding: 20,
-    maxHeight: '60%',
-  },
-  originalPost: {
-    padding: 12,
-    borderRadius: 8,
-    marginBottom: 15,
-  },
-  originalPostHeader: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  originalPostUser: {
-    fontSize: 14,
-    fontWeight: '700',
-    marginLeft: 8,
-  },
-  originalPostContent: {
-    fontSize: 14,
-    lineHeight: 20,
-    marginLeft: 38,
-  },
-  smallAvatar: {
-    width: 30,
-    height: 30,
-    borderRadius: 15,
-  },
-  smallAvatarPlaceholder: {
-    width: 30,
-    height: 30,
-    borderRadius: 15,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  smallAvatarPlaceholderText: {
-    fontSize: 14,
-  },
-  replyInputContainer: {
-    flexDirection: 'row',
-    alignItems: 'flex-end',
-    gap: 10,
-  },
-  replyInput: {
-    flex: 1,
-    minHeight: 40,
-    maxHeight: 100,
-    fontSize: 15,
-    paddingVertical: 8,
-    paddingHorizontal: 12,
-    borderWidth: 1,
-    borderRadius: 20,
-  },
-  replyButton: {
-    backgroundColor: '#1DA1F2',
-    paddingHorizontal: 20,
-    paddingVertical: 10,
-    borderRadius: 20,
-  },
-  replyButtonDisabled: {
-    opacity: 0.6,
-  },
-  replyButtonText: {
-    color: '#fff',
-    fontSize: 14,
-    fontWeight: '600',
-  },
 });
\ No newline at end of file
@@ -8,133 +8,91 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Image,
-  Alert,
+  Modal,
+  SafeAreaView,
 } from 'react-native';
 import { supabase } from '../supabaseClient';
+import { ANONYMOUS_LABEL } from '../constants/anonymous';
 import { COMPLEX_CATEGORIES, getCategoryLabel, getCategoryIcon } from '../constants/complexCategories';
-
-interface Post {
-  id: string;
-  content: string;
-  created_at: string;
-  user_id: string;
-  profiles: {
-    name: string | null;
-    avatar_url: string | null;
-    complex_level: number;
-  };
-  likes_count: number;
-  shares_count: number;
-  replies_count: number;
-  engagement_score: number;
-  post_complexes?: Array<{ category: string }>;
-}
+import { getReactionIcon } from '../constants/reactions';
+import { MUTED_WORD_PLACEHOLDERS } from '../constants/mutedWords';
+import { FeedPost } from '../data/posts';
+import { applyPostEvent, subscribePostEvents } from '../data/postEvents';
+import { getContentWarningReasons } from '../data/contentWarnings';
+import { useCollapsedCategories } from '../data/useCollapsedCategories';
+import { useMutedWords } from '../data/useMutedWords';
+import { filterHiddenPosts } from '../data/reports';
+import { useBlockedAndMutedUsers } from '../data/useBlockedAndMutedUsers';
+import { useHiddenTargets } from '../data/useHiddenTargets';
+import { useReactions } from '../data/useReactions';
+import { DEFAULT_TRENDING_WEIGHTS, TimeRange, TrendingPost, fetchTrendingPosts } from '../data/trending';
+import TrendingTopics from './TrendingTopicsComponents';
+import CategoryComponents from '../Category/CategoryComponents';
+import PostDetailComponents from '../Post/PostDetailComponents';
+import ReactionPicker from '../Post/ReactionPicker';
+import ContentWarningGate from '../Post/ContentWarningGate';
+import MutedWordGate from '../Post/MutedWordGate';
+import PostMediaGrid from '../Post/PostMediaGrid';
+import ReactionSummary from '../Post/ReactionSummary';
+import PostCardActions, { PostCardMenuButton, usePostCardActions } from '../Post/PostCardActions';
+
+type Post = TrendingPost;
 
 function TrendingComponents() {
   const isDarkMode = useColorScheme() === 'dark';
   const [trendingPosts, setTrendingPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const [userLikedPosts, setUserLikedPosts] = useState<Set<string>>(new Set());
-  const [timeRange, setTimeRange] = useState<'day' | 'week' | 'month'>('week');
+  const collapsedCategories = useCollapsedCategories(currentUserId);
+  const { isMuted } = useMutedWords(currentUserId);
+  const hiddenTargets = useHiddenTargets(currentUserId);
+  const { hiddenUserIds } = useBlockedAndMutedUsers(currentUserId);
+  const cardActions = usePostCardActions(currentUserId);
+  const [timeRange, setTimeRange] = useState<TimeRange>('week');
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [detailPostId, setDetailPostId] = useState<string | null>(null);
+  const reactions = useReactions<Post>({
+    userId: currentUserId,
+    updatePost: (postId, updater) =>
+      setTrendingPosts(prevPosts =>
+        prevPosts.map(post => (post.id === postId ? updater(post) : post))
+      ),
+  });
 
   useEffect(() => {
     getCurrentUser();
-    fetchTrendingPosts();
+    loadTrendingPosts();
   }, [timeRange]);
 
+  useEffect(() => {
+    return subscribePostEvents(event => {
+      setTrendingPosts(prevPosts => applyPostEvent(prevPosts, event));
+    });
+  }, []);
+
   const getCurrentUser = async () => {
     const { data: { user } } = await supabase.auth.getUser();
     if (user) {
       setCurrentUserId(user.id);
-      fetchUserLikes(user.id);
     }
   };
 
-  const fetchUserLikes = async (userId: string) => {
-    const { data: likedData } = await supabase
-      .from('likes')
-      .select('post_id')
-      .eq('user_id', userId);
-
-    if (likedData) {
-      setUserLikedPosts(new Set(likedData.map(like => like.post_id)));
-    }
-  };
-
-  const fetchTrendingPosts = async () => {
+  const loadTrendingPosts = async () => {
     setLoading(true);
     try {
-      let daysAgo = 7;
-      if (timeRange === 'day') daysAgo = 1;
-      if (timeRange === 'month') daysAgo = 30;
-
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - daysAgo);
-
-      const { data: postsData, error } = await supabase
-        .from('posts')
-        .select(`
-          *,
-          profiles (
-            name,
-            avatar_url,
-            complex_level
-          ),
-          post_complexes (
-            category
-          )
-        `)
-        .gte('created_at', cutoffDate.toISOString())
-        .order('created_at', { ascending: false });
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data: ranking, error } = await fetchTrendingPosts({
+        viewerId: user?.id,
+        timeRange,
+      });
 
       if (error) {
         console.error('投稿取得エラー:', error);
         return;
       }
 
-      if (!postsData) {
-        setTrendingPosts([]);
-        return;
-      }
-
-      const postsWithEngagement = await Promise.all(
-        postsData.map(async (post) => {
-          const { count: likesCount } = await supabase
-            .from('likes')
-            .select('*', { count: 'exact', head: true })
-            .eq('post_id', post.id);
-
-          const { count: sharesCount } = await supabase
-            .from('shares')
-            .select('*', { count: 'exact', head: true })
-            .eq('post_id', post.id);
-
-          const { count: repliesCount } = await supabase
-            .from('replies')
-            .select('*', { count: 'exact', head: true })
-            .eq('post_id', post.id);
-
-          const engagement_score = 
-            (likesCount || 0) * 3 + 
-            (repliesCount || 0) * 2 + 
-            (sharesCount || 0) * 5;
-
-          return {
-            ...post,
-            likes_count: likesCount || 0,
-            shares_count: sharesCount || 0,
-            replies_count: repliesCount || 0,
-            engagement_score,
-          };
-        })
-      );
-
-      const sorted = postsWithEngagement
-        .sort((a, b) => b.engagement_score - a.engagement_score)
-        .slice(0, 20);
-
-      setTrendingPosts(sorted);
+      setTrendingPosts(ranking);
+      reactions.mergeViewerReactions(ranking);
     } catch (error) {
       console.error('予期しないエラー:', error);
     } finally {
@@ -142,56 +100,20 @@ function TrendingComponents() {
     }
   };
 
-  const handleLike = async (postId: string) => {
-    if (!currentUserId) {
-      Alert.alert('エラー', 'ログインが必要です');
-      return;
-    }
-
-    if (userLikedPosts.has(postId)) {
-      return;
-    }
-
-    setUserLikedPosts(prev => new Set([...prev, postId]));
-    setTrendingPosts(prevPosts => 
-      prevPosts.map(post => 
-        post.id === postId 
-          ? { 
-              ...post, 
-              likes_count: post.likes_count + 1,
-              engagement_score: post.engagement_score + 3
+  // 詳細画面で変わった件数を一覧に反映する
+  const handleDetailPostChange = (detailPost: FeedPost) => {
+    setTrendingPosts(prevPosts =>
+      prevPosts.map(post =>
+        post.id === detailPost.id
+          ? {
+              ...post,
+              replies_count: detailPost.replies_count,
+              engagement_score: post.engagement_score +
+                (detailPost.replies_count - post.replies_count) * DEFAULT_TRENDING_WEIGHTS.replies
             }
           : post
       )
     );
-
-    try {
-      const { error } = await supabase
-        .from('likes')
-        .insert({ post_id: postId, user_id: currentUserId });
-
-      if (error) {
-        setUserLikedPosts(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(postId);
-          return newSet;
-        });
-        setTrendingPosts(prevPosts => 
-          prevPosts.map(post => 
-            post.id === postId 
-              ? { 
-                  ...post, 
-                  likes_count: post.likes_count - 1,
-                  engagement_score: post.engagement_score - 3
-                }
-              : post
-          )
-        );
-        console.error('いいねエラー:', error);
-      }
-    } catch (error) {
-      console.error('いいねエラー:', error);
-    }
   };
 
   const getTimeAgo = (timestamp: string) => {
@@ -219,106 +141,134 @@ function TrendingComponents() {
   };
 
   const renderPost = ({ item, index }: { item: Post; index: number }) => {
-    const isLiked = userLikedPosts.has(item.id);
+    const viewerReaction = reactions.viewerReactions.get(item.id) || null;
+    const isLiked = viewerReaction !== null;
     const isTopThree = index < 3;
 
     return (
-      <View style={[styles.postCard, { backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5' }]}>
-        {isTopThree && (
-          <View style={[styles.rankBadge, { backgroundColor: getRankColor(index) }]}>
-            <Text style={styles.rankText}>{index + 1}</Text>
-          </View>
-        )}
-
-        <View style={styles.postHeader}>
-          <View style={styles.userInfo}>
-            {item.profiles?.avatar_url ? (
-              <Image source={{ uri: item.profiles.avatar_url }} style={styles.avatar} />
-            ) : (
-              <View style={[styles.avatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
-                <Text style={styles.avatarPlaceholderText}>👤</Text>
-              </View>
-            )}
-            <View style={styles.userDetails}>
-              <Text style={[styles.userName, { color: isDarkMode ? '#fff' : '#000' }]}>
-                {item.profiles?.name || '名前未設定'}
-              </Text>
-              <View style={styles.levelBadge}>
-                <Text style={[styles.levelText, { color: getLevelColor(item.profiles?.complex_level || 0) }]}>
-                  コンプレックスレベル {item.profiles?.complex_level || 0}
+      <MutedWordGate
+        muted={isMuted([item.content, item.content_warning], 'posts')}
+        label={MUTED_WORD_PLACEHOLDERS.posts}>
+        <View style={[styles.postCard, { backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5' }]}>
+          {isTopThree && (
+            <View style={[styles.rankBadge, { backgroundColor: getRankColor(index) }]}>
+              <Text style={styles.rankText}>{index + 1}</Text>
+            </View>
+          )}
+
+          <View style={styles.postHeader}>
+            <View style={styles.userInfo}>
+              {item.profiles?.avatar_url ? (
+                <Image source={{ uri: item.profiles.avatar_url }} style={styles.avatar} />
+              ) : (
+                <View style={[styles.avatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
+                  <Text style={styles.avatarPlaceholderText}>👤</Text>
+                </View>
+              )}
+              <View style={styles.userDetails}>
+                <Text style={[styles.userName, { color: isDarkMode ? '#fff' : '#000' }]}>
+                  {item.profiles?.name || '名前未設定'}
                 </Text>
+                <View style={styles.levelBadge}>
+                  {item.is_anonymous ? (
+                    <Text style={[styles.levelText, { color: isDarkMode ? '#aaa' : '#666' }]}>
+                      {ANONYMOUS_LABEL}の投稿
+                    </Text>
+                  ) : (
+                    <Text style={[styles.levelText, { color: getLevelColor(item.profiles?.complex_level || 0) }]}>
+                      コンプレックスレベル {item.profiles?.complex_level || 0}
+                    </Text>
+                  )}
+                </View>
               </View>
+              {cardActions.hasMenu(item) && (
+                <PostCardMenuButton onPress={() => cardActions.openMenu(item)} />
+              )}
             </View>
+            <Text style={styles.postTime}>
+              {getTimeAgo(item.created_at)}{item.edited_at ? '・編集済み' : ''}
+            </Text>
           </View>
-          <Text style={styles.postTime}>
-            {getTimeAgo(item.created_at)}
-          </Text>
-        </View>
 
-        {item.post_complexes && item.post_complexes.length > 0 && (
-          <View style={styles.postComplexesContainer}>
-            {item.post_complexes.map((complex, idx) => (
-              <View key={idx} style={[styles.complexChip, { backgroundColor: isDarkMode ? '#0a2a3a' : '#e3f2fd' }]}>
-                <Text style={styles.complexChipIcon}>{getCategoryIcon(complex.category)}</Text>
-                <Text style={[styles.complexChipText, { color: isDarkMode ? '#fff' : '#000' }]}>
-                  {getCategoryLabel(complex.category)}
-                </Text>
-              </View>
-            ))}
-          </View>
-        )}
+          {item.post_complexes && item.post_complexes.length > 0 && (
+            <View style={styles.postComplexesContainer}>
+              {item.post_complexes.map((complex, idx) => (
+                <View key={idx} style={[styles.complexChip, { backgroundColor: isDarkMode ? '#0a2a3a' : '#e3f2fd' }]}>
+                  <Text style={styles.complexChipIcon}>{getCategoryIcon(complex.category)}</Text>
+                  <Text style={[styles.complexChipText, { color: isDarkMode ? '#fff' : '#000' }]}>
+                    {getCategoryLabel(complex.category)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
 
-        <Text style={[styles.postContent, { color: isDarkMode ? '#fff' : '#000' }]}>
-          {item.content}
-        </Text>
+          <ContentWarningGate reasons={getContentWarningReasons(item, collapsedCategories)}>
+            <TouchableOpacity activeOpacity={0.7} onPress={() => setDetailPostId(item.id)}>
+              <Text style={[styles.postContent, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.content}
+              </Text>
+            </TouchableOpacity>
 
-        <View style={styles.engagementContainer}>
-          <View style={styles.engagementScore}>
-            <Text style={[styles.engagementScoreText, { color: '#1DA1F2' }]}>
-              🔥 エンゲージメント: {item.engagement_score}
-            </Text>
+            <PostMediaGrid media={item.post_media} />
+          </ContentWarningGate>
+
+          <View style={styles.engagementContainer}>
+            <View style={styles.engagementScore}>
+              <Text style={[styles.engagementScoreText, { color: '#1DA1F2' }]}>
+                🔥 エンゲージメント: {item.engagement_score}
+              </Text>
+            </View>
           </View>
-        </View>
         
-        <View style={styles.actionsContainer}>
-          <TouchableOpacity 
-            style={[styles.actionButton, isLiked && styles.actionButtonActive]}
-            onPress={() => handleLike(item.id)}
-            disabled={isLiked}>
-            <Image 
-              source={require('../../assets/icon/heart.png')}
-              style={[
-                styles.actionIcon, 
-                isLiked && styles.actionIconActive,
-                { tintColor: isLiked ? '#e91e63' : (isDarkMode ? '#fff' : '#666') }
-              ]}
-            />
-            <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
-              {item.likes_count}
-            </Text>
-          </TouchableOpacity>
-
-          <View style={styles.actionButton}>
-            <Image 
-              source={require('../../assets/icon/comment.png')}
-              style={[
-                styles.actionIcon,
-                { tintColor: isDarkMode ? '#fff' : '#666' }
-              ]}
-            />
-            <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
-              {item.replies_count}
-            </Text>
-          </View>
+          <ReactionSummary counts={item.reaction_counts} />
+
+          <View style={styles.actionsContainer}>
+            <TouchableOpacity 
+              style={[styles.actionButton, isLiked && styles.actionButtonActive]}
+              onPress={() => reactions.toggleReaction(item.id)}
+              onLongPress={() => reactions.openPicker(item.id)}>
+              {viewerReaction && viewerReaction !== 'like' ? (
+                <Text style={styles.reactionIcon}>{getReactionIcon(viewerReaction)}</Text>
+              ) : (
+                <Image 
+                  source={require('../../assets/icon/heart.png')}
+                  style={[
+                    styles.actionIcon, 
+                    isLiked && styles.actionIconActive,
+                    { tintColor: isLiked ? '#e91e63' : (isDarkMode ? '#fff' : '#666') }
+                  ]}
+                />
+              )}
+              <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.likes_count}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => setDetailPostId(item.id)}>
+              <Image 
+                source={require('../../assets/icon/comment.png')}
+                style={[
+                  styles.actionIcon,
+                  { tintColor: isDarkMode ? '#fff' : '#666' }
+                ]}
+              />
+              <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.replies_count}
+              </Text>
+            </TouchableOpacity>
 
-          <View style={styles.actionButton}>
-            <Text style={styles.actionIcon}>📤</Text>
-            <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
-              {item.shares_count}
-            </Text>
+            <View style={styles.actionButton}>
+              <Text style={styles.actionIcon}>📤</Text>
+              <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.shares_count}
+              </Text>
+            </View>
           </View>
         </View>
-      </View>
+      </MutedWordGate>
     );
   };
 
@@ -329,6 +279,11 @@ function TrendingComponents() {
     return '#1DA1F2';
   };
 
+  const visiblePosts = filterHiddenPosts(
+    trendingPosts.filter(post => !post.user_id || !hiddenUserIds.has(post.user_id)),
+    hiddenTargets
+  );
+
   if (loading) {
     return (
       <View style={styles.content}>
@@ -395,7 +350,7 @@ function TrendingComponents() {
         </TouchableOpacity>
       </View>
 
-      {trendingPosts.length === 0 ? (
+      {visiblePosts.length === 0 ? (
         <View style={styles.content}>
           <Text style={[styles.emptyText, { color: isDarkMode ? '#fff' : '#000' }]}>
             トレンド投稿がありません
@@ -403,12 +358,55 @@ function TrendingComponents() {
         </View>
       ) : (
         <FlatList
-          data={trendingPosts}
+          data={visiblePosts}
           renderItem={renderPost}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.postList}
+          ListHeaderComponent={
+            <TrendingTopics timeRange={timeRange} onSelectCategory={setSelectedCategory} />
+          }
         />
       )}
+
+      <Modal
+        animationType="slide"
+        visible={selectedCategory !== null}
+        onRequestClose={() => setSelectedCategory(null)}>
+        <SafeAreaView style={[styles.container, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}>
+          {selectedCategory && (
+            <CategoryComponents
+              category={selectedCategory}
+              initialTab="top"
+              initialTimeRange={timeRange}
+              onClose={() => setSelectedCategory(null)}
+            />
+          )}
+        </SafeAreaView>
+      </Modal>
+
+      <Modal
+        animationType="slide"
+        visible={detailPostId !== null}
+        onRequestClose={() => setDetailPostId(null)}>
+        <SafeAreaView style={[styles.container, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}>
+          {detailPostId && (
+            <PostDetailComponents
+              postId={detailPostId}
+              onClose={() => setDetailPostId(null)}
+              onPostChange={handleDetailPostChange}
+            />
+          )}
+        </SafeAreaView>
+      </Modal>
+
+      <ReactionPicker
+        visible={reactions.pickerPostId !== null}
+        selected={reactions.pickerPostId ? reactions.viewerReactions.get(reactions.pickerPostId) || null : null}
+        onSelect={type => reactions.pickerPostId && reactions.react(reactions.pickerPostId, type)}
+        onClose={reactions.closePicker}
+      />
+
+      <PostCardActions {...cardActions.modalProps} />
     </View>
   );
 }
@@ -596,6 +594,9 @@ const styles = StyleSheet.create({
     transform: [{ scale: 1.1 }],
     tintColor: '#1DA1F2',
   },
+  reactionIcon: {
+    fontSize: 15,
+  },
   actionCount: {
     fontSize: 12,
     fontWeight: '600',
@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  useColorScheme,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { getCategoryLabel, getCategoryIcon } from '../constants/complexCategories';
+import { TimeRange, TrendingCategory, fetchTrendingCategories } from '../data/trending';
+
+interface TrendingTopicsProps {
+  timeRange: TimeRange;
+  onSelectCategory: (category: string) => void;
+}
+
+// 期間内に盛り上がっているコンプレックスカテゴリのランキング
+export default function TrendingTopics({ timeRange, onSelectCategory }: TrendingTopicsProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const [topics, setTopics] = useState<TrendingCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchTopics();
+  }, [timeRange]);
+
+  const fetchTopics = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await fetchTrendingCategories({ timeRange });
+
+      if (error) {
+        console.error('トレンドカテゴリ取得エラー:', error);
+        return;
+      }
+
+      setTopics(data);
+    } catch (error) {
+      console.error('予期しないエラー:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getDeltaLabel = (delta: number) => {
+    if (delta > 0) return `▲${delta}`;
+    if (delta < 0) return `▼${Math.abs(delta)}`;
+    return '±0';
+  };
+
+  const getDeltaColor = (delta: number) => {
+    if (delta > 0) return '#4CAF50';
+    if (delta < 0) return '#F44336';
+    return '#888';
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator color="#1DA1F2" />
+      </View>
+    );
+  }
+
+  if (topics.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+      <Text style={[styles.title, { color: isDarkMode ? '#fff' : '#000' }]}>
+        トレンドのトピック
+      </Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.topicList}>
+        {topics.map((topic, index) => (
+          <TouchableOpacity
+            key={topic.category}
+            style={[styles.topicChip, { backgroundColor: isDarkMode ? '#0a2a3a' : '#e3f2fd' }]}
+            onPress={() => onSelectCategory(topic.category)}>
+            <Text style={styles.topicRank}>{index + 1}</Text>
+            <Text style={styles.topicIcon}>{getCategoryIcon(topic.category)}</Text>
+            <View>
+              <Text style={[styles.topicLabel, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {getCategoryLabel(topic.category)}
+              </Text>
+              <View style={styles.topicStats}>
+                <Text style={styles.topicCount}>{topic.post_count}件</Text>
+                <Text style={[styles.topicDelta, { color: getDeltaColor(topic.post_delta) }]}>
+                  {getDeltaLabel(topic.post_delta)}
+                </Text>
+              </View>
+            </View>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    paddingVertical: 16,
+  },
+  container: {
+    paddingTop: 12,
+    paddingBottom: 8,
+    marginBottom: 8,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+    marginBottom: 8,
+    paddingHorizontal: 4,
+  },
+  topicList: {
+    gap: 8,
+    paddingHorizontal: 4,
+  },
+  topicChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    gap: 6,
+  },
+  topicRank: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#1DA1F2',
+  },
+  topicIcon: {
+    fontSize: 18,
+  },
+  topicLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  topicStats: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  topicCount: {
+    fontSize: 11,
+    color: '#888',
+  },
+  topicDelta: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,685 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  useColorScheme,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+} from 'react-native';
+import {
+  ConversationRequestStatus,
+  ConversationSummary,
+  acceptMessageRequest,
+  deleteMessageRequest,
+} from '../data/conversations';
+import { blockUser } from '../data/blocks';
+import { ChatMessage, Message, markConversationRead } from '../data/messages';
+import { flagCrisisContent } from '../data/moderation';
+import { CrisisMatch, classifyCrisis } from '../data/crisisClassifier';
+import { Result } from '../data/result';
+import { useConversationMessages } from '../data/useConversationMessages';
+import { useConversationPresence } from '../data/useConversationPresence';
+import { usePresenceVisibility } from '../data/usePresenceVisibility';
+import { useCrisisCheck } from '../data/useCrisisCheck';
+import { ReportTarget, reportTargetKey } from '../data/reports';
+import { useHiddenTargets } from '../data/useHiddenTargets';
+import CrisisSupportModal from '../Post/CrisisSupportModal';
+import ReportModal from '../Post/ReportModal';
+
+interface ConversationModalProps {
+  // null なら閉じている
+  conversation: ConversationSummary | null;
+  currentUserId: string | null;
+  onClose: () => void;
+  // 既読にした・送信したときに呼ぶ。会話一覧の更新に使う
+  onConversationChange?: () => void;
+}
+
+// 1つの会話のメッセージを表示・送信する。メッセージ画面と、投稿から DM を始めたときに使う
+function ConversationModal({
+  conversation,
+  currentUserId,
+  onClose,
+  onConversationChange,
+}: ConversationModalProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const { messages, loading: loadingMessages, send, retry, discard } =
+    useConversationMessages(conversation?.id || null, currentUserId);
+  const [messageContent, setMessageContent] = useState('');
+  const crisisCheck = useCrisisCheck();
+  const hiddenTargets = useHiddenTargets(currentUserId);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const [requestStatus, setRequestStatus] = useState<ConversationRequestStatus>('accepted');
+  const [handlingRequest, setHandlingRequest] = useState(false);
+  const presenceVisible = usePresenceVisibility(currentUserId);
+  // 承認前のリクエストでは、既読と同じくオンライン状態や入力中も知らせない
+  const sharePresence = presenceVisible && requestStatus === 'accepted';
+  const presence = useConversationPresence(conversation?.id || null, currentUserId, sharePresence);
+  const listRef = useRef<FlatList<ChatMessage>>(null);
+  // 最新のメッセージ付近を見ているときだけ、新着で一番下までスクロールする
+  const isNearBottomRef = useRef(true);
+
+  useEffect(() => {
+    setMessageContent('');
+    isNearBottomRef.current = true;
+  }, [conversation?.id]);
+
+  // 相手が承認したときなど、会話一覧の再取得で状態が変わったら追従する
+  useEffect(() => {
+    setRequestStatus(conversation?.request_status || 'accepted');
+  }, [conversation?.id, conversation?.request_status]);
+
+  // 開いている間に届いた相手のメッセージも既読にする
+  const latestUnreadId = [...messages]
+    .reverse()
+    .find(message => message.sender_id !== currentUserId && !message.is_read)?.id;
+
+  useEffect(() => {
+    if (conversation && latestUnreadId) {
+      markMessagesAsRead(conversation.id);
+    }
+  }, [latestUnreadId]);
+
+  // 相手のメッセージが届いたら入力中の表示を消す
+  const latestIncomingId = [...messages]
+    .reverse()
+    .find(message => message.sender_id !== currentUserId)?.id;
+
+  useEffect(() => {
+    presence.clearOtherTyping();
+  }, [latestIncomingId]);
+
+  const handleChangeMessage = (text: string) => {
+    setMessageContent(text);
+
+    if (text.trim()) {
+      presence.notifyTyping();
+    }
+  };
+
+  const markMessagesAsRead = async (conversationId: string) => {
+    if (!currentUserId) return;
+
+    try {
+      const { error } = await markConversationRead(conversationId, currentUserId);
+
+      if (error) {
+        console.error('既読更新エラー:', error);
+        return;
+      }
+
+      onConversationChange?.();
+    } catch (error) {
+      console.error('既読更新エラー:', error);
+    }
+  };
+
+  const finishDelivery = async (result: Result<Message>, match: CrisisMatch | null) => {
+    if (result.error) {
+      console.error('メッセージ送信エラー:', result.error);
+      Alert.alert('送信エラー', result.error.message);
+      return;
+    }
+
+    if (match && currentUserId) {
+      const { error: flagError } = await flagCrisisContent({
+        contentType: 'message',
+        contentId: result.data.id,
+        userId: currentUserId,
+        match,
+      });
+
+      if (flagError) {
+        console.error('モデレーション登録エラー:', flagError);
+      }
+    }
+
+    onConversationChange?.();
+  };
+
+  const handleSendMessage = async () => {
+    const content = messageContent;
+
+    if (!content.trim() || !conversation || !currentUserId) {
+      return;
+    }
+
+    const { proceed, match } = await crisisCheck.check(content);
+    if (!proceed) {
+      return;
+    }
+
+    // 送信の結果を待たずに入力欄を空け、送信中として表示する
+    setMessageContent('');
+    isNearBottomRef.current = true;
+
+    try {
+      await finishDelivery(await send(content), match);
+    } catch (error) {
+      console.error('予期しないエラー:', error);
+    }
+  };
+
+  const openFailedMessageMenu = (message: ChatMessage) => {
+    Alert.alert(
+      '送信できませんでした',
+      '',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '削除',
+          style: 'destructive',
+          onPress: () => discard(message)
+        },
+        {
+          text: '再送',
+          onPress: async () => {
+            try {
+              // 初回の送信で相談窓口の案内は済んでいるので、判定だけやり直してフラグに使う
+              await finishDelivery(await retry(message), classifyCrisis(message.content));
+            } catch (error) {
+              console.error('予期しないエラー:', error);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+    isNearBottomRef.current =
+      contentSize.height - (contentOffset.y + layoutMeasurement.height) < 80;
+  };
+
+  const scrollToLatest = () => {
+    if (isNearBottomRef.current) {
+      listRef.current?.scrollToEnd({ animated: true });
+    }
+  };
+
+  const handleAcceptRequest = async () => {
+    if (!conversation || !currentUserId) return;
+
+    setHandlingRequest(true);
+
+    try {
+      const { error } = await acceptMessageRequest(conversation.id, currentUserId);
+
+      if (error) {
+        console.error('リクエスト承認エラー:', error);
+        Alert.alert('エラー', 'リクエストの承認に失敗しました');
+        return;
+      }
+
+      setRequestStatus('accepted');
+      await markMessagesAsRead(conversation.id);
+    } catch (error) {
+      Alert.alert('エラー', '予期しないエラーが発生しました');
+    } finally {
+      setHandlingRequest(false);
+    }
+  };
+
+  const handleDeleteRequest = () => {
+    if (!conversation) return;
+
+    Alert.alert(
+      'リクエストを削除',
+      'このリクエストとメッセージを削除しますか?相手には知らされません。',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '削除',
+          style: 'destructive',
+          onPress: async () => {
+            setHandlingRequest(true);
+
+            try {
+              const { error } = await deleteMessageRequest(conversation.id);
+
+              if (error) {
+                console.error('リクエスト削除エラー:', error);
+                Alert.alert('エラー', 'リクエストの削除に失敗しました');
+                return;
+              }
+
+              onConversationChange?.();
+              onClose();
+            } catch (error) {
+              Alert.alert('エラー', '予期しないエラーが発生しました');
+            } finally {
+              setHandlingRequest(false);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleBlockSender = () => {
+    if (!conversation || !currentUserId) return;
+
+    Alert.alert(
+      'ユーザーをブロック',
+      `${conversation.other_user.name || '名前未設定'}さんをブロックしますか?このユーザーからメッセージが届かなくなります。`,
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: 'ブロック',
+          style: 'destructive',
+          onPress: async () => {
+            setHandlingRequest(true);
+
+            try {
+              const { error } = await blockUser(conversation.other_user.id);
+
+              if (error) {
+                Alert.alert('エラー', 'ブロックに失敗しました');
+                return;
+              }
+
+              onConversationChange?.();
+              onClose();
+            } catch (error) {
+              Alert.alert('エラー', '予期しないエラーが発生しました');
+            } finally {
+              setHandlingRequest(false);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const getTimeAgo = (timestamp: string) => {
+    const now = new Date().getTime();
+    const messageTime = new Date(timestamp).getTime();
+    const diffInSeconds = Math.floor((now - messageTime) / 1000);
+
+    if (diffInSeconds < 60) {
+      return `${diffInSeconds}秒前`;
+    } else if (diffInSeconds < 3600) {
+      return `${Math.floor(diffInSeconds / 60)}分前`;
+    } else if (diffInSeconds < 86400) {
+      return `${Math.floor(diffInSeconds / 3600)}時間前`;
+    } else {
+      return `${Math.floor(diffInSeconds / 86400)}日前`;
+    }
+  };
+
+  const getPresenceLabel = () => {
+    if (!conversation || !sharePresence) {
+      return null;
+    }
+
+    if (presence.isOtherTyping) {
+      return '入力中…';
+    }
+
+    if (presence.isOtherOnline) {
+      return 'オンライン';
+    }
+
+    return conversation.other_user.last_seen_at
+      ? `${getTimeAgo(conversation.other_user.last_seen_at)}にオンライン`
+      : null;
+  };
+
+  const presenceLabel = getPresenceLabel();
+
+  const openMessageMenu = (message: Message) => {
+    Alert.alert(
+      'メニュー',
+      '',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: 'メッセージを通報',
+          onPress: () => setReportTarget({ type: 'message', id: message.id })
+        }
+      ]
+    );
+  };
+
+  const renderMessage = ({ item }: { item: ChatMessage }) => {
+    const isOwnMessage = item.sender_id === currentUserId;
+    const isFailed = item.delivery === 'failed';
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.messageContainer,
+          isOwnMessage ? styles.ownMessageContainer : styles.otherMessageContainer
+        ]}
+        activeOpacity={isFailed ? 0.6 : 1}
+        onPress={isFailed ? () => openFailedMessageMenu(item) : undefined}
+        onLongPress={isOwnMessage ? undefined : () => openMessageMenu(item)}>
+        <View
+          style={[
+            styles.messageBubble,
+            isOwnMessage
+              ? [styles.ownMessageBubble, { backgroundColor: '#1DA1F2' }]
+              : [styles.otherMessageBubble, { backgroundColor: isDarkMode ? '#333' : '#e0e0e0' }],
+            item.delivery !== 'sent' && styles.undeliveredMessageBubble
+          ]}>
+          <Text
+            style={[
+              styles.messageText,
+              { color: isOwnMessage ? '#fff' : (isDarkMode ? '#fff' : '#000') }
+            ]}>
+            {item.content}
+          </Text>
+          <Text
+            style={[
+              styles.messageTimestamp,
+              { color: isOwnMessage ? 'rgba(255,255,255,0.7)' : '#888' }
+            ]}>
+            {item.delivery === 'pending' && '送信中…'}
+            {item.delivery === 'sent' && getTimeAgo(item.created_at)}
+            {/* 承認前のリクエストでは既読を見せない */}
+            {isOwnMessage && item.is_read && requestStatus === 'accepted' && ' ・既読'}
+          </Text>
+        </View>
+        {isFailed && (
+          <Text style={styles.failedMessageText}>送信できませんでした。タップして再送</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const visibleMessages = messages.filter(message =>
+    !hiddenTargets.has(reportTargetKey({ type: 'message', id: message.id }))
+  );
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={false}
+      visible={conversation !== null}
+      onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={[styles.messageModalContainer, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        keyboardVerticalOffset={0}>
+        <View style={[styles.messageModalHeader, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={[styles.backButton, { color: '#1DA1F2' }]}>← 戻る</Text>
+          </TouchableOpacity>
+          {conversation && (
+            <View style={styles.messageModalTitleContainer}>
+              <Text style={[styles.messageModalTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {conversation.other_user.name || '名前未設定'}
+              </Text>
+              {presenceLabel && (
+                <Text
+                  style={[
+                    styles.presenceText,
+                    { color: presenceLabel === 'オンライン' || presence.isOtherTyping ? '#4CAF50' : '#888' }
+                  ]}>
+                  {presenceLabel}
+                </Text>
+              )}
+            </View>
+          )}
+          {conversation ? (
+            <TouchableOpacity
+              style={styles.reportButton}
+              onPress={() => setReportTarget({ type: 'user', id: conversation.other_user.id })}>
+              <Text style={styles.reportButtonText}>通報</Text>
+            </TouchableOpacity>
+          ) : (
+            <View style={{ width: 60 }} />
+          )}
+        </View>
+
+        {loadingMessages ? (
+          <View style={styles.content}>
+            <ActivityIndicator size="large" color="#1DA1F2" />
+          </View>
+        ) : (
+          <FlatList
+            ref={listRef}
+            data={visibleMessages}
+            renderItem={renderMessage}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.messagesList}
+            inverted={false}
+            onScroll={handleScroll}
+            scrollEventThrottle={100}
+            onContentSizeChange={scrollToLatest}
+          />
+        )}
+
+        {requestStatus === 'incoming' ? (
+          <View style={[styles.requestContainer, { borderTopColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+            <Text style={[styles.requestText, { color: isDarkMode ? '#aaa' : '#555' }]}>
+              {conversation?.other_user.name || '名前未設定'}さんからのメッセージリクエストです。承認すると返信でき、相手にも既読が表示されます
+            </Text>
+            <View style={styles.requestActions}>
+              <TouchableOpacity
+                style={[styles.requestButton, styles.acceptButton]}
+                onPress={handleAcceptRequest}
+                disabled={handlingRequest}>
+                {handlingRequest ? (
+                  <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                  <Text style={styles.acceptButtonText}>承認</Text>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.requestButton, { borderColor: isDarkMode ? '#555' : '#ccc' }]}
+                onPress={handleDeleteRequest}
+                disabled={handlingRequest}>
+                <Text style={[styles.requestButtonText, { color: isDarkMode ? '#fff' : '#000' }]}>削除</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.requestButton, { borderColor: '#F44336' }]}
+                onPress={handleBlockSender}
+                disabled={handlingRequest}>
+                <Text style={[styles.requestButtonText, { color: '#F44336' }]}>ブロック</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <View style={[styles.messageInputContainer, { borderTopColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+            <TextInput
+              style={[
+                styles.messageInput,
+                {
+                  backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5',
+                  color: isDarkMode ? '#fff' : '#000'
+                }
+              ]}
+              placeholder="メッセージを入力..."
+              placeholderTextColor={isDarkMode ? '#888' : '#999'}
+              value={messageContent}
+              onChangeText={handleChangeMessage}
+              multiline
+              maxLength={500}
+            />
+            <TouchableOpacity
+              style={[
+                styles.sendButton,
+                !messageContent.trim() && styles.sendButtonDisabled
+              ]}
+              onPress={handleSendMessage}
+              disabled={!messageContent.trim()}>
+              <Text style={styles.sendButtonText}>送信</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </KeyboardAvoidingView>
+
+      <CrisisSupportModal {...crisisCheck.modalProps} />
+
+      <ReportModal
+        target={reportTarget}
+        reporterId={currentUserId}
+        onClose={() => setReportTarget(null)}
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  messageModalContainer: {
+    flex: 1,
+  },
+  messageModalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  messageModalTitleContainer: {
+    alignItems: 'center',
+  },
+  messageModalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  presenceText: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  reportButton: {
+    width: 60,
+    alignItems: 'flex-end',
+  },
+  reportButtonText: {
+    color: '#F44336',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  messagesList: {
+    padding: 16,
+  },
+  messageContainer: {
+    marginBottom: 12,
+    maxWidth: '75%',
+  },
+  ownMessageContainer: {
+    alignSelf: 'flex-end',
+  },
+  otherMessageContainer: {
+    alignSelf: 'flex-start',
+  },
+  messageBubble: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  ownMessageBubble: {
+    borderBottomRightRadius: 4,
+  },
+  otherMessageBubble: {
+    borderBottomLeftRadius: 4,
+  },
+  messageText: {
+    fontSize: 15,
+    lineHeight: 20,
+    marginBottom: 4,
+  },
+  messageTimestamp: {
+    fontSize: 11,
+  },
+  undeliveredMessageBubble: {
+    opacity: 0.6,
+  },
+  failedMessageText: {
+    color: '#F44336',
+    fontSize: 11,
+    marginTop: 4,
+    alignSelf: 'flex-end',
+  },
+  messageInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    gap: 8,
+  },
+  messageInput: {
+    flex: 1,
+    minHeight: 40,
+    maxHeight: 100,
+    fontSize: 15,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  sendButton: {
+    backgroundColor: '#1DA1F2',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+  sendButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  requestContainer: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+  },
+  requestText: {
+    fontSize: 13,
+    marginBottom: 10,
+  },
+  requestActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  requestButton: {
+    flex: 1,
+    height: 40,
+    borderWidth: 1,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  requestButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  acceptButton: {
+    backgroundColor: '#1DA1F2',
+    borderColor: '#1DA1F2',
+  },
+  acceptButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default ConversationModal;
@@ -9,76 +9,56 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Image,
-  Modal,
-  TextInput,
-  KeyboardAvoidingView,
-  Platform,
 } from 'react-native';
 import { supabase } from '../supabaseClient';
-
-interface Conversation {
-  id: string;
-  user1_id: string;
-  user2_id: string;
-  updated_at: string;
-  other_user: {
-    id: string;
-    name: string | null;
-    avatar_url: string | null;
-    complex_level: number;
-  };
-  last_message: {
-    content: string;
-    created_at: string;
-    sender_id: string;
-    is_read: boolean;
-  } | null;
-  unread_count: number;
-}
-
-interface Message {
-  id: string;
-  conversation_id: string;
-  sender_id: string;
-  content: string;
-  is_read: boolean;
-  created_at: string;
-}
+import {
+  ConversationSummary,
+  applyInboxConversation,
+  applyInboxMessage,
+  fetchConversations,
+  subscribeInbox,
+} from '../data/conversations';
+import { useBlockedAndMutedUsers } from '../data/useBlockedAndMutedUsers';
+import { usePresenceVisibility } from '../data/usePresenceVisibility';
+import ConversationModal from './ConversationModal';
+
+// main: 通常の受信箱 / requests: フォローしていない人からのメッセージリクエスト
+type InboxTab = 'main' | 'requests';
 
 function MessagesComponents() {
   const isDarkMode = useColorScheme() === 'dark';
-  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [messageModalVisible, setMessageModalVisible] = useState(false);
-  const [messageContent, setMessageContent] = useState('');
-  const [sendingMessage, setSendingMessage] = useState(false);
-  const [loadingMessages, setLoadingMessages] = useState(false);
+  // 一覧を取り直しても開いている会話が最新の内容になるよう、ID で持つ
+  const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
+  const [inboxTab, setInboxTab] = useState<InboxTab>('main');
+  const { blockedIds, mutedIds, blockedByIds } = useBlockedAndMutedUsers(currentUserId);
+  const presenceVisible = usePresenceVisibility(currentUserId);
+
+  const conversationIds = conversations.map(conversation => conversation.id);
+  // 新着で並びが変わるたびに購読し直さないよう、並びによらないキーにする
+  const conversationIdsKey = [...conversationIds].sort().join(',');
 
   useEffect(() => {
     getCurrentUser();
-    fetchConversations();
+    loadConversations();
+  }, []);
 
-    const messagesSubscription = supabase
-      .channel('messages_changes')
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'messages' },
-        () => {
-          fetchConversations();
-          if (selectedConversation) {
-            fetchMessages(selectedConversation.id);
-          }
-        }
-      )
-      .subscribe();
+  // 一覧にある会話の新着だけを受け取り、取り直さずに反映する
+  useEffect(() => {
+    if (!currentUserId) {
+      return;
+    }
 
-    return () => {
-      messagesSubscription.unsubscribe();
-    };
-  }, []);
+    return subscribeInbox(currentUserId, conversationIds, {
+      onConversationCreated: () => loadConversations(),
+      onConversationUpdated: conversation =>
+        setConversations(prev => applyInboxConversation(prev, conversation, currentUserId)),
+      onMessage: message =>
+        setConversations(prev => applyInboxMessage(prev, message, currentUserId)),
+    });
+  }, [currentUserId, conversationIdsKey]);
 
   const getCurrentUser = async () => {
     const { data: { user } } = await supabase.auth.getUser();
@@ -87,7 +67,7 @@ function MessagesComponents() {
     }
   };
 
-  const fetchConversations = async () => {
+  const loadConversations = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
 
@@ -96,62 +76,14 @@ function MessagesComponents() {
         return;
       }
 
-      const { data: conversationsData, error } = await supabase
-        .from('conversations')
-        .select('*')
-        .or(`user1_id.eq.${user.id},user2_id.eq.${user.id}`)
-        .order('updated_at', { ascending: false });
+      const { data, error } = await fetchConversations(user.id);
 
       if (error) {
         console.error('会話取得エラー:', error);
         return;
       }
 
-      if (!conversationsData) {
-        setConversations([]);
-        return;
-      }
-
-      const conversationsWithDetails = await Promise.all(
-        conversationsData.map(async (conv) => {
-          const otherUserId = conv.user1_id === user.id ? conv.user2_id : conv.user1_id;
-
-          const { data: otherUserData } = await supabase
-            .from('profiles')
-            .select('id, name, avatar_url, complex_level')
-            .eq('id', otherUserId)
-            .single();
-
-          const { data: lastMessageData } = await supabase
-            .from('messages')
-            .select('content, created_at, sender_id, is_read')
-            .eq('conversation_id', conv.id)
-            .order('created_at', { ascending: false })
-            .limit(1)
-            .single();
-
-          const { count: unreadCount } = await supabase
-            .from('messages')
-            .select('*', { count: 'exact', head: true })
-            .eq('conversation_id', conv.id)
-            .eq('is_read', false)
-            .neq('sender_id', user.id);
-
-          return {
-            ...conv,
-            other_user: otherUserData || {
-              id: otherUserId,
-              name: null,
-              avatar_url: null,
-              complex_level: 0,
-            },
-            last_message: lastMessageData,
-            unread_count: unreadCount || 0,
-          };
-        })
-      );
-
-      setConversations(conversationsWithDetails);
+      setConversations(data);
     } catch (error) {
       console.error('予期しないエラー:', error);
     } finally {
@@ -159,84 +91,6 @@ function MessagesComponents() {
     }
   };
 
-  const openConversation = async (conversation: Conversation) => {
-    setSelectedConversation(conversation);
-    setMessageModalVisible(true);
-    await fetchMessages(conversation.id);
-    await markMessagesAsRead(conversation.id);
-  };
-
-  const fetchMessages = async (conversationId: string) => {
-    setLoadingMessages(true);
-    try {
-      const { data, error } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('conversation_id', conversationId)
-        .order('created_at', { ascending: true });
-
-      if (error) {
-        console.error('メッセージ取得エラー:', error);
-        return;
-      }
-
-      setMessages(data || []);
-    } catch (error) {
-      console.error('予期しないエラー:', error);
-    } finally {
-      setLoadingMessages(false);
-    }
-  };
-
-  const markMessagesAsRead = async (conversationId: string) => {
-    if (!currentUserId) return;
-
-    try {
-      await supabase
-        .from('messages')
-        .update({ is_read: true })
-        .eq('conversation_id', conversationId)
-        .neq('sender_id', currentUserId)
-        .eq('is_read', false);
-
-      fetchConversations();
-    } catch (error) {
-      console.error('既読更新エラー:', error);
-    }
-  };
-
-  const sendMessage = async () => {
-    if (!messageContent.trim() || !selectedConversation || !currentUserId) {
-      return;
-    }
-
-    setSendingMessage(true);
-
-    try {
-      const { error } = await supabase
-        .from('messages')
-        .insert([
-          {
-            conversation_id: selectedConversation.id,
-            sender_id: currentUserId,
-            content: messageContent,
-          },
-        ]);
-
-      if (error) {
-        console.error('メッセージ送信エラー:', error);
-        return;
-      }
-
-      setMessageContent('');
-      await fetchMessages(selectedConversation.id);
-    } catch (error) {
-      console.error('予期しないエラー:', error);
-    } finally {
-      setSendingMessage(false);
-    }
-  };
-
   const getTimeAgo = (timestamp: string) => {
     const now = new Date().getTime();
     const messageTime = new Date(timestamp).getTime();
@@ -253,18 +107,25 @@ function MessagesComponents() {
     }
   };
 
-  const renderConversation = ({ item }: { item: Conversation }) => {
+  const renderConversation = ({ item }: { item: ConversationSummary }) => {
+    // ミュート中の相手の会話は残すが、未読として目立たせない
+    const isMuted = mutedIds.has(item.other_user.id);
+    const unreadCount = isMuted ? 0 : item.unread_count;
+    // 承認前のリクエストでは、既読と同じく最終オンラインも見せない。
+    // いまオンラインかどうかは会話を開いたときに、その会話のチャンネルでだけ分かる
+    const showPresence = presenceVisible && item.request_status === 'accepted';
+
     return (
       <TouchableOpacity
         style={[
           styles.conversationCard,
           {
-            backgroundColor: item.unread_count > 0
+            backgroundColor: unreadCount > 0
               ? (isDarkMode ? '#0a2a3a' : '#e3f2fd')
               : (isDarkMode ? '#1a1a1a' : '#f5f5f5')
           }
         ]}
-        onPress={() => openConversation(item)}>
+        onPress={() => setSelectedConversationId(item.id)}>
         <View style={styles.conversationContent}>
           {item.other_user.avatar_url ? (
             <Image
@@ -279,6 +140,13 @@ function MessagesComponents() {
           <View style={styles.conversationTextContainer}>
             <Text style={[styles.conversationUserName, { color: isDarkMode ? '#fff' : '#000' }]}>
               {item.other_user.name || '名前未設定'}
+              {isMuted && <Text style={styles.mutedLabel}> ミュート中</Text>}
+              {item.request_status === 'outgoing' && <Text style={styles.mutedLabel}> 承認待ち</Text>}
+              {showPresence && item.other_user.last_seen_at && (
+                <Text style={styles.mutedLabel}>
+                  {` ・${getTimeAgo(item.other_user.last_seen_at)}にオンライン`}
+                </Text>
+              )}
             </Text>
             {item.last_message && (
               <>
@@ -286,7 +154,7 @@ function MessagesComponents() {
                   style={[
                     styles.lastMessageText,
                     { color: isDarkMode ? '#888' : '#666' },
-                    item.unread_count > 0 && styles.unreadMessageText
+                    unreadCount > 0 && styles.unreadMessageText
                   ]}
                   numberOfLines={1}>
                   {item.last_message.content}
@@ -297,9 +165,9 @@ function MessagesComponents() {
               </>
             )}
           </View>
-          {item.unread_count > 0 && (
+          {unreadCount > 0 && (
             <View style={styles.unreadBadge}>
-              <Text style={styles.unreadBadgeText}>{item.unread_count}</Text>
+              <Text style={styles.unreadBadgeText}>{unreadCount}</Text>
             </View>
           )}
         </View>
@@ -307,40 +175,37 @@ function MessagesComponents() {
     );
   };
 
-  const renderMessage = ({ item }: { item: Message }) => {
-    const isOwnMessage = item.sender_id === currentUserId;
+  const selectedConversation = conversations.find(conversation =>
+    conversation.id === selectedConversationId
+  ) || null;
 
-    return (
-      <View
-        style={[
-          styles.messageContainer,
-          isOwnMessage ? styles.ownMessageContainer : styles.otherMessageContainer
-        ]}>
-        <View
-          style={[
-            styles.messageBubble,
-            isOwnMessage
-              ? [styles.ownMessageBubble, { backgroundColor: '#1DA1F2' }]
-              : [styles.otherMessageBubble, { backgroundColor: isDarkMode ? '#333' : '#e0e0e0' }]
-          ]}>
-          <Text
-            style={[
-              styles.messageText,
-              { color: isOwnMessage ? '#fff' : (isDarkMode ? '#fff' : '#000') }
-            ]}>
-            {item.content}
-          </Text>
-          <Text
-            style={[
-              styles.messageTimestamp,
-              { color: isOwnMessage ? 'rgba(255,255,255,0.7)' : '#888' }
-            ]}>
-            {getTimeAgo(item.created_at)}
-          </Text>
-        </View>
-      </View>
-    );
-  };
+  // ブロックした相手との会話は一覧に出さない
+  const visibleConversations = conversations.filter(conversation =>
+    !blockedIds.has(conversation.other_user.id) && !blockedByIds.has(conversation.other_user.id)
+  );
+  const requestConversations = visibleConversations.filter(conversation =>
+    conversation.request_status === 'incoming'
+  );
+  const inboxConversations = inboxTab === 'requests'
+    ? requestConversations
+    : visibleConversations.filter(conversation => conversation.request_status !== 'incoming');
+
+  const renderTabButton = (value: InboxTab, label: string) => (
+    <TouchableOpacity
+      style={[
+        styles.tabButton,
+        inboxTab === value && { borderBottomColor: '#1DA1F2' }
+      ]}
+      onPress={() => setInboxTab(value)}>
+      <Text style={[
+        styles.tabButtonText,
+        { color: isDarkMode ? '#fff' : '#000' },
+        inboxTab === value && styles.tabButtonTextActive
+      ]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
 
   if (loading) {
     return (
@@ -358,89 +223,41 @@ function MessagesComponents() {
         </Text>
       </View>
 
-      {conversations.length === 0 ? (
+      <View style={[styles.tabContainer, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+        {renderTabButton('main', 'メッセージ')}
+        {renderTabButton(
+          'requests',
+          requestConversations.length > 0 ? `リクエスト (${requestConversations.length})` : 'リクエスト'
+        )}
+      </View>
+
+      {inboxTab === 'requests' && (
+        <Text style={[styles.requestsDescription, { color: isDarkMode ? '#888' : '#666' }]}>
+          フォローしていない人からのメッセージです。承認するまで、相手にはあなたが読んだかどうかは表示されません
+        </Text>
+      )}
+
+      {inboxConversations.length === 0 ? (
         <View style={styles.content}>
           <Text style={[styles.emptyText, { color: isDarkMode ? '#fff' : '#000' }]}>
-            メッセージはありません
+            {inboxTab === 'requests' ? 'リクエストはありません' : 'メッセージはありません'}
           </Text>
         </View>
       ) : (
         <FlatList
-          data={conversations}
+          data={inboxConversations}
           renderItem={renderConversation}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.conversationList}
         />
       )}
 
-      <Modal
-        animationType="slide"
-        transparent={false}
-        visible={messageModalVisible}
-        onRequestClose={() => setMessageModalVisible(false)}>
-        <KeyboardAvoidingView
-          style={[styles.messageModalContainer, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}
-          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
-          keyboardVerticalOffset={0}>
-          <View style={[styles.messageModalHeader, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
-            <TouchableOpacity onPress={() => setMessageModalVisible(false)}>
-              <Text style={[styles.backButton, { color: '#1DA1F2' }]}>← 戻る</Text>
-            </TouchableOpacity>
-            {selectedConversation && (
-              <Text style={[styles.messageModalTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
-                {selectedConversation.other_user.name || '名前未設定'}
-              </Text>
-            )}
-            <View style={{ width: 60 }} />
-          </View>
-
-          {loadingMessages ? (
-            <View style={styles.content}>
-              <ActivityIndicator size="large" color="#1DA1F2" />
-            </View>
-          ) : (
-            <FlatList
-              data={messages}
-              renderItem={renderMessage}
-              keyExtractor={(item) => item.id}
-              contentContainerStyle={styles.messagesList}
-              inverted={false}
-            />
-          )}
-
-          <View style={[styles.messageInputContainer, { borderTopColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
-            <TextInput
-              style={[
-                styles.messageInput,
-                {
-                  backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5',
-                  color: isDarkMode ? '#fff' : '#000'
-                }
-              ]}
-              placeholder="メッセージを入力..."
-              placeholderTextColor={isDarkMode ? '#888' : '#999'}
-              value={messageContent}
-              onChangeText={setMessageContent}
-              multiline
-              maxLength={500}
-              editable={!sendingMessage}
-            />
-            <TouchableOpacity
-              style={[
-                styles.sendButton,
-                (!messageContent.trim() || sendingMessage) && styles.sendButtonDisabled
-              ]}
-              onPress={sendMessage}
-              disabled={!messageContent.trim() || sendingMessage}>
-              {sendingMessage ? (
-                <ActivityIndicator color="#fff" size="small" />
-              ) : (
-                <Text style={styles.sendButtonText}>送信</Text>
-              )}
-            </TouchableOpacity>
-          </View>
-        </KeyboardAvoidingView>
-      </Modal>
+      <ConversationModal
+        conversation={selectedConversation}
+        currentUserId={currentUserId}
+        onClose={() => setSelectedConversationId(null)}
+        onConversationChange={loadConversations}
+      />
     </View>
   );
 }
@@ -471,6 +288,31 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '600',
   },
+  tabContainer: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  tabButton: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    opacity: 0.6,
+  },
+  tabButtonTextActive: {
+    opacity: 1,
+    color: '#1DA1F2',
+  },
+  requestsDescription: {
+    fontSize: 13,
+    paddingHorizontal: 16,
+    paddingTop: 10,
+  },
   conversationList: {
     padding: 8,
   },
@@ -518,6 +360,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#888',
   },
+  mutedLabel: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: '#888',
+  },
   unreadBadge: {
     backgroundColor: '#1DA1F2',
     borderRadius: 12,
@@ -532,90 +379,6 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '700',
   },
-  messageModalContainer: {
-    flex: 1,
-  },
-  messageModalHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    borderBottomWidth: 1,
-  },
-  backButton: {
-    fontSize: 16,
-    fontWeight: '600',
-  },
-  messageModalTitle: {
-    fontSize: 18,
-    fontWeight: '700',
-  },
-  messagesList: {
-    padding: 16,
-  },
-  messageContainer: {
-    marginBottom: 12,
-    maxWidth: '75%',
-  },
-  ownMessageContainer: {
-    alignSelf: 'flex-end',
-  },
-  otherMessageContainer: {
-    alignSelf: 'flex-start',
-  },
-  messageBubble: {
-    paddingHorizontal: 12,
-    paddingVertical: 8,
-    borderRadius: 16,
-  },
-  ownMessageBubble: {
-    borderBottomRightRadius: 4,
-  },
-  otherMessageBubble: {
-    borderBottomLeftRadius: 4,
-  },
-  messageText: {
-    fontSize: 15,
-    lineHeight: 20,
-    marginBottom: 4,
-  },
-  messageTimestamp: {
-    fontSize: 11,
-  },
-  messageInputContainer: {
-    flexDirection: 'row',
-    alignItems: 'flex-end',
-    paddingHorizontal: 12,
-    paddingVertical: 8,
-    borderTopWidth: 1,
-    gap: 8,
-  },
-  messageInput: {
-    flex: 1,
-    minHeight: 40,
-    maxHeight: 100,
-    fontSize: 15,
-    paddingHorizontal: 12,
-    paddingVertical: 8,
-    borderRadius: 20,
-  },
-  sendButton: {
-    backgroundColor: '#1DA1F2',
-    paddingHorizontal: 20,
-    paddingVertical: 10,
-    borderRadius: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  sendButtonDisabled: {
-    opacity: 0.5,
-  },
-  sendButtonText: {
-    color: '#fff',
-    fontSize: 15,
-    fontWeight: '600',
-  },
 });
 
 export default MessagesComponents;
\ No newline at end of file
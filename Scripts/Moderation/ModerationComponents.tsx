@@ -0,0 +1,657 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  useColorScheme,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Modal,
+  TextInput,
+  RefreshControl,
+} from 'react-native';
+import { supabase } from '../supabaseClient';
+import {
+  MODERATION_ACTIONS,
+  ModerationActionOption,
+  SUSPENSION_DAY_OPTIONS,
+  getModerationActionLabel,
+} from '../constants/moderation';
+import { getReportReasonLabel } from '../constants/reportReasons';
+import {
+  ModerationActionLog,
+  ReportGroup,
+  applyModerationAction,
+  fetchModerationLog,
+  fetchReportQueue,
+  reportGroupCreatedAt,
+} from '../data/moderation';
+import { ReportTargetType, reportTargetKey } from '../data/reports';
+
+type ModerationTab = 'queue' | 'log';
+
+interface PendingAction {
+  group: ReportGroup;
+  option: ModerationActionOption;
+}
+
+const TARGET_LABELS: Record<ReportTargetType, string> = {
+  post: '投稿',
+  reply: 'リプライ',
+  user: 'ユーザー',
+  message: 'メッセージ',
+};
+
+const LOG_LIMIT = 50;
+const NOTE_MAX_LENGTH = 200;
+
+// モデレーター向けに、未対応の通報と危険な表現の検出を対象ごとに確認して対応する
+function ModerationComponents() {
+  const isDarkMode = useColorScheme() === 'dark';
+  const [tab, setTab] = useState<ModerationTab>('queue');
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [queue, setQueue] = useState<ReportGroup[]>([]);
+  const [log, setLog] = useState<ModerationActionLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [note, setNote] = useState('');
+  const [suspendDays, setSuspendDays] = useState(SUSPENSION_DAY_OPTIONS[0]);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    getCurrentUser();
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    loadTab().finally(() => setLoading(false));
+  }, [tab]);
+
+  const getCurrentUser = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) {
+      setCurrentUserId(user.id);
+    }
+  };
+
+  const loadTab = async () => {
+    try {
+      if (tab === 'queue') {
+        const { data, error } = await fetchReportQueue();
+
+        if (error) {
+          console.error('通報一覧取得エラー:', error);
+          return;
+        }
+
+        setQueue(data);
+      } else {
+        const { data, error } = await fetchModerationLog(LOG_LIMIT);
+
+        if (error) {
+          console.error('対応履歴取得エラー:', error);
+          return;
+        }
+
+        setLog(data);
+      }
+    } catch (error) {
+      console.error('予期しないエラー:', error);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadTab();
+    setRefreshing(false);
+  };
+
+  const openAction = (group: ReportGroup, option: ModerationActionOption) => {
+    setNote('');
+    setSuspendDays(SUSPENSION_DAY_OPTIONS[0]);
+    setPendingAction({ group, option });
+  };
+
+  const handleApply = async () => {
+    if (!pendingAction || !currentUserId) return;
+
+    const { group, option } = pendingAction;
+    setApplying(true);
+
+    try {
+      const { error } = await applyModerationAction({
+        moderatorId: currentUserId,
+        action: option.key,
+        target: group.target,
+        subjectUserId: group.content?.userId || null,
+        note,
+        suspendDays: option.key === 'suspend' ? suspendDays : undefined,
+      });
+
+      if (error) {
+        console.error('通報対応エラー:', error);
+        Alert.alert('エラー', '対応に失敗しました');
+        return;
+      }
+
+      const key = reportTargetKey(group.target);
+      setQueue(prev => prev.filter(item => reportTargetKey(item.target) !== key));
+      setPendingAction(null);
+    } catch (error) {
+      Alert.alert('エラー', '予期しないエラーが発生しました');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const getTimeAgo = (timestamp: string) => {
+    const now = new Date().getTime();
+    const time = new Date(timestamp).getTime();
+    const diffInSeconds = Math.floor((now - time) / 1000);
+
+    if (diffInSeconds < 60) {
+      return `${diffInSeconds}秒前`;
+    } else if (diffInSeconds < 3600) {
+      return `${Math.floor(diffInSeconds / 60)}分前`;
+    } else if (diffInSeconds < 86400) {
+      return `${Math.floor(diffInSeconds / 3600)}時間前`;
+    } else {
+      return `${Math.floor(diffInSeconds / 86400)}日前`;
+    }
+  };
+
+  // 理由ごとの件数を多い順に並べる
+  const summarizeReasons = (group: ReportGroup) => {
+    const counts = new Map<string, number>();
+    group.reports.forEach(report => {
+      counts.set(report.reason, (counts.get(report.reason) || 0) + 1);
+    });
+
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([reason, count]) => `${getReportReasonLabel(reason)} ${count}`)
+      .join('・');
+  };
+
+  const renderGroup = ({ item }: { item: ReportGroup }) => {
+    const { content } = item;
+    const details = item.reports.filter(report => report.details);
+    const actions = MODERATION_ACTIONS.filter(option =>
+      option.targets.includes(item.target.type) &&
+      // 対象がなくなっていれば内容への対応はできない
+      (content || option.key === 'dismiss')
+    );
+
+    return (
+      <View style={[styles.card, { backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5' }]}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.targetBadge}>{TARGET_LABELS[item.target.type]}</Text>
+          {item.flags.length > 0 && <Text style={styles.crisisBadge}>危険な表現</Text>}
+          {item.reports.length > 0 && (
+            <Text style={[styles.reportCount, { color: isDarkMode ? '#fff' : '#000' }]}>
+              通報 {item.reports.length}件
+            </Text>
+          )}
+          <Text style={styles.timeText}>{getTimeAgo(reportGroupCreatedAt(item))}</Text>
+        </View>
+        {item.reports.length > 0 && (
+          <Text style={styles.reasonSummary}>{summarizeReasons(item)}</Text>
+        )}
+
+        {content ? (
+          <View style={[styles.contentBox, { borderColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+            <Text style={[styles.authorName, { color: isDarkMode ? '#fff' : '#000' }]}>
+              {content.authorName || '名前未設定'}
+              {content.isAnonymous ? '(匿名で投稿)' : ''}
+            </Text>
+            {content.suspendedUntil && new Date(content.suspendedUntil) > new Date() && (
+              <Text style={styles.statusText}>
+                {new Date(content.suspendedUntil).toLocaleString('ja-JP')}まで一時停止中
+              </Text>
+            )}
+            {content.context.map((text, idx) => (
+              <Text
+                key={idx}
+                style={[styles.contextText, { color: isDarkMode ? '#888' : '#999' }]}
+                numberOfLines={3}>
+                {text}
+              </Text>
+            ))}
+            <Text style={[styles.bodyText, { color: isDarkMode ? '#fff' : '#000' }]}>
+              {content.body || '(本文なし)'}
+            </Text>
+            {content.removed && (
+              <Text style={styles.statusText}>非表示・削除済み</Text>
+            )}
+          </View>
+        ) : (
+          <Text style={[styles.missingText, { color: isDarkMode ? '#888' : '#666' }]}>
+            対象はすでに削除されています
+          </Text>
+        )}
+
+        {details.map(report => (
+          <Text
+            key={report.id}
+            style={[styles.detailText, { color: isDarkMode ? '#ccc' : '#333' }]}>
+            「{report.details}」
+          </Text>
+        ))}
+
+        <View style={styles.actionRow}>
+          {actions.map(option => (
+            <TouchableOpacity
+              key={option.key}
+              style={[
+                styles.actionButton,
+                { borderColor: option.destructive ? '#F44336' : '#1DA1F2' }
+              ]}
+              onPress={() => openAction(item, option)}>
+              <Text style={[
+                styles.actionButtonText,
+                { color: option.destructive ? '#F44336' : '#1DA1F2' }
+              ]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderLogEntry = ({ item }: { item: ModerationActionLog }) => (
+    <View style={[styles.logEntry, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+      <Text style={[styles.logTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
+        {getModerationActionLabel(item.action)}・
+        {TARGET_LABELS[item.target_type as ReportTargetType] || item.target_type}
+      </Text>
+      {item.note && (
+        <Text style={[styles.logNote, { color: isDarkMode ? '#ccc' : '#333' }]}>{item.note}</Text>
+      )}
+      <Text style={styles.timeText}>{getTimeAgo(item.created_at)}</Text>
+    </View>
+  );
+
+  const renderTabButton = (value: ModerationTab, label: string) => (
+    <TouchableOpacity
+      style={[
+        styles.tabButton,
+        tab === value && { borderBottomColor: '#1DA1F2' }
+      ]}
+      onPress={() => setTab(value)}>
+      <Text style={[
+        styles.tabButtonText,
+        { color: isDarkMode ? '#fff' : '#000' },
+        tab === value && styles.tabButtonTextActive
+      ]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const refreshControl = (
+    <RefreshControl
+      refreshing={refreshing}
+      onRefresh={onRefresh}
+      tintColor="#1DA1F2"
+      colors={['#1DA1F2']}
+    />
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+        <Text style={[styles.headerTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
+          通報対応
+        </Text>
+      </View>
+
+      <View style={[styles.tabContainer, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+        {renderTabButton('queue', '未対応')}
+        {renderTabButton('log', '対応履歴')}
+      </View>
+
+      {loading ? (
+        <View style={styles.content}>
+          <ActivityIndicator size="large" color="#1DA1F2" />
+        </View>
+      ) : tab === 'queue' ? (
+        <FlatList
+          data={queue}
+          renderItem={renderGroup}
+          keyExtractor={(item) => reportTargetKey(item.target)}
+          contentContainerStyle={styles.list}
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, { color: isDarkMode ? '#fff' : '#000' }]}>
+              未対応の通報・検出はありません
+            </Text>
+          }
+          refreshControl={refreshControl}
+        />
+      ) : (
+        <FlatList
+          data={log}
+          renderItem={renderLogEntry}
+          keyExtractor={(item) => item.id}
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, { color: isDarkMode ? '#fff' : '#000' }]}>
+              対応履歴はありません
+            </Text>
+          }
+          refreshControl={refreshControl}
+        />
+      )}
+
+      <Modal
+        animationType="fade"
+        transparent={true}
+        visible={pendingAction !== null}
+        onRequestClose={() => setPendingAction(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: isDarkMode ? '#1a1a1a' : '#fff' }]}>
+            <Text style={[styles.modalTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
+              {pendingAction?.option.label}
+            </Text>
+
+            {pendingAction?.option.key === 'suspend' && (
+              <View style={styles.daysRow}>
+                {SUSPENSION_DAY_OPTIONS.map(days => (
+                  <TouchableOpacity
+                    key={days}
+                    style={[
+                      styles.dayChip,
+                      {
+                        borderColor: suspendDays === days ? '#1DA1F2' : (isDarkMode ? '#333' : '#e0e0e0'),
+                        backgroundColor: suspendDays === days ? (isDarkMode ? '#0a2a3a' : '#e3f2fd') : 'transparent',
+                      }
+                    ]}
+                    onPress={() => setSuspendDays(days)}>
+                    <Text style={[styles.dayChipText, { color: isDarkMode ? '#fff' : '#000' }]}>
+                      {days}日間
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            <TextInput
+              style={[
+                styles.noteInput,
+                {
+                  color: isDarkMode ? '#fff' : '#000',
+                  backgroundColor: isDarkMode ? '#000' : '#f5f5f5',
+                }
+              ]}
+              placeholder={
+                pendingAction?.option.key === 'warn'
+                  ? '警告に添えるメッセージ(任意)'
+                  : '記録に残すメモ(任意)'
+              }
+              placeholderTextColor={isDarkMode ? '#888' : '#999'}
+              value={note}
+              onChangeText={setNote}
+              multiline
+              maxLength={NOTE_MAX_LENGTH}
+              editable={!applying}
+            />
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.modalCancelButton}
+                onPress={() => setPendingAction(null)}
+                disabled={applying}>
+                <Text style={[styles.modalCancelText, { color: isDarkMode ? '#fff' : '#000' }]}>
+                  キャンセル
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.modalApplyButton,
+                  { backgroundColor: pendingAction?.option.destructive ? '#F44336' : '#1DA1F2' },
+                  applying && styles.modalApplyButtonDisabled
+                ]}
+                onPress={handleApply}
+                disabled={applying}>
+                {applying ? (
+                  <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                  <Text style={styles.modalApplyText}>実行</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    minHeight: 500,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  tabButton: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    opacity: 0.6,
+  },
+  tabButtonTextActive: {
+    opacity: 1,
+    color: '#1DA1F2',
+  },
+  list: {
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  targetBadge: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#fff',
+    backgroundColor: '#F44336',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: 'hidden',
+    marginRight: 8,
+  },
+  crisisBadge: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#fff',
+    backgroundColor: '#9C27B0',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: 'hidden',
+    marginRight: 8,
+  },
+  reportCount: {
+    fontSize: 15,
+    fontWeight: '700',
+    flex: 1,
+  },
+  timeText: {
+    fontSize: 12,
+    color: '#888',
+  },
+  reasonSummary: {
+    fontSize: 13,
+    color: '#F44336',
+    marginBottom: 10,
+  },
+  contentBox: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  authorName: {
+    fontSize: 14,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  contextText: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  bodyText: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  statusText: {
+    fontSize: 12,
+    color: '#FF9800',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  missingText: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  detailText: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  actionButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  logEntry: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  logTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  logNote: {
+    fontSize: 13,
+    marginBottom: 2,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    borderRadius: 16,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  daysRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  dayChip: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  dayChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  noteInput: {
+    minHeight: 80,
+    fontSize: 15,
+    padding: 12,
+    borderRadius: 8,
+    textAlignVertical: 'top',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 16,
+    gap: 12,
+  },
+  modalCancelButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  modalCancelText: {
+    fontSize: 15,
+  },
+  modalApplyButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 16,
+    minWidth: 70,
+    alignItems: 'center',
+  },
+  modalApplyButtonDisabled: {
+    opacity: 0.5,
+  },
+  modalApplyText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default ModerationComponents;
@@ -9,61 +9,34 @@ import {
   ActivityIndicator,
   Image,
   Modal,
-  ScrollView,
+  SafeAreaView,
 } from 'react-native';
 import { supabase } from '../supabaseClient';
+import {
+  NotificationWithProfile,
+  fetchNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from '../data/notifications';
+import { useBlockedAndMutedUsers } from '../data/useBlockedAndMutedUsers';
+import { useMutedWords } from '../data/useMutedWords';
+import PostDetailComponents from '../Post/PostDetailComponents';
+import MutedWordGate from '../Post/MutedWordGate';
+import { REACTIONS } from '../constants/reactions';
+import { MUTED_WORD_PLACEHOLDERS } from '../constants/mutedWords';
 
-interface Notification {
-  id: string;
-  type: string;
-  message: string;
-  related_user_id: string | null;
-  related_post_id: string | null;
-  is_read: boolean;
-  created_at: string;
-  profiles: {
-    name: string | null;
-    avatar_url: string | null;
-  } | null;
-}
-
-interface Post {
-  id: string;
-  content: string;
-  created_at: string;
-  user_id: string;
-  profiles: {
-    name: string | null;
-    avatar_url: string | null;
-    complex_level: number;
-  };
-}
-
-interface Reply {
-  id: string;
-  post_id: string;
-  user_id: string;
-  content: string;
-  created_at: string;
-  profiles: {
-    name: string | null;
-    avatar_url: string | null;
-    complex_level: number;
-  };
-}
 
 function NotificationsComponents() {
   const isDarkMode = useColorScheme() === 'dark';
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [notifications, setNotifications] = useState<NotificationWithProfile[]>([]);
   const [loading, setLoading] = useState(true);
-  const [unreadCount, setUnreadCount] = useState(0);
-  const [postModalVisible, setPostModalVisible] = useState(false);
-  const [selectedPost, setSelectedPost] = useState<Post | null>(null);
-  const [replies, setReplies] = useState<Reply[]>([]);
-  const [loadingPost, setLoadingPost] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const { hiddenUserIds } = useBlockedAndMutedUsers(currentUserId);
+  const { isMuted } = useMutedWords(currentUserId);
+  const [detailPostId, setDetailPostId] = useState<string | null>(null);
 
   useEffect(() => {
-    fetchNotifications();
+    loadNotifications();
 
     const notificationsSubscription = supabase
       .channel('notifications_changes')
@@ -71,7 +44,7 @@ function NotificationsComponents() {
         'postgres_changes',
         { event: '*', schema: 'public', table: 'notifications' },
         () => {
-          fetchNotifications();
+          loadNotifications();
         }
       )
       .subscribe();
@@ -81,7 +54,7 @@ function NotificationsComponents() {
     };
   }, []);
 
-  const fetchNotifications = async () => {
+  const loadNotifications = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
 
@@ -90,27 +63,15 @@ function NotificationsComponents() {
         return;
       }
 
-      const { data, error } = await supabase
-        .from('notifications')
-        .select(`
-          *,
-          profiles:related_user_id (
-            name,
-            avatar_url
-          )
-        `)
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+      setCurrentUserId(user.id);
+      const { data, error } = await fetchNotifications(user.id);
 
       if (error) {
         console.error('通知取得エラー:', error);
         return;
       }
 
-      setNotifications(data || []);
-      
-      const unread = (data || []).filter(n => !n.is_read).length;
-      setUnreadCount(unread);
+      setNotifications(data);
     } catch (error) {
       console.error('予期しないエラー:', error);
     } finally {
@@ -120,10 +81,7 @@ function NotificationsComponents() {
 
   const markAsRead = async (notificationId: string) => {
     try {
-      const { error } = await supabase
-        .from('notifications')
-        .update({ is_read: true })
-        .eq('id', notificationId);
+      const { error } = await markNotificationRead(notificationId);
 
       if (error) {
         console.error('既読更新エラー:', error);
@@ -135,7 +93,6 @@ function NotificationsComponents() {
           n.id === notificationId ? { ...n, is_read: true } : n
         )
       );
-      setUnreadCount(prev => Math.max(0, prev - 1));
     } catch (error) {
       console.error('予期しないエラー:', error);
     }
@@ -147,11 +104,7 @@ function NotificationsComponents() {
 
       if (!user) return;
 
-      const { error } = await supabase
-        .from('notifications')
-        .update({ is_read: true })
-        .eq('user_id', user.id)
-        .eq('is_read', false);
+      const { error } = await markAllNotificationsRead(user.id);
 
       if (error) {
         console.error('一括既読更新エラー:', error);
@@ -161,7 +114,6 @@ function NotificationsComponents() {
       setNotifications(prev =>
         prev.map(n => ({ ...n, is_read: true }))
       );
-      setUnreadCount(0);
     } catch (error) {
       console.error('予期しないエラー:', error);
     }
@@ -171,61 +123,7 @@ function NotificationsComponents() {
     if (!postId) return;
 
     await markAsRead(notificationId);
-    setLoadingPost(true);
-
-    try {
-      const { data, error } = await supabase
-        .from('posts')
-        .select(`
-          *,
-          profiles (
-            name,
-            avatar_url,
-            complex_level
-          )
-        `)
-        .eq('id', postId)
-        .single();
-
-      if (error) {
-        console.error('投稿取得エラー:', error);
-        return;
-      }
-
-      setSelectedPost(data);
-      await fetchReplies(postId);
-      setPostModalVisible(true);
-    } catch (error) {
-      console.error('予期しないエラー:', error);
-    } finally {
-      setLoadingPost(false);
-    }
-  };
-
-  const fetchReplies = async (postId: string) => {
-    try {
-      const { data, error } = await supabase
-        .from('replies')
-        .select(`
-          *,
-          profiles (
-            name,
-            avatar_url,
-            complex_level
-          )
-        `)
-        .eq('post_id', postId)
-        .order('created_at', { ascending: true });
-
-      if (error) {
-        console.error('リプライ取得エラー:', error);
-        return;
-      }
-
-      setReplies(data || []);
-    } catch (error) {
-      console.error('予期しないエラー:', error);
-    }
+    setDetailPostId(postId);
   };
 
   const getTimeAgo = (timestamp: string) => {
@@ -252,63 +150,92 @@ function NotificationsComponents() {
         return require('../../assets/icon/comment.png');
       case 'follow':
         return require('../../assets/icon/profile.png');
+      case 'moderation_warning':
+        return require('../../assets/icon/setting.png');
       default:
         return require('../../assets/icon/notification.png');
     }
   };
 
-  const renderNotification = ({ item }: { item: Notification }) => {
+  // リアクションの通知は type にリアクションの種類が入るので、種類ごとの文にする
+  const getNotificationMessage = (item: NotificationWithProfile) => {
+    const reaction = REACTIONS.find(r => r.key === item.type);
+
+    if (!reaction) {
+      return item.message;
+    }
+
+    return `${item.profiles?.name || '名前未設定'}さん${reaction.notificationText}`;
+  };
+
+  const renderNotification = ({ item }: { item: NotificationWithProfile }) => {
+    const reaction = REACTIONS.find(r => r.key === item.type && r.key !== 'like');
+
     return (
-      <TouchableOpacity
-        style={[
-          styles.notificationCard,
-          {
-            backgroundColor: item.is_read
-              ? (isDarkMode ? '#1a1a1a' : '#f5f5f5')
-              : (isDarkMode ? '#0a2a3a' : '#e3f2fd')
-          }
-        ]}
-        onPress={() => {
-          if (item.related_post_id) {
-            openPost(item.related_post_id, item.id);
-          } else {
-            markAsRead(item.id);
-          }
-        }}>
-        <View style={styles.notificationContent}>
-          <Image
-            source={getNotificationIcon(item.type)}
-            style={[styles.notificationTypeIcon, { tintColor: isDarkMode ? '#fff' : '#666' }]}
-          />
-          {item.profiles?.avatar_url ? (
-            <Image
-              source={{ uri: item.profiles.avatar_url }}
-              style={styles.avatar}
-            />
-          ) : (
-            <View style={[styles.avatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
-              <Image 
-                source={require('../../assets/icon/profile.png')}
-                style={[styles.avatarPlaceholderText, { tintColor: isDarkMode ? '#fff' : '#666' }]}
+      <MutedWordGate
+        muted={isMuted([getNotificationMessage(item)], 'notifications')}
+        label={MUTED_WORD_PLACEHOLDERS.notifications}>
+        <TouchableOpacity
+          style={[
+            styles.notificationCard,
+            {
+              backgroundColor: item.is_read
+                ? (isDarkMode ? '#1a1a1a' : '#f5f5f5')
+                : (isDarkMode ? '#0a2a3a' : '#e3f2fd')
+            }
+          ]}
+          onPress={() => {
+            if (item.related_post_id) {
+              openPost(item.related_post_id, item.id);
+            } else {
+              markAsRead(item.id);
+            }
+          }}>
+          <View style={styles.notificationContent}>
+            {reaction ? (
+              <Text style={styles.notificationTypeEmoji}>{reaction.icon}</Text>
+            ) : (
+              <Image
+                source={getNotificationIcon(item.type)}
+                style={[styles.notificationTypeIcon, { tintColor: isDarkMode ? '#fff' : '#666' }]}
               />
+            )}
+            {item.profiles?.avatar_url ? (
+              <Image
+                source={{ uri: item.profiles.avatar_url }}
+                style={styles.avatar}
+              />
+            ) : (
+              <View style={[styles.avatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
+                <Image 
+                  source={require('../../assets/icon/profile.png')}
+                  style={[styles.avatarPlaceholderText, { tintColor: isDarkMode ? '#fff' : '#666' }]}
+                />
+              </View>
+            )}
+            <View style={styles.notificationTextContainer}>
+              <Text style={[styles.notificationMessage, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {getNotificationMessage(item)}
+              </Text>
+              <Text style={styles.notificationTime}>
+                {getTimeAgo(item.created_at)}
+              </Text>
             </View>
-          )}
-          <View style={styles.notificationTextContainer}>
-            <Text style={[styles.notificationMessage, { color: isDarkMode ? '#fff' : '#000' }]}>
-              {item.message}
-            </Text>
-            <Text style={styles.notificationTime}>
-              {getTimeAgo(item.created_at)}
-            </Text>
+            {!item.is_read && (
+              <View style={styles.unreadDot} />
+            )}
           </View>
-          {!item.is_read && (
-            <View style={styles.unreadDot} />
-          )}
-        </View>
-      </TouchableOpacity>
+        </TouchableOpacity>
+      </MutedWordGate>
     );
   };
 
+  // ブロック・ミュートしたユーザーからの通知は出さない
+  const visibleNotifications = notifications.filter(n =>
+    !n.related_user_id || !hiddenUserIds.has(n.related_user_id)
+  );
+  const unreadCount = visibleNotifications.filter(n => !n.is_read).length;
+
   if (loading) {
     return (
       <View style={styles.content}>
@@ -330,7 +257,7 @@ function NotificationsComponents() {
         )}
       </View>
 
-      {notifications.length === 0 ? (
+      {visibleNotifications.length === 0 ? (
         <View style={styles.content}>
           <Text style={[styles.emptyText, { color: isDarkMode ? '#fff' : '#000' }]}>
             通知はありません
@@ -338,7 +265,7 @@ function NotificationsComponents() {
         </View>
       ) : (
         <FlatList
-          data={notifications}
+          data={visibleNotifications}
           renderItem={renderNotification}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.notificationList}
@@ -347,92 +274,16 @@ function NotificationsComponents() {
 
       <Modal
         animationType="slide"
-        transparent={true}
-        visible={postModalVisible}
-        onRequestClose={() => setPostModalVisible(false)}>
-        <View style={styles.modalOverlay}>
-          <View style={[styles.modalContent, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}>
-            <View style={styles.modalHeader}>
-              <TouchableOpacity onPress={() => setPostModalVisible(false)}>
-                <Text style={[styles.closeButton, { color: isDarkMode ? '#fff' : '#000' }]}>
-                  閉じる
-                </Text>
-              </TouchableOpacity>
-              <Text style={[styles.modalTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
-                投稿
-              </Text>
-              <View style={{ width: 60 }} />
-            </View>
-
-            {loadingPost ? (
-              <ActivityIndicator size="large" color="#1DA1F2" style={{ marginTop: 20 }} />
-            ) : selectedPost && (
-              <>
-                <View style={[styles.postContainer, { backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5' }]}>
-                  <View style={styles.postHeader}>
-                    {selectedPost.profiles?.avatar_url ? (
-                      <Image source={{ uri: selectedPost.profiles.avatar_url }} style={styles.postAvatar} />
-                    ) : (
-                      <View style={[styles.postAvatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
-                        <Image 
-                          source={require('../../assets/icon/profile.png')}
-                          style={[styles.postAvatarPlaceholderText, { tintColor: isDarkMode ? '#fff' : '#666' }]}
-                        />
-                      </View>
-                    )}
-                    <Text style={[styles.postUserName, { color: isDarkMode ? '#fff' : '#000' }]}>
-                      {selectedPost.profiles?.name || '名前未設定'}
-                    </Text>
-                  </View>
-                  <Text style={[styles.postContent, { color: isDarkMode ? '#fff' : '#000' }]}>
-                    {selectedPost.content}
-                  </Text>
-                </View>
-
-                <View style={styles.repliesContainer}>
-                  <Text style={[styles.repliesTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
-                    リプライ ({replies.length})
-                  </Text>
-                  {replies.length === 0 ? (
-                    <Text style={[styles.noRepliesText, { color: isDarkMode ? '#888' : '#666' }]}>
-                      まだリプライがありません
-                    </Text>
-                  ) : (
-                    <ScrollView style={styles.repliesList}>
-                      {replies.map((reply) => (
-                        <View key={reply.id} style={[styles.replyItem, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
-                          <View style={styles.replyHeader}>
-                            {reply.profiles?.avatar_url ? (
-                              <Image source={{ uri: reply.profiles.avatar_url }} style={styles.smallAvatar} />
-                            ) : (
-                              <View style={[styles.smallAvatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
-                                <Image 
-                                  source={require('../../assets/icon/profile.png')}
-                                  style={[styles.smallAvatarPlaceholderText, { tintColor: isDarkMode ? '#fff' : '#666' }]}
-                                />
-                              </View>
-                            )}
-                            <View style={styles.replyUserInfo}>
-                              <Text style={[styles.replyUserName, { color: isDarkMode ? '#fff' : '#000' }]}>
-                                {reply.profiles?.name || '名前未設定'}
-                              </Text>
-                              <Text style={styles.replyTime}>
-                                {getTimeAgo(reply.created_at)}
-                              </Text>
-                            </View>
-                          </View>
-                          <Text style={[styles.replyContent, { color: isDarkMode ? '#fff' : '#000' }]}>
-                            {reply.content}
-                          </Text>
-                        </View>
-                      ))}
-                    </ScrollView>
-                  )}
-                </View>
-              </>
-            )}
-          </View>
-        </View>
+        visible={detailPostId !== null}
+        onRequestClose={() => setDetailPostId(null)}>
+        <SafeAreaView style={[styles.container, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}>
+          {detailPostId && (
+            <PostDetailComponents
+              postId={detailPostId}
+              onClose={() => setDetailPostId(null)}
+            />
+          )}
+        </SafeAreaView>
       </Modal>
     </View>
   );
@@ -486,6 +337,12 @@ const styles = StyleSheet.create({
     height: 24,
     marginRight: 8,
   },
+  notificationTypeEmoji: {
+    width: 24,
+    fontSize: 18,
+    textAlign: 'center',
+    marginRight: 8,
+  },
   avatar: {
     width: 40,
     height: 40,
@@ -522,126 +379,6 @@ const styles = StyleSheet.create({
     backgroundColor: '#1DA1F2',
     marginLeft: 8,
   },
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-    justifyContent: 'flex-end',
-  },
-  modalContent: {
-    borderTopLeftRadius: 20,
-    borderTopRightRadius: 20,
-    padding: 20,
-    maxHeight: '80%',
-  },
-  modalHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 20,
-  },
-  modalTitle: {
-    fontSize: 18,
-    fontWeight: '700',
-  },
-  closeButton: {
-    fontSize: 16,
-  },
-  postContainer: {
-    padding: 12,
-    borderRadius: 8,
-    marginBottom: 20,
-  },
-  postHeader: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 10,
-  },
-  postAvatar: {
-    width: 40,
-    height: 40,
-    borderRadius: 20,
-  },
-  postAvatarPlaceholder: {
-    width: 40,
-    height: 40,
-    borderRadius: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  postAvatarPlaceholderText: {
-    width: 18,
-    height: 18,
-  },
-  postUserName: {
-    fontSize: 15,
-    fontWeight: '700',
-    marginLeft: 10,
-  },
-  postContent: {
-    fontSize: 15,
-    lineHeight: 22,
-  },
-  repliesContainer: {
-    flex: 1,
-  },
-  repliesTitle: {
-    fontSize: 16,
-    fontWeight: '700',
-    marginBottom: 12,
-  },
-  noRepliesText: {
-    fontSize: 14,
-    textAlign: 'center',
-    marginTop: 20,
-  },
-  repliesList: {
-    flex: 1,
-  },
-  replyItem: {
-    paddingVertical: 12,
-    borderBottomWidth: 1,
-  },
-  replyHeader: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  smallAvatar: {
-    width: 30,
-    height: 30,
-    borderRadius: 15,
-  },
-  smallAvatarPlaceholder: {
-    width: 30,
-    height: 30,
-    borderRadius: 15,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  smallAvatarPlaceholderText: {
-    width: 14,
-    height: 14,
-  },
-  replyUserInfo: {
-    marginLeft: 8,
-    flex: 1,
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 8,
-  },
-  replyUserName: {
-    fontSize: 14,
-    fontWeight: '700',
-  },
-  replyTime: {
-    fontSize: 11,
-    color: '#888',
-  },
-  replyContent: {
-    fontSize: 14,
-    lineHeight: 20,
-    marginLeft: 38,
-  },
 });
 
 export default NotificationsComponents;
\ No newline at end of file
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, useColorScheme } from 'react-native';
+
+interface ContentWarningGateProps {
+  // 空なら折りたたまずに表示する
+  reasons: string[];
+  children: React.ReactNode;
+}
+
+// 注意書きのある投稿や、閲覧者が折りたたむ設定にしたカテゴリの投稿の本文を、タップするまで隠す
+function ContentWarningGate({ reasons, children }: ContentWarningGateProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const [revealed, setRevealed] = useState(false);
+
+  if (reasons.length === 0) {
+    return <>{children}</>;
+  }
+
+  if (revealed) {
+    return (
+      <>
+        {children}
+        <TouchableOpacity style={styles.hideButton} onPress={() => setRevealed(false)}>
+          <Text style={styles.hideButtonText}>折りたたむ</Text>
+        </TouchableOpacity>
+      </>
+    );
+  }
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: isDarkMode ? '#222' : '#eceff1',
+          borderColor: isDarkMode ? '#333' : '#cfd8dc',
+        }
+      ]}>
+      <Text style={[styles.title, { color: isDarkMode ? '#fff' : '#000' }]}>
+        ⚠️ 注意が必要な内容
+      </Text>
+      <Text style={[styles.reasons, { color: isDarkMode ? '#aaa' : '#555' }]}>
+        {reasons.join('・')}
+      </Text>
+      <TouchableOpacity style={styles.revealButton} onPress={() => setRevealed(true)}>
+        <Text style={styles.revealButtonText}>表示する</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderRadius: 10,
+    padding: 14,
+    marginBottom: 12,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  reasons: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  revealButton: {
+    paddingHorizontal: 18,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#1DA1F2',
+  },
+  revealButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  hideButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 8,
+  },
+  hideButtonText: {
+    color: '#1DA1F2',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+export default ContentWarningGate;
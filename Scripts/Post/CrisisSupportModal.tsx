@@ -0,0 +1,147 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Linking,
+  useColorScheme,
+} from 'react-native';
+import { EMERGENCY_NUMBER, SUPPORT_RESOURCES, SupportResource } from '../constants/supportResources';
+
+interface CrisisSupportModalProps {
+  visible: boolean;
+  // そのまま送信する
+  onContinue: () => void;
+  // 送信せずに入力に戻る
+  onCancel: () => void;
+}
+
+// つらい気持ちを書いた人に、送信前に相談窓口を案内する
+function CrisisSupportModal({ visible, onContinue, onCancel }: CrisisSupportModalProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+
+  const openResource = (resource: SupportResource) => {
+    const url = resource.phone ? `tel:${resource.phone.replace(/-/g, '')}` : resource.url;
+
+    if (url) {
+      Linking.openURL(url).catch(error => {
+        console.error('相談窓口を開けませんでした:', error);
+      });
+    }
+  };
+
+  return (
+    <Modal animationType="fade" transparent={true} visible={visible} onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: isDarkMode ? '#1a1a1a' : '#fff' }]}>
+          <ScrollView>
+            <Text style={[styles.title, { color: isDarkMode ? '#fff' : '#000' }]}>
+              ひとりで抱え込まないでください
+            </Text>
+            <Text style={[styles.message, { color: isDarkMode ? '#ccc' : '#333' }]}>
+              とてもつらい気持ちを書いてくれたように見えます。話を聞いてくれる窓口があります。
+              命の危険が迫っているときは {EMERGENCY_NUMBER} に電話してください。
+            </Text>
+
+            {SUPPORT_RESOURCES.map(resource => (
+              <TouchableOpacity
+                key={resource.name}
+                style={[styles.resource, { borderColor: isDarkMode ? '#333' : '#e0e0e0' }]}
+                onPress={() => openResource(resource)}>
+                <Text style={[styles.resourceName, { color: isDarkMode ? '#fff' : '#000' }]}>
+                  {resource.name}
+                </Text>
+                <Text style={styles.resourceContact}>
+                  {resource.phone ? `📞 ${resource.phone}` : '💬 チャットで相談する'}
+                </Text>
+                <Text style={[styles.resourceDescription, { color: isDarkMode ? '#aaa' : '#666' }]}>
+                  {resource.description}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+            <Text style={styles.cancelButtonText}>書き直す</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.continueButton} onPress={onContinue}>
+            <Text style={[styles.continueButtonText, { color: isDarkMode ? '#aaa' : '#666' }]}>
+              このまま送信する
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  content: {
+    borderRadius: 16,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 10,
+  },
+  message: {
+    fontSize: 14,
+    lineHeight: 21,
+    marginBottom: 16,
+  },
+  resource: {
+    borderWidth: 1,
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 10,
+  },
+  resourceName: {
+    fontSize: 15,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  resourceContact: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1DA1F2',
+    marginBottom: 4,
+  },
+  resourceDescription: {
+    fontSize: 12,
+  },
+  cancelButton: {
+    height: 46,
+    backgroundColor: '#1DA1F2',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  cancelButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  continueButton: {
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  continueButtonText: {
+    fontSize: 14,
+  },
+});
+
+export default CrisisSupportModal;
@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  useColorScheme,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+
+interface EditContentModalProps {
+  visible: boolean;
+  title: string;
+  initialContent: string;
+  maxLength?: number;
+  onClose: () => void;
+  // 保存できたら true を返す
+  onSave: (content: string) => Promise<boolean>;
+  // 編集画面の上に重ねるモーダル(相談窓口の案内など)
+  children?: React.ReactNode;
+}
+
+// 投稿・リプライの本文を編集するモーダル
+function EditContentModal({
+  visible,
+  title,
+  initialContent,
+  maxLength,
+  onClose,
+  onSave,
+  children,
+}: EditContentModalProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const [content, setContent] = useState(initialContent);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setContent(initialContent);
+    }
+  }, [visible, initialContent]);
+
+  const handleSave = async () => {
+    if (!content.trim()) {
+      Alert.alert('エラー', '内容を入力してください');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      if (await onSave(content)) {
+        onClose();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unchanged = content === initialContent;
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContent, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={onClose} disabled={saving}>
+              <Text style={[styles.cancelButton, { color: isDarkMode ? '#fff' : '#000' }]}>
+                キャンセル
+              </Text>
+            </TouchableOpacity>
+            <Text style={[styles.modalTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
+              {title}
+            </Text>
+            <TouchableOpacity
+              style={[styles.saveButton, (saving || unchanged) && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving || unchanged}>
+              {saving ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.saveButtonText}>保存</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <TextInput
+            style={[
+              styles.textInput,
+              {
+                color: isDarkMode ? '#fff' : '#000',
+                backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5',
+              }
+            ]}
+            value={content}
+            onChangeText={setContent}
+            multiline
+            autoFocus
+            maxLength={maxLength}
+            editable={!saving}
+          />
+          {maxLength !== undefined && (
+            <Text style={styles.charCount}>
+              {content.length}/{maxLength}
+            </Text>
+          )}
+        </View>
+      </View>
+
+      {children}
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '70%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  cancelButton: {
+    fontSize: 15,
+  },
+  saveButton: {
+    backgroundColor: '#1DA1F2',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    minWidth: 60,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  textInput: {
+    minHeight: 120,
+    fontSize: 16,
+    padding: 12,
+    borderRadius: 8,
+    textAlignVertical: 'top',
+  },
+  charCount: {
+    fontSize: 12,
+    color: '#888',
+    textAlign: 'right',
+    marginTop: 6,
+  },
+});
+
+export default EditContentModal;
@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Image,
+  SafeAreaView,
+  useWindowDimensions,
+} from 'react-native';
+import { PostMediaSummary } from '../data/postMedia';
+
+interface MediaViewerProps {
+  media: PostMediaSummary[];
+  // 表示中の画像。null で閉じる
+  initialIndex: number | null;
+  onClose: () => void;
+}
+
+// 投稿の画像を全画面で左右にめくって表示する
+function MediaViewer({ media, initialIndex, onClose }: MediaViewerProps) {
+  const { width, height } = useWindowDimensions();
+  const [index, setIndex] = useState(0);
+  const scrollRef = useRef<ScrollView>(null);
+
+  useEffect(() => {
+    if (initialIndex === null) return;
+
+    setIndex(initialIndex);
+    // モーダルが開いてから位置を合わせる
+    requestAnimationFrame(() => {
+      scrollRef.current?.scrollTo({ x: initialIndex * width, animated: false });
+    });
+  }, [initialIndex, width]);
+
+  return (
+    <Modal
+      animationType="fade"
+      visible={initialIndex !== null}
+      onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.closeButton}>✕</Text>
+          </TouchableOpacity>
+          {media.length > 1 && (
+            <Text style={styles.pageText}>
+              {index + 1} / {media.length}
+            </Text>
+          )}
+        </View>
+        <ScrollView
+          ref={scrollRef}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          onMomentumScrollEnd={event =>
+            setIndex(Math.round(event.nativeEvent.contentOffset.x / width))
+          }>
+          {media.map(item => (
+            <Image
+              key={item.url}
+              source={{ uri: item.url }}
+              style={{ width, height: height * 0.8 }}
+              resizeMode="contain"
+            />
+          ))}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  closeButton: {
+    color: '#fff',
+    fontSize: 22,
+  },
+  pageText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default MediaViewer;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, useColorScheme } from 'react-native';
+
+interface MutedWordGateProps {
+  muted: boolean;
+  // 折りたたんだときの表示(例: ミュートしたワードを含む投稿)
+  label: string;
+  // リプライの本文のように、行の中の一部だけを置き換えるときは枠線を付けない
+  inline?: boolean;
+  children: React.ReactNode;
+}
+
+// ミュートしたワードに一致した投稿・リプライ・通知を、1行の表示に置き換える。タップすれば中身を見られる
+function MutedWordGate({ muted, label, inline = false, children }: MutedWordGateProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const [revealed, setRevealed] = useState(false);
+
+  if (!muted || revealed) {
+    return <>{children}</>;
+  }
+
+  return (
+    <View
+      style={[
+        styles.container,
+        inline ? styles.inlineContainer : { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }
+      ]}>
+      <Text style={[styles.label, { color: isDarkMode ? '#888' : '#666' }]}>
+        🔇 {label}
+      </Text>
+      <TouchableOpacity onPress={() => setRevealed(true)}>
+        <Text style={styles.revealButtonText}>表示する</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  inlineContainer: {
+    paddingHorizontal: 0,
+    paddingVertical: 4,
+    borderBottomWidth: 0,
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+  },
+  revealButtonText: {
+    color: '#1DA1F2',
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 12,
+  },
+});
+
+export default MutedWordGate;
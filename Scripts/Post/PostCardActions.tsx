@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Alert, AlertButton, Image, StyleSheet, TouchableOpacity, useColorScheme } from 'react-native';
+import { BLOCKED_ERROR_CODE } from '../data/blocks';
+import { ConversationSummary, DM_NOT_ALLOWED_ERROR_CODE, findOrCreateConversation } from '../data/conversations';
+import { FeedPost } from '../data/posts';
+import { ReportTarget } from '../data/reports';
+import ConversationModal from '../Messages/ConversationModal';
+import ReportModal from './ReportModal';
+
+type MenuPost = Pick<FeedPost, 'id' | 'user_id'>;
+
+interface PostCardActionsOptions {
+  // 投稿者が分かる投稿のメニューの最後に足す項目
+  authorActions?: (authorId: string) => AlertButton[];
+}
+
+// ホーム・検索・トレンド・ブックマーク・カテゴリの投稿カードに出す、他人の投稿のメニュー
+export function usePostCardActions(
+  currentUserId: string | null,
+  { authorActions }: PostCardActionsOptions = {}
+) {
+  const [chatConversation, setChatConversation] = useState<ConversationSummary | null>(null);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+
+  const startConversation = async (userId: string) => {
+    if (!currentUserId) {
+      Alert.alert('エラー', 'ログインが必要です');
+      return;
+    }
+
+    try {
+      const { data, error } = await findOrCreateConversation(currentUserId, userId);
+
+      if (error) {
+        console.error('会話作成エラー:', error);
+        const canExplain = error.code === BLOCKED_ERROR_CODE || error.code === DM_NOT_ALLOWED_ERROR_CODE;
+        Alert.alert('エラー', canExplain ? error.message : 'メッセージを開けませんでした');
+        return;
+      }
+
+      setChatConversation(data);
+    } catch (error) {
+      Alert.alert('エラー', '予期しないエラーが発生しました');
+    }
+  };
+
+  // 自分の投稿は ID が返ってくる。他人の匿名投稿は null なので、投稿の通報だけを出す
+  const hasMenu = (post: MenuPost) => post.user_id !== currentUserId;
+
+  const openMenu = (post: MenuPost) => {
+    const authorId = post.user_id;
+
+    Alert.alert(
+      'メニュー',
+      '',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '投稿を通報',
+          onPress: () => setReportTarget({ type: 'post', id: post.id })
+        },
+        ...(!authorId ? [] : [
+          {
+            text: 'メッセージ',
+            onPress: () => startConversation(authorId)
+          },
+          {
+            text: 'ユーザーを通報',
+            onPress: () => setReportTarget({ type: 'user', id: authorId })
+          },
+          ...(authorActions?.(authorId) || [])
+        ])
+      ]
+    );
+  };
+
+  return {
+    hasMenu,
+    openMenu,
+    // PostCardActions に渡す
+    modalProps: {
+      currentUserId,
+      conversation: chatConversation,
+      onCloseConversation: () => setChatConversation(null),
+      reportTarget,
+      onCloseReport: () => setReportTarget(null),
+    },
+  };
+}
+
+interface PostCardMenuButtonProps {
+  onPress: () => void;
+}
+
+export function PostCardMenuButton({ onPress }: PostCardMenuButtonProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+
+  return (
+    <TouchableOpacity style={styles.menuButton} onPress={onPress}>
+      <Image
+        source={require('../../assets/icon/setting.png')}
+        style={[styles.menuIcon, { tintColor: isDarkMode ? '#fff' : '#666' }]}
+      />
+    </TouchableOpacity>
+  );
+}
+
+type PostCardActionsProps = ReturnType<typeof usePostCardActions>['modalProps'];
+
+// メニューから開く画面。一覧の画面に1つだけ置く
+function PostCardActions({
+  currentUserId,
+  conversation,
+  onCloseConversation,
+  reportTarget,
+  onCloseReport,
+}: PostCardActionsProps) {
+  return (
+    <>
+      <ReportModal
+        target={reportTarget}
+        reporterId={currentUserId}
+        onClose={onCloseReport}
+      />
+
+      <ConversationModal
+        conversation={conversation}
+        currentUserId={currentUserId}
+        onClose={onCloseConversation}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  menuButton: {
+    padding: 4,
+    marginLeft: 4,
+  },
+  menuIcon: {
+    width: 20,
+    height: 20,
+  },
+});
+
+export default PostCardActions;
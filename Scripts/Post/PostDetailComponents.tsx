@@ -0,0 +1,1159 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  useColorScheme,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  Alert,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+  RefreshControl,
+  Modal,
+  ScrollView,
+} from 'react-native';
+import { supabase } from '../supabaseClient';
+import { ANONYMOUS_LABEL } from '../constants/anonymous';
+import { getCategoryLabel, getCategoryIcon } from '../constants/complexCategories';
+import { MUTED_WORD_PLACEHOLDERS } from '../constants/mutedWords';
+import { FeedPost, deletePost, editPost, fetchFeedPost, fetchPostEdits } from '../data/posts';
+import { subscribePostEvents } from '../data/postEvents';
+import { getContentWarningReasons } from '../data/contentWarnings';
+import { useCollapsedCategories } from '../data/useCollapsedCategories';
+import { useMutedWords } from '../data/useMutedWords';
+import { ModeratedContentType, flagCrisisContent } from '../data/moderation';
+import { useCrisisCheck } from '../data/useCrisisCheck';
+import { ReportTarget, reportTargetKey } from '../data/reports';
+import { useHiddenTargets } from '../data/useHiddenTargets';
+import { useBlockedAndMutedUsers } from '../data/useBlockedAndMutedUsers';
+import { BLOCKED_ERROR_CODE } from '../data/blocks';
+import { ConversationSummary, DM_NOT_ALLOWED_ERROR_CODE, findOrCreateConversation } from '../data/conversations';
+import {
+  ReplyThreadItem,
+  ThreadReply,
+  buildReplyThread,
+  createReply,
+  deleteReply,
+  editReply,
+  fetchReplies,
+  fetchReplyEdits,
+  likeReply,
+  unlikeReply,
+} from '../data/replies';
+import { usePostPager } from '../data/usePostPager';
+import EditContentModal from './EditContentModal';
+import ContentWarningGate from './ContentWarningGate';
+import MutedWordGate from './MutedWordGate';
+import CrisisSupportModal from './CrisisSupportModal';
+import PostMediaGrid from './PostMediaGrid';
+import ReactionSummary from './ReactionSummary';
+import ReportModal from './ReportModal';
+import ConversationModal from '../Messages/ConversationModal';
+
+interface PostDetailComponentsProps {
+  postId: string;
+  onClose: () => void;
+  // リプライ数などが変わったときに一覧側の投稿を更新するために呼ばれる
+  onPostChange?: (post: FeedPost) => void;
+}
+
+type EditTarget = { type: 'post' } | { type: 'reply'; reply: ThreadReply };
+
+interface EditHistory {
+  title: string;
+  // 新しい順の編集前の本文
+  entries: Array<{ id: string; content: string; created_at: string }>;
+}
+
+const PAGE_SIZE = 20;
+const REPLY_MAX_LENGTH = 280;
+// これより深い返信はインデントを増やさない
+const MAX_REPLY_INDENT = 4;
+
+// 投稿の全文とスレッド形式のリプライを表示する
+function PostDetailComponents({ postId, onClose, onPostChange }: PostDetailComponentsProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const [post, setPost] = useState<FeedPost | null>(null);
+  const [loadingPost, setLoadingPost] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const collapsedCategories = useCollapsedCategories(currentUserId);
+  const { isMuted } = useMutedWords(currentUserId);
+  const crisisCheck = useCrisisCheck();
+  const editCrisisCheck = useCrisisCheck();
+  const hiddenTargets = useHiddenTargets(currentUserId);
+  const { hiddenUserIds } = useBlockedAndMutedUsers(currentUserId);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const [chatConversation, setChatConversation] = useState<ConversationSummary | null>(null);
+  const [replyContent, setReplyContent] = useState('');
+  const [replyTarget, setReplyTarget] = useState<ThreadReply | null>(null);
+  const [postingReply, setPostingReply] = useState(false);
+  // 自分が送信したリプライ。未読み込みのページより先に表示する
+  const [postedReplies, setPostedReplies] = useState<ThreadReply[]>([]);
+  const [editTarget, setEditTarget] = useState<EditTarget | null>(null);
+  const [editHistory, setEditHistory] = useState<EditHistory | null>(null);
+  // 連打で同じリプライへのいいねが重ならないようにする
+  const pendingReplyLikesRef = useRef<Set<string>>(new Set());
+
+  const replyPager = usePostPager<ThreadReply>({
+    pageSize: PAGE_SIZE,
+    loadPage: async ({ last }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      return fetchReplies(postId, { viewerId: user?.id, after: last, limit: PAGE_SIZE });
+    },
+  });
+
+  useEffect(() => {
+    getCurrentUser();
+    loadPost();
+    setPostedReplies([]);
+    replyPager.reset();
+
+    return subscribePostEvents(event => {
+      if (event.type === 'deleted' && event.postId === postId) {
+        onClose();
+      } else if (event.type === 'edited' && event.post.id === postId) {
+        setPost(prev => prev && { ...prev, content: event.post.content, edited_at: event.post.edited_at });
+      }
+    });
+  }, [postId]);
+
+  const getCurrentUser = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) {
+      setCurrentUserId(user.id);
+    }
+  };
+
+  const loadPost = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await fetchFeedPost(postId, user?.id);
+
+      if (error) {
+        console.error('投稿取得エラー:', error);
+        return;
+      }
+
+      setPost(data);
+    } catch (error) {
+      console.error('予期しないエラー:', error);
+    } finally {
+      setLoadingPost(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    setPostedReplies([]);
+    await Promise.all([
+      loadPost(),
+      replyPager.reset(),
+    ]);
+    setRefreshing(false);
+  };
+
+  const updateReply = (replyId: string, updater: (reply: ThreadReply) => ThreadReply) => {
+    const update = (prev: ThreadReply[]) =>
+      prev.map(reply => (reply.id === replyId ? updater(reply) : reply));
+    replyPager.updatePosts(update);
+    setPostedReplies(update);
+  };
+
+  const handleReplyLike = async (reply: ThreadReply) => {
+    if (!currentUserId) {
+      Alert.alert('エラー', 'ログインが必要です');
+      return;
+    }
+
+    if (pendingReplyLikesRef.current.has(reply.id)) {
+      return;
+    }
+
+    const wasLiked = reply.is_liked;
+    const toggle = (liked: boolean) => (target: ThreadReply) => ({
+      ...target,
+      is_liked: liked,
+      likes_count: target.likes_count + (liked ? 1 : -1),
+    });
+
+    pendingReplyLikesRef.current.add(reply.id);
+    updateReply(reply.id, toggle(!wasLiked));
+
+    try {
+      const { error } = wasLiked
+        ? await unlikeReply(reply.id, currentUserId)
+        : await likeReply(reply.id, currentUserId);
+
+      if (error) {
+        updateReply(reply.id, toggle(wasLiked));
+        console.error('リプライのいいねエラー:', error);
+      }
+    } catch (error) {
+      updateReply(reply.id, toggle(wasLiked));
+      console.error('リプライのいいねエラー:', error);
+    } finally {
+      pendingReplyLikesRef.current.delete(reply.id);
+    }
+  };
+
+  const removeReply = (replyId: string) => {
+    const remove = (prev: ThreadReply[]) => prev.filter(reply => reply.id !== replyId);
+    replyPager.updatePosts(remove);
+    setPostedReplies(remove);
+  };
+
+  const handleEdit = async (content: string) => {
+    if (!currentUserId || !editTarget) return false;
+
+    const { proceed, match } = await editCrisisCheck.check(content);
+    if (!proceed) {
+      return false;
+    }
+
+    const flagEdited = async (contentType: ModeratedContentType, contentId: string) => {
+      if (!match) return;
+
+      const { error: flagError } = await flagCrisisContent({
+        contentType,
+        contentId,
+        userId: currentUserId,
+        match,
+      });
+
+      if (flagError) {
+        console.error('モデレーション登録エラー:', flagError);
+      }
+    };
+
+    try {
+      if (editTarget.type === 'post') {
+        const { error } = await editPost({ postId, userId: currentUserId, content });
+
+        if (error) {
+          console.error('投稿編集エラー:', error);
+          Alert.alert('エラー', '投稿の編集に失敗しました');
+          return false;
+        }
+
+        await flagEdited('post', postId);
+        return true;
+      }
+
+      const { data, error } = await editReply({
+        replyId: editTarget.reply.id,
+        userId: currentUserId,
+        content,
+      });
+
+      if (error) {
+        console.error('リプライ編集エラー:', error);
+        Alert.alert('エラー', 'リプライの編集に失敗しました');
+        return false;
+      }
+
+      updateReply(data.id, reply => ({ ...reply, content: data.content, edited_at: data.edited_at }));
+      await flagEdited('reply', data.id);
+      return true;
+    } catch (error) {
+      Alert.alert('エラー', '予期しないエラーが発生しました');
+      return false;
+    }
+  };
+
+  const handleDeletePost = () => {
+    if (!currentUserId) return;
+
+    Alert.alert(
+      '投稿を削除',
+      'この投稿を削除しますか?いいね・共有・ブックマーク・リプライもすべて削除されます。',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '削除',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              // 削除に成功すると購読しているイベントで画面を閉じる
+              const { error } = await deletePost(postId, currentUserId);
+
+              if (error) {
+                console.error('投稿削除エラー:', error);
+                Alert.alert('エラー', '投稿の削除に失敗しました');
+              }
+            } catch (error) {
+              Alert.alert('エラー', '予期しないエラーが発生しました');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleDeleteReply = (reply: ThreadReply) => {
+    if (!currentUserId) return;
+
+    Alert.alert(
+      'リプライを削除',
+      'このリプライを削除しますか?',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '削除',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const { data, error } = await deleteReply(reply.id, currentUserId);
+
+              if (error) {
+                console.error('リプライ削除エラー:', error);
+                Alert.alert('エラー', 'リプライの削除に失敗しました');
+                return;
+              }
+
+              if (data.tombstoned) {
+                updateReply(reply.id, target => ({
+                  ...target,
+                  content: '',
+                  deleted_at: new Date().toISOString(),
+                }));
+                return;
+              }
+
+              removeReply(reply.id);
+              if (post) {
+                const updatedPost = { ...post, replies_count: Math.max(0, post.replies_count - 1) };
+                setPost(updatedPost);
+                onPostChange?.(updatedPost);
+              }
+            } catch (error) {
+              Alert.alert('エラー', '予期しないエラーが発生しました');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const openPostMenu = () => {
+    if (!post) return;
+
+    const authorId = post.user_id;
+
+    if (authorId === currentUserId) {
+      Alert.alert(
+        'メニュー',
+        '',
+        [
+          { text: 'キャンセル', style: 'cancel' },
+          { text: '編集', onPress: () => setEditTarget({ type: 'post' }) },
+          { text: '削除', style: 'destructive', onPress: handleDeletePost }
+        ]
+      );
+      return;
+    }
+
+    Alert.alert(
+      'メニュー',
+      '',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        { text: '投稿を通報', onPress: () => setReportTarget({ type: 'post', id: post.id }) },
+        // 匿名投稿は投稿者の ID が返ってこないので、メッセージやユーザーの通報はできない
+        ...(!authorId ? [] : [
+          { text: 'メッセージ', onPress: () => startConversation(authorId) },
+          {
+            text: 'ユーザーを通報',
+            onPress: () => setReportTarget({ type: 'user', id: authorId })
+          }
+        ])
+      ]
+    );
+  };
+
+  const startConversation = async (userId: string) => {
+    if (!currentUserId) return;
+
+    try {
+      const { data, error } = await findOrCreateConversation(currentUserId, userId);
+
+      if (error) {
+        console.error('会話作成エラー:', error);
+        const canExplain = error.code === BLOCKED_ERROR_CODE || error.code === DM_NOT_ALLOWED_ERROR_CODE;
+        Alert.alert('エラー', canExplain ? error.message : 'メッセージを開けませんでした');
+        return;
+      }
+
+      setChatConversation(data);
+    } catch (error) {
+      Alert.alert('エラー', '予期しないエラーが発生しました');
+    }
+  };
+
+  const showEditHistory = async (target: EditTarget) => {
+    try {
+      const { data, error } = target.type === 'post'
+        ? await fetchPostEdits(postId)
+        : await fetchReplyEdits(target.reply.id);
+
+      if (error) {
+        console.error('編集履歴取得エラー:', error);
+        return;
+      }
+
+      setEditHistory({
+        title: target.type === 'post' ? '投稿の編集履歴' : 'リプライの編集履歴',
+        entries: data,
+      });
+    } catch (error) {
+      console.error('予期しないエラー:', error);
+    }
+  };
+
+  const handleReply = async () => {
+    if (!replyContent.trim() || !post) {
+      Alert.alert('エラー', 'リプライ内容を入力してください');
+      return;
+    }
+
+    if (!currentUserId) {
+      Alert.alert('エラー', 'ログインが必要です');
+      return;
+    }
+
+    const { proceed, match } = await crisisCheck.check(replyContent);
+    if (!proceed) {
+      return;
+    }
+
+    setPostingReply(true);
+
+    try {
+      const { data, error } = await createReply({
+        postId: post.id,
+        userId: currentUserId,
+        content: replyContent,
+        parentReplyId: replyTarget?.id,
+      });
+
+      if (error) {
+        Alert.alert('リプライエラー', error.message);
+        return;
+      }
+
+      if (match) {
+        const { error: flagError } = await flagCrisisContent({
+          contentType: 'reply',
+          contentId: data.id,
+          userId: currentUserId,
+          match,
+        });
+
+        if (flagError) {
+          console.error('モデレーション登録エラー:', flagError);
+        }
+      }
+
+      setReplyContent('');
+      setReplyTarget(null);
+      setPostedReplies(prev => [...prev, data]);
+
+      const updatedPost = { ...post, replies_count: post.replies_count + 1 };
+      setPost(updatedPost);
+      onPostChange?.(updatedPost);
+    } catch (error) {
+      Alert.alert('エラー', '予期しないエラーが発生しました');
+    } finally {
+      setPostingReply(false);
+    }
+  };
+
+  const getTimeAgo = (timestamp: string) => {
+    const now = new Date().getTime();
+    const postTime = new Date(timestamp).getTime();
+    const diffInSeconds = Math.floor((now - postTime) / 1000);
+
+    if (diffInSeconds < 60) {
+      return `${diffInSeconds}秒前`;
+    } else if (diffInSeconds < 3600) {
+      return `${Math.floor(diffInSeconds / 60)}分前`;
+    } else if (diffInSeconds < 86400) {
+      return `${Math.floor(diffInSeconds / 3600)}時間前`;
+    } else {
+      return `${Math.floor(diffInSeconds / 86400)}日前`;
+    }
+  };
+
+  const getLevelColor = (level: number) => {
+    if (level <= 20) return '#4CAF50';
+    if (level <= 40) return '#8BC34A';
+    if (level <= 60) return '#FFC107';
+    if (level <= 80) return '#FF9800';
+    return '#F44336';
+  };
+
+  const renderPost = () => {
+    if (!post) return null;
+
+    return (
+      <View style={[styles.postContainer, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+        <View style={styles.postHeader}>
+          {post.profiles?.avatar_url ? (
+            <Image source={{ uri: post.profiles.avatar_url }} style={styles.avatar} />
+          ) : (
+            <View style={[styles.avatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
+              <Text style={styles.avatarPlaceholderText}>👤</Text>
+            </View>
+          )}
+          <View style={styles.userDetails}>
+            <Text style={[styles.userName, { color: isDarkMode ? '#fff' : '#000' }]}>
+              {post.profiles?.name || '名前未設定'}
+            </Text>
+            {post.is_anonymous ? (
+              <Text style={[styles.levelText, { color: isDarkMode ? '#aaa' : '#666' }]}>
+                {ANONYMOUS_LABEL}の投稿
+              </Text>
+            ) : (
+              <Text style={[styles.levelText, { color: getLevelColor(post.profiles?.complex_level || 0) }]}>
+                コンプレックスレベル {post.profiles?.complex_level || 0}
+              </Text>
+            )}
+          </View>
+          <Text style={styles.postTime}>
+            {getTimeAgo(post.created_at)}
+          </Text>
+          {currentUserId && (
+            <TouchableOpacity style={styles.menuButton} onPress={openPostMenu}>
+              <Image
+                source={require('../../assets/icon/setting.png')}
+                style={[styles.menuIcon, { tintColor: isDarkMode ? '#fff' : '#666' }]}
+              />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {post.post_complexes.length > 0 && (
+          <View style={styles.postComplexesContainer}>
+            {post.post_complexes.map((complex, idx) => (
+              <View key={idx} style={[styles.complexChip, { backgroundColor: isDarkMode ? '#0a2a3a' : '#e3f2fd' }]}>
+                <Text style={styles.complexChipIcon}>{getCategoryIcon(complex.category)}</Text>
+                <Text style={[styles.complexChipText, { color: isDarkMode ? '#fff' : '#000' }]}>
+                  {getCategoryLabel(complex.category)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <ContentWarningGate reasons={getContentWarningReasons(post, collapsedCategories)}>
+          <Text style={[styles.postContent, { color: isDarkMode ? '#fff' : '#000' }]}>
+            {post.content}
+          </Text>
+
+          <PostMediaGrid media={post.post_media} />
+        </ContentWarningGate>
+
+        {post.edited_at && (
+          <TouchableOpacity onPress={() => showEditHistory({ type: 'post' })}>
+            <Text style={styles.editedMarker}>編集済み・履歴を見る</Text>
+          </TouchableOpacity>
+        )}
+
+        <ReactionSummary counts={post.reaction_counts} />
+
+        <View style={styles.countsContainer}>
+          <Text style={[styles.countText, { color: isDarkMode ? '#fff' : '#000' }]}>
+            <Text style={styles.countNumber}>{post.likes_count}</Text> リアクション
+          </Text>
+          <Text style={[styles.countText, { color: isDarkMode ? '#fff' : '#000' }]}>
+            <Text style={styles.countNumber}>{post.replies_count}</Text> リプライ
+          </Text>
+          <Text style={[styles.countText, { color: isDarkMode ? '#fff' : '#000' }]}>
+            <Text style={styles.countNumber}>{post.shares_count}</Text> 共有
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  // ホームと同じく、ブロック・ミュートしたユーザー、ブロックされているユーザー、通報して非表示にした対象を出さない。
+  // 匿名投稿の投稿者は ID が返ってこないので、ユーザー単位では隠れない
+  const isHiddenContent = (target: ReportTarget, authorId: string | null) =>
+    hiddenTargets.has(reportTargetKey(target)) ||
+    (!!authorId &&
+      (hiddenUserIds.has(authorId) || hiddenTargets.has(reportTargetKey({ type: 'user', id: authorId }))));
+
+  const renderReply = ({ item }: { item: ReplyThreadItem }) => {
+    const { reply, depth } = item;
+    // 返信の流れが分からなくならないよう、行は残して本文だけ隠す
+    const isHidden = isHiddenContent({ type: 'reply', id: reply.id }, reply.user_id);
+
+    return (
+      <View
+        style={[
+          styles.replyItem,
+          { marginLeft: Math.min(depth, MAX_REPLY_INDENT) * 20 },
+          depth > 0 && [styles.nestedReply, { borderLeftColor: isDarkMode ? '#333' : '#e0e0e0' }]
+        ]}>
+        <View style={styles.replyHeader}>
+          {reply.profiles?.avatar_url ? (
+            <Image source={{ uri: reply.profiles.avatar_url }} style={styles.smallAvatar} />
+          ) : (
+            <View style={[styles.smallAvatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
+              <Text style={styles.smallAvatarPlaceholderText}>👤</Text>
+            </View>
+          )}
+          <View style={styles.replyUserInfo}>
+            <Text style={[styles.replyUserName, { color: isDarkMode ? '#fff' : '#000' }]}>
+              {reply.profiles?.name || '名前未設定'}
+            </Text>
+            <Text style={styles.replyTime}>
+              {getTimeAgo(reply.created_at)}
+            </Text>
+          </View>
+        </View>
+        {reply.deleted_at ? (
+          <Text style={styles.deletedReplyText}>このリプライは削除されました</Text>
+        ) : isHidden ? (
+          <Text style={styles.deletedReplyText}>このリプライは表示されません</Text>
+        ) : (
+          <MutedWordGate
+            muted={isMuted([reply.content], 'replies')}
+            label={MUTED_WORD_PLACEHOLDERS.replies}
+            inline>
+            <Text style={[styles.replyContent, { color: isDarkMode ? '#fff' : '#000' }]}>
+              {reply.content}
+            </Text>
+            <View style={styles.replyActions}>
+              <TouchableOpacity
+                style={styles.replyActionButton}
+                onPress={() => handleReplyLike(reply)}>
+                <Image
+                  source={require('../../assets/icon/heart.png')}
+                  style={[
+                    styles.replyActionIcon,
+                    { tintColor: reply.is_liked ? '#e91e63' : (isDarkMode ? '#fff' : '#666') }
+                  ]}
+                />
+                <Text style={[styles.replyActionText, { color: isDarkMode ? '#fff' : '#000' }]}>
+                  {reply.likes_count}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.replyActionButton}
+                onPress={() => setReplyTarget(reply)}>
+                <Text style={styles.replyActionLink}>返信</Text>
+              </TouchableOpacity>
+              {reply.edited_at && (
+                <TouchableOpacity
+                  style={styles.replyActionButton}
+                  onPress={() => showEditHistory({ type: 'reply', reply })}>
+                  <Text style={styles.editedMarker}>編集済み</Text>
+                </TouchableOpacity>
+              )}
+              {reply.user_id === currentUserId && (
+                <>
+                  <TouchableOpacity
+                    style={styles.replyActionButton}
+                    onPress={() => setEditTarget({ type: 'reply', reply })}>
+                    <Text style={styles.replyActionLink}>編集</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.replyActionButton}
+                    onPress={() => handleDeleteReply(reply)}>
+                    <Text style={styles.replyDeleteLink}>削除</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+              {currentUserId && reply.user_id !== currentUserId && (
+                <TouchableOpacity
+                  style={styles.replyActionButton}
+                  onPress={() => setReportTarget({ type: 'reply', id: reply.id })}>
+                  <Text style={styles.replyActionLink}>通報</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </MutedWordGate>
+        )}
+      </View>
+    );
+  };
+
+  const loadedIds = new Set(replyPager.posts.map(reply => reply.id));
+  const thread = buildReplyThread([
+    ...replyPager.posts,
+    ...postedReplies.filter(reply => !loadedIds.has(reply.id)),
+  ]);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      keyboardVerticalOffset={0}>
+      <View style={[styles.header, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={[styles.closeButton, { color: isDarkMode ? '#fff' : '#000' }]}>
+            閉じる
+          </Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
+          投稿
+        </Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      {loadingPost ? (
+        <View style={styles.content}>
+          <ActivityIndicator size="large" color="#1DA1F2" />
+        </View>
+      ) : !post ? (
+        <View style={styles.content}>
+          <Text style={[styles.emptyText, { color: isDarkMode ? '#fff' : '#000' }]}>
+            投稿が見つかりません
+          </Text>
+        </View>
+      ) : isHiddenContent({ type: 'post', id: post.id }, post.user_id) ? (
+        <View style={styles.content}>
+          <Text style={[styles.emptyText, { color: isDarkMode ? '#fff' : '#000' }]}>
+            この投稿は表示されません
+          </Text>
+        </View>
+      ) : (
+        <>
+          <FlatList
+            data={thread}
+            renderItem={renderReply}
+            keyExtractor={(item) => item.reply.id}
+            ListHeaderComponent={renderPost()}
+            ListEmptyComponent={
+              replyPager.loaded ? (
+                <Text style={[styles.noRepliesText, { color: isDarkMode ? '#888' : '#666' }]}>
+                  まだリプライがありません
+                </Text>
+              ) : (
+                <ActivityIndicator style={styles.listFooter} color="#1DA1F2" />
+              )
+            }
+            ListFooterComponent={
+              replyPager.loadingMore ? (
+                <ActivityIndicator style={styles.listFooter} color="#1DA1F2" />
+              ) : null
+            }
+            onEndReached={replyPager.loadMore}
+            onEndReachedThreshold={0.5}
+            contentContainerStyle={styles.replyList}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={onRefresh}
+                tintColor="#1DA1F2"
+                colors={['#1DA1F2']}
+              />
+            }
+          />
+
+          <View style={[styles.composer, { borderTopColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+            {replyTarget && (
+              <View style={styles.replyTargetContainer}>
+                <Text style={styles.replyTargetText} numberOfLines={1}>
+                  {replyTarget.profiles?.name || '名前未設定'}さんに返信
+                </Text>
+                <TouchableOpacity onPress={() => setReplyTarget(null)}>
+                  <Text style={styles.replyTargetCancel}>✕</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            <View style={styles.composerRow}>
+              <TextInput
+                style={[
+                  styles.replyInput,
+                  {
+                    backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5',
+                    color: isDarkMode ? '#fff' : '#000'
+                  }
+                ]}
+                placeholder="リプライを入力..."
+                placeholderTextColor={isDarkMode ? '#888' : '#999'}
+                value={replyContent}
+                onChangeText={setReplyContent}
+                multiline
+                maxLength={REPLY_MAX_LENGTH}
+                editable={!postingReply}
+              />
+              <TouchableOpacity
+                style={[
+                  styles.sendButton,
+                  (!replyContent.trim() || postingReply) && styles.sendButtonDisabled
+                ]}
+                onPress={handleReply}
+                disabled={!replyContent.trim() || postingReply}>
+                {postingReply ? (
+                  <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                  <Text style={styles.sendButtonText}>送信</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </>
+      )}
+
+      <EditContentModal
+        visible={editTarget !== null}
+        title={editTarget?.type === 'reply' ? 'リプライを編集' : '投稿を編集'}
+        initialContent={
+          editTarget?.type === 'reply' ? editTarget.reply.content : post?.content || ''
+        }
+        maxLength={editTarget?.type === 'reply' ? REPLY_MAX_LENGTH : undefined}
+        onClose={() => setEditTarget(null)}
+        onSave={handleEdit}>
+        <CrisisSupportModal {...editCrisisCheck.modalProps} />
+      </EditContentModal>
+
+      <ReportModal
+        target={reportTarget}
+        reporterId={currentUserId}
+        onClose={() => setReportTarget(null)}
+      />
+
+      <ConversationModal
+        conversation={chatConversation}
+        currentUserId={currentUserId}
+        onClose={() => setChatConversation(null)}
+      />
+
+      <Modal
+        animationType="fade"
+        transparent={true}
+        visible={editHistory !== null}
+        onRequestClose={() => setEditHistory(null)}>
+        <TouchableOpacity
+          style={styles.historyOverlay}
+          activeOpacity={1}
+          onPress={() => setEditHistory(null)}>
+          <View style={[styles.historyContent, { backgroundColor: isDarkMode ? '#1a1a1a' : '#fff' }]}>
+            <Text style={[styles.historyTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
+              {editHistory?.title}
+            </Text>
+            <ScrollView>
+              {editHistory?.entries.map(entry => (
+                <View key={entry.id} style={[styles.historyEntry, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+                  <Text style={styles.historyTime}>{getTimeAgo(entry.created_at)}に編集</Text>
+                  <Text style={[styles.historyText, { color: isDarkMode ? '#fff' : '#000' }]}>
+                    {entry.content}
+                  </Text>
+                </View>
+              ))}
+            </ScrollView>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
+      <CrisisSupportModal {...crisisCheck.modalProps} />
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  closeButton: {
+    fontSize: 15,
+    fontWeight: '600',
+    width: 60,
+  },
+  emptyText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  postContainer: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    marginBottom: 8,
+  },
+  postHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+  },
+  avatarPlaceholder: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarPlaceholderText: {
+    fontSize: 20,
+  },
+  userDetails: {
+    marginLeft: 10,
+    flex: 1,
+  },
+  userName: {
+    fontSize: 15,
+    fontWeight: '700',
+    marginBottom: 3,
+  },
+  levelText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  postTime: {
+    fontSize: 12,
+    color: '#888',
+    marginLeft: 8,
+  },
+  postComplexesContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  complexChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    gap: 4,
+  },
+  complexChipIcon: {
+    fontSize: 12,
+  },
+  complexChipText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  postContent: {
+    fontSize: 16,
+    lineHeight: 24,
+    marginBottom: 12,
+  },
+  countsContainer: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  countText: {
+    fontSize: 13,
+    opacity: 0.8,
+  },
+  countNumber: {
+    fontWeight: '700',
+  },
+  replyList: {
+    paddingBottom: 16,
+  },
+  noRepliesText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  listFooter: {
+    paddingVertical: 16,
+  },
+  replyItem: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  nestedReply: {
+    borderLeftWidth: 2,
+    paddingLeft: 12,
+  },
+  replyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  smallAvatar: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  smallAvatarPlaceholder: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  smallAvatarPlaceholderText: {
+    fontSize: 14,
+  },
+  replyUserInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+    gap: 8,
+  },
+  replyUserName: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  replyTime: {
+    fontSize: 11,
+    color: '#888',
+  },
+  replyContent: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginLeft: 36,
+  },
+  replyActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 6,
+    marginLeft: 36,
+  },
+  replyActionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  replyActionIcon: {
+    width: 14,
+    height: 14,
+  },
+  replyActionText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  replyActionLink: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1DA1F2',
+  },
+  replyDeleteLink: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#F44336',
+  },
+  deletedReplyText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#888',
+    marginLeft: 36,
+  },
+  editedMarker: {
+    fontSize: 12,
+    color: '#888',
+  },
+  menuButton: {
+    padding: 4,
+    marginLeft: 4,
+  },
+  menuIcon: {
+    width: 20,
+    height: 20,
+  },
+  historyOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  historyContent: {
+    borderRadius: 12,
+    padding: 16,
+    maxHeight: '70%',
+  },
+  historyTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  historyEntry: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  historyTime: {
+    fontSize: 11,
+    color: '#888',
+    marginBottom: 4,
+  },
+  historyText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  composer: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+  },
+  replyTargetContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  replyTargetText: {
+    fontSize: 12,
+    color: '#1DA1F2',
+    flex: 1,
+  },
+  replyTargetCancel: {
+    fontSize: 14,
+    color: '#888',
+    paddingHorizontal: 6,
+  },
+  composerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  replyInput: {
+    flex: 1,
+    minHeight: 40,
+    maxHeight: 100,
+    fontSize: 15,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  sendButton: {
+    backgroundColor: '#1DA1F2',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+  sendButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default PostDetailComponents;
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { PostMediaSummary } from '../data/postMedia';
+import MediaViewer from './MediaViewer';
+
+interface PostMediaGridProps {
+  media: PostMediaSummary[];
+}
+
+const GRID_GAP = 4;
+// 1枚だけのときに縦長の画像でカードが伸びすぎないようにする
+const MIN_SINGLE_ASPECT_RATIO = 0.75;
+
+// 投稿カードの画像。1枚は元の縦横比、2〜4枚は2列のタイルで並べ、タップで全画面表示する
+function PostMediaGrid({ media }: PostMediaGridProps) {
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  if (media.length === 0) {
+    return null;
+  }
+
+  const single = media.length === 1 ? media[0] : null;
+  const singleAspectRatio = single?.width && single?.height
+    ? Math.max(single.width / single.height, MIN_SINGLE_ASPECT_RATIO)
+    : 16 / 9;
+
+  return (
+    <View style={styles.container}>
+      {single ? (
+        <TouchableOpacity activeOpacity={0.8} onPress={() => setViewerIndex(0)}>
+          <Image
+            source={{ uri: single.url }}
+            style={[styles.singleImage, { aspectRatio: singleAspectRatio }]}
+          />
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.grid}>
+          {media.map((item, index) => (
+            <TouchableOpacity
+              key={item.url}
+              activeOpacity={0.8}
+              // 3枚のときは1枚目を横いっぱいに表示する
+              style={media.length === 3 && index === 0 ? styles.wideTile : styles.tile}
+              onPress={() => setViewerIndex(index)}>
+              <Image source={{ uri: item.url }} style={styles.image} />
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <MediaViewer
+        media={media}
+        initialIndex={viewerIndex}
+        onClose={() => setViewerIndex(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: GRID_GAP,
+  },
+  tile: {
+    width: '49%',
+    aspectRatio: 1,
+    flexGrow: 1,
+  },
+  wideTile: {
+    width: '100%',
+    aspectRatio: 2,
+  },
+  singleImage: {
+    width: '100%',
+    backgroundColor: '#333',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+    backgroundColor: '#333',
+  },
+});
+
+export default PostMediaGrid;
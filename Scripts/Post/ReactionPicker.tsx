@@ -0,0 +1,83 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  useColorScheme,
+  TouchableOpacity,
+  Modal,
+} from 'react-native';
+import { REACTIONS, ReactionType } from '../constants/reactions';
+
+interface ReactionPickerProps {
+  visible: boolean;
+  selected: ReactionType | null;
+  onSelect: (type: ReactionType) => void;
+  onClose: () => void;
+}
+
+// 投稿を長押ししたときに開くリアクションの選択
+function ReactionPicker({ visible, selected, onSelect, onClose }: ReactionPickerProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+
+  return (
+    <Modal
+      animationType="fade"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <View style={[styles.picker, { backgroundColor: isDarkMode ? '#1a1a1a' : '#fff' }]}>
+          {REACTIONS.map(reaction => (
+            <TouchableOpacity
+              key={reaction.key}
+              style={[
+                styles.option,
+                selected === reaction.key && { backgroundColor: isDarkMode ? '#0a2a3a' : '#e3f2fd' }
+              ]}
+              onPress={() => {
+                onSelect(reaction.key);
+                onClose();
+              }}>
+              <Text style={styles.optionIcon}>{reaction.icon}</Text>
+              <Text style={[styles.optionLabel, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {reaction.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  picker: {
+    flexDirection: 'row',
+    borderRadius: 28,
+    padding: 8,
+    gap: 4,
+  },
+  option: {
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+  },
+  optionIcon: {
+    fontSize: 28,
+  },
+  optionLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+});
+
+export default ReactionPicker;
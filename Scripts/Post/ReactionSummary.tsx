@@ -0,0 +1,58 @@
+import React from 'react';
+import { View, Text, StyleSheet, useColorScheme } from 'react-native';
+import { REACTIONS, ReactionCounts } from '../constants/reactions';
+
+interface ReactionSummaryProps {
+  counts: ReactionCounts;
+}
+
+// 投稿カードに表示するリアクションの種類ごとの件数
+function ReactionSummary({ counts }: ReactionSummaryProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const reactions = REACTIONS.filter(reaction => counts[reaction.key] > 0);
+
+  if (reactions.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {reactions.map(reaction => (
+        <View
+          key={reaction.key}
+          style={[styles.chip, { backgroundColor: isDarkMode ? '#222' : '#eee' }]}>
+          <Text style={styles.icon}>{reaction.icon}</Text>
+          <Text style={[styles.count, { color: isDarkMode ? '#fff' : '#000' }]}>
+            {counts[reaction.key]}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    gap: 4,
+  },
+  icon: {
+    fontSize: 12,
+  },
+  count: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+export default ReactionSummary;
@@ -0,0 +1,289 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  useColorScheme,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import {
+  REPORT_DETAILS_MAX_LENGTH,
+  REPORT_REASONS,
+  ReportReason,
+} from '../constants/reportReasons';
+import { ReportTarget, ReportTargetType, submitReport } from '../data/reports';
+
+interface ReportModalProps {
+  // null のときは閉じている
+  target: ReportTarget | null;
+  reporterId: string | null;
+  onClose: () => void;
+}
+
+const TARGET_LABELS: Record<ReportTargetType, { title: string; hide: string }> = {
+  post: { title: '投稿を通報', hide: 'この投稿を表示しない' },
+  reply: { title: 'リプライを通報', hide: 'このリプライを表示しない' },
+  user: { title: 'ユーザーを通報', hide: 'このユーザーの投稿を表示しない' },
+  message: { title: 'メッセージを通報', hide: 'このメッセージを表示しない' },
+};
+
+// 投稿・リプライ・ユーザー・メッセージを理由を選んで通報するモーダル
+function ReportModal({ target, reporterId, onClose }: ReportModalProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [hide, setHide] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (target) {
+      setReason(null);
+      setDetails('');
+      setHide(true);
+    }
+  }, [target]);
+
+  const handleSubmit = async () => {
+    if (!target || !reason) {
+      return;
+    }
+
+    if (!reporterId) {
+      Alert.alert('エラー', 'ログインが必要です');
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const { data, error } = await submitReport({
+        reporterId,
+        target,
+        reason,
+        details,
+        hide,
+      });
+
+      if (error) {
+        console.error('通報エラー:', error);
+        Alert.alert('エラー', '通報に失敗しました');
+        return;
+      }
+
+      onClose();
+      Alert.alert(
+        data.alreadyReported ? '通報済みです' : '通報を受け付けました',
+        data.alreadyReported
+          ? 'この内容はすでに通報されています。確認までお待ちください'
+          : 'ご報告ありがとうございます。運営が内容を確認します'
+      );
+    } catch (error) {
+      Alert.alert('エラー', '予期しないエラーが発生しました');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const labels = target ? TARGET_LABELS[target.type] : null;
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={target !== null}
+      onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContent, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={onClose} disabled={submitting}>
+              <Text style={[styles.cancelButton, { color: isDarkMode ? '#fff' : '#000' }]}>
+                キャンセル
+              </Text>
+            </TouchableOpacity>
+            <Text style={[styles.modalTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
+              {labels?.title}
+            </Text>
+            <TouchableOpacity
+              style={[styles.submitButton, (submitting || !reason) && styles.submitButtonDisabled]}
+              onPress={handleSubmit}
+              disabled={submitting || !reason}>
+              {submitting ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.submitButtonText}>送信</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView>
+            {REPORT_REASONS.map(option => {
+              const isSelected = reason === option.key;
+
+              return (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[
+                    styles.reasonRow,
+                    {
+                      borderColor: isSelected ? '#1DA1F2' : (isDarkMode ? '#333' : '#e0e0e0'),
+                      backgroundColor: isSelected ? (isDarkMode ? '#0a2a3a' : '#e3f2fd') : 'transparent',
+                    }
+                  ]}
+                  onPress={() => setReason(option.key)}
+                  disabled={submitting}>
+                  <Text style={[styles.reasonLabel, { color: isDarkMode ? '#fff' : '#000' }]}>
+                    {option.label}
+                  </Text>
+                  <Text style={[styles.reasonDescription, { color: isDarkMode ? '#aaa' : '#666' }]}>
+                    {option.description}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+
+            <TextInput
+              style={[
+                styles.textInput,
+                {
+                  color: isDarkMode ? '#fff' : '#000',
+                  backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5',
+                }
+              ]}
+              placeholder="詳しい状況(任意)"
+              placeholderTextColor={isDarkMode ? '#888' : '#999'}
+              value={details}
+              onChangeText={setDetails}
+              multiline
+              maxLength={REPORT_DETAILS_MAX_LENGTH}
+              editable={!submitting}
+            />
+            <Text style={styles.charCount}>
+              {details.length}/{REPORT_DETAILS_MAX_LENGTH}
+            </Text>
+
+            <TouchableOpacity
+              style={styles.hideRow}
+              onPress={() => setHide(prev => !prev)}
+              disabled={submitting}>
+              <View
+                style={[
+                  styles.checkbox,
+                  { borderColor: hide ? '#1DA1F2' : (isDarkMode ? '#555' : '#ccc') },
+                  hide && styles.checkboxChecked
+                ]}>
+                {hide && <Text style={styles.checkmark}>✓</Text>}
+              </View>
+              <Text style={[styles.hideLabel, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {labels?.hide}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  cancelButton: {
+    fontSize: 15,
+  },
+  submitButton: {
+    backgroundColor: '#F44336',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    minWidth: 60,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  reasonRow: {
+    borderWidth: 1,
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 8,
+  },
+  reasonLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  reasonDescription: {
+    fontSize: 12,
+  },
+  textInput: {
+    minHeight: 90,
+    fontSize: 15,
+    padding: 12,
+    borderRadius: 8,
+    textAlignVertical: 'top',
+    marginTop: 8,
+  },
+  charCount: {
+    fontSize: 12,
+    color: '#888',
+    textAlign: 'right',
+    marginTop: 6,
+  },
+  hideRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    marginBottom: 20,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 10,
+  },
+  checkboxChecked: {
+    backgroundColor: '#1DA1F2',
+  },
+  checkmark: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  hideLabel: {
+    fontSize: 14,
+  },
+});
+
+export default ReportModal;
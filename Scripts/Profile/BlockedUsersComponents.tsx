@@ -0,0 +1,280 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  useColorScheme,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  Alert,
+} from 'react-native';
+import { RelatedUser, fetchBlockedUsers, unblockUser } from '../data/blocks';
+import { fetchMutedUsers, unmuteUser } from '../data/mutes';
+
+interface BlockedUsersComponentsProps {
+  userId: string;
+  onClose: () => void;
+}
+
+type RelationTab = 'blocked' | 'muted';
+
+// ブロック・ミュートしているユーザーの一覧と解除
+function BlockedUsersComponents({ userId, onClose }: BlockedUsersComponentsProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const [tab, setTab] = useState<RelationTab>('blocked');
+  const [users, setUsers] = useState<RelatedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingUserId, setPendingUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadUsers();
+  }, [tab, userId]);
+
+  const loadUsers = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = tab === 'blocked'
+        ? await fetchBlockedUsers(userId)
+        : await fetchMutedUsers(userId);
+
+      if (error) {
+        console.error(tab === 'blocked' ? 'ブロック一覧取得エラー:' : 'ミュート一覧取得エラー:', error);
+        return;
+      }
+
+      setUsers(data);
+    } catch (error) {
+      console.error('予期しないエラー:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const release = async (user: RelatedUser) => {
+    setPendingUserId(user.id);
+
+    try {
+      const { error } = tab === 'blocked'
+        ? await unblockUser(userId, user.id)
+        : await unmuteUser(userId, user.id);
+
+      if (error) {
+        Alert.alert('エラー', tab === 'blocked' ? 'ブロックの解除に失敗しました' : 'ミュートの解除に失敗しました');
+        return;
+      }
+
+      setUsers(prev => prev.filter(item => item.id !== user.id));
+    } catch (error) {
+      Alert.alert('エラー', '予期しないエラーが発生しました');
+    } finally {
+      setPendingUserId(null);
+    }
+  };
+
+  const handleRelease = (user: RelatedUser) => {
+    if (tab === 'muted') {
+      release(user);
+      return;
+    }
+
+    Alert.alert(
+      'ブロックを解除',
+      `${user.name || '名前未設定'}さんのブロックを解除しますか?`,
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        { text: '解除', onPress: () => release(user) }
+      ]
+    );
+  };
+
+  const renderUser = ({ item }: { item: RelatedUser }) => (
+    <View style={[styles.userRow, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+      {item.avatar_url ? (
+        <Image source={{ uri: item.avatar_url }} style={styles.avatar} />
+      ) : (
+        <View style={[styles.avatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
+          <Text style={styles.avatarPlaceholderText}>👤</Text>
+        </View>
+      )}
+      <Text style={[styles.userName, { color: isDarkMode ? '#fff' : '#000' }]} numberOfLines={1}>
+        {item.name || '名前未設定'}
+      </Text>
+      <TouchableOpacity
+        style={[styles.releaseButton, { borderColor: isDarkMode ? '#555' : '#ccc' }]}
+        onPress={() => handleRelease(item)}
+        disabled={pendingUserId !== null}>
+        {pendingUserId === item.id ? (
+          <ActivityIndicator size="small" color="#1DA1F2" />
+        ) : (
+          <Text style={[styles.releaseButtonText, { color: isDarkMode ? '#fff' : '#000' }]}>
+            {tab === 'blocked' ? 'ブロック解除' : 'ミュート解除'}
+          </Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderTabButton = (value: RelationTab, label: string) => (
+    <TouchableOpacity
+      style={[
+        styles.tabButton,
+        tab === value && { borderBottomColor: '#1DA1F2' }
+      ]}
+      onPress={() => setTab(value)}>
+      <Text style={[
+        styles.tabButtonText,
+        { color: isDarkMode ? '#fff' : '#000' },
+        tab === value && styles.tabButtonTextActive
+      ]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={[styles.closeButton, { color: isDarkMode ? '#fff' : '#000' }]}>
+            閉じる
+          </Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
+          ブロック・ミュート
+        </Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      <View style={[styles.tabContainer, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+        {renderTabButton('blocked', 'ブロック中')}
+        {renderTabButton('muted', 'ミュート中')}
+      </View>
+
+      <Text style={[styles.description, { color: isDarkMode ? '#888' : '#666' }]}>
+        {tab === 'blocked'
+          ? 'ブロックしたユーザーの投稿・通知・メッセージは表示されません'
+          : 'ミュートしたユーザーの投稿と通知は表示されません。相手には知らされず、フォロー関係もそのままです'}
+      </Text>
+
+      {loading ? (
+        <View style={styles.content}>
+          <ActivityIndicator size="large" color="#1DA1F2" />
+        </View>
+      ) : (
+        <FlatList
+          data={users}
+          renderItem={renderUser}
+          keyExtractor={(item) => item.id}
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, { color: isDarkMode ? '#888' : '#666' }]}>
+              {tab === 'blocked' ? 'ブロックしているユーザーはいません' : 'ミュートしているユーザーはいません'}
+            </Text>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  closeButton: {
+    fontSize: 15,
+    fontWeight: '600',
+    width: 60,
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  tabButton: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    opacity: 0.6,
+  },
+  tabButtonTextActive: {
+    opacity: 1,
+    color: '#1DA1F2',
+  },
+  description: {
+    fontSize: 13,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  userRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  avatarPlaceholder: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarPlaceholderText: {
+    fontSize: 20,
+  },
+  userName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  releaseButton: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    minWidth: 96,
+    alignItems: 'center',
+  },
+  releaseButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
+
+export default BlockedUsersComponents;
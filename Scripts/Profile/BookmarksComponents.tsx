@@ -9,55 +9,52 @@ import {
   ActivityIndicator,
   Image,
   Modal,
-  ScrollView,
   Alert,
+  SafeAreaView,
 } from 'react-native';
 import { supabase } from '../supabaseClient';
+import { ANONYMOUS_LABEL } from '../constants/anonymous';
 import { COMPLEX_CATEGORIES, getCategoryLabel, getCategoryIcon } from '../constants/complexCategories';
-
-interface Post {
-  id: string;
-  content: string;
-  created_at: string;
-  user_id: string;
-  profiles: {
-    name: string | null;
-    avatar_url: string | null;
-    complex_level: number;
-  };
-  likes_count: number;
-  shares_count: number;
-  replies_count: number;
-  post_complexes?: Array<{ category: string }>;
+import { MUTED_WORD_PLACEHOLDERS } from '../constants/mutedWords';
+import { FeedPost, fetchFeedPosts } from '../data/posts';
+import { applyPostEvent, subscribePostEvents } from '../data/postEvents';
+import { getContentWarningReasons } from '../data/contentWarnings';
+import { useCollapsedCategories } from '../data/useCollapsedCategories';
+import { useMutedWords } from '../data/useMutedWords';
+import { filterHiddenPosts } from '../data/reports';
+import { useBlockedAndMutedUsers } from '../data/useBlockedAndMutedUsers';
+import { useHiddenTargets } from '../data/useHiddenTargets';
+import { fetchBookmarks, removeBookmark } from '../data/bookmarks';
+import PostDetailComponents from '../Post/PostDetailComponents';
+import ContentWarningGate from '../Post/ContentWarningGate';
+import MutedWordGate from '../Post/MutedWordGate';
+import PostMediaGrid from '../Post/PostMediaGrid';
+import ReactionSummary from '../Post/ReactionSummary';
+import PostCardActions, { PostCardMenuButton, usePostCardActions } from '../Post/PostCardActions';
+
+interface Post extends FeedPost {
   bookmarked_at: string;
 }
 
-interface Reply {
-  id: string;
-  post_id: string;
-  user_id: string;
-  content: string;
-  created_at: string;
-  profiles: {
-    name: string | null;
-    avatar_url: string | null;
-    complex_level: number;
-  };
-}
-
 function BookmarksComponents() {
   const isDarkMode = useColorScheme() === 'dark';
   const [bookmarkedPosts, setBookmarkedPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const [selectedPost, setSelectedPost] = useState<Post | null>(null);
-  const [modalVisible, setModalVisible] = useState(false);
-  const [replies, setReplies] = useState<Reply[]>([]);
-  const [loadingReplies, setLoadingReplies] = useState(false);
+  const collapsedCategories = useCollapsedCategories(currentUserId);
+  const { isMuted } = useMutedWords(currentUserId);
+  const hiddenTargets = useHiddenTargets(currentUserId);
+  const { hiddenUserIds } = useBlockedAndMutedUsers(currentUserId);
+  const cardActions = usePostCardActions(currentUserId);
+  const [detailPostId, setDetailPostId] = useState<string | null>(null);
 
   useEffect(() => {
     getCurrentUser();
-    fetchBookmarks();
+    loadBookmarks();
+
+    return subscribePostEvents(event => {
+      setBookmarkedPosts(prevPosts => applyPostEvent(prevPosts, event));
+    });
   }, []);
 
   const getCurrentUser = async () => {
@@ -67,7 +64,7 @@ function BookmarksComponents() {
     }
   };
 
-  const fetchBookmarks = async () => {
+  const loadBookmarks = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
 
@@ -76,69 +73,30 @@ function BookmarksComponents() {
         return;
       }
 
-      const { data: bookmarks, error } = await supabase
-        .from('bookmarks')
-        .select(`
-          post_id,
-          created_at,
-          posts (
-            id,
-            content,
-            created_at,
-            user_id,
-            profiles (
-              name,
-              avatar_url,
-              complex_level
-            ),
-            post_complexes (
-              category
-            )
-          )
-        `)
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+      const { data: bookmarks, error } = await fetchBookmarks(user.id);
 
       if (error) {
         console.error('ブックマーク取得エラー:', error);
         return;
       }
 
-      if (!bookmarks) {
-        setBookmarkedPosts([]);
+      const { data: posts, error: postsError } = await fetchFeedPosts({
+        viewerId: user.id,
+        postIds: bookmarks.map(b => b.post_id),
+      });
+
+      if (postsError) {
+        console.error('ブックマーク取得エラー:', postsError);
         return;
       }
 
-      const postsWithCounts = await Promise.all(
-        bookmarks
-          .filter(b => b.posts)
-          .map(async (bookmark: any) => {
-            const post = bookmark.posts;
-            
-            const { count: likesCount } = await supabase
-              .from('likes')
-              .select('*', { count: 'exact', head: true })
-              .eq('post_id', post.id);
-
-            const { count: sharesCount } = await supabase
-              .from('shares')
-              .select('*', { count: 'exact', head: true })
-              .eq('post_id', post.id);
-
-            const { count: repliesCount } = await supabase
-              .from('replies')
-              .select('*', { count: 'exact', head: true })
-              .eq('post_id', post.id);
-
-            return {
-              ...post,
-              likes_count: likesCount || 0,
-              shares_count: sharesCount || 0,
-              replies_count: repliesCount || 0,
-              bookmarked_at: bookmark.created_at,
-            };
-          })
-      );
+      const postsById = new Map(posts.map(post => [post.id, post]));
+      const postsWithCounts = bookmarks
+        .filter(b => postsById.has(b.post_id))
+        .map(bookmark => ({
+          ...postsById.get(bookmark.post_id)!,
+          bookmarked_at: bookmark.created_at,
+        }));
 
       setBookmarkedPosts(postsWithCounts);
     } catch (error) {
@@ -148,7 +106,7 @@ function BookmarksComponents() {
     }
   };
 
-  const removeBookmark = async (postId: string) => {
+  const handleRemoveBookmark = async (postId: string) => {
     if (!currentUserId) return;
 
     Alert.alert(
@@ -161,11 +119,7 @@ function BookmarksComponents() {
           style: 'destructive',
           onPress: async () => {
             try {
-              const { error } = await supabase
-                .from('bookmarks')
-                .delete()
-                .eq('post_id', postId)
-                .eq('user_id', currentUserId);
+              const { error } = await removeBookmark(postId, currentUserId);
 
               if (error) {
                 Alert.alert('エラー', 'ブックマークの削除に失敗しました');
@@ -183,39 +137,15 @@ function BookmarksComponents() {
     );
   };
 
-  const openPostModal = async (post: Post) => {
-    setSelectedPost(post);
-    setModalVisible(true);
-    await fetchReplies(post.id);
-  };
-
-  const fetchReplies = async (postId: string) => {
-    setLoadingReplies(true);
-    try {
-      const { data, error } = await supabase
-        .from('replies')
-        .select(`
-          *,
-          profiles (
-            name,
-            avatar_url,
-            complex_level
-          )
-        `)
-        .eq('post_id', postId)
-        .order('created_at', { ascending: true });
-
-      if (error) {
-        console.error('リプライ取得エラー:', error);
-        return;
-      }
-
-      setReplies(data || []);
-    } catch (error) {
-      console.error('予期しないエラー:', error);
-    } finally {
-      setLoadingReplies(false);
-    }
+  // 詳細画面で変わった件数を一覧に反映する
+  const handleDetailPostChange = (detailPost: FeedPost) => {
+    setBookmarkedPosts(prev =>
+      prev.map(post =>
+        post.id === detailPost.id
+          ? { ...post, replies_count: detailPost.replies_count }
+          : post
+      )
+    );
   };
 
   const getTimeAgo = (timestamp: string) => {
@@ -244,92 +174,116 @@ function BookmarksComponents() {
 
   const renderPost = ({ item }: { item: Post }) => {
     return (
-      <View style={[styles.postCard, { backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5' }]}>
-        <TouchableOpacity
-          activeOpacity={0.7}
-          onPress={() => openPostModal(item)}>
-          <View style={styles.postHeader}>
-            <View style={styles.userInfo}>
-              {item.profiles?.avatar_url ? (
-                <Image source={{ uri: item.profiles.avatar_url }} style={styles.avatar} />
-              ) : (
-                <View style={[styles.avatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
-                  <Text style={styles.avatarPlaceholderText}>👤</Text>
-                </View>
-              )}
-              <View style={styles.userDetails}>
-                <Text style={[styles.userName, { color: isDarkMode ? '#fff' : '#000' }]}>
-                  {item.profiles?.name || '名前未設定'}
-                </Text>
-                <View style={styles.levelBadge}>
-                  <Text style={[styles.levelText, { color: getLevelColor(item.profiles?.complex_level || 0) }]}>
-                    コンプレックスレベル {item.profiles?.complex_level || 0}
+      <MutedWordGate
+        muted={isMuted([item.content, item.content_warning], 'posts')}
+        label={MUTED_WORD_PLACEHOLDERS.posts}>
+        <View style={[styles.postCard, { backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5' }]}>
+          <TouchableOpacity
+            activeOpacity={0.7}
+            onPress={() => setDetailPostId(item.id)}>
+            <View style={styles.postHeader}>
+              <View style={styles.userInfo}>
+                {item.profiles?.avatar_url ? (
+                  <Image source={{ uri: item.profiles.avatar_url }} style={styles.avatar} />
+                ) : (
+                  <View style={[styles.avatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
+                    <Text style={styles.avatarPlaceholderText}>👤</Text>
+                  </View>
+                )}
+                <View style={styles.userDetails}>
+                  <Text style={[styles.userName, { color: isDarkMode ? '#fff' : '#000' }]}>
+                    {item.profiles?.name || '名前未設定'}
                   </Text>
+                  <View style={styles.levelBadge}>
+                    {item.is_anonymous ? (
+                      <Text style={[styles.levelText, { color: isDarkMode ? '#aaa' : '#666' }]}>
+                        {ANONYMOUS_LABEL}の投稿
+                      </Text>
+                    ) : (
+                      <Text style={[styles.levelText, { color: getLevelColor(item.profiles?.complex_level || 0) }]}>
+                        コンプレックスレベル {item.profiles?.complex_level || 0}
+                      </Text>
+                    )}
+                  </View>
                 </View>
+                {cardActions.hasMenu(item) && (
+                  <PostCardMenuButton onPress={() => cardActions.openMenu(item)} />
+                )}
               </View>
+              <Text style={styles.postTime}>
+                {getTimeAgo(item.created_at)}{item.edited_at ? '・編集済み' : ''}
+              </Text>
             </View>
-            <Text style={styles.postTime}>
-              {getTimeAgo(item.created_at)}
-            </Text>
-          </View>
-
-          {item.post_complexes && item.post_complexes.length > 0 && (
-            <View style={styles.postComplexesContainer}>
-              {item.post_complexes.map((complex, index) => (
-                <View key={index} style={[styles.complexChip, { backgroundColor: isDarkMode ? '#0a2a3a' : '#e3f2fd' }]}>
-                  <Text style={styles.complexChipIcon}>{getCategoryIcon(complex.category)}</Text>
-                  <Text style={[styles.complexChipText, { color: isDarkMode ? '#fff' : '#000' }]}>
-                    {getCategoryLabel(complex.category)}
-                  </Text>
-                </View>
-              ))}
-            </View>
-          )}
 
-          <Text style={[styles.postContent, { color: isDarkMode ? '#fff' : '#000' }]}>
-            {item.content}
-          </Text>
+            {item.post_complexes && item.post_complexes.length > 0 && (
+              <View style={styles.postComplexesContainer}>
+                {item.post_complexes.map((complex, index) => (
+                  <View key={index} style={[styles.complexChip, { backgroundColor: isDarkMode ? '#0a2a3a' : '#e3f2fd' }]}>
+                    <Text style={styles.complexChipIcon}>{getCategoryIcon(complex.category)}</Text>
+                    <Text style={[styles.complexChipText, { color: isDarkMode ? '#fff' : '#000' }]}>
+                      {getCategoryLabel(complex.category)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
 
-          <View style={styles.postStats}>
-            <View style={styles.statItem}>
-              <Image 
-                source={require('../../assets/icon/heart.png')}
-                style={[styles.statIcon, { tintColor: isDarkMode ? '#888' : '#666' }]}
-              />
-              <Text style={[styles.statText, { color: isDarkMode ? '#888' : '#666' }]}>
-                {item.likes_count}
-              </Text>
-            </View>
-            <View style={styles.statItem}>
-              <Image 
-                source={require('../../assets/icon/comment.png')}
-                style={[styles.statIcon, { tintColor: isDarkMode ? '#888' : '#666' }]}
-              />
-              <Text style={[styles.statText, { color: isDarkMode ? '#888' : '#666' }]}>
-                {item.replies_count}
-              </Text>
-            </View>
-            <View style={styles.statItem}>
-              <Image 
-                source={require('../../assets/icon/post.png')}
-                style={[styles.statIcon, { tintColor: isDarkMode ? '#888' : '#666' }]}
-              />
-              <Text style={[styles.statText, { color: isDarkMode ? '#888' : '#666' }]}>
-                {item.shares_count}
+            <ContentWarningGate reasons={getContentWarningReasons(item, collapsedCategories)}>
+              <Text style={[styles.postContent, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.content}
               </Text>
+
+              <PostMediaGrid media={item.post_media} />
+            </ContentWarningGate>
+
+            <ReactionSummary counts={item.reaction_counts} />
+
+            <View style={styles.postStats}>
+              <View style={styles.statItem}>
+                <Image 
+                  source={require('../../assets/icon/heart.png')}
+                  style={[styles.statIcon, { tintColor: isDarkMode ? '#888' : '#666' }]}
+                />
+                <Text style={[styles.statText, { color: isDarkMode ? '#888' : '#666' }]}>
+                  {item.likes_count}
+                </Text>
+              </View>
+              <View style={styles.statItem}>
+                <Image 
+                  source={require('../../assets/icon/comment.png')}
+                  style={[styles.statIcon, { tintColor: isDarkMode ? '#888' : '#666' }]}
+                />
+                <Text style={[styles.statText, { color: isDarkMode ? '#888' : '#666' }]}>
+                  {item.replies_count}
+                </Text>
+              </View>
+              <View style={styles.statItem}>
+                <Image 
+                  source={require('../../assets/icon/post.png')}
+                  style={[styles.statIcon, { tintColor: isDarkMode ? '#888' : '#666' }]}
+                />
+                <Text style={[styles.statText, { color: isDarkMode ? '#888' : '#666' }]}>
+                  {item.shares_count}
+                </Text>
+              </View>
             </View>
-          </View>
-        </TouchableOpacity>
-
-        <TouchableOpacity
-          style={styles.removeButton}
-          onPress={() => removeBookmark(item.id)}>
-          <Text style={styles.removeButtonText}>ブックマーク削除</Text>
-        </TouchableOpacity>
-      </View>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => handleRemoveBookmark(item.id)}>
+            <Text style={styles.removeButtonText}>ブックマーク削除</Text>
+          </TouchableOpacity>
+        </View>
+      </MutedWordGate>
     );
   };
 
+  const visiblePosts = filterHiddenPosts(
+    bookmarkedPosts.filter(post => !post.user_id || !hiddenUserIds.has(post.user_id)),
+    hiddenTargets
+  );
+
   if (loading) {
     return (
       <View style={styles.content}>
@@ -346,7 +300,7 @@ function BookmarksComponents() {
         </Text>
       </View>
 
-      {bookmarkedPosts.length === 0 ? (
+      {visiblePosts.length === 0 ? (
         <View style={styles.content}>
           <Text style={[styles.emptyText, { color: isDarkMode ? '#fff' : '#000' }]}>
             ブックマークした投稿はありません
@@ -354,7 +308,7 @@ function BookmarksComponents() {
         </View>
       ) : (
         <FlatList
-          data={bookmarkedPosts}
+          data={visiblePosts}
           renderItem={renderPost}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.postList}
@@ -363,87 +317,20 @@ function BookmarksComponents() {
 
       <Modal
         animationType="slide"
-        transparent={true}
-        visible={modalVisible}
-        onRequestClose={() => setModalVisible(false)}>
-        <View style={styles.modalOverlay}>
-          <View style={[styles.modalContent, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}>
-            <View style={styles.modalHeader}>
-              <TouchableOpacity onPress={() => setModalVisible(false)}>
-                <Text style={[styles.closeButton, { color: isDarkMode ? '#fff' : '#000' }]}>
-                  閉じる
-                </Text>
-              </TouchableOpacity>
-              <Text style={[styles.modalTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
-                投稿
-              </Text>
-              <View style={{ width: 60 }} />
-            </View>
-
-            {selectedPost && (
-              <>
-                <View style={[styles.originalPost, { backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5' }]}>
-                  <View style={styles.originalPostHeader}>
-                    {selectedPost.profiles?.avatar_url ? (
-                      <Image source={{ uri: selectedPost.profiles.avatar_url }} style={styles.smallAvatar} />
-                    ) : (
-                      <View style={[styles.smallAvatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
-                        <Text style={styles.smallAvatarPlaceholderText}>👤</Text>
-                      </View>
-                    )}
-                    <Text style={[styles.originalPostUser, { color: isDarkMode ? '#fff' : '#000' }]}>
-                      {selectedPost.profiles?.name || '名前未設定'}
-                    </Text>
-                  </View>
-                  <Text style={[styles.originalPostContent, { color: isDarkMode ? '#fff' : '#000' }]}>
-                    {selectedPost.content}
-                  </Text>
-                </View>
-
-                <View style={styles.repliesContainer}>
-                  <Text style={[styles.repliesTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
-                    リプライ ({replies.length})
-                  </Text>
-                  {loadingReplies ? (
-                    <ActivityIndicator size="large" color="#1DA1F2" style={{ marginTop: 20 }} />
-                  ) : replies.length === 0 ? (
-                    <Text style={[styles.noRepliesText, { color: isDarkMode ? '#888' : '#666' }]}>
-                      まだリプライがありません
-                    </Text>
-                  ) : (
-                    <ScrollView style={styles.repliesList}>
-                      {replies.map((reply) => (
-                        <View key={reply.id} style={[styles.replyItem, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
-                          <View style={styles.replyHeader}>
-                            {reply.profiles?.avatar_url ? (
-                              <Image source={{ uri: reply.profiles.avatar_url }} style={styles.smallAvatar} />
-                            ) : (
-                              <View style={[styles.smallAvatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
-                                <Text style={styles.smallAvatarPlaceholderText}>👤</Text>
-                              </View>
-                            )}
-                            <View style={styles.replyUserInfo}>
-                              <Text style={[styles.replyUserName, { color: isDarkMode ? '#fff' : '#000' }]}>
-                                {reply.profiles?.name || '名前未設定'}
-                              </Text>
-                              <Text style={styles.replyTime}>
-                                {getTimeAgo(reply.created_at)}
-                              </Text>
-                            </View>
-                          </View>
-                          <Text style={[styles.replyContent, { color: isDarkMode ? '#fff' : '#000' }]}>
-                            {reply.content}
-                          </Text>
-                        </View>
-                      ))}
-                    </ScrollView>
-                  )}
-                </View>
-              </>
-            )}
-          </View>
-        </View>
+        visible={detailPostId !== null}
+        onRequestClose={() => setDetailPostId(null)}>
+        <SafeAreaView style={[styles.container, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}>
+          {detailPostId && (
+            <PostDetailComponents
+              postId={detailPostId}
+              onClose={() => setDetailPostId(null)}
+              onPostChange={handleDetailPostChange}
+            />
+          )}
+        </SafeAreaView>
       </Modal>
+
+      <PostCardActions {...cardActions.modalProps} />
     </View>
   );
 }
@@ -586,110 +473,6 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-    justifyContent: 'flex-end',
-  },
-  modalContent: {
-    borderTopLeftRadius: 20,
-    borderTopRightRadius: 20,
-    padding: 20,
-    maxHeight: '80%',
-  },
-  modalHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 20,
-  },
-  modalTitle: {
-    fontSize: 18,
-    fontWeight: '700',
-  },
-  closeButton: {
-    fontSize: 16,
-  },
-  originalPost: {
-    padding: 12,
-    borderRadius: 8,
-    marginBottom: 15,
-  },
-  originalPostHeader: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  originalPostUser: {
-    fontSize: 14,
-    fontWeight: '700',
-    marginLeft: 8,
-  },
-  originalPostContent: {
-    fontSize: 14,
-    lineHeight: 20,
-    marginLeft: 38,
-  },
-  smallAvatar: {
-    width: 30,
-    height: 30,
-    borderRadius: 15,
-  },
-  smallAvatarPlaceholder: {
-    width: 30,
-    height: 30,
-    borderRadius: 15,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  smallAvatarPlaceholderText: {
-    fontSize: 14,
-  },
-  repliesContainer: {
-    flex: 1,
-  },
-  repliesTitle: {
-    fontSize: 16,
-    fontWeight: '700',
-    marginBottom: 12,
-  },
-  noRepliesText: {
-    fontSize: 14,
-    textAlign: 'center',
-    marginTop: 20,
-  },
-  repliesList: {
-    flex: 1,
-  },
-  replyItem: {
-    paddingVertical: 12,
-    borderBottomWidth: 1,
-  },
-  replyHeader: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  replyUserInfo: {
-    marginLeft: 8,
-    flex: 1,
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 8,
-  },
-  replyUserName: {
-    fontSize: 14,
-    fontWeight: '700',
-  },
-  replyTime: {
-    fontSize: 11,
-    color: '#888',
-  },
-  replyContent: {
-    fontSize: 14,
-    lineHeight: 20,
-    marginLeft: 38,
-  },
 });
 
 export default BookmarksComponents;
\ No newline at end of file
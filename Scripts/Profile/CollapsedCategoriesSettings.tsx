@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert, useColorScheme } from 'react-native';
+import { COMPLEX_CATEGORIES } from '../constants/complexCategories';
+import { setCategoryCollapsed } from '../data/contentWarnings';
+import { useCollapsedCategories } from '../data/useCollapsedCategories';
+
+interface CollapsedCategoriesSettingsProps {
+  userId: string;
+}
+
+// 常に折りたたんで表示するカテゴリの設定
+function CollapsedCategoriesSettings({ userId }: CollapsedCategoriesSettingsProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const collapsedCategories = useCollapsedCategories(userId);
+  const [pendingCategory, setPendingCategory] = useState<string | null>(null);
+
+  const toggleCategory = async (category: string) => {
+    if (pendingCategory) {
+      return;
+    }
+
+    setPendingCategory(category);
+
+    try {
+      const { error } = await setCategoryCollapsed(
+        userId,
+        category,
+        !collapsedCategories.has(category)
+      );
+
+      if (error) {
+        console.error('折りたたみ設定エラー:', error);
+        Alert.alert('エラー', '設定の保存に失敗しました');
+      }
+    } finally {
+      setPendingCategory(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, { color: isDarkMode ? '#fff' : '#000' }]}>
+        折りたたむカテゴリ
+      </Text>
+      <Text style={[styles.description, { color: isDarkMode ? '#888' : '#666' }]}>
+        選んだカテゴリの投稿は、どのフィードでも「表示する」をタップするまで本文が隠れます
+      </Text>
+      <View style={styles.chipsContainer}>
+        {COMPLEX_CATEGORIES.map(category => {
+          const isCollapsed = collapsedCategories.has(category.key);
+
+          return (
+            <TouchableOpacity
+              key={category.key}
+              style={[
+                styles.chip,
+                {
+                  backgroundColor: isCollapsed ? '#1DA1F2' : (isDarkMode ? '#1a1a1a' : '#f5f5f5'),
+                  borderColor: isCollapsed ? '#1DA1F2' : (isDarkMode ? '#333' : '#ddd'),
+                },
+                pendingCategory === category.key && styles.chipPending
+              ]}
+              onPress={() => toggleCategory(category.key)}
+              disabled={pendingCategory !== null}>
+              <Text style={styles.chipIcon}>{category.icon}</Text>
+              <Text
+                style={[
+                  styles.chipText,
+                  { color: isCollapsed ? '#fff' : (isDarkMode ? '#fff' : '#000') }
+                ]}>
+                {category.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginBottom: 6,
+  },
+  description: {
+    fontSize: 13,
+    marginBottom: 14,
+  },
+  chipsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    gap: 6,
+  },
+  chipPending: {
+    opacity: 0.5,
+  },
+  chipIcon: {
+    fontSize: 14,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
+
+export default CollapsedCategoriesSettings;
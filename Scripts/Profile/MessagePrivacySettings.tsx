@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert, Switch, useColorScheme } from 'react-native';
+import { DEFAULT_DM_POLICY, DM_POLICIES, DmPolicy } from '../constants/messagePrivacy';
+import { setPresenceVisibility } from '../data/presence';
+import { updateProfile } from '../data/profiles';
+
+interface MessagePrivacySettingsProps {
+  userId: string;
+  policy: string;
+  onChange: (policy: DmPolicy) => void;
+  showPresence: boolean;
+  onShowPresenceChange: (visible: boolean) => void;
+}
+
+// DM を受け付ける相手と、オンライン状態を見せるかの設定
+function MessagePrivacySettings({
+  userId,
+  policy,
+  onChange,
+  showPresence,
+  onShowPresenceChange,
+}: MessagePrivacySettingsProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const [pendingPolicy, setPendingPolicy] = useState<DmPolicy | null>(null);
+  const [savingPresence, setSavingPresence] = useState(false);
+  const selected = DM_POLICIES.find(option => option.key === policy) ||
+    DM_POLICIES.find(option => option.key === DEFAULT_DM_POLICY)!;
+
+  const selectPolicy = async (next: DmPolicy) => {
+    if (pendingPolicy || next === selected.key) {
+      return;
+    }
+
+    setPendingPolicy(next);
+
+    try {
+      const { error } = await updateProfile(userId, { dm_policy: next });
+
+      if (error) {
+        console.error('DM設定エラー:', error);
+        Alert.alert('エラー', '設定の保存に失敗しました');
+        return;
+      }
+
+      onChange(next);
+    } finally {
+      setPendingPolicy(null);
+    }
+  };
+
+  const togglePresence = async (visible: boolean) => {
+    setSavingPresence(true);
+
+    try {
+      const { error } = await setPresenceVisibility(userId, visible);
+
+      if (error) {
+        console.error('オンライン表示設定エラー:', error);
+        Alert.alert('エラー', '設定の保存に失敗しました');
+        return;
+      }
+
+      onShowPresenceChange(visible);
+    } finally {
+      setSavingPresence(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, { color: isDarkMode ? '#fff' : '#000' }]}>
+        メッセージを受け付ける相手
+      </Text>
+      <Text style={[styles.description, { color: isDarkMode ? '#888' : '#666' }]}>
+        {selected.description}
+      </Text>
+      <View style={styles.chipsContainer}>
+        {DM_POLICIES.map(option => {
+          const isSelected = option.key === selected.key;
+
+          return (
+            <TouchableOpacity
+              key={option.key}
+              style={[
+                styles.chip,
+                {
+                  backgroundColor: isSelected ? '#1DA1F2' : (isDarkMode ? '#1a1a1a' : '#f5f5f5'),
+                  borderColor: isSelected ? '#1DA1F2' : (isDarkMode ? '#333' : '#ddd'),
+                },
+                pendingPolicy === option.key && styles.chipPending
+              ]}
+              onPress={() => selectPolicy(option.key)}
+              disabled={pendingPolicy !== null}>
+              <Text
+                style={[
+                  styles.chipText,
+                  { color: isSelected ? '#fff' : (isDarkMode ? '#fff' : '#000') }
+                ]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.presenceRow}>
+        <View style={styles.presenceTextContainer}>
+          <Text style={[styles.presenceTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
+            オンライン状態を表示
+          </Text>
+          <Text style={[styles.description, { color: isDarkMode ? '#888' : '#666' }]}>
+            オフにすると、オンライン中・最終オンライン・入力中が相手に表示されなくなります。あなたも相手のオンライン状態を見られなくなります
+          </Text>
+        </View>
+        <Switch value={showPresence} onValueChange={togglePresence} disabled={savingPresence} />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginBottom: 6,
+  },
+  description: {
+    fontSize: 13,
+    marginBottom: 14,
+  },
+  chipsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  chipPending: {
+    opacity: 0.5,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  presenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  presenceTextContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  presenceTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+});
+
+export default MessagePrivacySettings;
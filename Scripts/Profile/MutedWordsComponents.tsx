@@ -0,0 +1,347 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  useColorScheme,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Switch,
+} from 'react-native';
+import {
+  MUTED_WORD_DURATIONS,
+  MUTED_WORD_MAX_LENGTH,
+  MUTED_WORD_SCOPES,
+  MutedWordScope,
+  getMutedWordScopeLabel,
+} from '../constants/mutedWords';
+import { MutedWord, addMutedWord, removeMutedWord, validateMutedWord } from '../data/mutedWords';
+import { useMutedWords } from '../data/useMutedWords';
+
+interface MutedWordsComponentsProps {
+  userId: string;
+  onClose: () => void;
+}
+
+// ミュートするワードの追加と一覧・削除
+function MutedWordsComponents({ userId, onClose }: MutedWordsComponentsProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const { mutedWords } = useMutedWords(userId);
+  const [pattern, setPattern] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [scopes, setScopes] = useState<MutedWordScope[]>(['posts', 'replies', 'notifications']);
+  const [durationDays, setDurationDays] = useState<number | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [pendingWordId, setPendingWordId] = useState<string | null>(null);
+
+  const toggleScope = (scope: MutedWordScope) => {
+    setScopes(prev =>
+      prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]
+    );
+  };
+
+  const handleAdd = async () => {
+    const invalidReason = validateMutedWord(pattern, isRegex, scopes);
+
+    if (invalidReason) {
+      Alert.alert('エラー', invalidReason);
+      return;
+    }
+
+    setAdding(true);
+
+    try {
+      const { error } = await addMutedWord({
+        userId,
+        pattern,
+        isRegex,
+        scopes,
+        expiresInDays: durationDays,
+      });
+
+      if (error) {
+        console.error('ミュートワード追加エラー:', error);
+        Alert.alert('エラー', 'ワードの追加に失敗しました');
+        return;
+      }
+
+      setPattern('');
+      setIsRegex(false);
+    } catch (error) {
+      Alert.alert('エラー', '予期しないエラーが発生しました');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemove = async (word: MutedWord) => {
+    setPendingWordId(word.id);
+
+    try {
+      const { error } = await removeMutedWord(word.id);
+
+      if (error) {
+        console.error('ミュートワード削除エラー:', error);
+        Alert.alert('エラー', 'ワードの削除に失敗しました');
+      }
+    } catch (error) {
+      Alert.alert('エラー', '予期しないエラーが発生しました');
+    } finally {
+      setPendingWordId(null);
+    }
+  };
+
+  const renderWord = ({ item }: { item: MutedWord }) => (
+    <View style={[styles.wordRow, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+      <View style={styles.wordInfo}>
+        <Text style={[styles.wordPattern, { color: isDarkMode ? '#fff' : '#000' }]} numberOfLines={1}>
+          {item.is_regex ? `/${item.pattern}/` : item.pattern}
+        </Text>
+        <Text style={[styles.wordMeta, { color: isDarkMode ? '#888' : '#666' }]}>
+          {item.scopes.map(getMutedWordScopeLabel).join('・')}
+          {' / '}
+          {item.expires_at
+            ? `${new Date(item.expires_at).toLocaleString('ja-JP')}まで`
+            : '無期限'}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.removeButton, { borderColor: isDarkMode ? '#555' : '#ccc' }]}
+        onPress={() => handleRemove(item)}
+        disabled={pendingWordId !== null}>
+        {pendingWordId === item.id ? (
+          <ActivityIndicator size="small" color="#1DA1F2" />
+        ) : (
+          <Text style={[styles.removeButtonText, { color: isDarkMode ? '#fff' : '#000' }]}>
+            削除
+          </Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? '#1DA1F2' : (isDarkMode ? '#1a1a1a' : '#f5f5f5'),
+          borderColor: selected ? '#1DA1F2' : (isDarkMode ? '#333' : '#ddd'),
+        }
+      ]}
+      onPress={onPress}>
+      <Text style={[styles.chipText, { color: selected ? '#fff' : (isDarkMode ? '#fff' : '#000') }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={[styles.closeButton, { color: isDarkMode ? '#fff' : '#000' }]}>
+            閉じる
+          </Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: isDarkMode ? '#fff' : '#000' }]}>
+          ミュートするワード
+        </Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      <View style={[styles.form, { borderBottomColor: isDarkMode ? '#333' : '#e0e0e0' }]}>
+        <Text style={[styles.description, { color: isDarkMode ? '#888' : '#666' }]}>
+          ワードを含む投稿・リプライ・通知は折りたたんで表示します。全角・半角、ひらがな・カタカナの違いは区別しません
+        </Text>
+        <TextInput
+          style={[
+            styles.textInput,
+            {
+              color: isDarkMode ? '#fff' : '#000',
+              backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5',
+            }
+          ]}
+          placeholder={isRegex ? '正規表現(例: ネタバレ|ねたばれ)' : 'ミュートするワード'}
+          placeholderTextColor={isDarkMode ? '#888' : '#999'}
+          value={pattern}
+          onChangeText={setPattern}
+          maxLength={MUTED_WORD_MAX_LENGTH}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        <View style={styles.switchRow}>
+          <Text style={[styles.label, { color: isDarkMode ? '#fff' : '#000' }]}>
+            正規表現として扱う
+          </Text>
+          <Switch value={isRegex} onValueChange={setIsRegex} />
+        </View>
+
+        <Text style={[styles.label, { color: isDarkMode ? '#fff' : '#000' }]}>ミュートする場所</Text>
+        <View style={styles.chipsContainer}>
+          {MUTED_WORD_SCOPES.map(scope =>
+            renderChip(scope.key, scope.label, scopes.includes(scope.key), () => toggleScope(scope.key))
+          )}
+        </View>
+
+        <Text style={[styles.label, { color: isDarkMode ? '#fff' : '#000' }]}>期間</Text>
+        <View style={styles.chipsContainer}>
+          {MUTED_WORD_DURATIONS.map(duration =>
+            renderChip(
+              duration.label,
+              duration.label,
+              durationDays === duration.days,
+              () => setDurationDays(duration.days)
+            )
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.addButton, (adding || !pattern.trim()) && styles.addButtonDisabled]}
+          onPress={handleAdd}
+          disabled={adding || !pattern.trim()}>
+          {adding ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.addButtonText}>追加</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={mutedWords}
+        renderItem={renderWord}
+        keyExtractor={(item) => item.id}
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, { color: isDarkMode ? '#888' : '#666' }]}>
+            ミュートしているワードはありません
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  closeButton: {
+    fontSize: 15,
+    fontWeight: '600',
+    width: 60,
+  },
+  form: {
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  description: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  textInput: {
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    marginBottom: 12,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  chipsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  addButton: {
+    height: 44,
+    backgroundColor: '#1DA1F2',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  wordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  wordInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  wordPattern: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  wordMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  removeButton: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    minWidth: 64,
+    alignItems: 'center',
+  },
+  removeButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
+
+export default MutedWordsComponents;
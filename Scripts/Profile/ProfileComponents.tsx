@@ -11,31 +11,27 @@ import {
   ScrollView,
   Image,
   Modal,
+  SafeAreaView,
 } from 'react-native';
 import { supabase } from '../supabaseClient';
 import { launchImageLibrary } from 'react-native-image-picker';
+import { ImageAsset, Profile, fetchProfile, updateProfile, uploadAvatar } from '../data/profiles';
+import { fetchFollowCounts } from '../data/follows';
+import {
+  UserComplex,
+  fetchUserComplexes,
+  removeUserComplex,
+  saveUserComplex,
+} from '../data/userComplexes';
+import BlockedUsersComponents from './BlockedUsersComponents';
+import MutedWordsComponents from './MutedWordsComponents';
+import CollapsedCategoriesSettings from './CollapsedCategoriesSettings';
+import MessagePrivacySettings from './MessagePrivacySettings';
 
 interface ProfileComponentsProps {
   onLogout?: () => void;
 }
 
-interface Profile {
-  id: string;
-  email: string;
-  name: string | null;
-  bio: string | null;
-  avatar_url: string | null;
-  created_at: string;
-  updated_at: string;
-  complex_level: number;
-}
-
-interface UserComplex {
-  id: string;
-  category: string;
-  level: number;
-}
-
 const generateLevels = (max: number, unit: string = '') => {
   return Array.from({ length: max }, (_, i) => ({
     level: i + 1,
@@ -135,12 +131,14 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
   const [followingCount, setFollowingCount] = useState<number>(0);
   const [userComplexes, setUserComplexes] = useState<UserComplex[]>([]);
   const [modalVisible, setModalVisible] = useState(false);
+  const [blockedUsersVisible, setBlockedUsersVisible] = useState(false);
+  const [mutedWordsVisible, setMutedWordsVisible] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [selectedLevel, setSelectedLevel] = useState<number>(1);
   const [totalComplexLevel, setTotalComplexLevel] = useState<number>(0);
 
   useEffect(() => {
-    fetchProfile();
+    loadProfile();
     
     const followsSubscription = supabase
       .channel('profile_follows_changes')
@@ -148,7 +146,7 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
         'postgres_changes',
         { event: '*', schema: 'public', table: 'follows' },
         () => {
-          fetchFollowCounts();
+          loadFollowCounts();
         }
       )
       .subscribe();
@@ -187,13 +185,7 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
 
       if (!user) return;
 
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          complex_level: level,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', user.id);
+      const { error } = await updateProfile(user.id, { complex_level: level });
 
       if (error) {
         console.error('総合レベル更新エラー:', error);
@@ -203,7 +195,7 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
     }
   };
 
-  const fetchProfile = async () => {
+  const loadProfile = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
 
@@ -212,11 +204,7 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
         return;
       }
 
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', user.id)
-        .single();
+      const { data, error } = await fetchProfile(user.id);
 
       if (error) {
         console.error('プロフィール取得エラー:', error);
@@ -229,8 +217,8 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
       setBio(data.bio || '');
       setAvatarUrl(data.avatar_url);
 
-      await fetchFollowCounts();
-      await fetchUserComplexes();
+      await loadFollowCounts();
+      await loadUserComplexes();
     } catch (error) {
       console.error('予期しないエラー:', error);
     } finally {
@@ -238,46 +226,40 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
     }
   };
 
-  const fetchFollowCounts = async () => {
+  const loadFollowCounts = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
 
       if (!user) return;
 
-      const { count: followersCount } = await supabase
-        .from('follows')
-        .select('*', { count: 'exact', head: true })
-        .eq('following_id', user.id);
+      const { data, error } = await fetchFollowCounts(user.id);
 
-      const { count: followingCount } = await supabase
-        .from('follows')
-        .select('*', { count: 'exact', head: true })
-        .eq('follower_id', user.id);
+      if (error) {
+        console.error('フォロー数取得エラー:', error);
+        return;
+      }
 
-      setFollowersCount(followersCount || 0);
-      setFollowingCount(followingCount || 0);
+      setFollowersCount(data.followers);
+      setFollowingCount(data.following);
     } catch (error) {
       console.error('フォロー数取得エラー:', error);
     }
   };
 
-  const fetchUserComplexes = async () => {
+  const loadUserComplexes = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
 
       if (!user) return;
 
-      const { data, error } = await supabase
-        .from('user_complexes')
-        .select('*')
-        .eq('user_id', user.id);
+      const { data, error } = await fetchUserComplexes(user.id);
 
       if (error) {
         console.error('コンプレックス取得エラー:', error);
         return;
       }
 
-      setUserComplexes(data || []);
+      setUserComplexes(data);
     } catch (error) {
       console.error('予期しないエラー:', error);
     }
@@ -303,7 +285,7 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
     }
   };
 
-  const uploadImage = async (asset: any) => {
+  const uploadImage = async (asset: ImageAsset) => {
     if (!asset.uri) return;
 
     setUploading(true);
@@ -317,43 +299,10 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
         return;
       }
 
-      const fileExt = asset.fileName?.split('.').pop() || 'jpg';
-      const filePath = `${user.id}/avatar.${fileExt}`;
-
-      const formData = new FormData();
-      formData.append('file', {
-        uri: asset.uri,
-        type: asset.type || 'image/jpeg',
-        name: `avatar.${fileExt}`,
-      } as any);
-
-      const { error: uploadError } = await supabase.storage
-        .from('avatars')
-        .upload(filePath, formData, {
-          upsert: true,
-          contentType: asset.type || 'image/jpeg',
-        });
-
-      if (uploadError) {
-        Alert.alert('アップロードエラー', uploadError.message);
-        setUploading(false);
-        return;
-      }
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('avatars')
-        .getPublicUrl(filePath);
-
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({ 
-          avatar_url: publicUrl,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', user.id);
+      const { data: publicUrl, error } = await uploadAvatar(user.id, asset);
 
-      if (updateError) {
-        Alert.alert('更新エラー', updateError.message);
+      if (error) {
+        Alert.alert('アップロードエラー', error.message);
         setUploading(false);
         return;
       }
@@ -385,15 +334,11 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
         return;
       }
 
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          email: email,
-          name: name || null,
-          bio: bio || null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', user.id);
+      const { error } = await updateProfile(user.id, {
+        email: email,
+        name: name || null,
+        bio: bio || null,
+      });
 
       if (error) {
         Alert.alert('保存エラー', error.message);
@@ -402,7 +347,7 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
       }
 
       Alert.alert('成功', 'プロフィールを更新しました');
-      fetchProfile();
+      loadProfile();
     } catch (error) {
       Alert.alert('エラー', '予期しないエラーが発生しました');
     } finally {
@@ -430,16 +375,7 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
         return;
       }
 
-      const { error } = await supabase
-        .from('user_complexes')
-        .upsert({
-          user_id: user.id,
-          category: selectedCategory,
-          level: selectedLevel,
-          updated_at: new Date().toISOString(),
-        }, {
-          onConflict: 'user_id,category'
-        });
+      const { error } = await saveUserComplex(user.id, selectedCategory, selectedLevel);
 
       if (error) {
         Alert.alert('保存エラー', error.message);
@@ -447,7 +383,7 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
       }
 
       setModalVisible(false);
-      await fetchUserComplexes();
+      await loadUserComplexes();
       
       setTimeout(() => {
         updateProfileComplexLevel(totalComplexLevel);
@@ -464,18 +400,14 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
 
       if (!user) return;
 
-      const { error } = await supabase
-        .from('user_complexes')
-        .delete()
-        .eq('user_id', user.id)
-        .eq('category', category);
+      const { error } = await removeUserComplex(user.id, category);
 
       if (error) {
         Alert.alert('削除エラー', error.message);
         return;
       }
 
-      await fetchUserComplexes();
+      await loadUserComplexes();
       
       setTimeout(() => {
         updateProfileComplexLevel(totalComplexLevel);
@@ -712,6 +644,40 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
         </View>
       </View>
 
+      {profile && <CollapsedCategoriesSettings userId={profile.id} />}
+
+      {profile && (
+        <MessagePrivacySettings
+          userId={profile.id}
+          policy={profile.dm_policy}
+          onChange={dm_policy => setProfile({ ...profile, dm_policy })}
+          showPresence={profile.show_presence}
+          onShowPresenceChange={show_presence => setProfile({ ...profile, show_presence })}
+        />
+      )}
+
+      {profile && (
+        <TouchableOpacity
+          style={[styles.settingsRow, { borderColor: isDarkMode ? '#333' : '#e0e0e0' }]}
+          onPress={() => setBlockedUsersVisible(true)}>
+          <Text style={[styles.settingsRowText, { color: isDarkMode ? '#fff' : '#000' }]}>
+            ブロック・ミュート中のユーザー
+          </Text>
+          <Text style={styles.settingsRowArrow}>›</Text>
+        </TouchableOpacity>
+      )}
+
+      {profile && (
+        <TouchableOpacity
+          style={[styles.settingsRow, { borderColor: isDarkMode ? '#333' : '#e0e0e0' }]}
+          onPress={() => setMutedWordsVisible(true)}>
+          <Text style={[styles.settingsRowText, { color: isDarkMode ? '#fff' : '#000' }]}>
+            ミュートするワード
+          </Text>
+          <Text style={styles.settingsRowArrow}>›</Text>
+        </TouchableOpacity>
+      )}
+
       {profile && (
         <View style={styles.infoContainer}>
           <Text style={[styles.infoText, { color: isDarkMode ? '#888' : '#666' }]}>
@@ -810,6 +776,34 @@ function ProfileComponents({ onLogout }: ProfileComponentsProps) {
           </View>
         </View>
       </Modal>
+
+      <Modal
+        animationType="slide"
+        visible={blockedUsersVisible}
+        onRequestClose={() => setBlockedUsersVisible(false)}>
+        <SafeAreaView style={[styles.modalScreen, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}>
+          {profile && (
+            <BlockedUsersComponents
+              userId={profile.id}
+              onClose={() => setBlockedUsersVisible(false)}
+            />
+          )}
+        </SafeAreaView>
+      </Modal>
+
+      <Modal
+        animationType="slide"
+        visible={mutedWordsVisible}
+        onRequestClose={() => setMutedWordsVisible(false)}>
+        <SafeAreaView style={[styles.modalScreen, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}>
+          {profile && (
+            <MutedWordsComponents
+              userId={profile.id}
+              onClose={() => setMutedWordsVisible(false)}
+            />
+          )}
+        </SafeAreaView>
+      </Modal>
     </ScrollView>
   );
 }
@@ -1007,6 +1001,27 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  settingsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 20,
+  },
+  settingsRowText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  settingsRowArrow: {
+    fontSize: 20,
+    color: '#888',
+  },
+  modalScreen: {
+    flex: 1,
+  },
   logoutButton: {
     height: 50,
     backgroundColor: '#F44336',
@@ -11,23 +11,32 @@ import {
   Image,
   Modal,
   ScrollView,
+  SafeAreaView,
 } from 'react-native';
 import { supabase } from '../supabaseClient';
+import { ANONYMOUS_LABEL } from '../constants/anonymous';
 import { COMPLEX_CATEGORIES } from '../constants/complexCategories';
-
-interface Post {
-  id: string;
-  content: string;
-  created_at: string;
-  user_id: string;
-  profiles: {
-    name: string | null;
-    avatar_url: string | null;
-    complex_level: number;
-  };
-  likes_count: number;
-  shares_count: number;
-}
+import { getReactionIcon } from '../constants/reactions';
+import { MUTED_WORD_PLACEHOLDERS } from '../constants/mutedWords';
+import { FeedPost, fetchFeedPosts } from '../data/posts';
+import { applyPostEvent, subscribePostEvents } from '../data/postEvents';
+import { getContentWarningReasons } from '../data/contentWarnings';
+import { useCollapsedCategories } from '../data/useCollapsedCategories';
+import { useMutedWords } from '../data/useMutedWords';
+import { filterHiddenPosts } from '../data/reports';
+import { useBlockedAndMutedUsers } from '../data/useBlockedAndMutedUsers';
+import { useHiddenTargets } from '../data/useHiddenTargets';
+import { useReactions } from '../data/useReactions';
+import { fetchUserIdsWithComplexes } from '../data/userComplexes';
+import PostDetailComponents from '../Post/PostDetailComponents';
+import ReactionPicker from '../Post/ReactionPicker';
+import ContentWarningGate from '../Post/ContentWarningGate';
+import MutedWordGate from '../Post/MutedWordGate';
+import PostMediaGrid from '../Post/PostMediaGrid';
+import ReactionSummary from '../Post/ReactionSummary';
+import PostCardActions, { PostCardMenuButton, usePostCardActions } from '../Post/PostCardActions';
+
+type Post = FeedPost;
 
 function SearchComponents() {
   const isDarkMode = useColorScheme() === 'dark';
@@ -36,16 +45,29 @@ function SearchComponents() {
   const [filteredPosts, setFilteredPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const [userLikedPosts, setUserLikedPosts] = useState<Set<string>>(new Set());
-  const [userSharedPosts, setUserSharedPosts] = useState<Set<string>>(new Set());
+  const collapsedCategories = useCollapsedCategories(currentUserId);
+  const { isMuted } = useMutedWords(currentUserId);
+  const hiddenTargets = useHiddenTargets(currentUserId);
+  const { hiddenUserIds } = useBlockedAndMutedUsers(currentUserId);
+  const cardActions = usePostCardActions(currentUserId);
   const [modalVisible, setModalVisible] = useState(false);
+  const [detailPostId, setDetailPostId] = useState<string | null>(null);
   const [selectedComplexes, setSelectedComplexes] = useState<Set<string>>(new Set());
   const [minComplexLevel, setMinComplexLevel] = useState<number>(0);
   const [maxComplexLevel, setMaxComplexLevel] = useState<number>(100);
+  const reactions = useReactions<Post>({
+    userId: currentUserId,
+    updatePost: (postId, updater) => updatePost(postId, updater),
+  });
 
   useEffect(() => {
     getCurrentUser();
     fetchPosts();
+
+    // 絞り込み結果は posts から作り直される
+    return subscribePostEvents(event => {
+      setPosts(prevPosts => applyPostEvent(prevPosts, event));
+    });
   }, []);
 
   useEffect(() => {
@@ -56,76 +78,22 @@ function SearchComponents() {
     const { data: { user } } = await supabase.auth.getUser();
     if (user) {
       setCurrentUserId(user.id);
-      fetchUserInteractions(user.id);
-    }
-  };
-
-  const fetchUserInteractions = async (userId: string) => {
-    const { data: likedData } = await supabase
-      .from('likes')
-      .select('post_id')
-      .eq('user_id', userId);
-
-    const { data: sharedData } = await supabase
-      .from('shares')
-      .select('post_id')
-      .eq('user_id', userId);
-
-    if (likedData) {
-      setUserLikedPosts(new Set(likedData.map(like => like.post_id)));
-    }
-
-    if (sharedData) {
-      setUserSharedPosts(new Set(sharedData.map(share => share.post_id)));
     }
   };
 
   const fetchPosts = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('posts')
-        .select(`
-          *,
-          profiles (
-            name,
-            avatar_url,
-            complex_level
-          )
-        `)
-        .order('created_at', { ascending: false });
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await fetchFeedPosts({ viewerId: user?.id });
 
       if (error) {
         console.error('投稿取得エラー:', error);
         return;
       }
 
-      if (!data) {
-        setPosts([]);
-        return;
-      }
-
-      const postsWithCounts = await Promise.all(
-        data.map(async (post) => {
-          const { count: likesCount } = await supabase
-            .from('likes')
-            .select('*', { count: 'exact', head: true })
-            .eq('post_id', post.id);
-
-          const { count: sharesCount } = await supabase
-            .from('shares')
-            .select('*', { count: 'exact', head: true })
-            .eq('post_id', post.id);
-
-          return {
-            ...post,
-            likes_count: likesCount || 0,
-            shares_count: sharesCount || 0,
-          };
-        })
-      );
-
-      setPosts(postsWithCounts);
+      setPosts(data);
+      reactions.mergeViewerReactions(data);
     } catch (error) {
       console.error('予期しないエラー:', error);
     } finally {
@@ -152,25 +120,16 @@ function SearchComponents() {
 
     // コンプレックスカテゴリでフィルター
     if (selectedComplexes.size > 0) {
-      const filteredByComplex = await Promise.all(
-        filtered.map(async (post) => {
-          const { data: userComplexes } = await supabase
-            .from('user_complexes')
-            .select('category')
-            .eq('user_id', post.user_id);
-
-          if (!userComplexes) return null;
-
-          const userComplexCategories = new Set(userComplexes.map(c => c.category));
-          const hasMatchingComplex = Array.from(selectedComplexes).some(
-            category => userComplexCategories.has(category)
-          );
-
-          return hasMatchingComplex ? post : null;
-        })
+      const { data: matchingUserIds, error } = await fetchUserIdsWithComplexes(
+        Array.from(selectedComplexes)
       );
 
-      filtered = filteredByComplex.filter(post => post !== null) as Post[];
+      if (error) {
+        console.error('コンプレックス取得エラー:', error);
+        return;
+      }
+
+      filtered = filtered.filter(post => !!post.user_id && matchingUserIds.has(post.user_id));
     }
 
     setFilteredPosts(filtered);
@@ -195,78 +154,17 @@ function SearchComponents() {
     setSearchText('');
   };
 
-  const handleLike = async (postId: string) => {
-    if (!currentUserId || userLikedPosts.has(postId)) return;
-
-    setUserLikedPosts(prev => new Set([...prev, postId]));
-    setFilteredPosts(prevPosts =>
-      prevPosts.map(post =>
-        post.id === postId
-          ? { ...post, likes_count: post.likes_count + 1 }
-          : post
-      )
-    );
-
-    try {
-      const { error } = await supabase
-        .from('likes')
-        .insert({ post_id: postId, user_id: currentUserId });
-
-      if (error) {
-        setUserLikedPosts(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(postId);
-          return newSet;
-        });
-        setFilteredPosts(prevPosts =>
-          prevPosts.map(post =>
-            post.id === postId
-              ? { ...post, likes_count: post.likes_count - 1 }
-              : post
-          )
-        );
-        console.error('いいねエラー:', error);
-      }
-    } catch (error) {
-      console.error('いいねエラー:', error);
-    }
+  // 絞り込み前後の一覧で同じ投稿を更新する
+  const updatePost = (postId: string, updater: (post: Post) => Post) => {
+    const update = (prevPosts: Post[]) =>
+      prevPosts.map(post => (post.id === postId ? updater(post) : post));
+    setPosts(update);
+    setFilteredPosts(update);
   };
 
-  const handleShare = async (postId: string) => {
-    if (!currentUserId || userSharedPosts.has(postId)) return;
-
-    setUserSharedPosts(prev => new Set([...prev, postId]));
-    setFilteredPosts(prevPosts =>
-      prevPosts.map(post =>
-        post.id === postId
-          ? { ...post, shares_count: post.shares_count + 1 }
-          : post
-      )
-    );
-
-    try {
-      const { error } = await supabase
-        .from('shares')
-        .insert({ post_id: postId, user_id: currentUserId });
-
-      if (error) {
-        setUserSharedPosts(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(postId);
-          return newSet;
-        });
-        setFilteredPosts(prevPosts =>
-          prevPosts.map(post =>
-            post.id === postId
-              ? { ...post, shares_count: post.shares_count - 1 }
-              : post
-          )
-        );
-        console.error('共有エラー:', error);
-      }
-    } catch (error) {
-      console.error('共有エラー:', error);
-    }
+  // 詳細画面で変わった件数を一覧に反映する
+  const handleDetailPostChange = (detailPost: FeedPost) => {
+    updatePost(detailPost.id, post => ({ ...post, replies_count: detailPost.replies_count }));
   };
 
   const getTimeAgo = (timestamp: string) => {
@@ -294,79 +192,123 @@ function SearchComponents() {
   };
 
   const renderPost = ({ item }: { item: Post }) => {
-    const isLiked = userLikedPosts.has(item.id);
-    const isShared = userSharedPosts.has(item.id);
+    const viewerReaction = reactions.viewerReactions.get(item.id) || null;
+    const isLiked = viewerReaction !== null;
+    const isShared = reactions.shared.has(item.id);
 
     return (
-      <View style={[styles.postCard, { backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5' }]}>
-        <View style={styles.postHeader}>
-          <View style={styles.userInfo}>
-            {item.profiles?.avatar_url ? (
-              <Image source={{ uri: item.profiles.avatar_url }} style={styles.avatar} />
-            ) : (
-              <View style={[styles.avatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
-                <Text style={styles.avatarPlaceholderText}>👤</Text>
-              </View>
-            )}
-            <View style={styles.userDetails}>
-              <Text style={[styles.userName, { color: isDarkMode ? '#fff' : '#000' }]}>
-                {item.profiles?.name || '名前未設定'}
-              </Text>
-              <View style={styles.levelBadge}>
-                <Text style={[styles.levelText, { color: getLevelColor(item.profiles?.complex_level || 0) }]}>
-                  コンプレックスレベル {item.profiles?.complex_level || 0}
+      <MutedWordGate
+        muted={isMuted([item.content, item.content_warning], 'posts')}
+        label={MUTED_WORD_PLACEHOLDERS.posts}>
+        <View style={[styles.postCard, { backgroundColor: isDarkMode ? '#1a1a1a' : '#f5f5f5' }]}>
+          <View style={styles.postHeader}>
+            <View style={styles.userInfo}>
+              {item.profiles?.avatar_url ? (
+                <Image source={{ uri: item.profiles.avatar_url }} style={styles.avatar} />
+              ) : (
+                <View style={[styles.avatarPlaceholder, { backgroundColor: isDarkMode ? '#333' : '#ddd' }]}>
+                  <Text style={styles.avatarPlaceholderText}>👤</Text>
+                </View>
+              )}
+              <View style={styles.userDetails}>
+                <Text style={[styles.userName, { color: isDarkMode ? '#fff' : '#000' }]}>
+                  {item.profiles?.name || '名前未設定'}
                 </Text>
+                <View style={styles.levelBadge}>
+                  {item.is_anonymous ? (
+                    <Text style={[styles.levelText, { color: isDarkMode ? '#aaa' : '#666' }]}>
+                      {ANONYMOUS_LABEL}の投稿
+                    </Text>
+                  ) : (
+                    <Text style={[styles.levelText, { color: getLevelColor(item.profiles?.complex_level || 0) }]}>
+                      コンプレックスレベル {item.profiles?.complex_level || 0}
+                    </Text>
+                  )}
+                </View>
               </View>
+              {cardActions.hasMenu(item) && (
+                <PostCardMenuButton onPress={() => cardActions.openMenu(item)} />
+              )}
             </View>
-          </View>
-          <Text style={styles.postTime}>
-            {getTimeAgo(item.created_at)}
-          </Text>
-        </View>
-        <Text style={[styles.postContent, { color: isDarkMode ? '#fff' : '#000' }]}>
-          {item.content}
-        </Text>
-
-        <View style={styles.actionsContainer}>
-          <TouchableOpacity
-            style={[styles.actionButton, isLiked && styles.actionButtonActive]}
-            onPress={() => handleLike(item.id)}
-            disabled={isLiked}>
-            <Image 
-              source={require('../../assets/icon/heart.png')}
-              style={[
-                styles.actionIcon, 
-                isLiked && styles.actionIconActive,
-                { tintColor: isLiked ? '#e91e63' : (isDarkMode ? '#fff' : '#666') }
-              ]}
-            />
-            <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
-              {item.likes_count}
+            <Text style={styles.postTime}>
+              {getTimeAgo(item.created_at)}{item.edited_at ? '・編集済み' : ''}
             </Text>
-          </TouchableOpacity>
+          </View>
+          <ContentWarningGate reasons={getContentWarningReasons(item, collapsedCategories)}>
+            <TouchableOpacity activeOpacity={0.7} onPress={() => setDetailPostId(item.id)}>
+              <Text style={[styles.postContent, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.content}
+              </Text>
+            </TouchableOpacity>
 
-          <TouchableOpacity
-            style={[styles.actionButton, isShared && styles.actionButtonActive]}
-            onPress={() => handleShare(item.id)}
-            disabled={isShared}>
-            <Image 
-              source={require('../../assets/icon/post.png')}
-              style={[
-                styles.actionIcon, 
-                isShared && styles.actionIconActive,
-                { tintColor: isShared ? '#1DA1F2' : (isDarkMode ? '#fff' : '#666') }
-              ]}
-            />
-            <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
-              {item.shares_count}
-            </Text>
-          </TouchableOpacity>
+            <PostMediaGrid media={item.post_media} />
+          </ContentWarningGate>
+
+          <ReactionSummary counts={item.reaction_counts} />
+
+          <View style={styles.actionsContainer}>
+            <TouchableOpacity
+              style={[styles.actionButton, isLiked && styles.actionButtonActive]}
+              onPress={() => reactions.toggleReaction(item.id)}
+              onLongPress={() => reactions.openPicker(item.id)}>
+              {viewerReaction && viewerReaction !== 'like' ? (
+                <Text style={styles.reactionIcon}>{getReactionIcon(viewerReaction)}</Text>
+              ) : (
+                <Image 
+                  source={require('../../assets/icon/heart.png')}
+                  style={[
+                    styles.actionIcon, 
+                    isLiked && styles.actionIconActive,
+                    { tintColor: isLiked ? '#e91e63' : (isDarkMode ? '#fff' : '#666') }
+                  ]}
+                />
+              )}
+              <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.likes_count}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => setDetailPostId(item.id)}>
+              <Image 
+                source={require('../../assets/icon/comment.png')}
+                style={[
+                  styles.actionIcon,
+                  { tintColor: isDarkMode ? '#fff' : '#666' }
+                ]}
+              />
+              <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.replies_count}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.actionButton, isShared && styles.actionButtonActive]}
+              onPress={() => reactions.toggleShare(item.id)}>
+              <Image 
+                source={require('../../assets/icon/post.png')}
+                style={[
+                  styles.actionIcon, 
+                  isShared && styles.actionIconActive,
+                  { tintColor: isShared ? '#1DA1F2' : (isDarkMode ? '#fff' : '#666') }
+                ]}
+              />
+              <Text style={[styles.actionCount, { color: isDarkMode ? '#fff' : '#000' }]}>
+                {item.shares_count}
+              </Text>
+            </TouchableOpacity>
+          </View>
         </View>
-      </View>
+      </MutedWordGate>
     );
   };
 
   const activeFiltersCount = selectedComplexes.size + (minComplexLevel > 0 || maxComplexLevel < 100 ? 1 : 0);
+  const visiblePosts = filterHiddenPosts(
+    filteredPosts.filter(post => !post.user_id || !hiddenUserIds.has(post.user_id)),
+    hiddenTargets
+  );
 
   return (
     <View style={styles.container}>
@@ -420,7 +362,7 @@ function SearchComponents() {
         <View style={styles.content}>
           <ActivityIndicator size="large" color="#1DA1F2" />
         </View>
-      ) : filteredPosts.length === 0 ? (
+      ) : visiblePosts.length === 0 ? (
         <View style={styles.content}>
           <Text style={[styles.emptyText, { color: isDarkMode ? '#fff' : '#000' }]}>
             {searchText || activeFiltersCount > 0
@@ -430,7 +372,7 @@ function SearchComponents() {
         </View>
       ) : (
         <FlatList
-          data={filteredPosts}
+          data={visiblePosts}
           renderItem={renderPost}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.postList}
@@ -551,6 +493,30 @@ function SearchComponents() {
           </View>
         </View>
       </Modal>
+
+      <Modal
+        animationType="slide"
+        visible={detailPostId !== null}
+        onRequestClose={() => setDetailPostId(null)}>
+        <SafeAreaView style={[styles.container, { backgroundColor: isDarkMode ? '#000' : '#fff' }]}>
+          {detailPostId && (
+            <PostDetailComponents
+              postId={detailPostId}
+              onClose={() => setDetailPostId(null)}
+              onPostChange={handleDetailPostChange}
+            />
+          )}
+        </SafeAreaView>
+      </Modal>
+
+      <ReactionPicker
+        visible={reactions.pickerPostId !== null}
+        selected={reactions.pickerPostId ? reactions.viewerReactions.get(reactions.pickerPostId) || null : null}
+        onSelect={type => reactions.pickerPostId && reactions.react(reactions.pickerPostId, type)}
+        onClose={reactions.closePicker}
+      />
+
+      <PostCardActions {...cardActions.modalProps} />
     </View>
   );
 }
@@ -728,6 +694,9 @@ const styles = StyleSheet.create({
     transform: [{ scale: 1.1 }],
     tintColor: '#1DA1F2',
   },
+  reactionIcon: {
+    fontSize: 15,
+  },
   actionCount: {
     fontSize: 12,
     fontWeight: '600',
@@ -0,0 +1,36 @@
+// Scripts/constants/anonymous.ts
+// 匿名投稿に付ける仮名。投稿ごとに作り直すので、同じ人の匿名投稿どうしも結び付かない
+
+const ANONYMOUS_ADJECTIVES = [
+  '静かな',
+  'やさしい',
+  'のんびりした',
+  'はにかむ',
+  '夜更かしの',
+  '旅する',
+  'ひだまりの',
+  'まっすぐな',
+  '雨宿りの',
+  'ねむたい',
+];
+
+const ANONYMOUS_NOUNS = [
+  'ねこ',
+  'うさぎ',
+  'ふくろう',
+  'くじら',
+  'きつね',
+  'りす',
+  'ペンギン',
+  'こぐま',
+  'ひつじ',
+  'かめ',
+];
+
+export const ANONYMOUS_LABEL = '匿名';
+
+const pick = <T>(items: T[], random: () => number) =>
+  items[Math.floor(random() * items.length) % items.length];
+
+export const createAnonymousName = (random: () => number = Math.random): string =>
+  `${pick(ANONYMOUS_ADJECTIVES, random)}${pick(ANONYMOUS_NOUNS, random)}`;
@@ -48,6 +48,9 @@ export const COMPLEX_CATEGORIES: ComplexCategory[] = [
   { key: 'loneliness', label: '孤独', icon: '🌙' },
 ];
 
+// 読むと気持ちが重くなりやすく、投稿時に注意書きを勧めるカテゴリ
+export const SENSITIVE_CATEGORY_KEYS = ['health', 'past', 'loneliness'];
+
 // プロフィール設定用のカテゴリリスト(レベル情報含む)
 export const COMPLEX_CATEGORIES_WITH_LEVELS: ComplexCategoryWithLevels[] = [
   { 
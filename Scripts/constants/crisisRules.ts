@@ -0,0 +1,40 @@
+// Scripts/constants/crisisRules.ts
+// 自殺・自傷をほのめかす表現の検出ルール。サーバーに新しい版があれば crisis_rule_sets から差し替える
+// pattern は正規化(全角半角の統一・小文字化・空白除去)した本文に対する正規表現
+
+export interface CrisisRule {
+  id: string;
+  pattern: string;
+}
+
+export interface CrisisRuleSet {
+  // 大きいほど新しい
+  version: number;
+  rules: CrisisRule[];
+}
+
+export const DEFAULT_CRISIS_RULE_SET: CrisisRuleSet = {
+  version: 1,
+  rules: [
+    {
+      id: 'suicidal-ideation',
+      pattern: '(死|氏|タヒ)にたい|消えたい|いなくなりたい|生きていたくない|生きたくない|終わりにしたい',
+    },
+    {
+      id: 'worthless-life',
+      pattern: '生きて(いる|る|いく|く)?(意味|価値)(が|は|も)?(ない|無い)',
+    },
+    {
+      id: 'suicide',
+      pattern: '自殺|自死|じさつ',
+    },
+    {
+      id: 'self-harm',
+      pattern: 'リスカ|リストカット|アムカ|自傷|腕を切',
+    },
+    {
+      id: 'method',
+      pattern: '首(を)?(吊|つ)|飛び降り|練炭|オーバードーズ|大量服薬|\\bod\\b|遺書',
+    },
+  ],
+};
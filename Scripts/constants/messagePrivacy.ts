@@ -0,0 +1,30 @@
+// Scripts/constants/messagePrivacy.ts
+// DM を受け付ける相手の設定。profiles.dm_policy に保存する
+
+export type DmPolicy = 'everyone' | 'followers' | 'nobody';
+
+export interface DmPolicyOption {
+  key: DmPolicy;
+  label: string;
+  description: string;
+}
+
+export const DM_POLICIES: DmPolicyOption[] = [
+  {
+    key: 'everyone',
+    label: '全員',
+    description: 'あなたがフォローしていない人からのメッセージは「リクエスト」に届きます',
+  },
+  {
+    key: 'followers',
+    label: 'フォロワーのみ',
+    description: 'あなたをフォローしている人だけが新しくメッセージを送れます',
+  },
+  {
+    key: 'nobody',
+    label: '受け付けない',
+    description: '誰も新しくメッセージを始められません。今ある会話はそのまま続けられます',
+  },
+];
+
+export const DEFAULT_DM_POLICY: DmPolicy = 'everyone';
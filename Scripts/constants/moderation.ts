@@ -0,0 +1,35 @@
+// Scripts/constants/moderation.ts
+// モデレーターの権限と、通報への対応の種類
+
+import { ReportTargetType } from '../data/reports';
+
+// profiles.role がこの値のユーザーだけがモデレーター画面を使える
+export const MODERATOR_ROLE = 'moderator';
+
+export type ModerationAction = 'dismiss' | 'hide' | 'delete' | 'warn' | 'suspend';
+
+export interface ModerationActionOption {
+  key: ModerationAction;
+  label: string;
+  // 対応できる通報対象
+  targets: ReportTargetType[];
+  destructive: boolean;
+}
+
+export const MODERATION_ACTIONS: ModerationActionOption[] = [
+  { key: 'dismiss', label: '問題なし', targets: ['post', 'reply', 'user', 'message'], destructive: false },
+  { key: 'hide', label: '投稿を非表示', targets: ['post'], destructive: false },
+  { key: 'delete', label: '削除', targets: ['post', 'reply', 'message'], destructive: true },
+  { key: 'warn', label: '警告', targets: ['post', 'reply', 'user', 'message'], destructive: false },
+  { key: 'suspend', label: '一時停止', targets: ['post', 'reply', 'user', 'message'], destructive: true },
+];
+
+// 一時停止の期間(日数)の選択肢
+export const SUSPENSION_DAY_OPTIONS = [1, 3, 7];
+
+export const MODERATION_WARNING_MESSAGE =
+  'コミュニティのルールに反する内容が通報されたため、運営から警告が届きました。';
+
+export const getModerationActionLabel = (action: string): string => {
+  return MODERATION_ACTIONS.find(a => a.key === action)?.label || action;
+};
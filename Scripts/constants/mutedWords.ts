@@ -0,0 +1,41 @@
+// Scripts/constants/mutedWords.ts
+// ミュートするワードを当てはめる場所と、ミュートの期間
+
+export type MutedWordScope = 'posts' | 'replies' | 'notifications';
+
+export interface MutedWordScopeOption {
+  key: MutedWordScope;
+  label: string;
+}
+
+export const MUTED_WORD_SCOPES: MutedWordScopeOption[] = [
+  { key: 'posts', label: '投稿' },
+  { key: 'replies', label: 'リプライ' },
+  { key: 'notifications', label: '通知' },
+];
+
+export interface MutedWordDurationOption {
+  label: string;
+  // null なら無期限
+  days: number | null;
+}
+
+export const MUTED_WORD_DURATIONS: MutedWordDurationOption[] = [
+  { label: '無期限', days: null },
+  { label: '1日', days: 1 },
+  { label: '7日', days: 7 },
+  { label: '30日', days: 30 },
+];
+
+export const MUTED_WORD_MAX_LENGTH = 100;
+
+// ミュートしたワードに一致したものの代わりに出す表示
+export const MUTED_WORD_PLACEHOLDERS: Record<MutedWordScope, string> = {
+  posts: 'ミュートしたワードを含む投稿',
+  replies: 'ミュートしたワードを含むリプライ',
+  notifications: 'ミュートしたワードを含む通知',
+};
+
+export const getMutedWordScopeLabel = (scope: string): string => {
+  return MUTED_WORD_SCOPES.find(s => s.key === scope)?.label || scope;
+};
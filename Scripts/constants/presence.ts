@@ -0,0 +1,8 @@
+// Scripts/constants/presence.ts
+// DM の相手のオンライン状態と入力中表示
+
+// 入力中の知らせを送る最短の間隔。キー入力のたびには送らない
+export const TYPING_THROTTLE_MS = 2000;
+
+// 入力中の知らせが途切れてから「入力中…」を消すまでの時間
+export const TYPING_INDICATOR_TIMEOUT_MS = 5000;
@@ -0,0 +1,39 @@
+// Scripts/constants/reactions.ts
+// 投稿に付けられる共感リアクション。likes テーブルの reaction_type に保存する
+
+export type ReactionType = 'like' | 'relate' | 'cheer' | 'hug';
+
+export interface Reaction {
+  key: ReactionType;
+  label: string;
+  icon: string;
+  // 通知に表示する文。先頭にリアクションした人の名前が付く
+  notificationText: string;
+}
+
+export const REACTIONS: Reaction[] = [
+  { key: 'like', label: 'いいね', icon: '❤️', notificationText: 'があなたの投稿にいいねしました' },
+  { key: 'relate', label: 'わかる', icon: '🤝', notificationText: 'があなたの投稿に「わかる」と共感しました' },
+  { key: 'cheer', label: '応援', icon: '📣', notificationText: 'があなたの投稿を応援しています' },
+  { key: 'hug', label: 'ハグ', icon: '🫂', notificationText: 'があなたの投稿にハグを送りました' },
+];
+
+export type ReactionCounts = Record<ReactionType, number>;
+
+export const emptyReactionCounts = (): ReactionCounts => ({
+  like: 0,
+  relate: 0,
+  cheer: 0,
+  hug: 0,
+});
+
+export const isReactionType = (value: string): value is ReactionType =>
+  REACTIONS.some(r => r.key === value);
+
+export const getReactionLabel = (type: string): string => {
+  return REACTIONS.find(r => r.key === type)?.label || type;
+};
+
+export const getReactionIcon = (type: string): string => {
+  return REACTIONS.find(r => r.key === type)?.icon || '❤️';
+};
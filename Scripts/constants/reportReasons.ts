@@ -0,0 +1,24 @@
+// Scripts/constants/reportReasons.ts
+// 通報の理由。reports テーブルの reason に保存する
+
+export type ReportReason = 'spam' | 'harassment' | 'self_harm' | 'impersonation' | 'other';
+
+export interface ReportReasonOption {
+  key: ReportReason;
+  label: string;
+  description: string;
+}
+
+export const REPORT_REASONS: ReportReasonOption[] = [
+  { key: 'spam', label: 'スパム', description: '宣伝や同じ内容の繰り返し' },
+  { key: 'harassment', label: '嫌がらせ・誹謗中傷', description: '特定の人を傷つける、からかう内容' },
+  { key: 'self_harm', label: '自傷・自殺', description: '自分を傷つけることをほのめかしている' },
+  { key: 'impersonation', label: 'なりすまし', description: '他人や有名人のふりをしている' },
+  { key: 'other', label: 'その他', description: '上記に当てはまらない問題' },
+];
+
+export const REPORT_DETAILS_MAX_LENGTH = 500;
+
+export const getReportReasonLabel = (reason: string): string => {
+  return REPORT_REASONS.find(r => r.key === reason)?.label || reason;
+};
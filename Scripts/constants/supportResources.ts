@@ -0,0 +1,40 @@
+// Scripts/constants/supportResources.ts
+// つらい気持ちを打ち明けた人に案内する相談窓口
+
+export interface SupportResource {
+  name: string;
+  description: string;
+  // 電話番号。チャット窓口は null
+  phone: string | null;
+  url: string | null;
+}
+
+export const SUPPORT_RESOURCES: SupportResource[] = [
+  {
+    name: 'よりそいホットライン',
+    description: '24時間・通話無料。どんな悩みでも相談できます',
+    phone: '0120-279-338',
+    url: null,
+  },
+  {
+    name: 'いのちの電話',
+    description: '毎日10時〜22時',
+    phone: '0570-783-556',
+    url: null,
+  },
+  {
+    name: 'こころの健康相談統一ダイヤル',
+    description: 'お住まいの地域の公的な相談窓口につながります',
+    phone: '0570-064-556',
+    url: null,
+  },
+  {
+    name: 'あなたのいばしょチャット',
+    description: '24時間・チャットで相談できます',
+    phone: null,
+    url: 'https://talkme.jp/',
+  },
+];
+
+// 命の危険が迫っているとき
+export const EMERGENCY_NUMBER = '119';
@@ -0,0 +1,111 @@
+import { supabase } from '../supabaseClient';
+import { ProfileSummary } from './profiles';
+import { Result, fail, fromQuery, mapResult, ok } from './result';
+import { emitUserRelationEvent } from './userRelationEvents';
+
+export type RelatedUser = ProfileSummary & { id: string };
+
+export const BLOCKED_ERROR_CODE = 'blocked';
+
+export const fetchBlockedIds = async (userId: string): Promise<Result<string[]>> => {
+  const result = await fromQuery(
+    supabase
+      .from('blocks')
+      .select('blocked_id')
+      .eq('blocker_id', userId)
+  );
+
+  return mapResult(result, rows => rows.map(block => block.blocked_id));
+};
+
+// 自分をブロックしているユーザー。相手の画面から自分の投稿を隠すのと同じく、こちらからも相手を見えなくする
+export const fetchBlockerIds = async (userId: string): Promise<Result<string[]>> => {
+  const result = await fromQuery(
+    supabase
+      .from('blocks')
+      .select('blocker_id')
+      .eq('blocked_id', userId)
+  );
+
+  return mapResult(result, rows => rows.map(block => block.blocker_id));
+};
+
+// ブロックした・された相手。DM や通知はどちら向きのブロックでも遮断する
+export const fetchBlockRelationIds = async (userId: string): Promise<Result<string[]>> => {
+  const result = await fromQuery(
+    supabase
+      .from('blocks')
+      .select('blocker_id, blocked_id')
+      .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`)
+  );
+
+  return mapResult(result, rows =>
+    Array.from(new Set(rows.map(block => (block.blocker_id === userId ? block.blocked_id : block.blocker_id))))
+  );
+};
+
+// どちらかがブロックしていれば code が BLOCKED_ERROR_CODE のエラーを返す
+export const ensureNotBlocked = async (userId: string, otherUserId: string): Promise<Result<null>> => {
+  const { count, error } = await supabase
+    .from('blocks')
+    .select('*', { count: 'exact', head: true })
+    .or(
+      `and(blocker_id.eq.${userId},blocked_id.eq.${otherUserId}),` +
+      `and(blocker_id.eq.${otherUserId},blocked_id.eq.${userId})`
+    );
+
+  if (error) {
+    return fail(error);
+  }
+
+  if ((count || 0) > 0) {
+    return fail({ message: 'このユーザーとはやり取りできません', code: BLOCKED_ERROR_CODE });
+  }
+
+  return ok(null);
+};
+
+// 新しくブロックした順
+export const fetchBlockedUsers = async (userId: string): Promise<Result<RelatedUser[]>> => {
+  const result = await fromQuery(
+    supabase
+      .from('blocks')
+      .select('blocked:profiles!blocked_id (id, name, avatar_url, complex_level)')
+      .eq('blocker_id', userId)
+      .order('created_at', { ascending: false })
+  );
+
+  return mapResult(result, rows =>
+    rows.flatMap(row => (row.blocked ? [row.blocked] : []))
+  );
+};
+
+// ログイン中のユーザーとしてブロックする。お互いのフォローもサーバー側で同時に解除し、
+// 解除できなければブロックも保存されない。解除したフォローはブロックを解除しても戻らない
+export const blockUser = async (blockedId: string): Promise<Result<null>> => {
+  const { error } = await supabase.rpc('block_user', { target_user_id: blockedId });
+
+  if (error) {
+    return fail(error);
+  }
+
+  emitUserRelationEvent({ type: 'blocked', userId: blockedId });
+  return ok(null);
+};
+
+export const unblockUser = async (blockerId: string, blockedId: string): Promise<Result<null>> => {
+  const result = await fromQuery(
+    supabase
+      .from('blocks')
+      .delete()
+      .eq('blocker_id', blockerId)
+      .eq('blocked_id', blockedId)
+  );
+
+  if (result.error) {
+    return result;
+  }
+
+  emitUserRelationEvent({ type: 'unblocked', userId: blockedId });
+  return ok(null);
+};
@@ -0,0 +1,33 @@
+import { supabase } from '../supabaseClient';
+import { Result, fromQuery } from './result';
+
+export interface BookmarkEntry {
+  post_id: string;
+  created_at: string;
+}
+
+// 新しくブックマークした順に返す
+export const fetchBookmarks = (userId: string): Promise<Result<BookmarkEntry[]>> =>
+  fromQuery(
+    supabase
+      .from('bookmarks')
+      .select('post_id, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+  );
+
+export const addBookmark = (postId: string, userId: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('bookmarks')
+      .insert({ post_id: postId, user_id: userId })
+  );
+
+export const removeBookmark = (postId: string, userId: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('bookmarks')
+      .delete()
+      .eq('post_id', postId)
+      .eq('user_id', userId)
+  );
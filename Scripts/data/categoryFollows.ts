@@ -0,0 +1,29 @@
+import { supabase } from '../supabaseClient';
+import { Result, fromQuery, mapResult } from './result';
+
+export const fetchFollowedCategories = async (userId: string): Promise<Result<string[]>> => {
+  const result = await fromQuery(
+    supabase
+      .from('category_follows')
+      .select('category')
+      .eq('user_id', userId)
+  );
+
+  return mapResult(result, rows => rows.map(row => row.category));
+};
+
+export const followCategory = (userId: string, category: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('category_follows')
+      .insert({ user_id: userId, category })
+  );
+
+export const unfollowCategory = (userId: string, category: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('category_follows')
+      .delete()
+      .eq('user_id', userId)
+      .eq('category', category)
+  );
@@ -0,0 +1,66 @@
+import { supabase } from '../supabaseClient';
+import { getCategoryLabel } from '../constants/complexCategories';
+import { createEventBus } from './eventBus';
+import { FeedPost } from './posts';
+import { Result, fromQuery, mapResult } from './result';
+
+export const CONTENT_WARNING_MAX_LENGTH = 60;
+// 注意書きを付けたが内容を書かなかったときの表示
+export const DEFAULT_CONTENT_WARNING = 'センシティブな内容';
+
+export interface CollapsedCategoryChange {
+  category: string;
+  collapsed: boolean;
+}
+
+const collapsedCategoryChanges = createEventBus<CollapsedCategoryChange>();
+
+// 設定の変更を、投稿一覧を持つ画面に知らせる。解除用の関数を返す
+export const subscribeCollapsedCategories = collapsedCategoryChanges.subscribe;
+
+export const fetchCollapsedCategories = async (userId: string): Promise<Result<string[]>> => {
+  const result = await fromQuery(
+    supabase
+      .from('collapsed_categories')
+      .select('category')
+      .eq('user_id', userId)
+  );
+
+  return mapResult(result, rows => rows.map(row => row.category));
+};
+
+export const setCategoryCollapsed = async (
+  userId: string,
+  category: string,
+  collapsed: boolean
+): Promise<Result<null>> => {
+  const result = await fromQuery(
+    collapsed
+      ? supabase
+          .from('collapsed_categories')
+          .insert({ user_id: userId, category })
+      : supabase
+          .from('collapsed_categories')
+          .delete()
+          .eq('user_id', userId)
+          .eq('category', category)
+  );
+
+  if (!result.error) {
+    collapsedCategoryChanges.emit({ category, collapsed });
+  }
+
+  return result;
+};
+
+// 投稿を折りたたむ理由。投稿者の注意書きと、閲覧者が折りたたむ設定にしたカテゴリ
+export const getContentWarningReasons = (
+  post: Pick<FeedPost, 'content_warning' | 'post_complexes'>,
+  collapsedCategories: ReadonlySet<string>
+): string[] => {
+  const categories = post.post_complexes
+    .filter(complex => collapsedCategories.has(complex.category))
+    .map(complex => getCategoryLabel(complex.category));
+
+  return post.content_warning ? [post.content_warning, ...categories] : categories;
+};
@@ -0,0 +1,403 @@
+import { supabase } from '../supabaseClient';
+import { DEFAULT_DM_POLICY } from '../constants/messagePrivacy';
+import { ensureNotBlocked, fetchBlockRelationIds } from './blocks';
+import { Tables } from './database';
+import { Message } from './messages';
+import { ProfileSummary } from './profiles';
+import { Result, fail, fromQuery, isUniqueViolation, mapResult, ok, toDataError } from './result';
+
+export type Conversation = Tables<'conversations'>;
+
+// accepted: 通常の会話 / incoming: 自分宛ての未承認のリクエスト / outgoing: 自分が送った未承認のリクエスト
+export type ConversationRequestStatus = 'accepted' | 'incoming' | 'outgoing';
+
+export interface ConversationSummary extends Conversation {
+  other_user: ProfileSummary & { id: string; last_seen_at: string | null };
+  last_message: Pick<Message, 'content' | 'created_at' | 'sender_id' | 'is_read'> | null;
+  unread_count: number;
+  request_status: ConversationRequestStatus;
+}
+
+export const DM_NOT_ALLOWED_ERROR_CODE = 'dm_not_allowed';
+
+export const getRequestStatus = (
+  conv: Pick<Conversation, 'initiator_id' | 'accepted_at'>,
+  userId: string
+): ConversationRequestStatus => {
+  if (conv.accepted_at || !conv.initiator_id) {
+    return 'accepted';
+  }
+
+  return conv.initiator_id === userId ? 'outgoing' : 'incoming';
+};
+
+// ブロックした・された相手との会話は、どちらの一覧にも出さない
+const excludeBlockedConversations = async <T extends Conversation>(
+  userId: string,
+  conversations: T[]
+): Promise<Result<T[]>> => {
+  const result = await fetchBlockRelationIds(userId);
+
+  return mapResult(result, blockedIds => {
+    const blocked = new Set(blockedIds);
+    return conversations.filter(conv =>
+      !blocked.has(conv.user1_id === userId ? conv.user2_id : conv.user1_id)
+    );
+  });
+};
+
+// 未読数のバッジに使う。承認していないリクエストは含めない
+export const fetchConversationIds = async (userId: string): Promise<Result<string[]>> => {
+  const { data, error } = await fromQuery(
+    supabase
+      .from('conversations')
+      .select('*')
+      .or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
+  );
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const result = await excludeBlockedConversations(userId, data);
+  return mapResult(result, rows =>
+    rows
+      .filter(conversation => getRequestStatus(conversation, userId) !== 'incoming')
+      .map(conversation => conversation.id)
+  );
+};
+
+// 相手のプロフィール・最後のメッセージ・未読数を付けて更新順に返す
+export const fetchConversations = async (
+  userId: string
+): Promise<Result<ConversationSummary[]>> => {
+  const { data: conversationsData, error } = await supabase
+    .from('conversations')
+    .select('*')
+    .or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    return fail(error);
+  }
+
+  const { data: visibleConversations, error: blockError } =
+    await excludeBlockedConversations(userId, conversationsData || []);
+
+  if (blockError) {
+    return { data: null, error: blockError };
+  }
+
+  try {
+    return await toConversationSummaries(userId, visibleConversations);
+  } catch (caught) {
+    return fail(caught);
+  }
+};
+
+// 会話の数によらず、プロフィール・最後のメッセージ・未読をそれぞれまとめて1回ずつ読む
+const toConversationSummaries = async (
+  userId: string,
+  conversations: Conversation[]
+): Promise<Result<ConversationSummary[]>> => {
+  if (conversations.length === 0) {
+    return ok([]);
+  }
+
+  const otherUserIdOf = (conv: Conversation) => (conv.user1_id === userId ? conv.user2_id : conv.user1_id);
+  const conversationIds = conversations.map(conv => conv.id);
+
+  const [profiles, lastMessages, unreadMessages] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('id, name, avatar_url, complex_level, last_seen_at')
+      .in('id', Array.from(new Set(conversations.map(otherUserIdOf)))),
+    supabase
+      .from('latest_messages')
+      .select('conversation_id, content, created_at, sender_id, is_read')
+      .in('conversation_id', conversationIds),
+    supabase
+      .from('messages')
+      .select('conversation_id')
+      .in('conversation_id', conversationIds)
+      .eq('is_read', false)
+      .neq('sender_id', userId),
+  ]);
+
+  const failed = [profiles, lastMessages, unreadMessages].find(result => result.error);
+  if (failed) {
+    return fail(failed.error);
+  }
+
+  const profileById = new Map((profiles.data || []).map(profile => [profile.id, profile]));
+  const lastMessageByConversation = new Map(
+    (lastMessages.data || []).map(({ conversation_id, ...message }) => [conversation_id, message])
+  );
+  const unreadCounts = new Map<string, number>();
+  (unreadMessages.data || []).forEach(({ conversation_id }) => {
+    unreadCounts.set(conversation_id, (unreadCounts.get(conversation_id) || 0) + 1);
+  });
+
+  return ok(conversations.map(conv => {
+    const otherUserId = otherUserIdOf(conv);
+
+    return {
+      ...conv,
+      other_user: profileById.get(otherUserId) || {
+        id: otherUserId,
+        name: null,
+        avatar_url: null,
+        complex_level: 0,
+        last_seen_at: null,
+      },
+      last_message: lastMessageByConversation.get(conv.id) || null,
+      unread_count: unreadCounts.get(conv.id) || 0,
+      request_status: getRequestStatus(conv, userId),
+    };
+  }));
+};
+
+// Realtime の in フィルターに並べられる値の上限
+const INBOX_SUBSCRIPTION_LIMIT = 100;
+
+// 受信箱の変化を購読する。自分が加わった会話の追加・更新と、一覧にある会話の新着だけを受け取る
+export const subscribeInbox = (
+  userId: string,
+  conversationIds: string[],
+  handlers: {
+    onConversationCreated: () => void;
+    onConversationUpdated: (conversation: Conversation) => void;
+    onMessage: (message: Message) => void;
+  }
+): (() => void) => {
+  let channel = supabase.channel(`inbox:${userId}`);
+
+  ['user1_id', 'user2_id'].forEach(column => {
+    const filter = `${column}=eq.${userId}`;
+    channel = channel
+      .on<Conversation>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'conversations', filter },
+        () => handlers.onConversationCreated()
+      )
+      .on<Conversation>(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'conversations', filter },
+        payload => handlers.onConversationUpdated(payload.new)
+      );
+  });
+
+  // 一覧は更新順なので、上限を超える分は古い会話から外す
+  const watchedIds = conversationIds.slice(0, INBOX_SUBSCRIPTION_LIMIT);
+
+  if (watchedIds.length > 0) {
+    channel = channel.on<Message>(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'messages',
+        filter: `conversation_id=in.(${watchedIds.join(',')})`,
+      },
+      payload => handlers.onMessage(payload.new)
+    );
+  }
+
+  channel.subscribe();
+
+  return () => {
+    channel.unsubscribe();
+  };
+};
+
+// 新着メッセージを一覧に反映し、その会話を先頭へ移す。一覧にない会話のものは無視する
+export const applyInboxMessage = (
+  conversations: ConversationSummary[],
+  message: Message,
+  userId: string
+): ConversationSummary[] => {
+  const target = conversations.find(conv => conv.id === message.conversation_id);
+
+  if (!target) {
+    return conversations;
+  }
+
+  const updated: ConversationSummary = {
+    ...target,
+    last_message: {
+      content: message.content,
+      created_at: message.created_at,
+      sender_id: message.sender_id,
+      is_read: message.is_read,
+    },
+    unread_count: target.unread_count + (message.sender_id !== userId && !message.is_read ? 1 : 0),
+  };
+
+  return [updated, ...conversations.filter(conv => conv.id !== target.id)];
+};
+
+// 承認などで会話の行が変わったときに、一覧の項目を差し替える
+export const applyInboxConversation = (
+  conversations: ConversationSummary[],
+  conversation: Conversation,
+  userId: string
+): ConversationSummary[] =>
+  conversations.map(conv =>
+    conv.id === conversation.id
+      ? { ...conv, ...conversation, request_status: getRequestStatus(conversation, userId) }
+      : conv
+  );
+
+// 以前の会話は user1_id・user2_id の並びがそろっていないことがあるため、両方の並びで探す
+const findConversation = async (userId: string, otherUserId: string) =>
+  supabase
+    .from('conversations')
+    .select('*')
+    .or(
+      `and(user1_id.eq.${userId},user2_id.eq.${otherUserId}),` +
+      `and(user1_id.eq.${otherUserId},user2_id.eq.${userId})`
+    )
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+// 相手の DM の設定で、新しく会話を始められるか。始められるときは、相手がこちらを
+// フォローしていれば最初から承認済み、していなければリクエストとして届ける
+const checkDmPermission = async (
+  userId: string,
+  otherUserId: string
+): Promise<Result<{ accepted: boolean }>> => {
+  const [{ data: recipient, error: profileError }, { data: follows, error: followError }] =
+    await Promise.all([
+      supabase
+        .from('profiles')
+        .select('dm_policy')
+        .eq('id', otherUserId)
+        .maybeSingle(),
+      supabase
+        .from('follows')
+        .select('follower_id, following_id')
+        .or(
+          `and(follower_id.eq.${userId},following_id.eq.${otherUserId}),` +
+          `and(follower_id.eq.${otherUserId},following_id.eq.${userId})`
+        ),
+    ]);
+
+  if (profileError || followError) {
+    return fail(profileError || followError);
+  }
+
+  const isFollower = (follows || []).some(follow => follow.follower_id === userId);
+  const isFollowedBack = (follows || []).some(follow => follow.follower_id === otherUserId);
+  const policy = recipient?.dm_policy || DEFAULT_DM_POLICY;
+
+  if (policy === 'nobody' || (policy === 'followers' && !isFollower)) {
+    return fail({
+      message: 'このユーザーはメッセージを受け付けていません',
+      code: DM_NOT_ALLOWED_ERROR_CODE,
+    });
+  }
+
+  return ok({ accepted: isFollowedBack });
+};
+
+// 2人の会話があればそれを、なければ作って返す。何度呼んでも会話は1つだけになる
+export const findOrCreateConversation = async (
+  userId: string,
+  otherUserId: string
+): Promise<Result<ConversationSummary>> => {
+  if (userId === otherUserId) {
+    return fail({ message: '自分にメッセージを送ることはできません' });
+  }
+
+  const { error: blockError } = await ensureNotBlocked(userId, otherUserId);
+
+  if (blockError) {
+    return { data: null, error: blockError };
+  }
+
+  try {
+    const { data: existing, error: findError } = await findConversation(userId, otherUserId);
+
+    if (findError) {
+      return fail(findError);
+    }
+
+    if (existing) {
+      return mapResult(await toConversationSummaries(userId, [existing]), ([summary]) => summary);
+    }
+
+    const { data: permission, error: permissionError } = await checkDmPermission(userId, otherUserId);
+
+    if (permissionError) {
+      return { data: null, error: permissionError };
+    }
+
+    // 並びをそろえて保存し、(user1_id, user2_id) の一意制約で重複を防ぐ
+    const [user1Id, user2Id] = [userId, otherUserId].sort();
+    const { data: created, error: insertError } = await supabase
+      .from('conversations')
+      .insert({
+        user1_id: user1Id,
+        user2_id: user2Id,
+        initiator_id: userId,
+        accepted_at: permission.accepted ? new Date().toISOString() : null,
+      })
+      .select()
+      .single();
+
+    if (!insertError) {
+      return mapResult(await toConversationSummaries(userId, [created]), ([summary]) => summary);
+    }
+
+    // 相手が同時に作った場合は、そちらを使う
+    if (!isUniqueViolation(toDataError(insertError))) {
+      return fail(insertError);
+    }
+
+    const { data: raced, error: retryError } = await findConversation(userId, otherUserId);
+
+    if (retryError || !raced) {
+      return fail(retryError || insertError);
+    }
+
+    return mapResult(await toConversationSummaries(userId, [raced]), ([summary]) => summary);
+  } catch (caught) {
+    return fail(caught);
+  }
+};
+
+// 自分宛てのリクエストを承認する。承認すると通常の会話になり、相手にも既読が見えるようになる
+export const acceptMessageRequest = (
+  conversationId: string,
+  userId: string
+): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('conversations')
+      .update({ accepted_at: new Date().toISOString() })
+      .eq('id', conversationId)
+      .neq('initiator_id', userId)
+      .is('accepted_at', null)
+  );
+
+// リクエストをメッセージごと削除する
+export const deleteMessageRequest = async (conversationId: string): Promise<Result<null>> => {
+  const { error } = await fromQuery(
+    supabase
+      .from('messages')
+      .delete()
+      .eq('conversation_id', conversationId)
+  );
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return fromQuery(
+    supabase
+      .from('conversations')
+      .delete()
+      .eq('id', conversationId)
+  );
+};
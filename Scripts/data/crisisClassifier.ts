@@ -0,0 +1,96 @@
+import { supabase } from '../supabaseClient';
+import { CrisisRule, CrisisRuleSet, DEFAULT_CRISIS_RULE_SET } from '../constants/crisisRules';
+import { Json } from './database';
+import { Result, fail, ok } from './result';
+
+export interface CrisisMatch {
+  ruleIds: string[];
+  version: number;
+}
+
+interface CompiledRuleSet {
+  version: number;
+  rules: Array<{ id: string; regex: RegExp }>;
+}
+
+// 全角英数・半角カナの揺れと、間に空白を挟んだ書き方をそろえる
+export const normalizeCrisisText = (text: string) =>
+  text.normalize('NFKC').toLowerCase().replace(/\s+/g, '');
+
+// 壊れたパターンのルールは飛ばす。1つでも使えるルールがあれば有効なルールセットとする
+const compileRuleSet = (ruleSet: CrisisRuleSet): CompiledRuleSet | null => {
+  const rules = ruleSet.rules.flatMap(rule => {
+    try {
+      return [{ id: rule.id, regex: new RegExp(rule.pattern, 'u') }];
+    } catch (error) {
+      console.error('危険表現ルールの読み込みエラー:', rule.id, error);
+      return [];
+    }
+  });
+
+  return rules.length > 0 ? { version: ruleSet.version, rules } : null;
+};
+
+let activeRuleSet = compileRuleSet(DEFAULT_CRISIS_RULE_SET)!;
+
+export const getCrisisRuleVersion = () => activeRuleSet.version;
+
+// 使えるルールがなければ false を返し、今のルールセットを使い続ける
+export const setCrisisRuleSet = (ruleSet: CrisisRuleSet): boolean => {
+  const compiled = compileRuleSet(ruleSet);
+
+  if (!compiled) {
+    return false;
+  }
+
+  activeRuleSet = compiled;
+  return true;
+};
+
+export const resetCrisisRuleSet = () => {
+  activeRuleSet = compileRuleSet(DEFAULT_CRISIS_RULE_SET)!;
+};
+
+// 一致したルールがなければ null
+export const classifyCrisis = (text: string): CrisisMatch | null => {
+  const normalized = normalizeCrisisText(text);
+  const ruleIds = activeRuleSet.rules
+    .filter(rule => rule.regex.test(normalized))
+    .map(rule => rule.id);
+
+  return ruleIds.length > 0 ? { ruleIds, version: activeRuleSet.version } : null;
+};
+
+const isCrisisRule = (value: Json): value is Json & CrisisRule =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  typeof value.id === 'string' &&
+  typeof value.pattern === 'string';
+
+// サーバーに今より新しい版があれば差し替える。取得できなくても手元のルールで判定は続けられる
+export const refreshCrisisRuleSet = async (): Promise<Result<number>> => {
+  try {
+    const { data, error } = await supabase
+      .from('crisis_rule_sets')
+      .select('version, rules')
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      return fail(error);
+    }
+
+    if (data && data.version > activeRuleSet.version && Array.isArray(data.rules)) {
+      setCrisisRuleSet({
+        version: data.version,
+        rules: data.rules.filter(isCrisisRule),
+      });
+    }
+
+    return ok(activeRuleSet.version);
+  } catch (error) {
+    return fail(error);
+  }
+};
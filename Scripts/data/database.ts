@@ -0,0 +1,1204 @@
+// Scripts/data/database.ts
+// アプリで使用しているテーブルの型定義(supabase gen types と同じ形式)
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export interface Database {
+  public: {
+    Tables: {
+      profiles: {
+        Row: {
+          id: string;
+          email: string | null;
+          name: string | null;
+          bio: string | null;
+          avatar_url: string | null;
+          complex_level: number;
+          // 'member' | 'moderator'
+          role: string;
+          // モデレーターによる一時停止の期限。停止していなければ null
+          suspended_until: string | null;
+          // DM を受け付ける相手。'everyone' | 'followers' | 'nobody'
+          dm_policy: string;
+          // オンライン状態・最終オンライン・入力中を他の人に見せるか
+          show_presence: boolean;
+          // 見せない設定のあいだは null
+          last_seen_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          email?: string | null;
+          name?: string | null;
+          bio?: string | null;
+          avatar_url?: string | null;
+          complex_level?: number;
+          role?: string;
+          suspended_until?: string | null;
+          dm_policy?: string;
+          show_presence?: boolean;
+          last_seen_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          email?: string | null;
+          name?: string | null;
+          bio?: string | null;
+          avatar_url?: string | null;
+          complex_level?: number;
+          role?: string;
+          suspended_until?: string | null;
+          dm_policy?: string;
+          show_presence?: boolean;
+          last_seen_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      posts: {
+        Row: {
+          id: string;
+          user_id: string;
+          content: string;
+          created_at: string;
+          // 最後に編集した日時。未編集は null
+          edited_at: string | null;
+          // 匿名投稿でも user_id はモデレーションのために保持し、表示には anonymous_name を使う
+          is_anonymous: boolean;
+          anonymous_name: string | null;
+          // 投稿者が付けた注意書き。付けていなければ null
+          content_warning: string | null;
+          // モデレーターが非表示にした日時。非表示にした投稿はフィードに出さない
+          hidden_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          content: string;
+          created_at?: string;
+          edited_at?: string | null;
+          is_anonymous?: boolean;
+          anonymous_name?: string | null;
+          content_warning?: string | null;
+          hidden_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          content?: string;
+          created_at?: string;
+          edited_at?: string | null;
+          is_anonymous?: boolean;
+          anonymous_name?: string | null;
+          content_warning?: string | null;
+          hidden_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'posts_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      post_complexes: {
+        Row: {
+          id: string;
+          post_id: string;
+          category: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          post_id: string;
+          category: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          post_id?: string;
+          category?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'post_complexes_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'post_complexes_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'feed_posts';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      likes: {
+        Row: {
+          id: string;
+          post_id: string;
+          user_id: string;
+          reaction_type: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          post_id: string;
+          user_id: string;
+          reaction_type?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          post_id?: string;
+          user_id?: string;
+          reaction_type?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'likes_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'likes_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'feed_posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'likes_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      shares: {
+        Row: {
+          id: string;
+          post_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          post_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          post_id?: string;
+          user_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'shares_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'shares_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'feed_posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'shares_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      bookmarks: {
+        Row: {
+          id: string;
+          post_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          post_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          post_id?: string;
+          user_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'bookmarks_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'bookmarks_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'feed_posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'bookmarks_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      follows: {
+        Row: {
+          id: string;
+          follower_id: string;
+          following_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          follower_id: string;
+          following_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          follower_id?: string;
+          following_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'follows_follower_id_fkey';
+            columns: ['follower_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'follows_following_id_fkey';
+            columns: ['following_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      blocks: {
+        Row: {
+          id: string;
+          blocker_id: string;
+          blocked_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          blocker_id: string;
+          blocked_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          blocker_id?: string;
+          blocked_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'blocks_blocker_id_fkey';
+            columns: ['blocker_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'blocks_blocked_id_fkey';
+            columns: ['blocked_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      // 通知せずに相手の投稿などを見えなくする。フォロー関係はそのまま
+      mutes: {
+        Row: {
+          id: string;
+          muter_id: string;
+          muted_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          muter_id: string;
+          muted_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          muter_id?: string;
+          muted_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'mutes_muter_id_fkey';
+            columns: ['muter_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'mutes_muted_id_fkey';
+            columns: ['muted_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      replies: {
+        Row: {
+          id: string;
+          post_id: string;
+          user_id: string;
+          // 返信先のリプライ。投稿への直接のリプライは null
+          parent_reply_id: string | null;
+          content: string;
+          created_at: string;
+          edited_at: string | null;
+          // 返信が付いたリプライは行を残して削除済みにする
+          deleted_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          post_id: string;
+          user_id: string;
+          parent_reply_id?: string | null;
+          content: string;
+          created_at?: string;
+          edited_at?: string | null;
+          deleted_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          post_id?: string;
+          user_id?: string;
+          parent_reply_id?: string | null;
+          content?: string;
+          created_at?: string;
+          edited_at?: string | null;
+          deleted_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'replies_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'replies_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'feed_posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'replies_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'replies_parent_reply_id_fkey';
+            columns: ['parent_reply_id'];
+            isOneToOne: false;
+            referencedRelation: 'replies';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'replies_parent_reply_id_fkey';
+            columns: ['parent_reply_id'];
+            isOneToOne: false;
+            referencedRelation: 'thread_replies';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      post_edits: {
+        Row: {
+          id: string;
+          post_id: string;
+          // 編集前の本文
+          content: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          post_id: string;
+          content: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          post_id?: string;
+          content?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'post_edits_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'post_edits_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'feed_posts';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      post_media: {
+        Row: {
+          id: string;
+          post_id: string;
+          // post-media バケット内のパス
+          storage_path: string;
+          url: string;
+          width: number | null;
+          height: number | null;
+          // 投稿内での並び順(0 始まり)
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          post_id: string;
+          storage_path: string;
+          url: string;
+          width?: number | null;
+          height?: number | null;
+          position: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          post_id?: string;
+          storage_path?: string;
+          url?: string;
+          width?: number | null;
+          height?: number | null;
+          position?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'post_media_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'post_media_post_id_fkey';
+            columns: ['post_id'];
+            isOneToOne: false;
+            referencedRelation: 'feed_posts';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      reply_edits: {
+        Row: {
+          id: string;
+          reply_id: string;
+          // 編集前の本文
+          content: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          reply_id: string;
+          content: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          reply_id?: string;
+          content?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'reply_edits_reply_id_fkey';
+            columns: ['reply_id'];
+            isOneToOne: false;
+            referencedRelation: 'replies';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'reply_edits_reply_id_fkey';
+            columns: ['reply_id'];
+            isOneToOne: false;
+            referencedRelation: 'thread_replies';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      reply_likes: {
+        Row: {
+          id: string;
+          reply_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          reply_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          reply_id?: string;
+          user_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'reply_likes_reply_id_fkey';
+            columns: ['reply_id'];
+            isOneToOne: false;
+            referencedRelation: 'replies';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'reply_likes_reply_id_fkey';
+            columns: ['reply_id'];
+            isOneToOne: false;
+            referencedRelation: 'thread_replies';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'reply_likes_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      // 同じ2人の会話は1つだけ。user1_id < user2_id になるよう並べて保存し、(user1_id, user2_id) を一意にする
+      conversations: {
+        Row: {
+          id: string;
+          user1_id: string;
+          user2_id: string;
+          // 会話を始めたユーザー。以前からある会話は null
+          initiator_id: string | null;
+          // 相手がリクエストを承認した日時。承認前は null
+          accepted_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user1_id: string;
+          user2_id: string;
+          initiator_id?: string | null;
+          accepted_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user1_id?: string;
+          user2_id?: string;
+          initiator_id?: string | null;
+          accepted_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'conversations_user1_id_fkey';
+            columns: ['user1_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'conversations_user2_id_fkey';
+            columns: ['user2_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'conversations_initiator_id_fkey';
+            columns: ['initiator_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      messages: {
+        Row: {
+          id: string;
+          conversation_id: string;
+          sender_id: string;
+          content: string;
+          is_read: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          conversation_id: string;
+          sender_id: string;
+          content: string;
+          is_read?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          conversation_id?: string;
+          sender_id?: string;
+          content?: string;
+          is_read?: boolean;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'messages_conversation_id_fkey';
+            columns: ['conversation_id'];
+            isOneToOne: false;
+            referencedRelation: 'conversations';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'messages_sender_id_fkey';
+            columns: ['sender_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: string;
+          message: string;
+          related_user_id: string | null;
+          related_post_id: string | null;
+          is_read: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type: string;
+          message: string;
+          related_user_id?: string | null;
+          related_post_id?: string | null;
+          is_read?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          type?: string;
+          message?: string;
+          related_user_id?: string | null;
+          related_post_id?: string | null;
+          is_read?: boolean;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'notifications_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'notifications_related_user_id_fkey';
+            columns: ['related_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'notifications_related_post_id_fkey';
+            columns: ['related_post_id'];
+            isOneToOne: false;
+            referencedRelation: 'posts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'notifications_related_post_id_fkey';
+            columns: ['related_post_id'];
+            isOneToOne: false;
+            referencedRelation: 'feed_posts';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_complexes: {
+        Row: {
+          id: string;
+          user_id: string;
+          category: string;
+          level: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          category: string;
+          level: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          category?: string;
+          level?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_complexes_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      category_follows: {
+        Row: {
+          id: string;
+          user_id: string;
+          category: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          category: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          category?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'category_follows_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      // 閲覧者が常に折りたたんで表示したいコンプレックスカテゴリ
+      collapsed_categories: {
+        Row: {
+          id: string;
+          user_id: string;
+          category: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          category: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          category?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'collapsed_categories_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      // ミュートするワード。is_regex なら pattern を正規表現として扱う
+      muted_words: {
+        Row: {
+          id: string;
+          user_id: string;
+          pattern: string;
+          is_regex: boolean;
+          // 'posts' | 'replies' | 'notifications'
+          scopes: string[];
+          // null なら無期限
+          expires_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          pattern: string;
+          is_regex?: boolean;
+          scopes: string[];
+          expires_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          pattern?: string;
+          is_regex?: boolean;
+          scopes?: string[];
+          expires_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'muted_words_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      // 危険な表現の検出ルール。最も大きい version を使う
+      crisis_rule_sets: {
+        Row: {
+          id: string;
+          version: number;
+          // CrisisRule の配列
+          rules: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          version: number;
+          rules: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          version?: number;
+          rules?: Json;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      // 利用者からの通報。同じ人が同じ対象を通報できるのは1回だけ(reporter_id, target_type, target_id で一意)
+      reports: {
+        Row: {
+          id: string;
+          reporter_id: string;
+          // 'post' | 'reply' | 'user' | 'message'
+          target_type: string;
+          target_id: string;
+          // ReportReason
+          reason: string;
+          details: string | null;
+          // 通報した人の画面から対象を隠す
+          hidden: boolean;
+          // モデレーターが対応した日時。未対応は null
+          resolved_at: string | null;
+          resolved_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          reporter_id: string;
+          target_type: string;
+          target_id: string;
+          reason: string;
+          details?: string | null;
+          hidden?: boolean;
+          resolved_at?: string | null;
+          resolved_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          reporter_id?: string;
+          target_type?: string;
+          target_id?: string;
+          reason?: string;
+          details?: string | null;
+          hidden?: boolean;
+          resolved_at?: string | null;
+          resolved_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'reports_reporter_id_fkey';
+            columns: ['reporter_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'reports_resolved_by_fkey';
+            columns: ['resolved_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      // モデレーターの確認が必要な投稿・リプライ・DM
+      moderation_flags: {
+        Row: {
+          id: string;
+          // 'post' | 'reply' | 'message'
+          content_type: string;
+          content_id: string;
+          // 書いた人
+          user_id: string;
+          // 'crisis' など
+          reason: string;
+          matched_rules: string[];
+          rule_version: number | null;
+          resolved_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          content_type: string;
+          content_id: string;
+          user_id: string;
+          reason: string;
+          matched_rules?: string[];
+          rule_version?: number | null;
+          resolved_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          content_type?: string;
+          content_id?: string;
+          user_id?: string;
+          reason?: string;
+          matched_rules?: string[];
+          rule_version?: number | null;
+          resolved_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'moderation_flags_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      // モデレーターの対応の監査ログ。追記のみで更新・削除はしない
+      moderation_actions: {
+        Row: {
+          id: string;
+          moderator_id: string;
+          // ModerationAction
+          action: string;
+          // 'post' | 'reply' | 'user' | 'message'
+          target_type: string;
+          target_id: string;
+          // 対応の対象になった投稿者。対象がユーザーならその人
+          subject_user_id: string | null;
+          note: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          moderator_id: string;
+          action: string;
+          target_type: string;
+          target_id: string;
+          subject_user_id?: string | null;
+          note?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          moderator_id?: string;
+          action?: string;
+          target_type?: string;
+          target_id?: string;
+          subject_user_id?: string | null;
+          note?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'moderation_actions_moderator_id_fkey';
+            columns: ['moderator_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'moderation_actions_subject_user_id_fkey';
+            columns: ['subject_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Views: {
+      // 投稿の読み取り用。匿名投稿の user_id は投稿者本人以外には null にし、投稿者の表示は仮名にしてある
+      feed_posts: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          content: string;
+          created_at: string;
+          edited_at: string | null;
+          is_anonymous: boolean;
+          anonymous_name: string | null;
+          content_warning: string | null;
+          hidden_at: string | null;
+          author_name: string | null;
+          author_avatar_url: string | null;
+          author_complex_level: number;
+        };
+        Relationships: [];
+      };
+      // リプライの読み取り用。匿名投稿の投稿者が付けたリプライは、投稿と同じく投稿者を隠してある
+      thread_replies: {
+        Row: {
+          id: string;
+          post_id: string;
+          user_id: string | null;
+          parent_reply_id: string | null;
+          content: string;
+          created_at: string;
+          edited_at: string | null;
+          deleted_at: string | null;
+          author_name: string | null;
+          author_avatar_url: string | null;
+          author_complex_level: number;
+        };
+        Relationships: [];
+      };
+      // 自分宛ての通知の読み取り用。匿名投稿の投稿者からの通知は、本文の名前も仮名に置き換えてある
+      notification_feed: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: string;
+          message: string;
+          related_user_id: string | null;
+          related_post_id: string | null;
+          is_read: boolean;
+          created_at: string;
+          related_user_name: string | null;
+          related_user_avatar_url: string | null;
+        };
+        Relationships: [];
+      };
+      // 会話ごとの最後のメッセージ。読む人の権限で評価するので、参加している会話の分だけ返る
+      latest_messages: {
+        Row: {
+          id: string;
+          conversation_id: string;
+          sender_id: string;
+          content: string;
+          is_read: boolean;
+          created_at: string;
+        };
+        Relationships: [];
+      };
+    };
+    Functions: {
+      // ログイン中のユーザーとしてブロックし、お互いのフォローを解除する。解除したフォローの数を返す
+      block_user: {
+        Args: { target_user_id: string };
+        Returns: number;
+      };
+      // 非表示にした投稿が見つかれば true。モデレーター以外は権限エラー
+      hide_post_as_moderator: {
+        Args: { target_post_id: string };
+        Returns: boolean;
+      };
+      // 一時停止したユーザーが見つかれば true。モデレーター以外は権限エラー
+      suspend_user_as_moderator: {
+        Args: { target_user_id: string; suspended_until: string };
+        Returns: boolean;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+}
+
+type PublicSchema = Database['public'];
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row'];
+export type Views<T extends keyof PublicSchema['Views']> = PublicSchema['Views'][T]['Row'];
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert'];
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update'];
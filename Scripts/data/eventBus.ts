@@ -0,0 +1,21 @@
+// Scripts/data/eventBus.ts
+// データ層の変更を、同じデータを表示している画面に知らせる
+
+export type EventListener<T> = (event: T) => void;
+
+export const createEventBus = <T>() => {
+  const listeners = new Set<EventListener<T>>();
+
+  return {
+    // 解除用の関数を返す
+    subscribe: (listener: EventListener<T>) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit: (event: T) => {
+      listeners.forEach(listener => listener(event));
+    },
+  };
+};
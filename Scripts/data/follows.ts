@@ -0,0 +1,65 @@
+import { supabase } from '../supabaseClient';
+import { ensureNotBlocked } from './blocks';
+import { Result, fail, fromQuery, mapResult, ok } from './result';
+
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
+
+export const fetchFollowingIds = async (userId: string): Promise<Result<string[]>> => {
+  const result = await fromQuery(
+    supabase
+      .from('follows')
+      .select('following_id')
+      .eq('follower_id', userId)
+  );
+
+  return mapResult(result, rows => rows.map(follow => follow.following_id));
+};
+
+export const fetchFollowCounts = async (userId: string): Promise<Result<FollowCounts>> => {
+  const [followers, following] = await Promise.all([
+    supabase
+      .from('follows')
+      .select('*', { count: 'exact', head: true })
+      .eq('following_id', userId),
+    supabase
+      .from('follows')
+      .select('*', { count: 'exact', head: true })
+      .eq('follower_id', userId),
+  ]);
+
+  if (followers.error || following.error) {
+    return fail(followers.error || following.error);
+  }
+
+  return ok({
+    followers: followers.count || 0,
+    following: following.count || 0,
+  });
+};
+
+// どちらかがブロックしていればフォローできない
+export const followUser = async (followerId: string, followingId: string): Promise<Result<null>> => {
+  const { error } = await ensureNotBlocked(followerId, followingId);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return fromQuery(
+    supabase
+      .from('follows')
+      .insert({ follower_id: followerId, following_id: followingId })
+  );
+};
+
+export const unfollowUser = (followerId: string, followingId: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('follows')
+      .delete()
+      .eq('follower_id', followerId)
+      .eq('following_id', followingId)
+  );
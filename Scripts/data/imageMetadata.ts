@@ -0,0 +1,168 @@
+// アップロード前に画像から位置情報(GPS)などのメタデータを取り除く
+// 画素データには触れず、メタデータのセグメント/チャンクだけを落とす
+
+export type StrippableImageType = 'image/jpeg' | 'image/png';
+
+export interface StrippedImage {
+  bytes: Uint8Array;
+  contentType: StrippableImageType;
+}
+
+const JPEG_SOI = 0xd8;
+const JPEG_SOS = 0xda;
+const JPEG_APP1 = 0xe1;
+const JPEG_APP2 = 0xe2;
+const JPEG_APP15 = 0xef;
+const JPEG_COM = 0xfe;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// 撮影日時・コメント・EXIF を持ちうる補助チャンク
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+const startsWith = (bytes: Uint8Array, offset: number, expected: number[] | string) => {
+  const values = typeof expected === 'string'
+    ? Array.from(expected, char => char.charCodeAt(0))
+    : expected;
+  return values.every((value, index) => bytes[offset + index] === value);
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+// APP1 の EXIF から向き(1〜8)を読む。見つからなければ null
+const readExifOrientation = (segment: Uint8Array): number | null => {
+  // segment: FF E1 + 長さ(2) + "Exif\0\0" + TIFF
+  const tiff = 10;
+  if (!startsWith(segment, 4, 'Exif\0\0') || segment.length < tiff + 8) return null;
+
+  const littleEndian = startsWith(segment, tiff, 'II');
+  if (!littleEndian && !startsWith(segment, tiff, 'MM')) return null;
+
+  const read16 = (offset: number) => littleEndian
+    ? segment[offset] | (segment[offset + 1] << 8)
+    : (segment[offset] << 8) | segment[offset + 1];
+  const read32 = (offset: number) => littleEndian
+    ? (read16(offset + 2) << 16) + read16(offset)
+    : (read16(offset) << 16) + read16(offset + 2);
+
+  const ifd = tiff + read32(tiff + 4);
+  if (ifd + 2 > segment.length) return null;
+
+  const entries = read16(ifd);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > segment.length) return null;
+    if (read16(entry) === EXIF_ORIENTATION_TAG) {
+      const orientation = read16(entry + 8);
+      return orientation >= 1 && orientation <= 8 ? orientation : null;
+    }
+  }
+
+  return null;
+};
+
+// 向きのタグだけを持つ APP1 セグメント。画素を回転せずに EXIF を消すと横倒しで表示されるため残す
+const orientationSegment = (orientation: number) => new Uint8Array([
+  0xff, JPEG_APP1, 0x00, 0x22,
+  0x45, 0x78, 0x69, 0x66, 0x00, 0x00, // "Exif\0\0"
+  0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // ビッグエンディアンの TIFF ヘッダー
+  0x00, 0x01, // IFD0 のエントリ数
+  0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00, // 次の IFD なし
+]);
+
+const stripJpeg = (bytes: Uint8Array): Uint8Array | null => {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let orientation: number | null = null;
+  let offset = 2;
+
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+
+    const marker = bytes[offset + 1];
+
+    // 画像データ以降はメタデータを含まないのでそのまま残す
+    if (marker === JPEG_SOS) {
+      if (orientation && orientation !== 1) {
+        parts.splice(1, 0, orientationSegment(orientation));
+      }
+      parts.push(bytes.subarray(offset));
+      return concat(parts);
+    }
+
+    if (offset + 4 > bytes.length) return null;
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) return null;
+
+    const segment = bytes.subarray(offset, end);
+    // 色の再現に必要な ICC プロファイルだけは APP2 でも残す
+    const isIccProfile = marker === JPEG_APP2 && startsWith(segment, 4, 'ICC_PROFILE\0');
+    const isMetadata = (marker >= JPEG_APP1 && marker <= JPEG_APP15 && !isIccProfile) || marker === JPEG_COM;
+
+    if (marker === JPEG_APP1 && orientation === null) {
+      orientation = readExifOrientation(segment);
+    }
+
+    if (!isMetadata) {
+      parts.push(segment);
+    }
+
+    offset = end;
+  }
+
+  return null;
+};
+
+const stripPng = (bytes: Uint8Array): Uint8Array | null => {
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= bytes.length) {
+    const length =
+      ((bytes[offset] << 24) >>> 0) +
+      (bytes[offset + 1] << 16) +
+      (bytes[offset + 2] << 8) +
+      bytes[offset + 3];
+    const type = String.fromCharCode(...Array.from(bytes.subarray(offset + 4, offset + 8)));
+    const end = offset + 12 + length;
+
+    if (end > bytes.length) return null;
+
+    if (!PNG_METADATA_CHUNKS.has(type)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+
+    if (type === 'IEND') {
+      return concat(parts);
+    }
+
+    offset = end;
+  }
+
+  return null;
+};
+
+// JPEG と PNG 以外、または壊れた画像は null を返す
+export const stripImageMetadata = (bytes: Uint8Array): StrippedImage | null => {
+  if (bytes[0] === 0xff && bytes[1] === JPEG_SOI) {
+    const stripped = stripJpeg(bytes);
+    return stripped && { bytes: stripped, contentType: 'image/jpeg' };
+  }
+
+  if (startsWith(bytes, 0, PNG_SIGNATURE)) {
+    const stripped = stripPng(bytes);
+    return stripped && { bytes: stripped, contentType: 'image/png' };
+  }
+
+  return null;
+};
@@ -0,0 +1,34 @@
+import { supabase } from '../supabaseClient';
+import { ReactionType } from '../constants/reactions';
+import { Result, fromQuery } from './result';
+
+export const likePost = (postId: string, userId: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('likes')
+      .insert({ post_id: postId, user_id: userId })
+  );
+
+// リアクションは1投稿につき1人1つ。既に付けている場合は種類を変更する
+export const reactToPost = (
+  postId: string,
+  userId: string,
+  reactionType: ReactionType
+): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('likes')
+      .upsert(
+        { post_id: postId, user_id: userId, reaction_type: reactionType },
+        { onConflict: 'post_id,user_id' }
+      )
+  );
+
+export const unlikePost = (postId: string, userId: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('likes')
+      .delete()
+      .eq('post_id', postId)
+      .eq('user_id', userId)
+  );
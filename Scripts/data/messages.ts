@@ -0,0 +1,212 @@
+import { supabase } from '../supabaseClient';
+import { Tables } from './database';
+import { Result, fail, fromQuery, ok } from './result';
+import { ensureNotBlocked } from './blocks';
+import { ensureNotSuspended } from './suspensions';
+
+export type Message = Tables<'messages'>;
+
+// pending: 送信中 / failed: 送信に失敗して再送を待っている
+export type MessageDeliveryStatus = 'sent' | 'pending' | 'failed';
+
+// チャット画面に並べるメッセージ。送信が確定するまでは端末で振った仮の ID を使う
+export interface ChatMessage extends Message {
+  delivery: MessageDeliveryStatus;
+}
+
+let localMessageSequence = 0;
+
+// 古い順に返す
+export const fetchMessages = (conversationId: string): Promise<Result<Message[]>> =>
+  fromQuery(
+    supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true })
+  );
+
+// 送信したメッセージを返す
+export const sendMessage = async (message: {
+  conversationId: string;
+  senderId: string;
+  content: string;
+}): Promise<Result<Message>> => {
+  const { error: suspendedError } = await ensureNotSuspended(message.senderId);
+
+  if (suspendedError) {
+    return { data: null, error: suspendedError };
+  }
+
+  // どちらかがブロックしている会話には送れない
+  const { data: conversation, error: conversationError } = await supabase
+    .from('conversations')
+    .select('user1_id, user2_id')
+    .eq('id', message.conversationId)
+    .maybeSingle();
+
+  if (conversationError || !conversation) {
+    return fail(conversationError || { message: '会話が見つかりません', code: 'PGRST116' });
+  }
+
+  const recipientId = conversation.user1_id === message.senderId
+    ? conversation.user2_id
+    : conversation.user1_id;
+  const { error: blockedError } = await ensureNotBlocked(message.senderId, recipientId);
+
+  if (blockedError) {
+    return { data: null, error: blockedError };
+  }
+
+  return fromQuery(
+    supabase
+      .from('messages')
+      .insert({
+        conversation_id: message.conversationId,
+        sender_id: message.senderId,
+        content: message.content,
+      })
+      .select()
+      .single()
+  );
+};
+
+// 相手から届いた未読メッセージを既読にする。承認前のリクエストは、相手に既読を知らせないよう未読のままにする
+export const markConversationRead = async (
+  conversationId: string,
+  userId: string
+): Promise<Result<null>> => {
+  const { data: conversation, error } = await supabase
+    .from('conversations')
+    .select('initiator_id, accepted_at')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (error) {
+    return fail(error);
+  }
+
+  if (conversation && !conversation.accepted_at && conversation.initiator_id &&
+    conversation.initiator_id !== userId) {
+    return ok(null);
+  }
+
+  return fromQuery(
+    supabase
+      .from('messages')
+      .update({ is_read: true })
+      .eq('conversation_id', conversationId)
+      .neq('sender_id', userId)
+      .eq('is_read', false)
+  );
+};
+
+// 指定した会話で相手から届いた未読メッセージ数
+export const countUnreadMessages = async (
+  conversationIds: string[],
+  userId: string
+): Promise<Result<number>> => {
+  if (conversationIds.length === 0) {
+    return ok(0);
+  }
+
+  const { count, error } = await supabase
+    .from('messages')
+    .select('*', { count: 'exact', head: true })
+    .in('conversation_id', conversationIds)
+    .eq('is_read', false)
+    .neq('sender_id', userId);
+
+  return error ? fail(error) : ok(count || 0);
+};
+
+// 会話の新着と既読の変化だけを購読する。戻り値で購読を解除する
+export const subscribeConversationMessages = (
+  conversationId: string,
+  onChange: (message: Message) => void
+): (() => void) => {
+  const filter = `conversation_id=eq.${conversationId}`;
+  const channel = supabase
+    .channel(`messages:${conversationId}`)
+    .on<Message>(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'messages', filter },
+      payload => onChange(payload.new)
+    )
+    .on<Message>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'messages', filter },
+      payload => onChange(payload.new)
+    )
+    .subscribe();
+
+  return () => {
+    channel.unsubscribe();
+  };
+};
+
+// 送信が終わる前に画面へ出す、送信中のメッセージ
+export const createPendingMessage = (message: {
+  conversationId: string;
+  senderId: string;
+  content: string;
+}): ChatMessage => ({
+  id: `local-${++localMessageSequence}`,
+  conversation_id: message.conversationId,
+  sender_id: message.senderId,
+  content: message.content,
+  is_read: false,
+  created_at: new Date().toISOString(),
+  delivery: 'pending',
+});
+
+// 送信済みのメッセージを古い順に、そのあとに送信中・送信失敗のものを並べる
+const sortChatMessages = (messages: ChatMessage[]): ChatMessage[] => [
+  ...messages
+    .filter(message => message.delivery === 'sent')
+    .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+  ...messages.filter(message => message.delivery !== 'sent'),
+];
+
+// 取得・購読・送信で届いた行を反映する。既にある行は置き換え、自分の送信中の
+// メッセージが送信の結果より先に購読で届いたときは、その送信中のメッセージと入れ替える
+export const mergeChatMessages = (messages: ChatMessage[], incoming: Message[]): ChatMessage[] => {
+  const merged = [...messages];
+
+  incoming.forEach(row => {
+    const sent: ChatMessage = { ...row, delivery: 'sent' };
+    let index = merged.findIndex(message => message.id === row.id);
+
+    if (index === -1) {
+      index = merged.findIndex(message =>
+        message.delivery === 'pending' &&
+        message.sender_id === row.sender_id &&
+        message.content === row.content
+      );
+    }
+
+    if (index === -1) {
+      merged.push(sent);
+    } else {
+      merged[index] = sent;
+    }
+  });
+
+  return sortChatMessages(merged);
+};
+
+// 送信中のメッセージを送信できた行に置き換える。購読で先に届いていれば重ねない
+export const confirmPendingMessage = (
+  messages: ChatMessage[],
+  localId: string,
+  sent: Message
+): ChatMessage[] =>
+  mergeChatMessages(messages.filter(message => message.id !== localId), [sent]);
+
+// 送信に失敗したときと、再送するときに使う
+export const setMessageDelivery = (
+  messages: ChatMessage[],
+  localId: string,
+  delivery: Exclude<MessageDeliveryStatus, 'sent'>
+): ChatMessage[] =>
+  messages.map(message => (message.id === localId ? { ...message, delivery } : message));
@@ -0,0 +1,469 @@
+import { supabase } from '../supabaseClient';
+import { MODERATION_WARNING_MESSAGE, MODERATOR_ROLE, ModerationAction } from '../constants/moderation';
+import { Tables } from './database';
+import { CrisisMatch } from './crisisClassifier';
+import { emitPostEvent } from './postEvents';
+import { removePostMediaFiles } from './postMedia';
+import { Report, ReportTarget, ReportTargetType, reportTargetKey } from './reports';
+import { Result, fail, fromQuery, ok } from './result';
+
+export type ModerationFlag = Tables<'moderation_flags'>;
+
+export type ModeratedContentType = 'post' | 'reply' | 'message';
+
+// 危険な表現を含んだまま送信された投稿・リプライ・DM をモデレーターの確認待ちにする
+export const flagCrisisContent = (flag: {
+  contentType: ModeratedContentType;
+  contentId: string;
+  userId: string;
+  match: CrisisMatch;
+}): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('moderation_flags')
+      .insert({
+        content_type: flag.contentType,
+        content_id: flag.contentId,
+        user_id: flag.userId,
+        reason: 'crisis',
+        matched_rules: flag.match.ruleIds,
+        rule_version: flag.match.version,
+      })
+  );
+
+export type ModerationActionLog = Tables<'moderation_actions'>;
+
+// 通報された内容。対象がユーザーなら本文は自己紹介
+export interface ReportedContent {
+  // 書いた人。匿名投稿でも実際の投稿者を入れる
+  userId: string;
+  authorName: string | null;
+  body: string;
+  // リプライなら返信先の投稿、DM なら直前のやり取り(古い順)
+  context: string[];
+  isAnonymous: boolean;
+  // 非表示・削除済みなど、すでに見えなくなっている
+  removed: boolean;
+  suspendedUntil: string | null;
+}
+
+// 同じ対象への未対応の通報と、危険な表現の検出をまとめたもの
+export interface ReportGroup {
+  target: ReportTarget;
+  // 古い順。検出だけの対象なら空
+  reports: Report[];
+  // 危険な表現の検出。古い順
+  flags: ModerationFlag[];
+  // 対象がすでに存在しなければ null
+  content: ReportedContent | null;
+}
+
+// DM の通報で一緒に表示する直前のメッセージ数
+const MESSAGE_CONTEXT_SIZE = 3;
+
+export const isModerator = async (userId: string): Promise<Result<boolean>> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return error ? fail(error) : ok(data?.role === MODERATOR_ROLE);
+};
+
+const fetchReportedContent = async (target: ReportTarget): Promise<Result<ReportedContent | null>> => {
+  switch (target.type) {
+    case 'post': {
+      const { data: post, error } = await supabase
+        .from('posts')
+        .select('user_id, content, is_anonymous, hidden_at, profiles (name, suspended_until)')
+        .eq('id', target.id)
+        .maybeSingle();
+
+      if (error) {
+        return fail(error);
+      }
+
+      return ok(post && {
+        userId: post.user_id,
+        authorName: post.profiles?.name || null,
+        body: post.content,
+        context: [],
+        isAnonymous: post.is_anonymous,
+        removed: !!post.hidden_at,
+        suspendedUntil: post.profiles?.suspended_until || null,
+      });
+    }
+    case 'reply': {
+      const { data: reply, error } = await supabase
+        .from('replies')
+        .select('user_id, content, deleted_at, profiles (name, suspended_until), parent_post:posts (content)')
+        .eq('id', target.id)
+        .maybeSingle();
+
+      if (error) {
+        return fail(error);
+      }
+
+      return ok(reply && {
+        userId: reply.user_id,
+        authorName: reply.profiles?.name || null,
+        body: reply.content,
+        context: reply.parent_post ? [reply.parent_post.content] : [],
+        isAnonymous: false,
+        removed: !!reply.deleted_at,
+        suspendedUntil: reply.profiles?.suspended_until || null,
+      });
+    }
+    case 'message': {
+      const { data: message, error } = await supabase
+        .from('messages')
+        .select('sender_id, conversation_id, content, created_at, profiles (name, suspended_until)')
+        .eq('id', target.id)
+        .maybeSingle();
+
+      if (error || !message) {
+        return error ? fail(error) : ok(null);
+      }
+
+      const { data: earlier, error: earlierError } = await fromQuery(
+        supabase
+          .from('messages')
+          .select('content')
+          .eq('conversation_id', message.conversation_id)
+          .lt('created_at', message.created_at)
+          .order('created_at', { ascending: false })
+          .limit(MESSAGE_CONTEXT_SIZE)
+      );
+
+      if (earlierError) {
+        return { data: null, error: earlierError };
+      }
+
+      const profile = message.profiles;
+      return ok({
+        userId: message.sender_id,
+        authorName: profile?.name || null,
+        body: message.content,
+        context: earlier.map(row => row.content).reverse(),
+        isAnonymous: false,
+        removed: false,
+        suspendedUntil: profile?.suspended_until || null,
+      });
+    }
+    case 'user': {
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('id, name, bio, suspended_until')
+        .eq('id', target.id)
+        .maybeSingle();
+
+      if (error) {
+        return fail(error);
+      }
+
+      return ok(profile && {
+        userId: profile.id,
+        authorName: profile.name,
+        body: profile.bio || '',
+        context: [],
+        isAnonymous: false,
+        removed: false,
+        suspendedUntil: profile.suspended_until,
+      });
+    }
+  }
+};
+
+// グループ内でいちばん古い通報・検出の日時
+export const reportGroupCreatedAt = (group: Pick<ReportGroup, 'reports' | 'flags'>): string =>
+  [...group.reports, ...group.flags]
+    .map(item => item.created_at)
+    .reduce((oldest, createdAt) => (createdAt < oldest ? createdAt : oldest));
+
+// 未対応の通報と危険な表現の検出を対象ごとにまとめる。
+// 危険な表現を含む対象を先に、その中では通報の多い順(同数なら古い順)に返す
+export const fetchReportQueue = async (): Promise<Result<ReportGroup[]>> => {
+  try {
+    const [reportsResult, flagsResult] = await Promise.all([
+      fromQuery(
+        supabase
+          .from('reports')
+          .select('*')
+          .is('resolved_at', null)
+          .order('created_at', { ascending: true })
+      ),
+      fromQuery(
+        supabase
+          .from('moderation_flags')
+          .select('*')
+          .is('resolved_at', null)
+          .order('created_at', { ascending: true })
+      ),
+    ]);
+
+    if (reportsResult.error) {
+      return { data: null, error: reportsResult.error };
+    }
+
+    if (flagsResult.error) {
+      return { data: null, error: flagsResult.error };
+    }
+
+    const groups = new Map<string, ReportGroup>();
+    const groupFor = (target: ReportTarget) => {
+      const key = reportTargetKey(target);
+      const group = groups.get(key) || { target, reports: [], flags: [], content: null };
+      groups.set(key, group);
+      return group;
+    };
+
+    reportsResult.data.forEach(report => {
+      groupFor({ type: report.target_type as ReportTargetType, id: report.target_id }).reports.push(report);
+    });
+    flagsResult.data.forEach(flag => {
+      groupFor({ type: flag.content_type as ModeratedContentType, id: flag.content_id }).flags.push(flag);
+    });
+
+    const sorted = Array.from(groups.values()).sort((a, b) =>
+      Number(b.flags.length > 0) - Number(a.flags.length > 0) ||
+      b.reports.length - a.reports.length ||
+      reportGroupCreatedAt(a).localeCompare(reportGroupCreatedAt(b))
+    );
+
+    for (const group of sorted) {
+      const { data: content, error: contentError } = await fetchReportedContent(group.target);
+
+      if (contentError) {
+        return { data: null, error: contentError };
+      }
+
+      group.content = content;
+    }
+
+    return ok(sorted);
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+// 権限のない書き込みは RLS でエラーにならず 0 行になる。書き込んだ行を返させて確かめる
+const ensureWritten = async (
+  query: PromiseLike<{ data: Array<{ id: string }> | null; error: unknown }>,
+  notFoundMessage: string
+): Promise<Result<null>> => {
+  const { data, error } = await fromQuery(query);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return data.length > 0 ? ok(null) : fail({ message: notFoundMessage });
+};
+
+// 非表示にできるのは投稿だけ。表示中の一覧からも取り除く。
+// hidden_at は投稿者が書き換えられないので、モデレーター用の関数から設定する
+const hideReportedContent = async (target: ReportTarget): Promise<Result<null>> => {
+  switch (target.type) {
+    case 'post': {
+      const { data: hidden, error } = await supabase.rpc('hide_post_as_moderator', {
+        target_post_id: target.id,
+      });
+
+      if (error) {
+        return fail(error);
+      }
+
+      if (!hidden) {
+        return fail({ message: '投稿が見つかりません' });
+      }
+
+      emitPostEvent({ type: 'deleted', postId: target.id });
+      return ok(null);
+    }
+    case 'reply':
+    case 'message':
+    case 'user':
+      return fail({ message: '投稿以外は非表示にできません' });
+  }
+};
+
+const removeReportedContent = async (target: ReportTarget): Promise<Result<null>> => {
+  switch (target.type) {
+    case 'post': {
+      const { data: media } = await supabase
+        .from('post_media')
+        .select('storage_path')
+        .eq('post_id', target.id);
+
+      const { error } = await ensureWritten(
+        supabase.from('posts').delete().eq('id', target.id).select('id'),
+        '投稿が見つからないか、削除する権限がありません'
+      );
+
+      if (error) {
+        return { data: null, error };
+      }
+
+      const { error: storageError } = await removePostMediaFiles(
+        (media || []).map(item => item.storage_path)
+      );
+
+      if (storageError) {
+        console.error('画像削除エラー:', storageError);
+      }
+
+      emitPostEvent({ type: 'deleted', postId: target.id });
+      return ok(null);
+    }
+    case 'reply':
+      // 返信の流れを残すため、本人の削除と同じく本文を消して削除済みにする
+      return ensureWritten(
+        supabase
+          .from('replies')
+          .update({ content: '', deleted_at: new Date().toISOString() })
+          .eq('id', target.id)
+          .select('id'),
+        'リプライが見つからないか、削除する権限がありません'
+      );
+    case 'message':
+      return ensureWritten(
+        supabase.from('messages').delete().eq('id', target.id).select('id'),
+        'メッセージが見つからないか、削除する権限がありません'
+      );
+    case 'user':
+      return fail({ message: 'ユーザーは削除できません' });
+  }
+};
+
+const performAction = async (action: {
+  action: ModerationAction;
+  target: ReportTarget;
+  subjectUserId: string | null;
+  note: string | null;
+  suspendDays?: number;
+  now: Date;
+}): Promise<Result<null>> => {
+  switch (action.action) {
+    case 'dismiss':
+      return ok(null);
+    case 'hide':
+      return hideReportedContent(action.target);
+    case 'delete':
+      return removeReportedContent(action.target);
+    case 'warn':
+      if (!action.subjectUserId) {
+        return fail({ message: '警告するユーザーが見つかりません' });
+      }
+
+      return ensureWritten(
+        supabase
+          .from('notifications')
+          .insert({
+            user_id: action.subjectUserId,
+            type: 'moderation_warning',
+            message: action.note
+              ? `${MODERATION_WARNING_MESSAGE}\n${action.note}`
+              : MODERATION_WARNING_MESSAGE,
+          })
+          .select('id'),
+        '警告を送る権限がありません'
+      );
+    case 'suspend': {
+      if (!action.subjectUserId || !action.suspendDays) {
+        return fail({ message: '一時停止するユーザーと期間を指定してください' });
+      }
+
+      // suspended_until は本人が書き換えられないので、モデレーター用の関数から設定する
+      const until = new Date(action.now.getTime() + action.suspendDays * 24 * 60 * 60 * 1000);
+      const { data: suspended, error } = await supabase.rpc('suspend_user_as_moderator', {
+        target_user_id: action.subjectUserId,
+        suspended_until: until.toISOString(),
+      });
+
+      if (error) {
+        return fail(error);
+      }
+
+      return suspended ? ok(null) : fail({ message: 'ユーザーが見つかりません' });
+    }
+  }
+};
+
+// 対応を実行して監査ログに記録し、その対象への未対応の通報と検出をすべて対応済みにする。
+// 権限の確認はサーバー側の RLS とモデレーター用の関数で行い、実行できなければ記録もしない
+export const applyModerationAction = async (action: {
+  moderatorId: string;
+  action: ModerationAction;
+  target: ReportTarget;
+  subjectUserId: string | null;
+  note?: string;
+  // suspend のときの停止日数
+  suspendDays?: number;
+  now?: Date;
+}): Promise<Result<null>> => {
+  const now = action.now || new Date();
+  const note = action.note?.trim() || null;
+
+  try {
+    const { error: actionError } = await performAction({
+      action: action.action,
+      target: action.target,
+      subjectUserId: action.subjectUserId,
+      note,
+      suspendDays: action.suspendDays,
+      now,
+    });
+
+    if (actionError) {
+      return { data: null, error: actionError };
+    }
+
+    const { error: logError } = await supabase
+      .from('moderation_actions')
+      .insert({
+        moderator_id: action.moderatorId,
+        action: action.action,
+        target_type: action.target.type,
+        target_id: action.target.id,
+        subject_user_id: action.subjectUserId,
+        note: action.action === 'suspend' ? `${action.suspendDays}日間${note ? `: ${note}` : ''}` : note,
+      });
+
+    if (logError) {
+      return fail(logError);
+    }
+
+    const { error: reportsError } = await supabase
+      .from('reports')
+      .update({ resolved_at: now.toISOString(), resolved_by: action.moderatorId })
+      .eq('target_type', action.target.type)
+      .eq('target_id', action.target.id)
+      .is('resolved_at', null);
+
+    if (reportsError) {
+      return fail(reportsError);
+    }
+
+    return fromQuery(
+      supabase
+        .from('moderation_flags')
+        .update({ resolved_at: now.toISOString() })
+        .eq('content_type', action.target.type)
+        .eq('content_id', action.target.id)
+        .is('resolved_at', null)
+    );
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+// 新しい順
+export const fetchModerationLog = (limit: number): Promise<Result<ModerationActionLog[]>> =>
+  fromQuery(
+    supabase
+      .from('moderation_actions')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+  );
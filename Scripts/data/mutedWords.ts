@@ -0,0 +1,190 @@
+import { supabase } from '../supabaseClient';
+import { MUTED_WORD_MAX_LENGTH, MutedWordScope } from '../constants/mutedWords';
+import { Tables } from './database';
+import { createEventBus } from './eventBus';
+import { Result, fail, fromQuery, mapResult, ok } from './result';
+
+export type MutedWord = Tables<'muted_words'>;
+
+export type MutedWordEvent =
+  | { type: 'added'; word: MutedWord }
+  | { type: 'removed'; id: string };
+
+const mutedWordEvents = createEventBus<MutedWordEvent>();
+
+// ワードの追加・削除を、投稿や通知の一覧を持つ画面に知らせる。解除用の関数を返す
+export const subscribeMutedWords = mutedWordEvents.subscribe;
+
+// 全角・半角の揺れ(NFKC)とカタカナ・ひらがなをそろえる
+const normalizeWidthAndKana = (text: string) =>
+  text
+    .normalize('NFKC')
+    .replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+
+// 本文と、正規表現でないワードはさらに大文字・小文字もそろえる
+export const normalizeMutedWordText = (text: string) => normalizeWidthAndKana(text).toLowerCase();
+
+const compilePattern = (word: Pick<MutedWord, 'pattern' | 'is_regex'>): RegExp | null => {
+  const pattern = word.pattern.trim();
+
+  if (!pattern) {
+    return null;
+  }
+
+  if (!word.is_regex) {
+    return new RegExp(normalizeMutedWordText(pattern).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'u');
+  }
+
+  // \W などの意味が変わらないよう、正規表現は小文字にせず i フラグで大文字・小文字を区別しない
+  try {
+    return new RegExp(normalizeWidthAndKana(pattern), 'iu');
+  } catch (error) {
+    return null;
+  }
+};
+
+export interface MutedWordMatcher {
+  rules: Array<{ regex: RegExp; scopes: string[] }>;
+}
+
+// 期限切れのワードと、壊れた正規表現は飛ばす
+export const compileMutedWords = (
+  words: MutedWord[],
+  now: Date = new Date()
+): MutedWordMatcher => ({
+  rules: words.flatMap(word => {
+    if (word.expires_at && new Date(word.expires_at) <= now) {
+      return [];
+    }
+
+    const regex = compilePattern(word);
+
+    if (!regex) {
+      console.error('ミュートワードの読み込みエラー:', word.id);
+      return [];
+    }
+
+    return [{ regex, scopes: word.scopes }];
+  }),
+});
+
+export const matchesMutedWords = (
+  matcher: MutedWordMatcher,
+  texts: Array<string | null | undefined>,
+  scope: MutedWordScope
+): boolean => {
+  const rules = matcher.rules.filter(rule => rule.scopes.includes(scope));
+
+  if (rules.length === 0) {
+    return false;
+  }
+
+  const normalized = texts.filter(Boolean).map(text => normalizeMutedWordText(text!));
+  return rules.some(rule => normalized.some(text => rule.regex.test(text)));
+};
+
+// 保存できないワードなら理由、保存できれば null
+export const validateMutedWord = (
+  pattern: string,
+  isRegex: boolean,
+  scopes: MutedWordScope[]
+): string | null => {
+  const trimmed = pattern.trim();
+
+  if (!trimmed) {
+    return 'ワードを入力してください';
+  }
+
+  if (trimmed.length > MUTED_WORD_MAX_LENGTH) {
+    return `ワードは${MUTED_WORD_MAX_LENGTH}文字以内で入力してください`;
+  }
+
+  if (scopes.length === 0) {
+    return 'ミュートする場所を1つ以上選んでください';
+  }
+
+  if (isRegex && !compilePattern({ pattern: trimmed, is_regex: true })) {
+    return '正規表現の書き方が正しくありません';
+  }
+
+  return null;
+};
+
+// 新しく追加した順。期限切れのワードは含めない
+export const fetchMutedWords = async (
+  userId: string,
+  now: Date = new Date()
+): Promise<Result<MutedWord[]>> => {
+  const result = await fromQuery(
+    supabase
+      .from('muted_words')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+  );
+
+  return mapResult(result, rows =>
+    rows.filter(word => !word.expires_at || new Date(word.expires_at) > now)
+  );
+};
+
+export const addMutedWord = async ({
+  userId,
+  pattern,
+  isRegex,
+  scopes,
+  expiresInDays,
+  now = new Date(),
+}: {
+  userId: string;
+  pattern: string;
+  isRegex: boolean;
+  scopes: MutedWordScope[];
+  // null なら無期限
+  expiresInDays: number | null;
+  now?: Date;
+}): Promise<Result<MutedWord>> => {
+  const invalidReason = validateMutedWord(pattern, isRegex, scopes);
+
+  if (invalidReason) {
+    return fail({ message: invalidReason });
+  }
+
+  const expiresAt = expiresInDays === null
+    ? null
+    : new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('muted_words')
+    .insert({
+      user_id: userId,
+      pattern: pattern.trim(),
+      is_regex: isRegex,
+      scopes,
+      expires_at: expiresAt,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return fail(error);
+  }
+
+  mutedWordEvents.emit({ type: 'added', word: data });
+  return ok(data);
+};
+
+export const removeMutedWord = async (id: string): Promise<Result<null>> => {
+  const result = await fromQuery(
+    supabase
+      .from('muted_words')
+      .delete()
+      .eq('id', id)
+  );
+
+  if (!result.error) {
+    mutedWordEvents.emit({ type: 'removed', id });
+  }
+
+  return result;
+};
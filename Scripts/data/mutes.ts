@@ -0,0 +1,63 @@
+import { supabase } from '../supabaseClient';
+import { RelatedUser } from './blocks';
+import { Result, fromQuery, mapResult, ok } from './result';
+import { emitUserRelationEvent } from './userRelationEvents';
+
+// ミュートは相手に知らされず、フォロー関係も変えない。表示だけを自分の画面から消す
+
+export const fetchMutedIds = async (userId: string): Promise<Result<string[]>> => {
+  const result = await fromQuery(
+    supabase
+      .from('mutes')
+      .select('muted_id')
+      .eq('muter_id', userId)
+  );
+
+  return mapResult(result, rows => rows.map(mute => mute.muted_id));
+};
+
+// 新しくミュートした順
+export const fetchMutedUsers = async (userId: string): Promise<Result<RelatedUser[]>> => {
+  const result = await fromQuery(
+    supabase
+      .from('mutes')
+      .select('muted:profiles!muted_id (id, name, avatar_url, complex_level)')
+      .eq('muter_id', userId)
+      .order('created_at', { ascending: false })
+  );
+
+  return mapResult(result, rows =>
+    rows.flatMap(row => (row.muted ? [row.muted] : []))
+  );
+};
+
+export const muteUser = async (muterId: string, mutedId: string): Promise<Result<null>> => {
+  const result = await fromQuery(
+    supabase
+      .from('mutes')
+      .insert({ muter_id: muterId, muted_id: mutedId })
+  );
+
+  if (!result.error) {
+    emitUserRelationEvent({ type: 'muted', userId: mutedId });
+  }
+
+  return result;
+};
+
+export const unmuteUser = async (muterId: string, mutedId: string): Promise<Result<null>> => {
+  const result = await fromQuery(
+    supabase
+      .from('mutes')
+      .delete()
+      .eq('muter_id', muterId)
+      .eq('muted_id', mutedId)
+  );
+
+  if (result.error) {
+    return result;
+  }
+
+  emitUserRelationEvent({ type: 'unmuted', userId: mutedId });
+  return ok(null);
+};
@@ -0,0 +1,115 @@
+import { supabase } from '../supabaseClient';
+import { fetchBlockRelationIds } from './blocks';
+import { Tables, Views } from './database';
+import { fetchMutedIds } from './mutes';
+import { Result, fail, fromQuery, ok } from './result';
+
+export type Notification = Tables<'notifications'>;
+
+type NotificationFeedRow = Views<'notification_feed'>;
+
+// 匿名投稿の投稿者からの通知(自分の投稿へのリプライなど)は、notification_feed ビューが
+// 相手の user_id を隠し、名前と本文の実名を仮名にしてある
+export interface NotificationWithProfile
+  extends Omit<NotificationFeedRow, 'related_user_name' | 'related_user_avatar_url'> {
+  profiles: {
+    name: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+const toNotificationWithProfile = ({
+  related_user_name,
+  related_user_avatar_url,
+  ...notification
+}: NotificationFeedRow): NotificationWithProfile => ({
+  ...notification,
+  profiles: related_user_name !== null || related_user_avatar_url !== null
+    ? { name: related_user_name, avatar_url: related_user_avatar_url }
+    : null,
+});
+
+// ブロックした・された相手と、ミュートした相手が関わる通知は出さず、未読にも数えない
+const fetchHiddenUserIds = async (userId: string): Promise<Result<Set<string>>> => {
+  const [blocked, muted] = await Promise.all([fetchBlockRelationIds(userId), fetchMutedIds(userId)]);
+
+  if (blocked.error) {
+    return blocked;
+  }
+
+  if (muted.error) {
+    return muted;
+  }
+
+  return ok(new Set([...blocked.data, ...muted.data]));
+};
+
+const isFromHiddenUser = (hiddenIds: Set<string>) => (notification: Pick<Notification, 'related_user_id'>) =>
+  !!notification.related_user_id && hiddenIds.has(notification.related_user_id);
+
+export const fetchNotifications = async (userId: string): Promise<Result<NotificationWithProfile[]>> => {
+  try {
+    const { data: hiddenIds, error: hiddenError } = await fetchHiddenUserIds(userId);
+
+    if (hiddenError) {
+      return { data: null, error: hiddenError };
+    }
+
+    const { data, error } = await supabase
+      .from('notification_feed')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return fail(error);
+    }
+
+    const fromHiddenUser = isFromHiddenUser(hiddenIds);
+    return ok((data || []).filter(row => !fromHiddenUser(row)).map(toNotificationWithProfile));
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+export const countUnreadNotifications = async (userId: string): Promise<Result<number>> => {
+  try {
+    const { data: hiddenIds, error: hiddenError } = await fetchHiddenUserIds(userId);
+
+    if (hiddenError) {
+      return { data: null, error: hiddenError };
+    }
+
+    const { data, error } = await supabase
+      .from('notification_feed')
+      .select('related_user_id')
+      .eq('user_id', userId)
+      .eq('is_read', false);
+
+    if (error) {
+      return fail(error);
+    }
+
+    const fromHiddenUser = isFromHiddenUser(hiddenIds);
+    return ok((data || []).filter(row => !fromHiddenUser(row)).length);
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+export const markNotificationRead = (notificationId: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('id', notificationId)
+  );
+
+export const markAllNotificationsRead = (userId: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('user_id', userId)
+      .eq('is_read', false)
+  );
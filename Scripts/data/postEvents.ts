@@ -0,0 +1,29 @@
+// Scripts/data/postEvents.ts
+// 投稿の編集・削除を、それぞれの一覧を持つ画面に知らせる
+
+import { createEventBus } from './eventBus';
+import { Post } from './posts';
+
+export type PostEvent =
+  | { type: 'edited'; post: Post }
+  | { type: 'deleted'; postId: string };
+
+const postEvents = createEventBus<PostEvent>();
+
+// 解除用の関数を返す
+export const subscribePostEvents = postEvents.subscribe;
+
+export const emitPostEvent = postEvents.emit;
+
+// 読み込み済みの一覧に編集・削除を反映する
+export const applyPostEvent = <T extends Pick<Post, 'id' | 'content' | 'edited_at'>>(posts: T[], event: PostEvent): T[] => {
+  if (event.type === 'deleted') {
+    return posts.filter(post => post.id !== event.postId);
+  }
+
+  return posts.map(post =>
+    post.id === event.post.id
+      ? { ...post, content: event.post.content, edited_at: event.post.edited_at }
+      : post
+  );
+};
@@ -0,0 +1,126 @@
+import { supabase } from '../supabaseClient';
+import { Tables } from './database';
+import { StrippableImageType, stripImageMetadata } from './imageMetadata';
+import { ImageAsset } from './profiles';
+import { Result, fail, ok } from './result';
+
+export type PostMedia = Tables<'post_media'>;
+
+// 投稿カードに埋め込んで表示する項目
+export type PostMediaSummary = Pick<PostMedia, 'url' | 'width' | 'height' | 'position'>;
+
+export const POST_MEDIA_BUCKET = 'post-media';
+export const MAX_POST_IMAGES = 4;
+// 画像選択時に react-native-image-picker で縮小・再圧縮する設定
+export const POST_IMAGE_MAX_SIZE = 1600;
+export const POST_IMAGE_QUALITY = 0.8;
+
+export interface MediaAsset extends ImageAsset {
+  width?: number;
+  height?: number;
+}
+
+// メタデータを取り除いた、アップロードできる状態の画像
+export interface PreparedImage {
+  // 投稿前のプレビュー用
+  uri: string;
+  bytes: Uint8Array;
+  contentType: StrippableImageType;
+  width: number | null;
+  height: number | null;
+}
+
+const EXTENSIONS: Record<StrippableImageType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+};
+
+// 端末上の画像を読み込み、位置情報などのメタデータを取り除く
+export const prepareImage = async (asset: MediaAsset): Promise<Result<PreparedImage>> => {
+  if (!asset.uri) {
+    return fail({ message: '画像が選択されていません' });
+  }
+
+  try {
+    const response = await fetch(asset.uri);
+    const stripped = stripImageMetadata(new Uint8Array(await response.arrayBuffer()));
+
+    if (!stripped) {
+      return fail({ message: 'JPEG または PNG の画像を選択してください' });
+    }
+
+    return ok({
+      ...stripped,
+      uri: asset.uri,
+      width: asset.width ?? null,
+      height: asset.height ?? null,
+    });
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+export const removePostMediaFiles = async (paths: string[]): Promise<Result<null>> => {
+  if (paths.length === 0) {
+    return ok(null);
+  }
+
+  try {
+    const { error } = await supabase.storage.from(POST_MEDIA_BUCKET).remove(paths);
+    return error ? fail(error) : ok(null);
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+// 画像をアップロードして投稿に紐づける。途中で失敗したらアップロード済みの画像も消す。
+// 画像の URL は誰にでも見えるので、匿名投稿でも投稿者が分からないよう投稿 ID の下に置く
+export const attachPostMedia = async (
+  postId: string,
+  images: PreparedImage[]
+): Promise<Result<PostMedia[]>> => {
+  if (images.length > MAX_POST_IMAGES) {
+    return fail({ message: `画像は${MAX_POST_IMAGES}枚までです` });
+  }
+
+  const bucket = supabase.storage.from(POST_MEDIA_BUCKET);
+  const paths = images.map(
+    (image, index) => `${postId}/${index}.${EXTENSIONS[image.contentType]}`
+  );
+
+  try {
+    const uploads = await Promise.all(
+      images.map((image, index) =>
+        bucket.upload(paths[index], image.bytes, { contentType: image.contentType })
+      )
+    );
+    const uploadError = uploads.find(upload => upload.error)?.error;
+
+    if (uploadError) {
+      await removePostMediaFiles(paths.filter((_, index) => !uploads[index].error));
+      return fail(uploadError);
+    }
+
+    const { data, error } = await supabase
+      .from('post_media')
+      .insert(images.map((image, index) => ({
+        post_id: postId,
+        storage_path: paths[index],
+        url: bucket.getPublicUrl(paths[index]).data.publicUrl,
+        width: image.width,
+        height: image.height,
+        position: index,
+      })))
+      .select();
+
+    if (error || !data) {
+      await removePostMediaFiles(paths);
+      return fail(error || { message: '画像の保存に失敗しました' });
+    }
+
+    return ok(data);
+  } catch (error) {
+    await removePostMediaFiles(paths);
+    return fail(error);
+  }
+};
@@ -0,0 +1,522 @@
+import { supabase } from '../supabaseClient';
+import { createAnonymousName } from '../constants/anonymous';
+import {
+  REACTIONS,
+  ReactionCounts,
+  ReactionType,
+  emptyReactionCounts,
+  isReactionType,
+} from '../constants/reactions';
+import { Tables, Views } from './database';
+import { emitPostEvent } from './postEvents';
+import { PostMediaSummary, PreparedImage, attachPostMedia, removePostMediaFiles } from './postMedia';
+import { ProfileSummary } from './profiles';
+import { Result, fail, fromQuery, ok } from './result';
+import { ensureNotSuspended } from './suspensions';
+
+export type Post = Tables<'posts'>;
+export type PostEdit = Tables<'post_edits'>;
+
+type FeedPostView = Views<'feed_posts'>;
+
+// 匿名投稿では user_id が投稿者本人にしか返らない
+export interface FeedPost
+  extends Omit<FeedPostView, 'author_name' | 'author_avatar_url' | 'author_complex_level'> {
+  // 匿名投稿ではビューが仮名と汎用アバターにしてある
+  profiles: ProfileSummary | null;
+  post_complexes: Array<{ category: string }>;
+  // position 順
+  post_media: PostMediaSummary[];
+  // likes_count はすべての種類のリアクションの合計
+  likes_count: number;
+  reaction_counts: ReactionCounts;
+  shares_count: number;
+  replies_count: number;
+  is_liked: boolean;
+  viewer_reaction: ReactionType | null;
+  is_shared: boolean;
+  is_bookmarked: boolean;
+}
+
+// トレンドの集計用。件数とカテゴリだけで、投稿者・本文・画像・閲覧者の状態は持たない
+export type PostEngagement = Pick<
+  FeedPost,
+  'id' | 'created_at' | 'post_complexes' | 'reaction_counts' | 'shares_count' | 'replies_count'
+>;
+
+export interface FeedCursor {
+  id: string;
+  created_at: string;
+}
+
+export interface FetchFeedPostsOptions {
+  viewerId?: string | null;
+  since?: string;
+  postIds?: string[];
+  userIds?: string[];
+  // いずれかのコンプレックスカテゴリが付いた投稿だけを返す
+  categories?: string[];
+  // before: カーソルより古い投稿 / after: カーソルより新しい投稿
+  before?: FeedCursor | null;
+  after?: FeedCursor | null;
+  limit?: number;
+}
+
+// 種類ごとのリアクション数。種類で絞った埋め込み集計で取得する
+const REACTION_COUNTS_SELECT = REACTIONS.map(reaction => `,
+  ${reaction.key}_reactions:likes (count)`).join('');
+
+// 件数は埋め込み集計で、閲覧者のリアクションは user_id で絞った埋め込みで取得する。
+// 投稿者は feed_posts ビューの author_* 列で受け取り、匿名投稿の投稿者のプロフィールは返させない
+// replies は本人とモデレーターしか直接読めないので、リプライ数は thread_replies ビューから数える
+const FEED_POST_SELECT = `
+  *,
+  post_complexes (
+    category
+  ),
+  post_media (
+    url,
+    width,
+    height,
+    position
+  ),
+  likes (count),
+  shares (count),
+  replies:thread_replies (count)
+` + REACTION_COUNTS_SELECT;
+
+const VIEWER_FLAGS_SELECT = `,
+  viewer_likes:likes (user_id, reaction_type),
+  viewer_shares:shares (user_id),
+  viewer_bookmarks:bookmarks (user_id)
+`;
+
+// トレンドの集計用。件数とカテゴリだけを取得する
+const ENGAGEMENT_SELECT = `
+  id,
+  created_at,
+  post_complexes (
+    category
+  ),
+  shares (count),
+  replies:thread_replies (count)
+` + REACTION_COUNTS_SELECT;
+
+// カテゴリの絞り込み用。表示用の post_complexes は全カテゴリのまま残す
+const CATEGORY_FILTER_SELECT = `,
+  category_filter:post_complexes!inner (category)
+`;
+
+type CountEmbed = Array<{ count: number }>;
+
+// REACTION_COUNTS_SELECT の別名ごとの件数
+type ReactionCountsRow = { [K in `${ReactionType}_reactions`]?: CountEmbed };
+
+type EngagementRow = Pick<FeedPostView, 'id' | 'created_at'> & ReactionCountsRow & {
+  post_complexes: Array<Pick<Tables<'post_complexes'>, 'category'>> | null;
+  shares: CountEmbed | null;
+  replies: CountEmbed | null;
+};
+
+// FEED_POST_SELECT に VIEWER_FLAGS_SELECT・CATEGORY_FILTER_SELECT を足して取得した行
+type FeedPostRow = FeedPostView & EngagementRow & {
+  post_media: PostMediaSummary[] | null;
+  likes: CountEmbed | null;
+  viewer_likes?: Array<Pick<Tables<'likes'>, 'user_id' | 'reaction_type'>>;
+  viewer_shares?: Array<Pick<Tables<'shares'>, 'user_id'>>;
+  viewer_bookmarks?: Array<Pick<Tables<'bookmarks'>, 'user_id'>>;
+  category_filter?: Array<Pick<Tables<'post_complexes'>, 'category'>>;
+};
+
+const toReactionCounts = (row: ReactionCountsRow): ReactionCounts => {
+  const reactionCounts = emptyReactionCounts();
+  REACTIONS.forEach(reaction => {
+    reactionCounts[reaction.key] = row[`${reaction.key}_reactions`]?.[0]?.count || 0;
+  });
+  return reactionCounts;
+};
+
+const toFeedPost = (row: FeedPostRow): FeedPost => {
+  const {
+    author_name,
+    author_avatar_url,
+    author_complex_level,
+    category_filter,
+    likes,
+    shares,
+    replies,
+    viewer_likes,
+    viewer_shares,
+    viewer_bookmarks,
+    ...rest
+  } = row;
+
+  const post = { ...rest };
+  REACTIONS.forEach(reaction => {
+    delete post[`${reaction.key}_reactions`];
+  });
+
+  const viewerReaction = viewer_likes?.[0]?.reaction_type;
+
+  return {
+    ...post,
+    profiles: {
+      name: author_name,
+      avatar_url: author_avatar_url,
+      complex_level: author_complex_level,
+    },
+    post_complexes: post.post_complexes || [],
+    post_media: [...(post.post_media || [])].sort((a, b) => a.position - b.position),
+    likes_count: likes?.[0]?.count || 0,
+    reaction_counts: toReactionCounts(rest),
+    shares_count: shares?.[0]?.count || 0,
+    replies_count: replies?.[0]?.count || 0,
+    is_liked: (viewer_likes || []).length > 0,
+    viewer_reaction: viewerReaction && isReactionType(viewerReaction) ? viewerReaction : null,
+    is_shared: (viewer_shares || []).length > 0,
+    is_bookmarked: (viewer_bookmarks || []).length > 0,
+  };
+};
+
+// 投稿と各種件数・閲覧者のいいね/共有/ブックマーク状態を1回のリクエストで取得する
+export const fetchFeedPosts = async (
+  options: FetchFeedPostsOptions = {}
+): Promise<Result<FeedPost[]>> => {
+  const { viewerId, since, postIds, userIds, categories, before, after, limit } = options;
+
+  if (
+    (postIds && postIds.length === 0) ||
+    (userIds && userIds.length === 0) ||
+    (categories && categories.length === 0)
+  ) {
+    return ok([]);
+  }
+
+  let query = supabase
+    .from('feed_posts')
+    .select(
+      FEED_POST_SELECT +
+      (viewerId ? VIEWER_FLAGS_SELECT : '') +
+      (categories ? CATEGORY_FILTER_SELECT : '')
+    );
+
+  // 種類ごとの件数は種類で絞った埋め込み集計で取得する
+  REACTIONS.forEach(reaction => {
+    query = query.eq(`${reaction.key}_reactions.reaction_type`, reaction.key);
+  });
+
+  if (viewerId) {
+    query = query
+      .eq('viewer_likes.user_id', viewerId)
+      .eq('viewer_shares.user_id', viewerId)
+      .eq('viewer_bookmarks.user_id', viewerId);
+  }
+
+  if (categories) {
+    query = query.in('category_filter.category', categories);
+  }
+
+  // モデレーターが非表示にした投稿は誰にも見せない
+  query = query.is('hidden_at', null);
+
+  if (since) {
+    query = query.gte('created_at', since);
+  }
+
+  if (postIds) {
+    query = query.in('id', postIds);
+  }
+
+  // 他人の匿名投稿はビューで user_id が null になるので、ユーザーで絞った一覧には自分の匿名投稿しか混ざらない
+  if (userIds) {
+    query = query.in('user_id', userIds);
+  }
+
+  // created_at が同じ投稿は id で順序を決める
+  if (before) {
+    query = query.or(
+      `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+    );
+  }
+
+  if (after) {
+    query = query.or(
+      `created_at.gt."${after.created_at}",and(created_at.eq."${after.created_at}",id.gt.${after.id})`
+    );
+  }
+
+  let orderedQuery = query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (limit) {
+    orderedQuery = orderedQuery.limit(limit);
+  }
+
+  try {
+    // 選択する列を組み立てているため、行の型は FeedPostRow で指定する
+    const { data, error } = await orderedQuery.overrideTypes<FeedPostRow[], { merge: false }>();
+
+    if (error) {
+      return fail(error);
+    }
+
+    return ok((data || []).map(toFeedPost));
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+// 期間内の投稿の件数だけを新しい順に最大 limit 件取得する
+export const fetchPostEngagement = async (options: {
+  since: string;
+  // この日時より前の投稿だけを返す
+  until?: string;
+  // いずれかのコンプレックスカテゴリが付いた投稿だけを返す
+  categories?: string[];
+  limit: number;
+}): Promise<Result<PostEngagement[]>> => {
+  const { since, until, categories, limit } = options;
+
+  if (categories && categories.length === 0) {
+    return ok([]);
+  }
+
+  let query = supabase
+    .from('feed_posts')
+    .select(ENGAGEMENT_SELECT + (categories ? CATEGORY_FILTER_SELECT : ''));
+
+  REACTIONS.forEach(reaction => {
+    query = query.eq(`${reaction.key}_reactions.reaction_type`, reaction.key);
+  });
+
+  if (categories) {
+    query = query.in('category_filter.category', categories);
+  }
+
+  if (until) {
+    query = query.lt('created_at', until);
+  }
+
+  try {
+    const { data, error } = await query
+      .is('hidden_at', null)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit)
+      .overrideTypes<EngagementRow[], { merge: false }>();
+
+    if (error) {
+      return fail(error);
+    }
+
+    return ok((data || []).map(row => ({
+      id: row.id,
+      created_at: row.created_at,
+      post_complexes: row.post_complexes || [],
+      reaction_counts: toReactionCounts(row),
+      shares_count: row.shares?.[0]?.count || 0,
+      replies_count: row.replies?.[0]?.count || 0,
+    })));
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+export const fetchFeedPost = async (
+  postId: string,
+  viewerId?: string | null
+): Promise<Result<FeedPost>> => {
+  const { data, error } = await fetchFeedPosts({ viewerId, postIds: [postId] });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  if (data.length === 0) {
+    return fail({ message: '投稿が見つかりません', code: 'PGRST116' });
+  }
+
+  return ok(data[0]);
+};
+
+// 投稿とコンプレックスカテゴリ・画像を保存する。カテゴリの保存に失敗しても投稿は残すが、
+// 画像を保存できなかった場合は画像の欠けた投稿が残らないよう投稿ごと取り消す
+export const createPost = async (post: {
+  userId: string;
+  content: string;
+  categories: string[];
+  images?: PreparedImage[];
+  // 仮名で表示する。user_id は保存する
+  anonymous?: boolean;
+  contentWarning?: string | null;
+}): Promise<Result<Post>> => {
+  try {
+    const { error: suspendedError } = await ensureNotSuspended(post.userId);
+
+    if (suspendedError) {
+      return { data: null, error: suspendedError };
+    }
+
+    const { data: postData, error: postError } = await supabase
+      .from('posts')
+      .insert({
+        content: post.content,
+        user_id: post.userId,
+        is_anonymous: !!post.anonymous,
+        anonymous_name: post.anonymous ? createAnonymousName() : null,
+        content_warning: post.contentWarning?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (postError || !postData) {
+      return fail(postError || { message: '投稿に失敗しました' });
+    }
+
+    if (post.categories.length > 0) {
+      const { error: complexError } = await supabase
+        .from('post_complexes')
+        .insert(post.categories.map(category => ({
+          post_id: postData.id,
+          category,
+        })));
+
+      if (complexError) {
+        console.error('コンプレックス保存エラー:', complexError);
+      }
+    }
+
+    if (post.images && post.images.length > 0) {
+      const { error: mediaError } = await attachPostMedia(postData.id, post.images);
+
+      if (mediaError) {
+        await supabase.from('posts').delete().eq('id', postData.id);
+        return fail(mediaError);
+      }
+    }
+
+    return ok(postData);
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+// 編集前の本文を履歴に残してから本文を更新する
+export const editPost = async (edit: {
+  postId: string;
+  userId: string;
+  content: string;
+}): Promise<Result<Post>> => {
+  try {
+    const { error: suspendedError } = await ensureNotSuspended(edit.userId);
+
+    if (suspendedError) {
+      return { data: null, error: suspendedError };
+    }
+
+    const { data: current, error: currentError } = await supabase
+      .from('posts')
+      .select('content')
+      .eq('id', edit.postId)
+      .eq('user_id', edit.userId)
+      .single();
+
+    if (currentError || !current) {
+      return fail(currentError || { message: '投稿が見つかりません' });
+    }
+
+    const { error: historyError } = await supabase
+      .from('post_edits')
+      .insert({ post_id: edit.postId, content: current.content });
+
+    if (historyError) {
+      return fail(historyError);
+    }
+
+    const { data, error } = await supabase
+      .from('posts')
+      .update({ content: edit.content, edited_at: new Date().toISOString() })
+      .eq('id', edit.postId)
+      .eq('user_id', edit.userId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      return fail(error || { message: '投稿の編集に失敗しました' });
+    }
+
+    emitPostEvent({ type: 'edited', post: data });
+    return ok(data);
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+// いいね・共有・ブックマーク・リプライ・編集履歴・画像・通知の行は、外部キーの ON DELETE CASCADE で一緒に削除される
+// (supabase/migrations/20261019000100_cascade_post_children.sql)。ストレージの画像ファイルは行の削除後に消す
+export const deletePost = async (postId: string, userId: string): Promise<Result<null>> => {
+  try {
+    const { data: media } = await supabase
+      .from('post_media')
+      .select('storage_path')
+      .eq('post_id', postId);
+
+    const { data, error } = await supabase
+      .from('posts')
+      .delete()
+      .eq('id', postId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      return fail(error);
+    }
+
+    // 他人の投稿や削除済みの投稿は RLS でエラーにならず0件になる
+    if (!data || data.length === 0) {
+      return fail({ message: '投稿が見つかりません', code: 'PGRST116' });
+    }
+
+    const { error: storageError } = await removePostMediaFiles(
+      (media || []).map(item => item.storage_path)
+    );
+
+    if (storageError) {
+      console.error('画像削除エラー:', storageError);
+    }
+
+    emitPostEvent({ type: 'deleted', postId });
+    return ok(null);
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+// 新しい順に返す
+export const fetchPostEdits = (postId: string): Promise<Result<PostEdit[]>> =>
+  fromQuery(
+    supabase
+      .from('post_edits')
+      .select('*')
+      .eq('post_id', postId)
+      .order('created_at', { ascending: false })
+  );
+
+// 取得した投稿のフラグで閲覧者のリアクション集合を更新する
+export const mergeViewerFlags = (
+  current: Set<string>,
+  posts: FeedPost[],
+  flag: 'is_liked' | 'is_shared' | 'is_bookmarked'
+): Set<string> => {
+  const next = new Set(current);
+  posts.forEach(post => {
+    if (post[flag]) {
+      next.add(post.id);
+    } else {
+      next.delete(post.id);
+    }
+  });
+  return next;
+};
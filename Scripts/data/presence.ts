@@ -0,0 +1,124 @@
+import { supabase } from '../supabaseClient';
+import { TYPING_THROTTLE_MS } from '../constants/presence';
+import { createEventBus } from './eventBus';
+import { Result, fail, fromQuery, ok } from './result';
+
+const visibilityChanges = createEventBus<boolean>();
+
+// 最終オンラインを記録する。見せない設定の人は記録しない
+export const touchLastSeen = (userId: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('profiles')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('id', userId)
+      .eq('show_presence', true)
+  );
+
+// 見せる・見せないの切り替えを、オンライン状態を表示している画面に知らせる
+export const subscribePresenceVisibility = visibilityChanges.subscribe;
+
+export const fetchPresenceVisibility = async (userId: string): Promise<Result<boolean>> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('show_presence')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return error ? fail(error) : ok(data?.show_presence ?? true);
+};
+
+// 見せない設定にしたときは、記録済みの最終オンラインも消す
+export const setPresenceVisibility = async (
+  userId: string,
+  visible: boolean
+): Promise<Result<null>> => {
+  const result = await fromQuery(
+    supabase
+      .from('profiles')
+      .update({
+        show_presence: visible,
+        last_seen_at: visible ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId)
+  );
+
+  if (!result.error) {
+    visibilityChanges.emit(visible);
+  }
+
+  return result;
+};
+
+// 前回の呼び出しから intervalMs 経つまでの呼び出しは捨てる
+export const throttle = (fn: () => void, intervalMs: number, now: () => number = Date.now) => {
+  let lastCalledAt: number | null = null;
+
+  return () => {
+    const current = now();
+
+    if (lastCalledAt !== null && current - lastCalledAt < intervalMs) {
+      return;
+    }
+
+    lastCalledAt = current;
+    fn();
+  };
+};
+
+// 会話のチャンネルに参加し、その会話の相手とだけオンライン状態と入力中を送り合う。
+// チャンネルは private で、参加できるのは会話の二人だけ(realtime.messages の RLS)。
+// 自分の入力中は間隔を空けて送り、相手の分だけを受け取る
+export const joinConversationPresence = (
+  conversationId: string,
+  userId: string,
+  handlers: {
+    onOtherOnlineChange: (online: boolean) => void;
+    onTyping: (typingUserId: string) => void;
+  }
+) => {
+  const channel = supabase.channel(`conversation:${conversationId}`, {
+    config: { private: true, presence: { key: userId } },
+  });
+
+  const logLastSeenError = ({ error }: Result<null>) => {
+    if (error) {
+      console.error('最終オンライン更新エラー:', error);
+    }
+  };
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      handlers.onOtherOnlineChange(
+        Object.keys(channel.presenceState()).some(key => key !== userId)
+      );
+    })
+    .on('broadcast', { event: 'typing' }, message => {
+      const typingUserId = message.payload?.user_id;
+
+      if (typingUserId && typingUserId !== userId) {
+        handlers.onTyping(typingUserId);
+      }
+    })
+    .subscribe(status => {
+      if (status !== 'SUBSCRIBED') {
+        return;
+      }
+
+      channel.track({ online_at: new Date().toISOString() });
+      touchLastSeen(userId).then(logLastSeenError);
+    });
+
+  const notifyTyping = throttle(() => {
+    channel.send({ type: 'broadcast', event: 'typing', payload: { user_id: userId } });
+  }, TYPING_THROTTLE_MS);
+
+  return {
+    notifyTyping,
+    leave: () => {
+      channel.untrack().then(() => channel.unsubscribe());
+      touchLastSeen(userId).then(logLastSeenError);
+    },
+  };
+};
@@ -0,0 +1,106 @@
+import { supabase } from '../supabaseClient';
+import { Tables, TablesUpdate } from './database';
+import { Result, fail, fromQuery, ok } from './result';
+
+export type Profile = Tables<'profiles'>;
+
+// 投稿やリプライに埋め込んで表示する投稿者情報
+export interface ProfileSummary {
+  name: string | null;
+  avatar_url: string | null;
+  complex_level: number;
+}
+
+export interface ImageAsset {
+  uri?: string;
+  fileName?: string;
+  type?: string;
+}
+
+export const fetchProfile = (userId: string): Promise<Result<Profile>> =>
+  fromQuery(
+    supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .single()
+  );
+
+export const fetchProfileSummary = (
+  userId: string
+): Promise<Result<ProfileSummary & { id: string }>> =>
+  fromQuery(
+    supabase
+      .from('profiles')
+      .select('id, name, avatar_url, complex_level')
+      .eq('id', userId)
+      .single()
+  );
+
+// role と suspended_until はサーバー側でも本人が書き換えられないようにしてある
+export type ProfileChanges = Omit<
+  TablesUpdate<'profiles'>,
+  'id' | 'role' | 'suspended_until' | 'created_at' | 'updated_at'
+>;
+
+export const updateProfile = (
+  userId: string,
+  changes: ProfileChanges
+): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('profiles')
+      .update({
+        ...changes,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId)
+  );
+
+// アバター画像をアップロードし、公開URLをプロフィールに保存する
+export const uploadAvatar = async (
+  userId: string,
+  asset: ImageAsset
+): Promise<Result<string>> => {
+  if (!asset.uri) {
+    return fail({ message: '画像が選択されていません' });
+  }
+
+  try {
+    const fileExt = asset.fileName?.split('.').pop() || 'jpg';
+    const filePath = `${userId}/avatar.${fileExt}`;
+
+    // React Native の FormData はファイルを { uri, type, name } で受け取るが、型定義は Blob しか受け付けない
+    const formData = new FormData();
+    formData.append('file', {
+      uri: asset.uri,
+      type: asset.type || 'image/jpeg',
+      name: `avatar.${fileExt}`,
+    } as unknown as Blob);
+
+    const { error: uploadError } = await supabase.storage
+      .from('avatars')
+      .upload(filePath, formData, {
+        upsert: true,
+        contentType: asset.type || 'image/jpeg',
+      });
+
+    if (uploadError) {
+      return fail(uploadError);
+    }
+
+    const { data: { publicUrl } } = supabase.storage
+      .from('avatars')
+      .getPublicUrl(filePath);
+
+    const { error: updateError } = await updateProfile(userId, { avatar_url: publicUrl });
+
+    if (updateError) {
+      return { data: null, error: updateError };
+    }
+
+    return ok(publicUrl);
+  } catch (error) {
+    return fail(error);
+  }
+};
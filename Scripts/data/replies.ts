@@ -0,0 +1,311 @@
+import { supabase } from '../supabaseClient';
+import { Tables, Views } from './database';
+import { FeedCursor } from './posts';
+import { ProfileSummary } from './profiles';
+import { Result, fail, fromQuery, ok } from './result';
+import { ensureNotSuspended } from './suspensions';
+
+export type Reply = Tables<'replies'>;
+export type ReplyEdit = Tables<'reply_edits'>;
+
+type ThreadReplyView = Views<'thread_replies'>;
+
+// 匿名投稿の投稿者が付けたリプライは user_id が本人にしか返らない
+export interface ReplyWithProfile
+  extends Omit<ThreadReplyView, 'author_name' | 'author_avatar_url' | 'author_complex_level'> {
+  profiles: ProfileSummary | null;
+}
+
+export interface ThreadReply extends ReplyWithProfile {
+  likes_count: number;
+  is_liked: boolean;
+}
+
+export interface ReplyThreadItem<T extends ThreadReply = ThreadReply> {
+  reply: T;
+  // 0 が投稿への直接のリプライ
+  depth: number;
+}
+
+export interface FetchRepliesOptions {
+  viewerId?: string | null;
+  // カーソルより新しいリプライを返す
+  after?: FeedCursor | null;
+  limit?: number;
+}
+
+// 匿名投稿の投稿者が自分の投稿に付けたリプライは、thread_replies ビューが投稿と同じ仮名にしてある
+const REPLY_SELECT = `
+  *,
+  reply_likes (count)
+`;
+
+const VIEWER_LIKES_SELECT = `,
+  viewer_likes:reply_likes (user_id)
+`;
+
+// REPLY_SELECT に VIEWER_LIKES_SELECT を足して取得した行
+type ThreadReplyRow = ThreadReplyView & {
+  reply_likes: Array<{ count: number }> | null;
+  viewer_likes?: Array<Pick<Tables<'reply_likes'>, 'user_id'>>;
+};
+
+const toThreadReply = (row: ThreadReplyRow): ThreadReply => {
+  const { reply_likes, viewer_likes, author_name, author_avatar_url, author_complex_level, ...reply } =
+    row;
+
+  return {
+    ...reply,
+    profiles: {
+      name: author_name,
+      avatar_url: author_avatar_url,
+      complex_level: author_complex_level,
+    },
+    likes_count: reply_likes?.[0]?.count || 0,
+    is_liked: (viewer_likes || []).length > 0,
+  };
+};
+
+// 古い順に返す。返信先は必ず先に作成されるため、古い順にページを読めば返信先が先に揃う
+export const fetchReplies = async (
+  postId: string,
+  options: FetchRepliesOptions = {}
+): Promise<Result<ThreadReply[]>> => {
+  const { viewerId, after, limit } = options;
+
+  let query = supabase
+    .from('thread_replies')
+    .select(REPLY_SELECT + (viewerId ? VIEWER_LIKES_SELECT : ''))
+    .eq('post_id', postId);
+
+  if (viewerId) {
+    query = query.eq('viewer_likes.user_id', viewerId);
+  }
+
+  // created_at が同じリプライは id で順序を決める
+  if (after) {
+    query = query.or(
+      `created_at.gt."${after.created_at}",and(created_at.eq."${after.created_at}",id.gt.${after.id})`
+    );
+  }
+
+  let orderedQuery = query
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (limit) {
+    orderedQuery = orderedQuery.limit(limit);
+  }
+
+  try {
+    // 選択する列を組み立てているため、行の型は ThreadReplyRow で指定する
+    const { data, error } = await orderedQuery.overrideTypes<ThreadReplyRow[], { merge: false }>();
+
+    if (error) {
+      return fail(error);
+    }
+
+    return ok((data || []).map(toThreadReply));
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+// 作成したリプライを表示用の形で返す。表示用の形はビューから読み直す
+export const createReply = async (reply: {
+  postId: string;
+  userId: string;
+  content: string;
+  parentReplyId?: string | null;
+}): Promise<Result<ThreadReply>> => {
+  try {
+    const { error: suspendedError } = await ensureNotSuspended(reply.userId);
+
+    if (suspendedError) {
+      return { data: null, error: suspendedError };
+    }
+
+    const { data, error } = await supabase
+      .from('replies')
+      .insert({
+        post_id: reply.postId,
+        user_id: reply.userId,
+        content: reply.content,
+        parent_reply_id: reply.parentReplyId || null,
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      return fail(error || { message: 'リプライに失敗しました' });
+    }
+
+    const { data: created, error: createdError } = await supabase
+      .from('thread_replies')
+      .select(REPLY_SELECT)
+      .eq('id', data.id)
+      .single();
+
+    if (createdError || !created) {
+      return fail(createdError || { message: 'リプライに失敗しました' });
+    }
+
+    return ok(toThreadReply(created));
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+export const likeReply = (replyId: string, userId: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('reply_likes')
+      .insert({ reply_id: replyId, user_id: userId })
+  );
+
+export const unlikeReply = (replyId: string, userId: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('reply_likes')
+      .delete()
+      .eq('reply_id', replyId)
+      .eq('user_id', userId)
+  );
+
+// 編集前の本文を履歴に残してから本文を更新する
+export const editReply = async (edit: {
+  replyId: string;
+  userId: string;
+  content: string;
+}): Promise<Result<Reply>> => {
+  try {
+    const { error: suspendedError } = await ensureNotSuspended(edit.userId);
+
+    if (suspendedError) {
+      return { data: null, error: suspendedError };
+    }
+
+    const { data: current, error: currentError } = await supabase
+      .from('replies')
+      .select('content')
+      .eq('id', edit.replyId)
+      .eq('user_id', edit.userId)
+      .is('deleted_at', null)
+      .single();
+
+    if (currentError || !current) {
+      return fail(currentError || { message: 'リプライが見つかりません' });
+    }
+
+    const { error: historyError } = await supabase
+      .from('reply_edits')
+      .insert({ reply_id: edit.replyId, content: current.content });
+
+    if (historyError) {
+      return fail(historyError);
+    }
+
+    const { data, error } = await supabase
+      .from('replies')
+      .update({ content: edit.content, edited_at: new Date().toISOString() })
+      .eq('id', edit.replyId)
+      .eq('user_id', edit.userId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      return fail(error || { message: 'リプライの編集に失敗しました' });
+    }
+
+    return ok(data);
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+// 返信が付いているリプライはスレッドを残すため本文を消して削除済みにし、それ以外は行ごと削除する
+export const deleteReply = async (
+  replyId: string,
+  userId: string
+): Promise<Result<{ tombstoned: boolean }>> => {
+  try {
+    // 他人のリプライは replies から読めないので、返信の数はビューで数える
+    const { count, error: countError } = await supabase
+      .from('thread_replies')
+      .select('*', { count: 'exact', head: true })
+      .eq('parent_reply_id', replyId);
+
+    if (countError) {
+      return fail(countError);
+    }
+
+    const tombstoned = (count || 0) > 0;
+    const { data, error } = tombstoned
+      ? await supabase
+          .from('replies')
+          .update({ content: '', deleted_at: new Date().toISOString() })
+          .eq('id', replyId)
+          .eq('user_id', userId)
+          .select('id')
+      : await supabase
+          .from('replies')
+          .delete()
+          .eq('id', replyId)
+          .eq('user_id', userId)
+          .select('id');
+
+    if (error) {
+      return fail(error);
+    }
+
+    if (!data || data.length === 0) {
+      return fail({ message: 'リプライが見つかりません', code: 'PGRST116' });
+    }
+
+    return ok({ tombstoned });
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+// 新しい順に返す
+export const fetchReplyEdits = (replyId: string): Promise<Result<ReplyEdit[]>> =>
+  fromQuery(
+    supabase
+      .from('reply_edits')
+      .select('*')
+      .eq('reply_id', replyId)
+      .order('created_at', { ascending: false })
+  );
+
+const compareOldest = (a: Pick<Reply, 'id' | 'created_at'>, b: Pick<Reply, 'id' | 'created_at'>) => {
+  if (a.created_at !== b.created_at) {
+    return a.created_at < b.created_at ? -1 : 1;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+// 返信先の下に返信を並べたスレッド順に変換する。返信先が読み込まれていないリプライはトップレベルに置く
+export const buildReplyThread = <T extends ThreadReply>(replies: T[]): Array<ReplyThreadItem<T>> => {
+  const ids = new Set(replies.map(reply => reply.id));
+  const children = new Map<string | null, T[]>();
+
+  [...replies].sort(compareOldest).forEach(reply => {
+    const parentId =
+      reply.parent_reply_id && reply.parent_reply_id !== reply.id && ids.has(reply.parent_reply_id)
+        ? reply.parent_reply_id
+        : null;
+    children.set(parentId, [...(children.get(parentId) || []), reply]);
+  });
+
+  const items: Array<ReplyThreadItem<T>> = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (children.get(parentId) || []).forEach(reply => {
+      items.push({ reply, depth });
+      visit(reply.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+
+  return items;
+};
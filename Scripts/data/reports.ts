@@ -0,0 +1,100 @@
+import { supabase } from '../supabaseClient';
+import { ReportReason } from '../constants/reportReasons';
+import { Tables } from './database';
+import { createEventBus } from './eventBus';
+import { Result, fail, fromQuery, isUniqueViolation, mapResult, ok, toDataError } from './result';
+
+export type Report = Tables<'reports'>;
+
+export type ReportTargetType = 'post' | 'reply' | 'user' | 'message';
+
+export interface ReportTarget {
+  type: ReportTargetType;
+  id: string;
+}
+
+const hiddenTargets = createEventBus<ReportTarget>();
+
+// 通報して非表示にした対象を、一覧を持つ画面に知らせる。解除用の関数を返す
+export const subscribeHiddenTargets = hiddenTargets.subscribe;
+
+export const reportTargetKey = (target: ReportTarget) => `${target.type}:${target.id}`;
+
+// 同じ対象を通報済みなら新しく登録せず alreadyReported を返す。非表示の指定だけは反映する
+export const submitReport = async (report: {
+  reporterId: string;
+  target: ReportTarget;
+  reason: ReportReason;
+  details?: string;
+  hide: boolean;
+}): Promise<Result<{ alreadyReported: boolean }>> => {
+  try {
+    const { error } = await supabase
+      .from('reports')
+      .insert({
+        reporter_id: report.reporterId,
+        target_type: report.target.type,
+        target_id: report.target.id,
+        reason: report.reason,
+        details: report.details?.trim() || null,
+        hidden: report.hide,
+      });
+
+    const alreadyReported = !!error && isUniqueViolation(toDataError(error));
+
+    if (error && !alreadyReported) {
+      return fail(error);
+    }
+
+    if (alreadyReported && report.hide) {
+      const { error: hideError } = await supabase
+        .from('reports')
+        .update({ hidden: true })
+        .eq('reporter_id', report.reporterId)
+        .eq('target_type', report.target.type)
+        .eq('target_id', report.target.id);
+
+      if (hideError) {
+        return fail(hideError);
+      }
+    }
+
+    if (report.hide) {
+      hiddenTargets.emit(report.target);
+    }
+
+    return ok({ alreadyReported });
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+// 通報して非表示にした対象のキー(reportTargetKey)
+export const fetchHiddenTargets = async (reporterId: string): Promise<Result<string[]>> => {
+  const result = await fromQuery(
+    supabase
+      .from('reports')
+      .select('target_type, target_id')
+      .eq('reporter_id', reporterId)
+      .eq('hidden', true)
+  );
+
+  return mapResult(result, rows =>
+    rows.map(row => reportTargetKey({ type: row.target_type as ReportTargetType, id: row.target_id }))
+  );
+};
+
+// 非表示にした投稿と、非表示にしたユーザーの投稿を除く。投稿者が隠れている匿名投稿はユーザーでは除けない
+export const filterHiddenPosts = <T extends { id: string; user_id: string | null }>(
+  posts: T[],
+  hiddenTargets: ReadonlySet<string>
+): T[] => {
+  if (hiddenTargets.size === 0) {
+    return posts;
+  }
+
+  return posts.filter(post =>
+    !hiddenTargets.has(reportTargetKey({ type: 'post', id: post.id })) &&
+    !(post.user_id && hiddenTargets.has(reportTargetKey({ type: 'user', id: post.user_id })))
+  );
+};
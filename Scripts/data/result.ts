@@ -0,0 +1,55 @@
+// Scripts/data/result.ts
+// データ層の関数はすべて Result を返し、例外を投げない
+
+export interface DataError {
+  message: string;
+  // Postgres/PostgREST のエラーコード(例: 23505 は一意制約違反)
+  code: string | null;
+  details: string | null;
+}
+
+export type Result<T> =
+  | { data: T; error: null }
+  | { data: null; error: DataError };
+
+export const ok = <T>(data: T): Result<T> => ({ data, error: null });
+
+export const fail = <T = never>(error: unknown): Result<T> => ({
+  data: null,
+  error: toDataError(error),
+});
+
+export const toDataError = (error: unknown): DataError => {
+  if (error && typeof error === 'object' && 'message' in error) {
+    const { message, code, details } = error as {
+      message: string;
+      code?: string;
+      details?: string;
+    };
+    return { message, code: code || null, details: details || null };
+  }
+
+  return { message: String(error), code: null, details: null };
+};
+
+export const isUniqueViolation = (error: DataError | null) => error?.code === '23505';
+
+// supabase のクエリ結果を Result に変換する
+export const fromQuery = async <T>(
+  query: PromiseLike<{ data: T | null; error: unknown }>
+): Promise<Result<T>> => {
+  try {
+    const { data, error } = await query;
+
+    if (error) {
+      return fail(error);
+    }
+
+    return ok(data as T);
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+export const mapResult = <T, U>(result: Result<T>, fn: (data: T) => U): Result<U> =>
+  result.error ? result : ok(fn(result.data));
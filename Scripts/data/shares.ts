@@ -0,0 +1,18 @@
+import { supabase } from '../supabaseClient';
+import { Result, fromQuery } from './result';
+
+export const sharePost = (postId: string, userId: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('shares')
+      .insert({ post_id: postId, user_id: userId })
+  );
+
+export const unsharePost = (postId: string, userId: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('shares')
+      .delete()
+      .eq('post_id', postId)
+      .eq('user_id', userId)
+  );
@@ -0,0 +1,46 @@
+import { supabase } from '../supabaseClient';
+import { Result, fail, ok } from './result';
+
+export const SUSPENDED_ERROR_CODE = 'suspended';
+
+// 一時停止中なら期限、停止していなければ null
+export const fetchSuspendedUntil = async (
+  userId: string,
+  now: Date = new Date()
+): Promise<Result<string | null>> => {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('suspended_until')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      return fail(error);
+    }
+
+    const suspendedUntil = data?.suspended_until || null;
+    return ok(suspendedUntil && new Date(suspendedUntil) > now ? suspendedUntil : null);
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+// 投稿・リプライ・DM の送信と編集の前に呼ぶ。一時停止中は code が SUSPENDED_ERROR_CODE のエラーを返す。
+// サーバー側でも RLS で止めてあり、こちらは理由を伝えるための確認
+export const ensureNotSuspended = async (userId: string): Promise<Result<null>> => {
+  const { data: suspendedUntil, error } = await fetchSuspendedUntil(userId);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  if (suspendedUntil) {
+    return fail({
+      message: `アカウントは${new Date(suspendedUntil).toLocaleString('ja-JP')}まで一時停止されています`,
+      code: SUSPENDED_ERROR_CODE,
+    });
+  }
+
+  return ok(null);
+};
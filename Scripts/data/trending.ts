@@ -0,0 +1,268 @@
+import { REACTIONS, ReactionType } from '../constants/reactions';
+import { FeedPost, PostEngagement, fetchFeedPosts, fetchPostEngagement } from './posts';
+import { Result, mapResult, ok } from './result';
+
+export type TimeRange = 'day' | 'week' | 'month';
+
+export const TIME_RANGE_DAYS: Record<TimeRange, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+};
+
+// リアクションは種類ごとに重みを付ける
+export type TrendingWeights = Record<ReactionType, number> & {
+  replies: number;
+  shares: number;
+};
+
+// 同じスコアの投稿の並べ方。recent: 新しい順 / engagement: 減衰前のエンゲージメント順
+export type TrendingTieBreaker = 'recent' | 'engagement';
+
+export interface TrendingOptions {
+  timeRange: TimeRange;
+  // 指定したコンプレックスカテゴリの投稿だけを対象にする
+  category?: string;
+  weights?: Partial<TrendingWeights>;
+  limit?: number;
+  // 経過時間による減衰の強さ。0 で減衰なし(エンゲージメントのみで並べる)
+  gravity?: number;
+  tieBreaker?: TrendingTieBreaker;
+  now?: Date;
+}
+
+export interface TrendingScores {
+  engagement_score: number;
+  trending_score: number;
+}
+
+export interface TrendingPost extends FeedPost, TrendingScores {}
+
+export const DEFAULT_TRENDING_WEIGHTS: TrendingWeights = {
+  like: 3,
+  relate: 4,
+  cheer: 4,
+  hug: 4,
+  replies: 2,
+  shares: 5,
+};
+
+export const DEFAULT_TRENDING_LIMIT = 20;
+export const DEFAULT_TRENDING_GRAVITY = 1.5;
+// 集計の対象にする投稿数の上限。期間内の投稿がこれより多ければ新しいものから数える。
+// カテゴリの集計では、期間内と直前の期間それぞれにこの上限を使う
+export const TRENDING_CANDIDATE_LIMIT = 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const getTimeRangeStart = (timeRange: TimeRange, now: Date = new Date()) => {
+  const start = new Date(now);
+  start.setDate(start.getDate() - TIME_RANGE_DAYS[timeRange]);
+  return start;
+};
+
+type EngagementCounts = Pick<PostEngagement, 'reaction_counts' | 'replies_count' | 'shares_count'>;
+type RankablePost = Pick<PostEngagement, 'id' | 'created_at'> & EngagementCounts;
+
+export const calculateEngagementScore = (
+  post: EngagementCounts,
+  weights: TrendingWeights = DEFAULT_TRENDING_WEIGHTS
+) =>
+  REACTIONS.reduce((score, reaction) =>
+    score + post.reaction_counts[reaction.key] * weights[reaction.key], 0) +
+  post.replies_count * weights.replies +
+  post.shares_count * weights.shares;
+
+// Hacker News 型の重力スコア: engagement / (経過時間 + 2)^gravity
+export const calculateTrendingScore = (
+  engagementScore: number,
+  createdAt: string,
+  now: Date = new Date(),
+  gravity: number = DEFAULT_TRENDING_GRAVITY
+) => {
+  const ageHours = Math.max(0, (now.getTime() - new Date(createdAt).getTime()) / HOUR_MS);
+  return engagementScore / Math.pow(ageHours + 2, gravity);
+};
+
+const compareRecent = (a: RankablePost, b: RankablePost) => {
+  if (a.created_at !== b.created_at) {
+    return a.created_at < b.created_at ? 1 : -1;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+};
+
+// 取得済みの投稿にスコアを付けて上位を返す
+export const rankTrendingPosts = <T extends RankablePost>(
+  posts: T[],
+  options: Omit<TrendingOptions, 'timeRange'> = {}
+): Array<T & TrendingScores> => {
+  const {
+    limit = DEFAULT_TRENDING_LIMIT,
+    gravity = DEFAULT_TRENDING_GRAVITY,
+    tieBreaker = 'recent',
+    now = new Date(),
+  } = options;
+  const weights = { ...DEFAULT_TRENDING_WEIGHTS, ...options.weights };
+
+  return posts
+    .map(post => {
+      const engagementScore = calculateEngagementScore(post, weights);
+      return {
+        ...post,
+        engagement_score: engagementScore,
+        trending_score: calculateTrendingScore(engagementScore, post.created_at, now, gravity),
+      };
+    })
+    .sort((a, b) => {
+      if (a.trending_score !== b.trending_score) {
+        return b.trending_score - a.trending_score;
+      }
+      if (tieBreaker === 'engagement' && a.engagement_score !== b.engagement_score) {
+        return b.engagement_score - a.engagement_score;
+      }
+      return compareRecent(a, b);
+    })
+    .slice(0, limit);
+};
+
+// 期間内の投稿を件数だけで順位付けし、上位の投稿だけを表示用の形で取得する
+export const fetchTrendingPosts = async (
+  options: TrendingOptions & { viewerId?: string | null }
+): Promise<Result<TrendingPost[]>> => {
+  const { viewerId, timeRange, category, now = new Date(), ...rankOptions } = options;
+
+  const { data: candidates, error } = await fetchPostEngagement({
+    since: getTimeRangeStart(timeRange, now).toISOString(),
+    categories: category ? [category] : undefined,
+    limit: TRENDING_CANDIDATE_LIMIT,
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const ranking = rankTrendingPosts(candidates, { ...rankOptions, now });
+  const { data: posts, error: postsError } = await fetchFeedPosts({
+    viewerId,
+    postIds: ranking.map(entry => entry.id),
+  });
+
+  if (postsError) {
+    return { data: null, error: postsError };
+  }
+
+  // 集計の後に削除・非表示になった投稿は除く
+  const byId = new Map(posts.map(post => [post.id, post]));
+  return ok(ranking.flatMap(({ id, engagement_score, trending_score }) => {
+    const post = byId.get(id);
+    return post ? [{ ...post, engagement_score, trending_score }] : [];
+  }));
+};
+
+export interface TrendingCategory {
+  category: string;
+  post_count: number;
+  engagement_score: number;
+  previous_post_count: number;
+  previous_engagement_score: number;
+  // 前の期間との差
+  post_delta: number;
+  engagement_growth: number;
+}
+
+export interface TrendingCategoryOptions {
+  timeRange: TimeRange;
+  weights?: Partial<TrendingWeights>;
+  limit?: number;
+  now?: Date;
+}
+
+export const DEFAULT_TRENDING_CATEGORY_LIMIT = 10;
+
+// 期間内と直前の同じ長さの期間の投稿をカテゴリごとに集計し、投稿数・エンゲージメントの伸びの順に並べる
+export const rankTrendingCategories = (
+  posts: Array<Pick<PostEngagement, 'created_at' | 'post_complexes'> & EngagementCounts>,
+  options: TrendingCategoryOptions
+): TrendingCategory[] => {
+  const { timeRange, limit = DEFAULT_TRENDING_CATEGORY_LIMIT, now = new Date() } = options;
+  const weights = { ...DEFAULT_TRENDING_WEIGHTS, ...options.weights };
+  const currentStart = getTimeRangeStart(timeRange, now).toISOString();
+  const previousStart = getTimeRangeStart(timeRange, new Date(currentStart)).toISOString();
+  const end = now.toISOString();
+  const stats = new Map<string, TrendingCategory>();
+
+  posts.forEach(post => {
+    if (post.created_at < previousStart || post.created_at > end) return;
+
+    const isCurrent = post.created_at >= currentStart;
+    const engagementScore = calculateEngagementScore(post, weights);
+    // 同じ投稿に同じカテゴリが重複して付いていても1回だけ数える
+    const categories = new Set(post.post_complexes.map(complex => complex.category));
+
+    categories.forEach(category => {
+      const entry = stats.get(category) || {
+        category,
+        post_count: 0,
+        engagement_score: 0,
+        previous_post_count: 0,
+        previous_engagement_score: 0,
+        post_delta: 0,
+        engagement_growth: 0,
+      };
+
+      if (isCurrent) {
+        entry.post_count += 1;
+        entry.engagement_score += engagementScore;
+      } else {
+        entry.previous_post_count += 1;
+        entry.previous_engagement_score += engagementScore;
+      }
+
+      stats.set(category, entry);
+    });
+  });
+
+  return Array.from(stats.values())
+    .map(entry => ({
+      ...entry,
+      post_delta: entry.post_count - entry.previous_post_count,
+      engagement_growth: entry.engagement_score - entry.previous_engagement_score,
+    }))
+    .filter(entry => entry.post_count > 0)
+    .sort((a, b) =>
+      b.post_count - a.post_count ||
+      b.engagement_growth - a.engagement_growth ||
+      a.category.localeCompare(b.category)
+    )
+    .slice(0, limit);
+};
+
+// 期間内と直前の期間を別々に取得する。まとめて取得すると、期間内の投稿だけで上限に達したときに
+// 直前の期間が空になり、すべてのカテゴリが伸びているように見えてしまう
+export const fetchTrendingCategories = async (
+  options: TrendingCategoryOptions
+): Promise<Result<TrendingCategory[]>> => {
+  const now = options.now || new Date();
+  const currentStart = getTimeRangeStart(options.timeRange, now);
+  const previousStart = getTimeRangeStart(options.timeRange, currentStart);
+
+  const [current, previous] = await Promise.all([
+    fetchPostEngagement({
+      since: currentStart.toISOString(),
+      limit: TRENDING_CANDIDATE_LIMIT,
+    }),
+    fetchPostEngagement({
+      since: previousStart.toISOString(),
+      until: currentStart.toISOString(),
+      limit: TRENDING_CANDIDATE_LIMIT,
+    }),
+  ]);
+
+  if (previous.error) {
+    return previous;
+  }
+
+  return mapResult(current, posts =>
+    rankTrendingCategories([...posts, ...previous.data], { ...options, now })
+  );
+};
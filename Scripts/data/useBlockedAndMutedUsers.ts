@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { fetchBlockedIds, fetchBlockerIds } from './blocks';
+import { fetchMutedIds } from './mutes';
+import { UserRelationEvent, subscribeUserRelationEvents } from './userRelationEvents';
+
+const applyEvent = (ids: Set<string>, event: UserRelationEvent, added: string, removed: string) => {
+  if (event.type !== added && event.type !== removed) {
+    return ids;
+  }
+
+  const next = new Set(ids);
+  if (event.type === added) {
+    next.add(event.userId);
+  } else {
+    next.delete(event.userId);
+  }
+  return next;
+};
+
+// 閲覧者がブロック・ミュートしているユーザーと、閲覧者をブロックしているユーザー。
+// hiddenUserIds はいずれかに当てはまるユーザーで、投稿や通知の一覧から除く。設定画面での解除もすぐに反映する
+export function useBlockedAndMutedUsers(userId: string | null) {
+  const [blockedIds, setBlockedIds] = useState<Set<string>>(new Set());
+  const [mutedIds, setMutedIds] = useState<Set<string>>(new Set());
+  const [blockedByIds, setBlockedByIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setBlockedIds(new Set());
+    setMutedIds(new Set());
+    setBlockedByIds(new Set());
+
+    if (!userId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    Promise.all([
+      fetchBlockedIds(userId),
+      fetchMutedIds(userId),
+      fetchBlockerIds(userId),
+    ]).then(([blocked, muted, blockedBy]) => {
+      if (cancelled) {
+        return;
+      }
+
+      if (blocked.error) {
+        console.error('ブロック取得エラー:', blocked.error);
+      } else {
+        setBlockedIds(new Set(blocked.data));
+      }
+
+      if (muted.error) {
+        console.error('ミュート取得エラー:', muted.error);
+      } else {
+        setMutedIds(new Set(muted.data));
+      }
+
+      if (blockedBy.error) {
+        console.error('ブロック取得エラー:', blockedBy.error);
+      } else {
+        setBlockedByIds(new Set(blockedBy.data));
+      }
+    });
+
+    const unsubscribe = subscribeUserRelationEvents(event => {
+      setBlockedIds(prev => applyEvent(prev, event, 'blocked', 'unblocked'));
+      setMutedIds(prev => applyEvent(prev, event, 'muted', 'unmuted'));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  return {
+    blockedIds,
+    mutedIds,
+    blockedByIds,
+    hiddenUserIds: new Set([...blockedIds, ...mutedIds, ...blockedByIds]),
+  };
+}
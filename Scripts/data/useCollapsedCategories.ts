@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { fetchCollapsedCategories, subscribeCollapsedCategories } from './contentWarnings';
+
+// 閲覧者が折りたたむ設定にしたカテゴリ。設定画面での変更もすぐに反映する
+export function useCollapsedCategories(userId: string | null) {
+  const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!userId) {
+      setCollapsedCategories(new Set());
+      return;
+    }
+
+    let cancelled = false;
+
+    fetchCollapsedCategories(userId).then(({ data, error }) => {
+      if (cancelled) {
+        return;
+      }
+
+      if (error) {
+        console.error('折りたたむカテゴリ取得エラー:', error);
+        return;
+      }
+
+      setCollapsedCategories(new Set(data));
+    });
+
+    const unsubscribe = subscribeCollapsedCategories(({ category, collapsed }) => {
+      setCollapsedCategories(prev => {
+        const next = new Set(prev);
+        if (collapsed) {
+          next.add(category);
+        } else {
+          next.delete(category);
+        }
+        return next;
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  return collapsedCategories;
+}
@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  ChatMessage,
+  Message,
+  confirmPendingMessage,
+  createPendingMessage,
+  fetchMessages,
+  mergeChatMessages,
+  sendMessage,
+  setMessageDelivery,
+  subscribeConversationMessages,
+} from './messages';
+import { Result, fail } from './result';
+
+// 開いている会話のメッセージ。購読で届いた行だけを足していき、送信は結果を待たずに画面へ出す
+export function useConversationMessages(conversationId: string | null, userId: string | null) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+  // 送信の結果が返るまでに別の会話へ切り替わっていたら、結果を今の一覧に反映しない
+  const conversationIdRef = useRef(conversationId);
+
+  useEffect(() => {
+    conversationIdRef.current = conversationId;
+    setMessages([]);
+
+    if (!conversationId) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    // 読み込み中に届いた行も取りこぼさないよう、取得より先に購読する
+    const unsubscribe = subscribeConversationMessages(conversationId, message => {
+      setMessages(prev => mergeChatMessages(prev, [message]));
+    });
+
+    fetchMessages(conversationId).then(({ data, error }) => {
+      if (cancelled) {
+        return;
+      }
+
+      setLoading(false);
+
+      if (error) {
+        console.error('メッセージ取得エラー:', error);
+        return;
+      }
+
+      setMessages(prev => mergeChatMessages(prev, data));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [conversationId]);
+
+  const deliver = async (pending: ChatMessage): Promise<Result<Message>> => {
+    const result = await sendMessage({
+      conversationId: pending.conversation_id,
+      senderId: pending.sender_id,
+      content: pending.content,
+    });
+
+    if (conversationIdRef.current !== pending.conversation_id) {
+      return result;
+    }
+
+    if (result.error) {
+      setMessages(prev => setMessageDelivery(prev, pending.id, 'failed'));
+    } else {
+      setMessages(prev => confirmPendingMessage(prev, pending.id, result.data));
+    }
+
+    return result;
+  };
+
+  const send = (content: string): Promise<Result<Message>> => {
+    if (!conversationId || !userId) {
+      return Promise.resolve(fail({ message: '会話が開かれていません' }));
+    }
+
+    const pending = createPendingMessage({ conversationId, senderId: userId, content });
+    setMessages(prev => [...prev, pending]);
+
+    return deliver(pending);
+  };
+
+  // 送信に失敗したメッセージを、同じ位置のまま送り直す
+  const retry = (message: ChatMessage): Promise<Result<Message>> => {
+    setMessages(prev => setMessageDelivery(prev, message.id, 'pending'));
+    return deliver(message);
+  };
+
+  const discard = (message: ChatMessage) => {
+    setMessages(prev => prev.filter(item => item.id !== message.id));
+  };
+
+  return { messages, loading, send, retry, discard };
+}
@@ -0,0 +1,58 @@
+import { useEffect, useRef, useState } from 'react';
+import { TYPING_INDICATOR_TIMEOUT_MS } from '../constants/presence';
+import { joinConversationPresence } from './presence';
+
+// 会話の相手がオンラインか・入力中かと、自分の入力中を知らせる関数。
+// enabled が false のあいだは会話のチャンネルに参加せず、送りも受けもしない
+export function useConversationPresence(
+  conversationId: string | null,
+  userId: string | null,
+  enabled: boolean
+) {
+  const [isOtherOnline, setIsOtherOnline] = useState(false);
+  const [isOtherTyping, setIsOtherTyping] = useState(false);
+  const notifyRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    setIsOtherOnline(false);
+    setIsOtherTyping(false);
+    notifyRef.current = () => {};
+
+    if (!conversationId || !userId || !enabled) {
+      return;
+    }
+
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+
+    const presence = joinConversationPresence(conversationId, userId, {
+      onOtherOnlineChange: setIsOtherOnline,
+      onTyping: () => {
+        setIsOtherTyping(true);
+
+        if (timeout) {
+          clearTimeout(timeout);
+        }
+        timeout = setTimeout(() => setIsOtherTyping(false), TYPING_INDICATOR_TIMEOUT_MS);
+      },
+    });
+
+    notifyRef.current = presence.notifyTyping;
+
+    return () => {
+      if (timeout) {
+        clearTimeout(timeout);
+      }
+      presence.leave();
+    };
+  }, [conversationId, userId, enabled]);
+
+  // 相手のメッセージが届いたときなど、入力中の表示を消す
+  const clearOtherTyping = () => setIsOtherTyping(false);
+
+  return {
+    isOtherOnline,
+    isOtherTyping,
+    notifyTyping: () => notifyRef.current(),
+    clearOtherTyping,
+  };
+}
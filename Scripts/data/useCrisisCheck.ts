@@ -0,0 +1,44 @@
+import { useRef, useState } from 'react';
+import { CrisisMatch, classifyCrisis } from './crisisClassifier';
+
+export interface CrisisCheckResult {
+  // false なら送信を取りやめる
+  proceed: boolean;
+  // 送信後にモデレーター向けのフラグを立てるために使う
+  match: CrisisMatch | null;
+}
+
+// 送信前に本文を判定し、危険な表現があれば相談窓口の案内を挟んで送信するかを選んでもらう
+export function useCrisisCheck() {
+  const [match, setMatch] = useState<CrisisMatch | null>(null);
+  const resolveRef = useRef<((proceed: boolean) => void) | null>(null);
+
+  const check = (text: string): Promise<CrisisCheckResult> => {
+    const found = classifyCrisis(text);
+
+    if (!found) {
+      return Promise.resolve({ proceed: true, match: null });
+    }
+
+    setMatch(found);
+    return new Promise(resolve => {
+      resolveRef.current = proceed => resolve({ proceed, match: found });
+    });
+  };
+
+  const respond = (proceed: boolean) => {
+    resolveRef.current?.(proceed);
+    resolveRef.current = null;
+    setMatch(null);
+  };
+
+  return {
+    check,
+    // CrisisSupportModal に渡す
+    modalProps: {
+      visible: match !== null,
+      onContinue: () => respond(true),
+      onCancel: () => respond(false),
+    },
+  };
+}
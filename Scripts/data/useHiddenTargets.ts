@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { fetchHiddenTargets, reportTargetKey, subscribeHiddenTargets } from './reports';
+
+// 閲覧者が通報して非表示にした対象のキー。通報した直後から一覧に反映する
+export function useHiddenTargets(userId: string | null) {
+  const [hiddenTargets, setHiddenTargets] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!userId) {
+      setHiddenTargets(new Set());
+      return;
+    }
+
+    let cancelled = false;
+
+    fetchHiddenTargets(userId).then(({ data, error }) => {
+      if (cancelled) {
+        return;
+      }
+
+      if (error) {
+        console.error('非表示にした通報対象の取得エラー:', error);
+        return;
+      }
+
+      setHiddenTargets(new Set(data));
+    });
+
+    const unsubscribe = subscribeHiddenTargets(target => {
+      setHiddenTargets(prev => new Set([...prev, reportTargetKey(target)]));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  return hiddenTargets;
+}
@@ -0,0 +1,51 @@
+import { useEffect, useMemo, useState } from 'react';
+import { MutedWordScope } from '../constants/mutedWords';
+import { MutedWord, compileMutedWords, fetchMutedWords, matchesMutedWords, subscribeMutedWords } from './mutedWords';
+
+// 閲覧者がミュートしているワードと、本文が一致するかの判定。設定画面での追加・削除もすぐに反映する
+export function useMutedWords(userId: string | null) {
+  const [mutedWords, setMutedWords] = useState<MutedWord[]>([]);
+
+  useEffect(() => {
+    setMutedWords([]);
+
+    if (!userId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    fetchMutedWords(userId).then(({ data, error }) => {
+      if (cancelled) {
+        return;
+      }
+
+      if (error) {
+        console.error('ミュートワード取得エラー:', error);
+        return;
+      }
+
+      setMutedWords(data);
+    });
+
+    const unsubscribe = subscribeMutedWords(event => {
+      if (event.type === 'added') {
+        setMutedWords(prev => [event.word, ...prev]);
+      } else {
+        setMutedWords(prev => prev.filter(word => word.id !== event.id));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  const matcher = useMemo(() => compileMutedWords(mutedWords), [mutedWords]);
+
+  const isMuted = (texts: Array<string | null | undefined>, scope: MutedWordScope) =>
+    matchesMutedWords(matcher, texts, scope);
+
+  return { mutedWords, isMuted };
+}
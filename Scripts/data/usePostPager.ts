@@ -0,0 +1,171 @@
+import { useCallback, useRef, useState } from 'react';
+import { Result } from './result';
+
+export interface PageRequest<T> {
+  last: T | null;
+  offset: number;
+  pageSize: number;
+}
+
+type PageResult<T> = Promise<Result<T[]>>;
+
+interface PostPagerOptions<T> {
+  pageSize?: number;
+  // last より古いページを取得する(キーセット)。ランキングなどは offset を使う
+  loadPage: (request: PageRequest<T>) => PageResult<T>;
+  // first より新しい投稿を取得する。未指定の場合リフレッシュは先頭から読み直す
+  loadNewer?: (first: T, pageSize: number) => PageResult<T>;
+}
+
+export function usePostPager<T extends { id: string }>({
+  pageSize = 20,
+  loadPage,
+  loadNewer,
+}: PostPagerOptions<T>) {
+  const [posts, setPosts] = useState<T[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+
+  const postsRef = useRef<T[]>([]);
+  const hasMoreRef = useRef(true);
+  const busyRef = useRef(false);
+  // reset 後に古いリクエストの結果を反映しないための世代番号
+  const generationRef = useRef(0);
+
+  // 最新のレンダーのローダーを使う
+  const loadPageRef = useRef(loadPage);
+  const loadNewerRef = useRef(loadNewer);
+  loadPageRef.current = loadPage;
+  loadNewerRef.current = loadNewer;
+
+  const applyHasMore = (value: boolean) => {
+    hasMoreRef.current = value;
+    setHasMore(value);
+  };
+
+  const reset = useCallback(async () => {
+    const generation = ++generationRef.current;
+    busyRef.current = true;
+
+    try {
+      const { data, error } = await loadPageRef.current({ last: null, offset: 0, pageSize });
+
+      if (generation !== generationRef.current) return;
+
+      if (error) {
+        console.error('投稿取得エラー:', error);
+        return;
+      }
+
+      postsRef.current = data;
+      setPosts(data);
+      applyHasMore(data.length >= pageSize);
+    } catch (error) {
+      console.error('予期しないエラー:', error);
+    } finally {
+      if (generation === generationRef.current) {
+        busyRef.current = false;
+        setLoaded(true);
+      }
+    }
+  }, [pageSize]);
+
+  const refresh = useCallback(async () => {
+    const first = postsRef.current[0];
+
+    if (!first || !loadNewerRef.current) {
+      await reset();
+      return;
+    }
+
+    const generation = generationRef.current;
+
+    try {
+      const { data, error } = await loadNewerRef.current(first, pageSize);
+
+      if (generation !== generationRef.current) return;
+
+      if (error) {
+        console.error('投稿取得エラー:', error);
+        return;
+      }
+
+      if (data.length >= pageSize) {
+        // 新着が1ページを超える場合は間が抜けないように先頭から読み直す
+        await reset();
+        return;
+      }
+
+      const newIds = new Set(data.map(post => post.id));
+      setPosts(prev => {
+        const next = [...data, ...prev.filter(post => !newIds.has(post.id))];
+        postsRef.current = next;
+        return next;
+      });
+    } catch (error) {
+      console.error('予期しないエラー:', error);
+    }
+  }, [pageSize, reset]);
+
+  const loadMore = useCallback(async () => {
+    if (busyRef.current || !hasMoreRef.current || postsRef.current.length === 0) {
+      return;
+    }
+
+    const generation = generationRef.current;
+    const current = postsRef.current;
+    busyRef.current = true;
+    setLoadingMore(true);
+
+    try {
+      const { data, error } = await loadPageRef.current({
+        last: current[current.length - 1],
+        offset: current.length,
+        pageSize,
+      });
+
+      if (generation !== generationRef.current) return;
+
+      if (error) {
+        console.error('投稿取得エラー:', error);
+        return;
+      }
+
+      setPosts(prev => {
+        const existingIds = new Set(prev.map(post => post.id));
+        const next = [...prev, ...data.filter(post => !existingIds.has(post.id))];
+        postsRef.current = next;
+        return next;
+      });
+      applyHasMore(data.length >= pageSize);
+    } catch (error) {
+      console.error('予期しないエラー:', error);
+    } finally {
+      if (generation === generationRef.current) {
+        busyRef.current = false;
+      }
+      setLoadingMore(false);
+    }
+  }, [pageSize]);
+
+  // 楽観的更新など、読み込み済みの投稿を直接書き換える
+  const updatePosts = useCallback((updater: (prev: T[]) => T[]) => {
+    setPosts(prev => {
+      const next = updater(prev);
+      postsRef.current = next;
+      return next;
+    });
+  }, []);
+
+  return {
+    posts,
+    loaded,
+    loadingMore,
+    hasMore,
+    reset,
+    refresh,
+    loadMore,
+    updatePosts,
+  };
+}
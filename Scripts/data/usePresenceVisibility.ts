@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { fetchPresenceVisibility, subscribePresenceVisibility } from './presence';
+
+// 自分がオンライン状態を見せているか。見せない設定のあいだは他の人のオンライン状態も表示しない
+export function usePresenceVisibility(userId: string | null) {
+  const [presenceVisible, setPresenceVisible] = useState(false);
+
+  useEffect(() => {
+    setPresenceVisible(false);
+
+    if (!userId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    fetchPresenceVisibility(userId).then(({ data, error }) => {
+      if (cancelled) {
+        return;
+      }
+
+      if (error) {
+        console.error('オンライン表示設定の取得エラー:', error);
+        return;
+      }
+
+      setPresenceVisible(data);
+    });
+
+    const unsubscribe = subscribePresenceVisibility(setPresenceVisible);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  return presenceVisible;
+}
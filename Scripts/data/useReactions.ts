@@ -0,0 +1,203 @@
+import { useCallback, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { ReactionType } from '../constants/reactions';
+import { FeedPost, mergeViewerFlags } from './posts';
+import { reactToPost, unlikePost } from './likes';
+import { sharePost, unsharePost } from './shares';
+import { DEFAULT_TRENDING_WEIGHTS } from './trending';
+import { isUniqueViolation } from './result';
+
+export type ReactionKind = ReactionType | 'share';
+
+// トレンド系の一覧の投稿だけ engagement_score を持つ
+type ReactablePost = Pick<FeedPost, 'id' | 'likes_count' | 'reaction_counts' | 'shares_count'> & {
+  engagement_score?: number;
+};
+
+// リアクションの増減を件数とエンゲージメントスコアに反映する
+export const applyReactionDelta = <T extends ReactablePost>(
+  post: T,
+  kind: ReactionKind,
+  delta: number
+): T => {
+  const engagement = post.engagement_score !== undefined && {
+    engagement_score: post.engagement_score + delta * DEFAULT_TRENDING_WEIGHTS[kind === 'share' ? 'shares' : kind],
+  };
+
+  if (kind === 'share') {
+    return { ...post, shares_count: post.shares_count + delta, ...engagement };
+  }
+
+  return {
+    ...post,
+    likes_count: post.likes_count + delta,
+    reaction_counts: { ...post.reaction_counts, [kind]: post.reaction_counts[kind] + delta },
+    ...engagement,
+  };
+};
+
+// 閲覧者のリアクションを from から to に変えたときの件数の変化
+const changeReaction = <T extends ReactablePost>(
+  post: T,
+  from: ReactionType | null,
+  to: ReactionType | null
+): T => {
+  const removed = from ? applyReactionDelta(post, from, -1) : post;
+  return to ? applyReactionDelta(removed, to, 1) : removed;
+};
+
+interface ReactionsOptions<T> {
+  userId: string | null;
+  // 表示中の一覧で同じ投稿を書き換える
+  updatePost: (postId: string, updater: (post: T) => T) => void;
+}
+
+// リアクション・共有のトグル。楽観的に反映し、失敗したら元に戻す
+export function useReactions<T extends ReactablePost>({ userId, updatePost }: ReactionsOptions<T>) {
+  const [viewerReactions, setViewerReactions] = useState<Map<string, ReactionType>>(new Map());
+  const [shared, setShared] = useState<Set<string>>(new Set());
+  // 長押しで開くリアクション選択の対象
+  const [pickerPostId, setPickerPostId] = useState<string | null>(null);
+
+  // 連打で同じ投稿へのリクエストが重ならないようにする
+  const pendingRef = useRef<Set<string>>(new Set());
+  // 直前のトグルの結果をレンダー前でも参照できるようにする
+  const reactionsRef = useRef<Map<string, ReactionType>>(new Map());
+  const sharedRef = useRef<Set<string>>(new Set());
+
+  const setViewerReaction = (postId: string, type: ReactionType | null) => {
+    const next = new Map(reactionsRef.current);
+    if (type) {
+      next.set(postId, type);
+    } else {
+      next.delete(postId);
+    }
+    reactionsRef.current = next;
+    setViewerReactions(next);
+  };
+
+  const setShareActive = (postId: string, active: boolean) => {
+    const next = new Set(sharedRef.current);
+    if (active) {
+      next.add(postId);
+    } else {
+      next.delete(postId);
+    }
+    sharedRef.current = next;
+    setShared(next);
+  };
+
+  // 取得した投稿の閲覧者のリアクションを取り込む
+  const mergeViewerReactions = useCallback((posts: FeedPost[]) => {
+    const next = new Map(reactionsRef.current);
+    posts.forEach(post => {
+      if (post.viewer_reaction) {
+        next.set(post.id, post.viewer_reaction);
+      } else {
+        next.delete(post.id);
+      }
+    });
+    reactionsRef.current = next;
+    setViewerReactions(next);
+
+    sharedRef.current = mergeViewerFlags(sharedRef.current, posts, 'is_shared');
+    setShared(sharedRef.current);
+  }, []);
+
+  // 同じ種類を選ぶと取り消し、別の種類を選ぶと付け替える
+  const react = async (postId: string, type: ReactionType) => {
+    if (!userId) {
+      Alert.alert('エラー', 'ログインが必要です');
+      return;
+    }
+
+    const key = `reaction:${postId}`;
+    if (pendingRef.current.has(key)) {
+      return;
+    }
+
+    const previous = reactionsRef.current.get(postId) || null;
+    const next = previous === type ? null : type;
+
+    pendingRef.current.add(key);
+    setViewerReaction(postId, next);
+    updatePost(postId, post => changeReaction(post, previous, next));
+
+    try {
+      const { error } = next
+        ? await reactToPost(postId, userId, next)
+        : await unlikePost(postId, userId);
+
+      if (error) {
+        setViewerReaction(postId, previous);
+        updatePost(postId, post => changeReaction(post, next, previous));
+        console.error('リアクションエラー:', error);
+      }
+    } catch (error) {
+      setViewerReaction(postId, previous);
+      updatePost(postId, post => changeReaction(post, next, previous));
+      console.error('リアクションエラー:', error);
+    } finally {
+      pendingRef.current.delete(key);
+    }
+  };
+
+  // タップでは付けているリアクションを取り消すか、いいねを付ける
+  const toggleReaction = (postId: string) =>
+    react(postId, reactionsRef.current.get(postId) || 'like');
+
+  const toggleShare = async (postId: string) => {
+    if (!userId) {
+      Alert.alert('エラー', 'ログインが必要です');
+      return;
+    }
+
+    const key = `share:${postId}`;
+    if (pendingRef.current.has(key)) {
+      return;
+    }
+
+    const wasShared = sharedRef.current.has(postId);
+    const delta = wasShared ? -1 : 1;
+
+    pendingRef.current.add(key);
+    setShareActive(postId, !wasShared);
+    updatePost(postId, post => applyReactionDelta(post, 'share', delta));
+
+    const rollback = () => {
+      setShareActive(postId, wasShared);
+      updatePost(postId, post => applyReactionDelta(post, 'share', -delta));
+    };
+
+    try {
+      const { error } = wasShared
+        ? await unsharePost(postId, userId)
+        : await sharePost(postId, userId);
+
+      if (isUniqueViolation(error)) {
+        // 別の端末で既に共有済み。状態はそのままで、件数は取得時に数えられている
+        updatePost(postId, post => applyReactionDelta(post, 'share', -delta));
+      } else if (error) {
+        rollback();
+        console.error('共有エラー:', error);
+      }
+    } catch (error) {
+      rollback();
+      console.error('共有エラー:', error);
+    } finally {
+      pendingRef.current.delete(key);
+    }
+  };
+
+  return {
+    viewerReactions,
+    shared,
+    pickerPostId,
+    openPicker: setPickerPostId,
+    closePicker: () => setPickerPostId(null),
+    mergeViewerReactions,
+    react,
+    toggleReaction,
+    toggleShare,
+  };
+}
@@ -0,0 +1,72 @@
+import { supabase } from '../supabaseClient';
+import { Tables } from './database';
+import { Result, fail, fromQuery, mapResult, ok } from './result';
+
+export type UserComplex = Tables<'user_complexes'>;
+
+export const fetchUserComplexes = (userId: string): Promise<Result<UserComplex[]>> =>
+  fromQuery(
+    supabase
+      .from('user_complexes')
+      .select('*')
+      .eq('user_id', userId)
+  );
+
+// 指定したカテゴリのいずれかを登録しているユーザーのID
+export const fetchUserIdsWithComplexes = async (
+  categories: string[]
+): Promise<Result<Set<string>>> => {
+  const result = await fromQuery(
+    supabase
+      .from('user_complexes')
+      .select('user_id')
+      .in('category', categories)
+  );
+
+  return mapResult(result, rows => new Set(rows.map(row => row.user_id)));
+};
+
+// そのコンプレックスを登録しているユーザー数
+export const countCategoryMembers = async (category: string): Promise<Result<number>> => {
+  try {
+    const { count, error } = await supabase
+      .from('user_complexes')
+      .select('*', { count: 'exact', head: true })
+      .eq('category', category);
+
+    if (error) {
+      return fail(error);
+    }
+
+    return ok(count || 0);
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+export const saveUserComplex = (
+  userId: string,
+  category: string,
+  level: number
+): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('user_complexes')
+      .upsert({
+        user_id: userId,
+        category,
+        level,
+        updated_at: new Date().toISOString(),
+      }, {
+        onConflict: 'user_id,category'
+      })
+  );
+
+export const removeUserComplex = (userId: string, category: string): Promise<Result<null>> =>
+  fromQuery(
+    supabase
+      .from('user_complexes')
+      .delete()
+      .eq('user_id', userId)
+      .eq('category', category)
+  );
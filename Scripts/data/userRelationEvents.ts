@@ -0,0 +1,16 @@
+// Scripts/data/userRelationEvents.ts
+// ブロック・ミュートの追加と解除を、投稿や通知の一覧を持つ画面に知らせる
+
+import { createEventBus } from './eventBus';
+
+export interface UserRelationEvent {
+  type: 'blocked' | 'unblocked' | 'muted' | 'unmuted';
+  userId: string;
+}
+
+const userRelationEvents = createEventBus<UserRelationEvent>();
+
+// 解除用の関数を返す
+export const subscribeUserRelationEvents = userRelationEvents.subscribe;
+
+export const emitUserRelationEvent = userRelationEvents.emit;
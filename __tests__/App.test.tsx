@@ -5,13 +5,22 @@
 import 'react-native';
 import React from 'react';
 import App from '../App';
+import {setSupabaseClient} from '../Scripts/supabaseClient';
+import {createFakeSupabase} from './__support__/fakeSupabase';
 
 // Note: import explicitly to use the types shipped with jest.
-import {it} from '@jest/globals';
+import {beforeEach, it} from '@jest/globals';
 
 // Note: test renderer must be required after react-native.
 import renderer from 'react-test-renderer';
 
-it('renders correctly', () => {
-  renderer.create(<App />);
+beforeEach(() => {
+  setSupabaseClient(createFakeSupabase().client);
+});
+
+it('renders correctly', async () => {
+  // 認証チェックなどの非同期処理が終わるまで待つ
+  await renderer.act(async () => {
+    renderer.create(<App />);
+  });
 });
@@ -0,0 +1,989 @@
+// __tests__/__support__/fakeSupabase.ts
+// テスト用のインメモリ Supabase クライアント。アプリが使うクエリビルダーの範囲だけを実装する
+
+import { AppSupabaseClient } from '../../Scripts/supabaseClient';
+
+type Row = Record<string, any>;
+
+interface FakeError {
+  message: string;
+  code: string;
+  details: string | null;
+}
+
+interface ForeignKey {
+  table: string;
+  column: string;
+  references: string;
+  // 参照先の行を削除したときの動作。未指定は何もしない
+  onDelete?: 'cascade';
+}
+
+// Scripts/data/database.ts の Relationships と同じ外部キー
+const FOREIGN_KEYS: ForeignKey[] = [
+  { table: 'posts', column: 'user_id', references: 'profiles' },
+  { table: 'post_complexes', column: 'post_id', references: 'posts', onDelete: 'cascade' },
+  { table: 'likes', column: 'post_id', references: 'posts', onDelete: 'cascade' },
+  { table: 'likes', column: 'user_id', references: 'profiles' },
+  { table: 'shares', column: 'post_id', references: 'posts', onDelete: 'cascade' },
+  { table: 'shares', column: 'user_id', references: 'profiles' },
+  { table: 'bookmarks', column: 'post_id', references: 'posts', onDelete: 'cascade' },
+  { table: 'bookmarks', column: 'user_id', references: 'profiles' },
+  { table: 'follows', column: 'follower_id', references: 'profiles' },
+  { table: 'follows', column: 'following_id', references: 'profiles' },
+  { table: 'blocks', column: 'blocker_id', references: 'profiles' },
+  { table: 'blocks', column: 'blocked_id', references: 'profiles' },
+  { table: 'mutes', column: 'muter_id', references: 'profiles' },
+  { table: 'mutes', column: 'muted_id', references: 'profiles' },
+  { table: 'replies', column: 'post_id', references: 'posts', onDelete: 'cascade' },
+  { table: 'replies', column: 'user_id', references: 'profiles' },
+  { table: 'replies', column: 'parent_reply_id', references: 'replies' },
+  { table: 'reply_likes', column: 'reply_id', references: 'replies', onDelete: 'cascade' },
+  { table: 'reply_likes', column: 'user_id', references: 'profiles' },
+  { table: 'conversations', column: 'user1_id', references: 'profiles' },
+  { table: 'conversations', column: 'user2_id', references: 'profiles' },
+  { table: 'conversations', column: 'initiator_id', references: 'profiles' },
+  { table: 'messages', column: 'conversation_id', references: 'conversations' },
+  { table: 'messages', column: 'sender_id', references: 'profiles' },
+  { table: 'notifications', column: 'user_id', references: 'profiles' },
+  { table: 'notifications', column: 'related_user_id', references: 'profiles' },
+  { table: 'notifications', column: 'related_post_id', references: 'posts', onDelete: 'cascade' },
+  { table: 'user_complexes', column: 'user_id', references: 'profiles' },
+  { table: 'category_follows', column: 'user_id', references: 'profiles' },
+  { table: 'collapsed_categories', column: 'user_id', references: 'profiles' },
+  { table: 'muted_words', column: 'user_id', references: 'profiles' },
+  { table: 'reports', column: 'reporter_id', references: 'profiles' },
+  { table: 'reports', column: 'resolved_by', references: 'profiles' },
+  { table: 'moderation_flags', column: 'user_id', references: 'profiles' },
+  { table: 'moderation_actions', column: 'moderator_id', references: 'profiles' },
+  { table: 'moderation_actions', column: 'subject_user_id', references: 'profiles' },
+  { table: 'post_edits', column: 'post_id', references: 'posts', onDelete: 'cascade' },
+  { table: 'post_media', column: 'post_id', references: 'posts', onDelete: 'cascade' },
+  { table: 'reply_edits', column: 'reply_id', references: 'replies', onDelete: 'cascade' },
+];
+
+// id 以外の一意制約
+const UNIQUE_KEYS: Record<string, string[][]> = {
+  likes: [['post_id', 'user_id']],
+  shares: [['post_id', 'user_id']],
+  bookmarks: [['post_id', 'user_id']],
+  follows: [['follower_id', 'following_id']],
+  blocks: [['blocker_id', 'blocked_id']],
+  conversations: [['user1_id', 'user2_id']],
+  mutes: [['muter_id', 'muted_id']],
+  reply_likes: [['reply_id', 'user_id']],
+  user_complexes: [['user_id', 'category']],
+  category_follows: [['user_id', 'category']],
+  collapsed_categories: [['user_id', 'category']],
+  reports: [['reporter_id', 'target_type', 'target_id']],
+};
+
+const COLUMN_DEFAULTS: Record<string, Row> = {
+  profiles: {
+    email: null,
+    name: null,
+    bio: null,
+    avatar_url: null,
+    complex_level: 0,
+    role: 'member',
+    suspended_until: null,
+    dm_policy: 'everyone',
+    show_presence: true,
+    last_seen_at: null,
+  },
+  posts: {
+    edited_at: null,
+    is_anonymous: false,
+    anonymous_name: null,
+    content_warning: null,
+    hidden_at: null,
+  },
+  likes: { reaction_type: 'like' },
+  replies: { parent_reply_id: null, edited_at: null, deleted_at: null },
+  conversations: { initiator_id: null, accepted_at: null },
+  messages: { is_read: false },
+  notifications: { is_read: false, related_user_id: null, related_post_id: null },
+  reports: { details: null, hidden: false, resolved_at: null, resolved_by: null },
+  moderation_flags: { matched_rules: [], rule_version: null, resolved_at: null },
+  moderation_actions: { subject_user_id: null, note: null },
+  muted_words: { is_regex: false, expires_at: null },
+};
+
+const TABLES_WITH_UPDATED_AT = new Set(['profiles', 'conversations', 'user_complexes']);
+
+// ---- ビュー ----
+
+interface ViewContext {
+  rows: (table: string) => Row[];
+  // auth.uid()
+  uid: string | null;
+}
+
+interface FakeView {
+  // 埋め込みの外部キーはこのテーブルのものを使う(PostgREST もビューの元テーブルからたどる)
+  base: string;
+  rows: (context: ViewContext) => Row[];
+}
+
+const findById = (rows: Row[], id: unknown) => rows.find(row => row.id === id) || null;
+
+// supabase/migrations のビューと同じ列を作る
+const VIEWS: Record<string, FakeView> = {
+  feed_posts: {
+    base: 'posts',
+    rows: ({ rows, uid }) =>
+      rows('posts').filter(post => !post.hidden_at).map(post => {
+        const author = findById(rows('profiles'), post.user_id);
+        return {
+          ...post,
+          user_id: post.is_anonymous && post.user_id !== uid ? null : post.user_id,
+          author_name: post.is_anonymous ? post.anonymous_name : author?.name ?? null,
+          author_avatar_url: post.is_anonymous ? null : author?.avatar_url ?? null,
+          author_complex_level: post.is_anonymous ? 0 : author?.complex_level ?? 0,
+        };
+      }),
+  },
+  thread_replies: {
+    base: 'replies',
+    rows: ({ rows, uid }) =>
+      rows('replies').flatMap(reply => {
+        const post = findById(rows('posts'), reply.post_id);
+        if (post?.hidden_at) return [];
+        const author = findById(rows('profiles'), reply.user_id);
+        const anonymous = !!post?.is_anonymous && post.user_id === reply.user_id;
+        return [{
+          ...reply,
+          user_id: anonymous && reply.user_id !== uid ? null : reply.user_id,
+          author_name: anonymous ? post!.anonymous_name : author?.name ?? null,
+          author_avatar_url: anonymous ? null : author?.avatar_url ?? null,
+          author_complex_level: anonymous ? 0 : author?.complex_level ?? 0,
+        }];
+      }),
+  },
+  notification_feed: {
+    base: 'notifications',
+    rows: ({ rows, uid }) =>
+      rows('notifications')
+        .filter(notification => notification.user_id === uid)
+        .map(notification => {
+          const post = findById(rows('posts'), notification.related_post_id);
+          const related = findById(rows('profiles'), notification.related_user_id);
+          const anonymous = !!post?.is_anonymous && post.user_id === notification.related_user_id;
+          return {
+            ...notification,
+            related_user_id: anonymous ? null : notification.related_user_id,
+            message: anonymous && related?.name
+              ? notification.message.split(related.name).join(post!.anonymous_name)
+              : notification.message,
+            related_user_name: anonymous ? post!.anonymous_name : related?.name ?? null,
+            related_user_avatar_url: anonymous ? null : related?.avatar_url ?? null,
+          };
+        }),
+  },
+  latest_messages: {
+    base: 'messages',
+    rows: ({ rows }) => {
+      const latest = new Map<unknown, Row>();
+      rows('messages').forEach(message => {
+        const current = latest.get(message.conversation_id);
+        if (!current || message.created_at > current.created_at) {
+          latest.set(message.conversation_id, message);
+        }
+      });
+      return Array.from(latest.values());
+    },
+  },
+};
+
+const baseTable = (table: string) => VIEWS[table]?.base || table;
+
+// ---- 関数(RPC) ----
+
+interface FunctionContext {
+  // security definer の関数と同じく、RLS を通さずに読み書きする
+  from: (table: string) => any;
+  // auth.uid()
+  uid: string | null;
+}
+
+type FakeFunction = (context: FunctionContext, args: Row) => Promise<unknown>;
+
+const requireModerator = async ({ from, uid }: FunctionContext) => {
+  const { data } = await from('profiles').select('role').eq('id', uid).maybeSingle();
+
+  if (data?.role !== 'moderator') {
+    throw { message: 'permission denied', code: '42501', details: null };
+  }
+};
+
+// supabase/migrations の関数と同じ動作をする
+const FUNCTIONS: Record<string, FakeFunction> = {
+  hide_post_as_moderator: async (context, { target_post_id }) => {
+    await requireModerator(context);
+    const { data } = await context.from('posts')
+      .update({ hidden_at: new Date().toISOString() })
+      .eq('id', target_post_id)
+      .select('id');
+    return data.length > 0;
+  },
+  suspend_user_as_moderator: async (context, { target_user_id, suspended_until }) => {
+    await requireModerator(context);
+    const { data } = await context.from('profiles')
+      .update({ suspended_until })
+      .eq('id', target_user_id)
+      .select('id');
+    return data.length > 0;
+  },
+  block_user: async ({ from, uid }, { target_user_id }) => {
+    if (!uid) {
+      throw { message: 'permission denied', code: '42501', details: null };
+    }
+
+    const { error } = await from('blocks').insert({ blocker_id: uid, blocked_id: target_user_id });
+
+    if (error) {
+      throw error;
+    }
+
+    const { data } = await from('follows')
+      .delete()
+      .or(
+        `and(follower_id.eq.${uid},following_id.eq.${target_user_id}),` +
+        `and(follower_id.eq.${target_user_id},following_id.eq.${uid})`
+      )
+      .select('follower_id');
+    return data.length;
+  },
+};
+
+// ---- select 文字列の解析 ----
+
+type SelectNode =
+  | { kind: 'column'; name: string; alias: string }
+  | { kind: 'count' }
+  | {
+      kind: 'embed';
+      alias: string;
+      table: string;
+      hint: string | null;
+      // !inner: 埋め込み先に行がない親の行を除く
+      inner: boolean;
+      children: SelectNode[];
+    };
+
+const splitTopLevel = (source: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let inQuotes = false;
+  let current = '';
+
+  for (const char of source) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && char === '(') depth++;
+    if (!inQuotes && char === ')') depth--;
+
+    if (!inQuotes && depth === 0 && char === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current) parts.push(current);
+  return parts;
+};
+
+const parseSelect = (columns: string): SelectNode[] =>
+  splitTopLevel(columns.replace(/\s+/g, '')).map((item): SelectNode => {
+    const open = item.indexOf('(');
+
+    if (open === -1) {
+      if (item === 'count') return { kind: 'count' };
+      const [alias, name] = item.includes(':') ? item.split(':') : [item, item];
+      return { kind: 'column', name, alias };
+    }
+
+    const head = item.slice(0, open);
+    const inner = item.slice(open + 1, item.lastIndexOf(')'));
+    const [alias, target] = head.includes(':') ? head.split(':') : [head, head];
+    const [table, ...modifiers] = target.split('!');
+    const hint = modifiers.find(modifier => modifier !== 'inner') || null;
+
+    return {
+      kind: 'embed',
+      alias,
+      table,
+      hint,
+      inner: modifiers.includes('inner'),
+      children: parseSelect(inner),
+    };
+  });
+
+// ---- フィルター ----
+
+type Operator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'is';
+
+type Condition =
+  | { kind: 'op'; column: string; op: Operator; value: any }
+  | { kind: 'and' | 'or'; conditions: Condition[] };
+
+const compare = (a: any, b: any) => {
+  if (typeof a === 'number') return a - Number(b);
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+const matches = (row: Row, condition: Condition): boolean => {
+  if (condition.kind !== 'op') {
+    return condition.kind === 'and'
+      ? condition.conditions.every(c => matches(row, c))
+      : condition.conditions.some(c => matches(row, c));
+  }
+
+  const actual = row[condition.column];
+  const { value } = condition;
+
+  switch (condition.op) {
+    case 'eq':
+      return actual !== null && actual !== undefined && String(actual) === String(value);
+    case 'neq':
+      return actual !== null && actual !== undefined && String(actual) !== String(value);
+    case 'gt':
+      return actual != null && compare(actual, value) > 0;
+    case 'gte':
+      return actual != null && compare(actual, value) >= 0;
+    case 'lt':
+      return actual != null && compare(actual, value) < 0;
+    case 'lte':
+      return actual != null && compare(actual, value) <= 0;
+    case 'in':
+      return (value as any[]).some(v => String(v) === String(actual));
+    case 'is':
+      return value === null || value === 'null' ? actual == null : actual === value;
+  }
+};
+
+const unquote = (value: string) =>
+  value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+
+// PostgREST の or() 文字列: "a.eq.1,and(b.eq.2,c.lt.3)"
+const parseLogic = (source: string): Condition[] =>
+  splitTopLevel(source).map((part): Condition => {
+    const logic = part.match(/^(and|or)\((.*)\)$/);
+
+    if (logic) {
+      return { kind: logic[1] as 'and' | 'or', conditions: parseLogic(logic[2]) };
+    }
+
+    const [column, op, ...rest] = part.split('.');
+    const raw = rest.join('.');
+    const value = op === 'in'
+      ? raw.replace(/^\(|\)$/g, '').split(',').map(unquote)
+      : unquote(raw);
+
+    return { kind: 'op', column, op: op as Operator, value };
+  });
+
+// ---- リアルタイム ----
+
+interface ChangeListener {
+  event: string;
+  table: string;
+  filter?: string;
+  callback: (payload: any) => void;
+}
+
+interface FakeChannel {
+  name: string;
+  listeners: ChangeListener[];
+  // presence の sync と broadcast の受信
+  syncListeners: Array<() => void>;
+  broadcastListeners: Array<{ event: string; callback: (message: any) => void }>;
+  presenceKey: string;
+  tracked: Record<string, unknown> | null;
+  on: (type: string, filter: any, callback: (payload: any) => void) => FakeChannel;
+  subscribe: (callback?: (status: string) => void) => FakeChannel;
+  unsubscribe: () => Promise<'ok'>;
+  track: (payload: Record<string, unknown>) => Promise<'ok'>;
+  untrack: () => Promise<'ok'>;
+  presenceState: () => Record<string, Array<Record<string, unknown>>>;
+  send: (message: { type: string; event: string; payload?: unknown }) => Promise<'ok'>;
+}
+
+// ---- 本体 ----
+
+export interface FakeUser {
+  id: string;
+  email?: string;
+}
+
+export interface FakeSupabase {
+  client: AppSupabaseClient;
+  // テーブルの現在の行(コピー)
+  rows: (table: string) => Row[];
+  // 制約を確認せずに行を追加する
+  seed: (table: string, rows: Row[]) => Row[];
+  signInAs: (user: FakeUser | string | null) => void;
+  channels: () => FakeChannel[];
+  // ストレージのバケット内のオブジェクト(パス → 内容)
+  objects: (bucket: string) => Map<string, FakeObject>;
+}
+
+export interface FakeObject {
+  body: unknown;
+  contentType: string | null;
+}
+
+export const createFakeSupabase = (): FakeSupabase => {
+  const tables: Record<string, Row[]> = {};
+  const channels: FakeChannel[] = [];
+  const authListeners = new Set<(event: string, session: any) => void>();
+  let currentUser: FakeUser | null = null;
+  let clock = Date.UTC(2026, 0, 1);
+  let sequence = 0;
+
+  const tableRows = (table: string) => (tables[table] = tables[table] || []);
+  // 読み取り用。ビューは呼ぶたびに元テーブルから作り直す
+  const sourceRows = (table: string): Row[] =>
+    VIEWS[table]
+      ? VIEWS[table].rows({ rows: tableRows, uid: currentUser?.id ?? null })
+      : tableRows(table);
+  const buckets: Record<string, Map<string, FakeObject>> = {};
+  const bucketObjects = (bucket: string) => (buckets[bucket] = buckets[bucket] || new Map());
+  const now = () => new Date((clock += 1000)).toISOString();
+
+  const withDefaults = (table: string, values: Row): Row => {
+    const timestamp = now();
+    return {
+      id: `${table}-${++sequence}`,
+      ...COLUMN_DEFAULTS[table],
+      created_at: timestamp,
+      ...(TABLES_WITH_UPDATED_AT.has(table) ? { updated_at: timestamp } : {}),
+      ...values,
+    };
+  };
+
+  const uniqueViolation = (table: string, row: Row, ignore?: Row): FakeError | null => {
+    const keys = [['id'], ...(UNIQUE_KEYS[table] || [])];
+
+    for (const key of keys) {
+      const duplicate = tableRows(table).some(existing =>
+        existing !== ignore && key.every(column => existing[column] === row[column])
+      );
+
+      if (duplicate) {
+        return {
+          message: `duplicate key value violates unique constraint "${table}_${key.join('_')}_key"`,
+          code: '23505',
+          details: null,
+        };
+      }
+    }
+
+    return null;
+  };
+
+  const emit = (table: string, eventType: string, next: Row | null, old: Row | null) => {
+    const payload = {
+      schema: 'public',
+      table,
+      eventType,
+      commit_timestamp: now(),
+      new: next || {},
+      old: old || {},
+    };
+
+    channels.forEach(channel => {
+      channel.listeners.forEach(listener => {
+        if (listener.table !== table) return;
+        if (listener.event !== '*' && listener.event !== eventType) return;
+
+        if (listener.filter) {
+          const [column, rest] = listener.filter.split('=');
+          const [op, ...value] = rest.split('.');
+          // in は "conversation_id=in.(a,b)" の形で渡される
+          const operand = op === 'in' ? value.join('.').slice(1, -1).split(',') : value.join('.');
+          const condition: Condition = { kind: 'op', column, op: op as Operator, value: operand };
+          if (!matches(next || old || {}, condition)) return;
+        }
+
+        listener.callback(payload);
+      });
+    });
+  };
+
+  // ON DELETE CASCADE の外部キーをたどって参照元の行も削除する
+  const removeRows = (table: string, targets: Row[]) => {
+    tables[table] = tableRows(table).filter(row => !targets.includes(row));
+    targets.forEach(row => emit(table, 'DELETE', null, { ...row }));
+
+    const ids = new Set(targets.map(row => row.id));
+    FOREIGN_KEYS
+      .filter(fk => fk.references === table && fk.onDelete === 'cascade')
+      .forEach(fk => {
+        const children = tableRows(fk.table).filter(row => ids.has(row[fk.column]));
+        if (children.length > 0) {
+          removeRows(fk.table, children);
+        }
+      });
+  };
+
+  const resolveRelation = (table: string, node: Extract<SelectNode, { kind: 'embed' }>) => {
+    const hinted = (fk: ForeignKey) => !node.hint || fk.column === node.hint;
+    const toOne = FOREIGN_KEYS.filter(fk =>
+      fk.table === baseTable(table) && fk.references === baseTable(node.table) && hinted(fk)
+    );
+    const toMany = FOREIGN_KEYS.filter(fk =>
+      fk.table === baseTable(node.table) && fk.references === baseTable(table) && hinted(fk)
+    );
+
+    if (toOne.length + toMany.length !== 1) {
+      throw {
+        message: `Could not embed because more than one relationship was found for '${table}' and '${node.table}'`,
+        code: 'PGRST201',
+        details: null,
+      };
+    }
+
+    return toOne.length === 1
+      ? { many: false, fk: toOne[0] }
+      : { many: true, fk: toMany[0] };
+  };
+
+  const relatedRows = (
+    table: string,
+    row: Row,
+    node: Extract<SelectNode, { kind: 'embed' }>,
+    embedFilters: Record<string, Condition[]>,
+    aliasPath: string
+  ) => {
+    const { many, fk } = resolveRelation(table, node);
+    const filters = embedFilters[aliasPath] || [];
+    const rows = many
+      ? sourceRows(node.table).filter(r => r[fk.column] === row.id)
+      : sourceRows(node.table).filter(r => r.id === row[fk.column]);
+
+    return { many, rows: rows.filter(r => filters.every(condition => matches(r, condition))) };
+  };
+
+  const passesInnerJoins = (
+    table: string,
+    row: Row,
+    nodes: SelectNode[],
+    embedFilters: Record<string, Condition[]>
+  ) =>
+    nodes.every(node =>
+      node.kind !== 'embed' ||
+      !node.inner ||
+      relatedRows(table, row, node, embedFilters, node.alias).rows.length > 0
+    );
+
+  const project = (
+    table: string,
+    row: Row,
+    nodes: SelectNode[],
+    embedFilters: Record<string, Condition[]>,
+    path = ''
+  ): Row => {
+    const result: Row = {};
+
+    nodes.forEach(node => {
+      if (node.kind === 'column') {
+        if (node.name === '*') {
+          Object.assign(result, row);
+        } else {
+          result[node.alias] = row[node.name] ?? null;
+        }
+        return;
+      }
+
+      if (node.kind !== 'embed') return;
+
+      const aliasPath = path ? `${path}.${node.alias}` : node.alias;
+      const { many, rows: related } = relatedRows(table, row, node, embedFilters, aliasPath);
+
+      if (!many) {
+        result[node.alias] = related[0]
+          ? project(node.table, related[0], node.children, embedFilters, aliasPath)
+          : null;
+        return;
+      }
+
+      result[node.alias] = node.children.some(child => child.kind === 'count')
+        ? [{ count: related.length }]
+        : related.map(r => project(node.table, r, node.children, embedFilters, aliasPath));
+    });
+
+    return result;
+  };
+
+  const from = (table: string) => {
+    let mode: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+    let selectNodes: SelectNode[] | null = null;
+    let countOption: { count?: 'exact'; head?: boolean } = {};
+    let values: Row[] = [];
+    let onConflict: string[] = [];
+    let expect: 'many' | 'single' | 'maybeSingle' = 'many';
+    let limitCount: number | null = null;
+    const conditions: Condition[] = [];
+    const embedFilters: Record<string, Condition[]> = {};
+    const orders: Array<{ column: string; ascending: boolean }> = [];
+
+    const addFilter = (column: string, op: Operator, value: any) => {
+      const dot = column.lastIndexOf('.');
+
+      if (dot !== -1) {
+        const alias = column.slice(0, dot);
+        embedFilters[alias] = [
+          ...(embedFilters[alias] || []),
+          { kind: 'op', column: column.slice(dot + 1), op, value },
+        ];
+      } else {
+        conditions.push({ kind: 'op', column, op, value });
+      }
+
+      return builder;
+    };
+
+    const filtered = () =>
+      sourceRows(table).filter(row => conditions.every(condition => matches(row, condition)));
+
+    const sorted = (rows: Row[]) =>
+      [...rows].sort((a, b) => {
+        for (const { column, ascending } of orders) {
+          const diff = compare(a[column], b[column]);
+          if (diff !== 0) return ascending ? diff : -diff;
+        }
+        return 0;
+      });
+
+    const write = (): Row[] => {
+      if (VIEWS[table]) {
+        throw { message: `cannot write to view "${table}"`, code: '55000', details: null };
+      }
+
+      if (mode === 'insert' || mode === 'upsert') {
+        const written: Row[] = [];
+
+        for (const value of values) {
+          const existing = mode === 'upsert'
+            ? tableRows(table).find(row =>
+                (onConflict.length ? onConflict : ['id']).every(column => row[column] === value[column])
+              )
+            : undefined;
+
+          if (existing) {
+            const old = { ...existing };
+            Object.assign(existing, value);
+            emit(table, 'UPDATE', { ...existing }, old);
+            written.push(existing);
+            continue;
+          }
+
+          const row = withDefaults(table, value);
+          const error = uniqueViolation(table, row);
+          if (error) throw error;
+
+          tableRows(table).push(row);
+          emit(table, 'INSERT', { ...row }, null);
+          written.push(row);
+        }
+
+        return written;
+      }
+
+      const targets = filtered();
+
+      if (mode === 'update') {
+        targets.forEach(row => {
+          const old = { ...row };
+          const error = uniqueViolation(table, { ...row, ...values[0] }, row);
+          if (error) throw error;
+          Object.assign(row, values[0]);
+          emit(table, 'UPDATE', { ...row }, old);
+        });
+        return targets;
+      }
+
+      removeRows(table, targets);
+      return targets;
+    };
+
+    const execute = () => {
+      try {
+        let rows = mode === 'select' ? filtered() : write();
+
+        if (mode === 'select' && selectNodes) {
+          rows = rows.filter(row => passesInnerJoins(table, row, selectNodes!, embedFilters));
+        }
+
+        const count = countOption.count === 'exact' ? rows.length : null;
+
+        if (mode !== 'select' && !selectNodes) {
+          return { data: null, error: null, count, status: mode === 'insert' ? 201 : 204 };
+        }
+
+        rows = sorted(rows);
+        if (limitCount !== null) rows = rows.slice(0, limitCount);
+
+        if (countOption.head) {
+          return { data: null, error: null, count, status: 200 };
+        }
+
+        const data = rows.map(row =>
+          project(table, row, selectNodes || parseSelect('*'), embedFilters)
+        );
+
+        if (expect === 'many') {
+          return { data, error: null, count, status: 200 };
+        }
+
+        if (data.length > 1 || (data.length === 0 && expect === 'single')) {
+          throw {
+            message: 'JSON object requested, multiple (or no) rows returned',
+            code: 'PGRST116',
+            details: `The result contains ${data.length} rows`,
+          };
+        }
+
+        return { data: data[0] || null, error: null, count, status: 200 };
+      } catch (error) {
+        return { data: null, error: error as FakeError, count: null, status: 400 };
+      }
+    };
+
+    const builder: any = {
+      select: (columns = '*', options: typeof countOption = {}) => {
+        selectNodes = parseSelect(columns);
+        countOption = options;
+        return builder;
+      },
+      insert: (input: Row | Row[]) => {
+        mode = 'insert';
+        values = Array.isArray(input) ? input : [input];
+        return builder;
+      },
+      upsert: (input: Row | Row[], options: { onConflict?: string } = {}) => {
+        mode = 'upsert';
+        values = Array.isArray(input) ? input : [input];
+        onConflict = options.onConflict ? options.onConflict.split(',').map(c => c.trim()) : [];
+        return builder;
+      },
+      update: (input: Row) => {
+        mode = 'update';
+        values = [input];
+        return builder;
+      },
+      delete: () => {
+        mode = 'delete';
+        return builder;
+      },
+      eq: (column: string, value: any) => addFilter(column, 'eq', value),
+      neq: (column: string, value: any) => addFilter(column, 'neq', value),
+      gt: (column: string, value: any) => addFilter(column, 'gt', value),
+      gte: (column: string, value: any) => addFilter(column, 'gte', value),
+      lt: (column: string, value: any) => addFilter(column, 'lt', value),
+      lte: (column: string, value: any) => addFilter(column, 'lte', value),
+      in: (column: string, value: any[]) => addFilter(column, 'in', value),
+      is: (column: string, value: any) => addFilter(column, 'is', value),
+      or: (filters: string) => {
+        conditions.push({ kind: 'or', conditions: parseLogic(filters) });
+        return builder;
+      },
+      order: (column: string, options: { ascending?: boolean } = {}) => {
+        orders.push({ column, ascending: options.ascending ?? true });
+        return builder;
+      },
+      limit: (count: number) => {
+        limitCount = count;
+        return builder;
+      },
+      single: () => {
+        expect = 'single';
+        return builder;
+      },
+      maybeSingle: () => {
+        expect = 'maybeSingle';
+        return builder;
+      },
+      // 型だけを差し替える
+      overrideTypes: () => builder,
+      then: (resolve: (value: any) => any, reject?: (reason: any) => any) =>
+        Promise.resolve().then(execute).then(resolve, reject),
+    };
+
+    return builder;
+  };
+
+  const session = () =>
+    currentUser ? { access_token: 'fake-token', user: currentUser } : null;
+
+  const setUser = (user: FakeUser | null, event: string) => {
+    currentUser = user;
+    authListeners.forEach(listener => listener(event, session()));
+  };
+
+  const auth = {
+    getUser: async () => ({ data: { user: currentUser }, error: null }),
+    getSession: async () => ({ data: { session: session() }, error: null }),
+    signInWithPassword: async ({ email }: { email: string }) => {
+      const profile = tableRows('profiles').find(p => p.email === email);
+
+      if (!profile) {
+        return {
+          data: { user: null, session: null },
+          error: { message: 'Invalid login credentials', status: 400 },
+        };
+      }
+
+      setUser({ id: profile.id, email }, 'SIGNED_IN');
+      return { data: { user: currentUser, session: session() }, error: null };
+    },
+    signOut: async () => {
+      setUser(null, 'SIGNED_OUT');
+      return { error: null };
+    },
+    onAuthStateChange: (callback: (event: string, session: any) => void) => {
+      authListeners.add(callback);
+      return {
+        data: { subscription: { unsubscribe: () => authListeners.delete(callback) } },
+      };
+    },
+  };
+
+  // 同じ名前のチャンネル同士で presence と broadcast を共有する
+  const sameChannels = (name: string) => channels.filter(existing => existing.name === name);
+
+  const syncPresence = (name: string) =>
+    sameChannels(name).forEach(existing => existing.syncListeners.forEach(listener => listener()));
+
+  const channel = (name: string, options: any = {}): FakeChannel => {
+    const created: FakeChannel = {
+      name,
+      listeners: [],
+      syncListeners: [],
+      broadcastListeners: [],
+      presenceKey: options.config?.presence?.key || `presence-${++sequence}`,
+      tracked: null,
+      on: (type, filter, callback) => {
+        if (type === 'postgres_changes') {
+          created.listeners.push({ ...filter, callback });
+        } else if (type === 'presence' && filter.event === 'sync') {
+          created.syncListeners.push(() => callback(undefined));
+        } else if (type === 'broadcast') {
+          created.broadcastListeners.push({ event: filter.event, callback });
+        }
+        return created;
+      },
+      subscribe: callback => {
+        if (!channels.includes(created)) channels.push(created);
+        callback?.('SUBSCRIBED');
+        return created;
+      },
+      unsubscribe: async () => {
+        const index = channels.indexOf(created);
+        if (index !== -1) channels.splice(index, 1);
+        if (created.tracked) {
+          created.tracked = null;
+          syncPresence(name);
+        }
+        return 'ok';
+      },
+      track: async payload => {
+        created.tracked = payload;
+        syncPresence(name);
+        return 'ok';
+      },
+      untrack: async () => {
+        created.tracked = null;
+        syncPresence(name);
+        return 'ok';
+      },
+      presenceState: () =>
+        sameChannels(name).reduce<Record<string, Array<Record<string, unknown>>>>((state, existing) => {
+          if (existing.tracked) {
+            state[existing.presenceKey] = [...(state[existing.presenceKey] || []), existing.tracked];
+          }
+          return state;
+        }, {}),
+      // 既定の設定どおり、送った本人のチャンネルには届けない
+      send: async message => {
+        sameChannels(name)
+          .filter(existing => existing !== created)
+          .forEach(existing =>
+            existing.broadcastListeners
+              .filter(listener => listener.event === message.event)
+              .forEach(listener => listener.callback(message))
+          );
+        return 'ok';
+      },
+    };
+    return created;
+  };
+
+  const storage = {
+    from: (bucket: string) => ({
+      upload: async (
+        path: string,
+        body: unknown,
+        options: { upsert?: boolean; contentType?: string } = {}
+      ) => {
+        const objects = bucketObjects(bucket);
+
+        if (objects.has(path) && !options.upsert) {
+          return { data: null, error: { message: 'The resource already exists', statusCode: '409' } };
+        }
+
+        objects.set(path, { body, contentType: options.contentType || null });
+        return { data: { path }, error: null };
+      },
+      remove: async (paths: string[]) => {
+        const objects = bucketObjects(bucket);
+        const removed = paths.filter(path => objects.delete(path));
+        return { data: removed.map(name => ({ name })), error: null };
+      },
+      getPublicUrl: (path: string) => ({
+        data: { publicUrl: `https://storage.test/${bucket}/${path}` },
+      }),
+    }),
+  };
+
+  const rpc = async (name: string, args: Row = {}) => {
+    try {
+      if (!FUNCTIONS[name]) {
+        throw { message: `Could not find the function public.${name}`, code: 'PGRST202', details: null };
+      }
+
+      return { data: await FUNCTIONS[name]({ from, uid: currentUser?.id ?? null }, args), error: null };
+    } catch (error) {
+      return { data: null, error: error as FakeError };
+    }
+  };
+
+  const client = {
+    from,
+    rpc,
+    auth,
+    channel,
+    storage,
+    removeChannel: (target: FakeChannel) => target.unsubscribe(),
+  };
+
+  return {
+    client: client as unknown as AppSupabaseClient,
+    rows: table => tableRows(table).map(row => ({ ...row })),
+    seed: (table, rows) => {
+      const seeded = rows.map(row => withDefaults(table, row));
+      tableRows(table).push(...seeded);
+      return seeded;
+    },
+    signInAs: user => {
+      const next = typeof user === 'string' ? { id: user } : user;
+      setUser(next, next ? 'SIGNED_IN' : 'SIGNED_OUT');
+    },
+    channels: () => [...channels],
+    objects: bucket => new Map(bucketObjects(bucket)),
+  };
+};
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { getAppEnvironment, getSupabaseConfig } from '../../Scripts/config/supabaseConfig';
+
+const originalEnv = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+});
+
+describe('Supabase の接続先', () => {
+  it('APP_ENV で環境を選ぶ', () => {
+    process.env.APP_ENV = 'staging';
+    expect(getAppEnvironment()).toBe('staging');
+  });
+
+  it('不正な APP_ENV はエラーにする', () => {
+    process.env.APP_ENV = 'production';
+    expect(() => getAppEnvironment()).toThrow('APP_ENV');
+  });
+
+  it('local は環境変数がなくてもローカルの Supabase を使う', () => {
+    delete process.env.SUPABASE_URL;
+    delete process.env.SUPABASE_ANON_KEY;
+
+    expect(getSupabaseConfig('local')).toMatchObject({
+      environment: 'local',
+      url: 'http://127.0.0.1:54321',
+    });
+  });
+
+  it('local 以外は URL と anon キーが必須', () => {
+    process.env.SUPABASE_URL = 'https://staging.example.supabase.co';
+    delete process.env.SUPABASE_ANON_KEY;
+
+    expect(() => getSupabaseConfig('staging')).toThrow('SUPABASE_ANON_KEY');
+
+    process.env.SUPABASE_ANON_KEY = 'staging-anon-key';
+
+    expect(getSupabaseConfig('staging')).toEqual({
+      environment: 'staging',
+      url: 'https://staging.example.supabase.co',
+      anonKey: 'staging-anon-key',
+    });
+  });
+});
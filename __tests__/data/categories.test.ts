@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { setSupabaseClient } from '../../Scripts/supabaseClient';
+import {
+  fetchFollowedCategories,
+  followCategory,
+  unfollowCategory,
+} from '../../Scripts/data/categoryFollows';
+import { countCategoryMembers, saveUserComplex } from '../../Scripts/data/userComplexes';
+import { fetchFeedPosts } from '../../Scripts/data/posts';
+import { isUniqueViolation } from '../../Scripts/data/result';
+import { FakeSupabase, createFakeSupabase } from '../__support__/fakeSupabase';
+
+let fake: FakeSupabase;
+
+beforeEach(() => {
+  fake = createFakeSupabase();
+  setSupabaseClient(fake.client);
+
+  fake.seed('profiles', [
+    { id: 'alice', name: 'Alice' },
+    { id: 'bob', name: 'Bob' },
+  ]);
+});
+
+describe('カテゴリのフォロー', () => {
+  it('フォローしたカテゴリだけを返し、二重フォローは一意制約で失敗する', async () => {
+    await followCategory('alice', 'debt');
+    await followCategory('alice', 'loneliness');
+    await followCategory('bob', 'appearance');
+
+    const duplicate = await followCategory('alice', 'debt');
+    expect(isUniqueViolation(duplicate.error)).toBe(true);
+
+    await unfollowCategory('alice', 'loneliness');
+
+    const { data } = await fetchFollowedCategories('alice');
+    expect(data).toEqual(['debt']);
+  });
+
+  it('メンバー数はそのコンプレックスを登録しているユーザー数', async () => {
+    await saveUserComplex('alice', 'debt', 5);
+    await saveUserComplex('bob', 'debt', 2);
+    await saveUserComplex('bob', 'appearance', 4);
+
+    expect((await countCategoryMembers('debt')).data).toBe(2);
+    expect((await countCategoryMembers('housing')).data).toBe(0);
+  });
+});
+
+describe('カテゴリフィード', () => {
+  beforeEach(() => {
+    fake.seed('posts', [
+      { id: 'p1', user_id: 'bob', content: '借金と孤独', created_at: '2024-01-01T00:00:01Z' },
+      { id: 'p2', user_id: 'bob', content: '容姿', created_at: '2024-01-01T00:00:02Z' },
+      { id: 'p3', user_id: 'bob', content: '孤独', created_at: '2024-01-01T00:00:03Z' },
+    ]);
+    fake.seed('post_complexes', [
+      { post_id: 'p1', category: 'debt' },
+      { post_id: 'p1', category: 'loneliness' },
+      { post_id: 'p2', category: 'appearance' },
+      { post_id: 'p3', category: 'loneliness' },
+    ]);
+  });
+
+  it('いずれかのカテゴリが付いた投稿を新しい順に1回ずつ返す', async () => {
+    const { data } = await fetchFeedPosts({ categories: ['debt', 'loneliness'] });
+
+    expect(data?.map(post => post.id)).toEqual(['p3', 'p1']);
+  });
+
+  it('フォロー中のカテゴリがなければ問い合わせずに空を返す', async () => {
+    const { data, error } = await fetchFeedPosts({ categories: [] });
+
+    expect(error).toBeNull();
+    expect(data).toEqual([]);
+  });
+});
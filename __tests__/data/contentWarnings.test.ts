@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { setSupabaseClient } from '../../Scripts/supabaseClient';
+import {
+  fetchCollapsedCategories,
+  getContentWarningReasons,
+  setCategoryCollapsed,
+  subscribeCollapsedCategories,
+} from '../../Scripts/data/contentWarnings';
+import { createPost, fetchFeedPosts } from '../../Scripts/data/posts';
+import { FakeSupabase, createFakeSupabase } from '../__support__/fakeSupabase';
+
+let fake: FakeSupabase;
+
+beforeEach(() => {
+  fake = createFakeSupabase();
+  setSupabaseClient(fake.client);
+
+  fake.seed('profiles', [
+    { id: 'alice', name: 'Alice' },
+    { id: 'bob', name: 'Bob' },
+  ]);
+});
+
+describe('注意書き', () => {
+  it('投稿者の注意書きを保存し、空白だけなら付けない', async () => {
+    await createPost({
+      userId: 'alice',
+      content: '通院の話',
+      categories: ['health'],
+      contentWarning: ' 病気の話を含みます ',
+    });
+    await createPost({ userId: 'alice', content: '雑談', categories: [], contentWarning: '  ' });
+
+    const { data: posts } = await fetchFeedPosts();
+    const warnings = new Map(posts?.map(post => [post.content, post.content_warning]));
+    expect(warnings.get('通院の話')).toBe('病気の話を含みます');
+    expect(warnings.get('雑談')).toBeNull();
+  });
+
+  it('注意書きと、閲覧者が折りたたむカテゴリを理由として返す', () => {
+    const post = {
+      content_warning: '病気の話を含みます',
+      post_complexes: [{ category: 'health' }, { category: 'loneliness' }, { category: 'job' }],
+    };
+
+    expect(getContentWarningReasons(post, new Set(['loneliness', 'debt']))).toEqual([
+      '病気の話を含みます',
+      '孤独',
+    ]);
+    expect(getContentWarningReasons({ ...post, content_warning: null }, new Set())).toEqual([]);
+  });
+});
+
+describe('折りたたむカテゴリの設定', () => {
+  it('ユーザーごとに保存し、変更を購読している画面に知らせる', async () => {
+    const changes: Array<[string, boolean]> = [];
+    const unsubscribe = subscribeCollapsedCategories(({ category, collapsed }) =>
+      changes.push([category, collapsed])
+    );
+
+    await setCategoryCollapsed('alice', 'health', true);
+    await setCategoryCollapsed('alice', 'past', true);
+    await setCategoryCollapsed('bob', 'loneliness', true);
+    await setCategoryCollapsed('alice', 'health', false);
+    unsubscribe();
+
+    expect((await fetchCollapsedCategories('alice')).data).toEqual(['past']);
+    expect((await fetchCollapsedCategories('bob')).data).toEqual(['loneliness']);
+    expect(changes).toEqual([
+      ['health', true],
+      ['past', true],
+      ['loneliness', true],
+      ['health', false],
+    ]);
+  });
+
+  it('同じカテゴリは重複して保存できず、変更も知らせない', async () => {
+    await setCategoryCollapsed('alice', 'health', true);
+
+    const changes: string[] = [];
+    const unsubscribe = subscribeCollapsedCategories(({ category }) => changes.push(category));
+    const duplicated = await setCategoryCollapsed('alice', 'health', true);
+    unsubscribe();
+
+    expect(duplicated.error?.code).toBe('23505');
+    expect(changes).toEqual([]);
+    expect(fake.rows('collapsed_categories')).toHaveLength(1);
+  });
+});
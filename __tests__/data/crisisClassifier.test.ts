@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { setSupabaseClient } from '../../Scripts/supabaseClient';
+import { DEFAULT_CRISIS_RULE_SET } from '../../Scripts/constants/crisisRules';
+import {
+  classifyCrisis,
+  getCrisisRuleVersion,
+  refreshCrisisRuleSet,
+  resetCrisisRuleSet,
+  setCrisisRuleSet,
+} from '../../Scripts/data/crisisClassifier';
+import { flagCrisisContent } from '../../Scripts/data/moderation';
+import { FakeSupabase, createFakeSupabase } from '../__support__/fakeSupabase';
+
+let fake: FakeSupabase;
+
+beforeEach(() => {
+  fake = createFakeSupabase();
+  setSupabaseClient(fake.client);
+
+  fake.seed('profiles', [{ id: 'alice', name: 'Alice' }]);
+});
+
+afterEach(() => {
+  resetCrisisRuleSet();
+});
+
+describe('危険な表現の判定', () => {
+  it.each([
+    ['もう死にたい', 'suicidal-ideation'],
+    ['消えたいって毎日思う', 'suicidal-ideation'],
+    ['生きてる意味がない', 'worthless-life'],
+    ['自殺の方法を調べた', 'suicide'],
+    ['またリスカしちゃった', 'self-harm'],
+    ['薬をODした', 'method'],
+  ])('「%s」は %s に一致する', (text, ruleId) => {
+    expect(classifyCrisis(text)?.ruleIds).toContain(ruleId);
+  });
+
+  it('全角・半角や空白を挟んだ書き方も検出する', () => {
+    expect(classifyCrisis('死 に た い')?.ruleIds).toEqual(['suicidal-ideation']);
+    expect(classifyCrisis('ＯＤしてしまった')?.ruleIds).toEqual(['method']);
+    expect(classifyCrisis('ﾘｽｶ')?.ruleIds).toEqual(['self-harm']);
+  });
+
+  it('関係のない文には反応しない', () => {
+    expect(classifyCrisis('借金が減ってきた。今日はいい日')).toBeNull();
+    expect(classifyCrisis('goodな気分')).toBeNull();
+    expect(classifyCrisis('わたしにたいして優しい')).toBeNull();
+  });
+
+  it('一致したルールセットの版を返す', () => {
+    expect(classifyCrisis('死にたい')?.version).toBe(DEFAULT_CRISIS_RULE_SET.version);
+  });
+});
+
+describe('ルールセットの更新', () => {
+  it('差し替えたルールで判定し、壊れたパターンは飛ばす', () => {
+    const installed = setCrisisRuleSet({
+      version: 5,
+      rules: [
+        { id: 'broken', pattern: '(' },
+        { id: 'custom', pattern: 'もう限界' },
+      ],
+    });
+
+    expect(installed).toBe(true);
+    expect(classifyCrisis('もう限界かも')).toEqual({ ruleIds: ['custom'], version: 5 });
+    expect(classifyCrisis('死にたい')).toBeNull();
+  });
+
+  it('使えるルールがなければ今のルールセットを使い続ける', () => {
+    expect(setCrisisRuleSet({ version: 9, rules: [{ id: 'broken', pattern: '[' }] })).toBe(false);
+    expect(getCrisisRuleVersion()).toBe(DEFAULT_CRISIS_RULE_SET.version);
+  });
+
+  it('サーバーに新しい版があれば取り込み、古い版は無視する', async () => {
+    fake.seed('crisis_rule_sets', [
+      { id: 'old', version: 0, rules: [{ id: 'old', pattern: '古い' }] },
+      { id: 'new', version: 2, rules: [{ id: 'new', pattern: 'しんどすぎる' }, { id: 42 }] },
+    ]);
+
+    const refreshed = await refreshCrisisRuleSet();
+
+    expect(refreshed.data).toBe(2);
+    expect(classifyCrisis('しんどすぎる')?.ruleIds).toEqual(['new']);
+  });
+
+  it('新しい版がなければ手元のルールのまま', async () => {
+    const refreshed = await refreshCrisisRuleSet();
+
+    expect(refreshed.data).toBe(DEFAULT_CRISIS_RULE_SET.version);
+    expect(classifyCrisis('死にたい')).not.toBeNull();
+  });
+});
+
+describe('モデレーター向けのフラグ', () => {
+  it('一致したルールと版を記録する', async () => {
+    const match = classifyCrisis('死にたい')!;
+
+    const flagged = await flagCrisisContent({
+      contentType: 'post',
+      contentId: 'post-1',
+      userId: 'alice',
+      match,
+    });
+
+    expect(flagged.error).toBeNull();
+    expect(fake.rows('moderation_flags')).toEqual([
+      expect.objectContaining({
+        content_type: 'post',
+        content_id: 'post-1',
+        user_id: 'alice',
+        reason: 'crisis',
+        matched_rules: ['suicidal-ideation'],
+        rule_version: DEFAULT_CRISIS_RULE_SET.version,
+        resolved_at: null,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,327 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { setSupabaseClient } from '../../Scripts/supabaseClient';
+import { fetchFeedPost, fetchFeedPosts } from '../../Scripts/data/posts';
+import { likePost, reactToPost, unlikePost } from '../../Scripts/data/likes';
+import { sharePost, unsharePost } from '../../Scripts/data/shares';
+import { applyReactionDelta } from '../../Scripts/data/useReactions';
+import { emptyReactionCounts } from '../../Scripts/constants/reactions';
+import { addBookmark, fetchBookmarks, removeBookmark } from '../../Scripts/data/bookmarks';
+import {
+  fetchFollowCounts,
+  fetchFollowingIds,
+  followUser,
+  unfollowUser,
+} from '../../Scripts/data/follows';
+import {
+  BLOCKED_ERROR_CODE,
+  blockUser,
+  fetchBlockRelationIds,
+  fetchBlockedIds,
+  fetchBlockedUsers,
+  fetchBlockerIds,
+  unblockUser,
+} from '../../Scripts/data/blocks';
+import { countUnreadNotifications, fetchNotifications } from '../../Scripts/data/notifications';
+import { fetchMutedIds, fetchMutedUsers, muteUser, unmuteUser } from '../../Scripts/data/mutes';
+import { UserRelationEvent, subscribeUserRelationEvents } from '../../Scripts/data/userRelationEvents';
+import { isUniqueViolation } from '../../Scripts/data/result';
+import { FakeSupabase, createFakeSupabase } from '../__support__/fakeSupabase';
+
+let fake: FakeSupabase;
+
+beforeEach(() => {
+  fake = createFakeSupabase();
+  setSupabaseClient(fake.client);
+
+  fake.seed('profiles', [
+    { id: 'alice', name: 'Alice', complex_level: 30 },
+    { id: 'bob', name: 'Bob' },
+    { id: 'carol', name: 'Carol' },
+  ]);
+  fake.seed('posts', [
+    { id: 'post-1', user_id: 'bob', content: '最初の投稿' },
+    { id: 'post-2', user_id: 'carol', content: '二番目の投稿' },
+  ]);
+});
+
+// ブロックはログイン中のユーザーとして行う
+const blockAs = async (blockerId: string, blockedId: string) => {
+  fake.signInAs(blockerId);
+  const result = await blockUser(blockedId);
+  fake.signInAs(null);
+  return result;
+};
+
+describe('いいね', () => {
+  it('件数と閲覧者のフラグに反映される', async () => {
+    const { error } = await likePost('post-1', 'alice');
+    expect(error).toBeNull();
+
+    const { data: post } = await fetchFeedPost('post-1', 'alice');
+    expect(post).toMatchObject({ likes_count: 1, is_liked: true });
+
+    const { data: asBob } = await fetchFeedPost('post-1', 'bob');
+    expect(asBob).toMatchObject({ likes_count: 1, is_liked: false });
+  });
+
+  it('同じ投稿への二重いいねは一意制約違反になる', async () => {
+    await likePost('post-1', 'alice');
+    const { data, error } = await likePost('post-1', 'alice');
+
+    expect(data).toBeNull();
+    expect(isUniqueViolation(error)).toBe(true);
+    expect(fake.rows('likes')).toHaveLength(1);
+  });
+
+  it('取り消すと件数と閲覧者のフラグが戻り、他のユーザーのいいねは残る', async () => {
+    await likePost('post-1', 'alice');
+    await likePost('post-1', 'bob');
+
+    const { error } = await unlikePost('post-1', 'alice');
+    expect(error).toBeNull();
+
+    const { data: post } = await fetchFeedPost('post-1', 'alice');
+    expect(post).toMatchObject({ likes_count: 1, is_liked: false });
+  });
+
+  it('リアクションの種類ごとの件数と閲覧者のリアクションを返し、種類を付け替えられる', async () => {
+    await reactToPost('post-1', 'alice', 'relate');
+    await reactToPost('post-1', 'bob', 'hug');
+    await likePost('post-1', 'carol');
+
+    const { data: post } = await fetchFeedPost('post-1', 'alice');
+    expect(post).toMatchObject({
+      likes_count: 3,
+      reaction_counts: { like: 1, relate: 1, cheer: 0, hug: 1 },
+      is_liked: true,
+      viewer_reaction: 'relate',
+    });
+
+    await reactToPost('post-1', 'alice', 'cheer');
+
+    const { data: changed } = await fetchFeedPost('post-1', 'alice');
+    expect(changed).toMatchObject({
+      likes_count: 3,
+      reaction_counts: { like: 1, relate: 0, cheer: 1, hug: 1 },
+      viewer_reaction: 'cheer',
+    });
+    expect(changed).not.toHaveProperty('cheer_reactions');
+  });
+
+  it('フィードは新しい順に投稿者のプロフィールを埋め込んで返す', async () => {
+    const { data } = await fetchFeedPosts({ viewerId: 'alice' });
+
+    expect(data?.map(post => post.id)).toEqual(['post-2', 'post-1']);
+    expect(data?.[0].profiles).toEqual({ name: 'Carol', avatar_url: null, complex_level: 0 });
+  });
+});
+
+describe('共有', () => {
+  it('共有を取り消すと件数と閲覧者のフラグが戻る', async () => {
+    await sharePost('post-1', 'alice');
+
+    const { data: shared } = await fetchFeedPost('post-1', 'alice');
+    expect(shared).toMatchObject({ shares_count: 1, is_shared: true });
+
+    await unsharePost('post-1', 'alice');
+
+    const { data: unshared } = await fetchFeedPost('post-1', 'alice');
+    expect(unshared).toMatchObject({ shares_count: 0, is_shared: false });
+  });
+});
+
+describe('リアクションの増減', () => {
+  const post = {
+    id: 'post-1',
+    likes_count: 2,
+    reaction_counts: { ...emptyReactionCounts(), like: 1, relate: 1 },
+    shares_count: 1,
+  };
+
+  it('種類ごとの件数・合計・重みに応じたエンゲージメントスコアを増減し、逆の操作で元に戻る', () => {
+    const hugged = applyReactionDelta({ ...post, engagement_score: 12 }, 'hug', 1);
+    expect(hugged).toMatchObject({
+      likes_count: 3,
+      reaction_counts: { like: 1, relate: 1, cheer: 0, hug: 1 },
+      engagement_score: 16,
+    });
+
+    const unshared = applyReactionDelta(hugged, 'share', -1);
+    expect(unshared).toMatchObject({ shares_count: 0, engagement_score: 11 });
+
+    const restored = applyReactionDelta(applyReactionDelta(unshared, 'share', 1), 'hug', -1);
+    expect(restored).toEqual({ ...post, engagement_score: 12 });
+  });
+
+  it('スコアを持たない投稿にはスコアを追加しない', () => {
+    expect(applyReactionDelta(post, 'share', 1)).toEqual({ ...post, shares_count: 2 });
+  });
+});
+
+describe('ブックマーク', () => {
+  it('追加した順の逆順で取得でき、削除できる', async () => {
+    await addBookmark('post-1', 'alice');
+    await addBookmark('post-2', 'alice');
+
+    const { data: bookmarks } = await fetchBookmarks('alice');
+    expect(bookmarks?.map(b => b.post_id)).toEqual(['post-2', 'post-1']);
+
+    const { data: post } = await fetchFeedPost('post-2', 'alice');
+    expect(post?.is_bookmarked).toBe(true);
+
+    const { error } = await removeBookmark('post-2', 'alice');
+    expect(error).toBeNull();
+
+    const { data: remaining } = await fetchBookmarks('alice');
+    expect(remaining?.map(b => b.post_id)).toEqual(['post-1']);
+  });
+});
+
+describe('フォロー', () => {
+  it('フォロー中のIDと件数を返し、解除できる', async () => {
+    await followUser('alice', 'bob');
+    await followUser('alice', 'carol');
+    await followUser('carol', 'alice');
+
+    expect((await fetchFollowingIds('alice')).data).toEqual(['bob', 'carol']);
+    expect((await fetchFollowCounts('alice')).data).toEqual({ followers: 1, following: 2 });
+
+    await unfollowUser('alice', 'bob');
+
+    expect((await fetchFollowingIds('alice')).data).toEqual(['carol']);
+    expect((await fetchFollowCounts('bob')).data).toEqual({ followers: 0, following: 0 });
+  });
+
+  it('フォロー中のユーザーの投稿だけに絞り込める', async () => {
+    await followUser('alice', 'bob');
+    const { data: followingIds } = await fetchFollowingIds('alice');
+
+    const { data } = await fetchFeedPosts({ viewerId: 'alice', userIds: followingIds || [] });
+    expect(data?.map(post => post.id)).toEqual(['post-1']);
+  });
+});
+
+describe('ブロック', () => {
+  it('ブロックしたユーザーのIDを返す', async () => {
+    const { error } = await blockAs('alice', 'bob');
+    expect(error).toBeNull();
+
+    expect((await fetchBlockedIds('alice')).data).toEqual(['bob']);
+    expect((await fetchBlockedIds('bob')).data).toEqual([]);
+  });
+
+  it('二重ブロックは一意制約違反になる', async () => {
+    await blockAs('alice', 'bob');
+    const { error } = await blockAs('alice', 'bob');
+
+    expect(isUniqueViolation(error)).toBe(true);
+  });
+
+  it('ブロック中のユーザーを新しい順に一覧でき、解除できる', async () => {
+    fake.seed('blocks', [
+      { blocker_id: 'alice', blocked_id: 'bob', created_at: '2026-01-01T00:00:00.000Z' },
+      { blocker_id: 'alice', blocked_id: 'carol', created_at: '2026-01-02T00:00:00.000Z' },
+    ]);
+
+    expect((await fetchBlockedUsers('alice')).data?.map(user => user.name)).toEqual(['Carol', 'Bob']);
+
+    await unblockUser('alice', 'carol');
+
+    expect((await fetchBlockedIds('alice')).data).toEqual(['bob']);
+  });
+
+  it('ブロックするとお互いのフォローが外れ、どちらからもフォローできなくなる', async () => {
+    await followUser('alice', 'bob');
+    await followUser('bob', 'alice');
+    await followUser('alice', 'carol');
+
+    await blockAs('alice', 'bob');
+
+    expect((await fetchFollowingIds('alice')).data).toEqual(['carol']);
+    expect((await fetchFollowingIds('bob')).data).toEqual([]);
+    expect((await followUser('alice', 'bob')).error?.code).toBe(BLOCKED_ERROR_CODE);
+    expect((await followUser('bob', 'alice')).error?.code).toBe(BLOCKED_ERROR_CODE);
+    expect(fake.rows('follows')).toHaveLength(1);
+  });
+
+  it('ログインしていなければブロックできず、フォローも残る', async () => {
+    await followUser('bob', 'alice');
+
+    const { error } = await blockUser('bob');
+
+    expect(error?.code).toBe('42501');
+    expect(fake.rows('blocks')).toEqual([]);
+    expect((await fetchFollowingIds('bob')).data).toEqual(['alice']);
+  });
+
+  it('ブロックされた側からもブロック関係の相手が分かる', async () => {
+    await blockAs('alice', 'bob');
+    await blockAs('carol', 'alice');
+
+    expect((await fetchBlockerIds('bob')).data).toEqual(['alice']);
+    expect((await fetchBlockRelationIds('alice')).data?.sort()).toEqual(['bob', 'carol']);
+  });
+
+  it('ブロック関係の相手からの通知は一覧にも未読数にも含めない', async () => {
+    fake.signInAs('alice');
+    fake.seed('notifications', [
+      { id: 'n1', user_id: 'alice', type: 'like', message: 'いいね', related_user_id: 'bob', is_read: false },
+      { id: 'n2', user_id: 'alice', type: 'like', message: 'いいね', related_user_id: 'carol', is_read: false },
+      { id: 'n3', user_id: 'alice', type: 'moderation_warning', message: '警告', related_user_id: null, is_read: false },
+    ]);
+
+    await blockAs('bob', 'alice');
+    fake.signInAs('alice');
+
+    expect((await fetchNotifications('alice')).data?.map(n => n.id).sort()).toEqual(['n2', 'n3']);
+    expect((await countUnreadNotifications('alice')).data).toBe(2);
+  });
+});
+
+describe('ミュート', () => {
+  it('フォロー関係を変えずにミュートでき、一覧と解除ができる', async () => {
+    await followUser('alice', 'bob');
+
+    await muteUser('alice', 'bob');
+
+    expect((await fetchMutedIds('alice')).data).toEqual(['bob']);
+    expect((await fetchMutedUsers('alice')).data).toEqual([
+      { id: 'bob', name: 'Bob', avatar_url: null, complex_level: 0 },
+    ]);
+    expect((await fetchFollowingIds('alice')).data).toEqual(['bob']);
+
+    await unmuteUser('alice', 'bob');
+
+    expect((await fetchMutedIds('alice')).data).toEqual([]);
+  });
+
+  it('ミュートした相手からの通知は一覧にも未読数にも含めない', async () => {
+    fake.signInAs('alice');
+    fake.seed('notifications', [
+      { id: 'n1', user_id: 'alice', type: 'like', message: 'いいね', related_user_id: 'bob', is_read: false },
+      { id: 'n2', user_id: 'alice', type: 'like', message: 'いいね', related_user_id: 'carol', is_read: false },
+    ]);
+
+    await muteUser('alice', 'bob');
+
+    expect((await fetchNotifications('alice')).data?.map(n => n.id)).toEqual(['n2']);
+    expect((await countUnreadNotifications('alice')).data).toBe(1);
+  });
+
+  it('ブロック・ミュートの変更を購読している画面に知らせ、失敗したときは知らせない', async () => {
+    const events: UserRelationEvent[] = [];
+    const unsubscribe = subscribeUserRelationEvents(event => events.push(event));
+
+    await muteUser('alice', 'bob');
+    await muteUser('alice', 'bob');
+    await blockAs('alice', 'carol');
+    await unblockUser('alice', 'carol');
+    unsubscribe();
+
+    expect(events).toEqual([
+      { type: 'muted', userId: 'bob' },
+      { type: 'blocked', userId: 'carol' },
+      { type: 'unblocked', userId: 'carol' },
+    ]);
+  });
+});
@@ -0,0 +1,341 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { setSupabaseClient } from '../../Scripts/supabaseClient';
+import {
+  Message,
+  confirmPendingMessage,
+  countUnreadMessages,
+  createPendingMessage,
+  fetchMessages,
+  markConversationRead,
+  mergeChatMessages,
+  sendMessage,
+  setMessageDelivery,
+  subscribeConversationMessages,
+} from '../../Scripts/data/messages';
+import {
+  DM_NOT_ALLOWED_ERROR_CODE,
+  acceptMessageRequest,
+  applyInboxMessage,
+  deleteMessageRequest,
+  fetchConversationIds,
+  fetchConversations,
+  findOrCreateConversation,
+  subscribeInbox,
+} from '../../Scripts/data/conversations';
+import { followUser } from '../../Scripts/data/follows';
+import { BLOCKED_ERROR_CODE, blockUser } from '../../Scripts/data/blocks';
+import { FakeSupabase, createFakeSupabase } from '../__support__/fakeSupabase';
+
+let fake: FakeSupabase;
+
+beforeEach(() => {
+  fake = createFakeSupabase();
+  setSupabaseClient(fake.client);
+
+  fake.seed('profiles', [
+    { id: 'alice', name: 'Alice' },
+    { id: 'bob', name: 'Bob' },
+    { id: 'carol', name: 'Carol' },
+  ]);
+  fake.seed('conversations', [{ id: 'conv-1', user1_id: 'alice', user2_id: 'bob' }]);
+});
+
+// ブロックはログイン中のユーザーとして行う
+const blockAs = async (blockerId: string, blockedId: string) => {
+  fake.signInAs(blockerId);
+  const result = await blockUser(blockedId);
+  fake.signInAs(null);
+  return result;
+};
+
+describe('DM', () => {
+  it('送信したメッセージを古い順に取得できる', async () => {
+    await sendMessage({ conversationId: 'conv-1', senderId: 'alice', content: 'こんにちは' });
+    await sendMessage({ conversationId: 'conv-1', senderId: 'bob', content: 'こんばんは' });
+
+    const { data, error } = await fetchMessages('conv-1');
+
+    expect(error).toBeNull();
+    expect(data?.map(message => message.content)).toEqual(['こんにちは', 'こんばんは']);
+    expect(data?.every(message => !message.is_read)).toBe(true);
+  });
+
+  it('相手から届いた未読だけを数え、既読にできる', async () => {
+    await sendMessage({ conversationId: 'conv-1', senderId: 'alice', content: '1' });
+    await sendMessage({ conversationId: 'conv-1', senderId: 'bob', content: '2' });
+    await sendMessage({ conversationId: 'conv-1', senderId: 'bob', content: '3' });
+
+    expect((await countUnreadMessages(['conv-1'], 'alice')).data).toBe(2);
+    expect((await countUnreadMessages(['conv-1'], 'bob')).data).toBe(1);
+
+    await markConversationRead('conv-1', 'alice');
+
+    expect((await countUnreadMessages(['conv-1'], 'alice')).data).toBe(0);
+    expect((await countUnreadMessages(['conv-1'], 'bob')).data).toBe(1);
+  });
+
+  it('会話一覧に相手のプロフィールと最後のメッセージを付ける', async () => {
+    await sendMessage({ conversationId: 'conv-1', senderId: 'bob', content: '最初' });
+    await sendMessage({ conversationId: 'conv-1', senderId: 'bob', content: '最後' });
+
+    const { data } = await fetchConversations('alice');
+
+    expect(data).toHaveLength(1);
+    expect(data?.[0].other_user).toMatchObject({ id: 'bob', name: 'Bob' });
+    expect(data?.[0].last_message?.content).toBe('最後');
+    expect(data?.[0].unread_count).toBe(2);
+  });
+
+  it('会話が増えても、一覧の取得に使う問い合わせの数は変わらない', async () => {
+    fake.seed('conversations', [{ id: 'conv-2', user1_id: 'alice', user2_id: 'carol' }]);
+    await sendMessage({ conversationId: 'conv-1', senderId: 'bob', content: 'ボブから' });
+    await sendMessage({ conversationId: 'conv-2', senderId: 'carol', content: 'キャロルから1' });
+    await sendMessage({ conversationId: 'conv-2', senderId: 'alice', content: 'アリスから' });
+    await sendMessage({ conversationId: 'conv-2', senderId: 'carol', content: 'キャロルから2' });
+
+    const from = jest.spyOn(fake.client, 'from');
+    const { data } = await fetchConversations('alice');
+    const requests = from.mock.calls.length;
+    from.mockRestore();
+
+    // 会話・ブロック・プロフィール・最後のメッセージ・未読
+    expect(requests).toBe(5);
+    const summaries = new Map(data?.map(conv => [conv.id, conv]));
+    expect(summaries.get('conv-1')).toMatchObject({
+      other_user: { id: 'bob', name: 'Bob' },
+      last_message: { content: 'ボブから' },
+      unread_count: 1,
+    });
+    expect(summaries.get('conv-2')).toMatchObject({
+      other_user: { id: 'carol', name: 'Carol' },
+      last_message: { content: 'キャロルから2' },
+      unread_count: 2,
+    });
+  });
+
+  it('どちらかがブロックすると会話が双方の一覧から消え、送信もできない', async () => {
+    await sendMessage({ conversationId: 'conv-1', senderId: 'bob', content: 'ブロック前' });
+
+    await blockAs('alice', 'bob');
+
+    expect((await fetchConversations('alice')).data).toEqual([]);
+    expect((await fetchConversations('bob')).data).toEqual([]);
+    expect((await sendMessage({ conversationId: 'conv-1', senderId: 'bob', content: 'ブロック後' })).error?.code)
+      .toBe(BLOCKED_ERROR_CODE);
+    expect((await sendMessage({ conversationId: 'conv-1', senderId: 'alice', content: 'ブロック後' })).error?.code)
+      .toBe(BLOCKED_ERROR_CODE);
+    expect(fake.rows('messages')).toHaveLength(1);
+  });
+
+  it('購読中のチャンネルに新着メッセージが届く', async () => {
+    const received: string[] = [];
+    const channel = fake.client
+      .channel('messages_changes')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: 'conversation_id=eq.conv-1' },
+        payload => {
+          received.push((payload.new as { content: string }).content);
+        }
+      )
+      .subscribe();
+
+    await sendMessage({ conversationId: 'conv-1', senderId: 'bob', content: 'リアルタイム' });
+    await channel.unsubscribe();
+    await sendMessage({ conversationId: 'conv-1', senderId: 'bob', content: '購読解除後' });
+
+    expect(received).toEqual(['リアルタイム']);
+  });
+});
+
+describe('DM を始める', () => {
+  it('既にある会話は、どちらの順で呼んでもそれを返す', async () => {
+    const fromAlice = await findOrCreateConversation('alice', 'bob');
+    const fromBob = await findOrCreateConversation('bob', 'alice');
+
+    expect(fromAlice.data?.id).toBe('conv-1');
+    expect(fromBob.data?.id).toBe('conv-1');
+    expect(fromBob.data?.other_user).toMatchObject({ id: 'alice', name: 'Alice' });
+    expect(fake.rows('conversations')).toHaveLength(1);
+  });
+
+  it('会話がなければ並びをそろえて1つだけ作る', async () => {
+    const first = await findOrCreateConversation('carol', 'alice');
+    const second = await findOrCreateConversation('alice', 'carol');
+
+    expect(first.error).toBeNull();
+    expect(second.data?.id).toBe(first.data?.id);
+    expect(first.data).toMatchObject({ user1_id: 'alice', user2_id: 'carol', last_message: null, unread_count: 0 });
+    expect(first.data?.other_user).toMatchObject({ id: 'alice' });
+    expect(fake.rows('conversations')).toHaveLength(2);
+  });
+
+  it('同じ並びの会話を重ねて作ると一意制約違反になる', async () => {
+    const { error } = await fake.client.from('conversations').insert({ user1_id: 'alice', user2_id: 'bob' });
+
+    expect(error).toEqual(expect.objectContaining({ code: '23505' }));
+  });
+
+  it('ブロックした・された相手や自分とは始められない', async () => {
+    await blockAs('carol', 'alice');
+
+    expect((await findOrCreateConversation('alice', 'carol')).error?.code).toBe(BLOCKED_ERROR_CODE);
+    expect((await findOrCreateConversation('carol', 'alice')).error?.code).toBe(BLOCKED_ERROR_CODE);
+    expect((await findOrCreateConversation('alice', 'alice')).error).not.toBeNull();
+    expect(fake.rows('conversations')).toHaveLength(1);
+  });
+});
+
+describe('メッセージリクエスト', () => {
+  it('フォローしていない人から始まった会話は、相手のリクエストに届く', async () => {
+    const { data: started } = await findOrCreateConversation('carol', 'alice');
+    await sendMessage({ conversationId: started!.id, senderId: 'carol', content: 'はじめまして' });
+
+    const { data: aliceInbox } = await fetchConversations('alice');
+    const { data: carolInbox } = await fetchConversations('carol');
+
+    expect(aliceInbox?.find(conv => conv.id === started!.id)?.request_status).toBe('incoming');
+    expect(carolInbox?.find(conv => conv.id === started!.id)?.request_status).toBe('outgoing');
+    expect((await fetchConversationIds('alice')).data).toEqual(['conv-1']);
+  });
+
+  it('相手がこちらをフォローしていれば、最初から通常の会話になる', async () => {
+    await followUser('alice', 'carol');
+
+    const { data: started } = await findOrCreateConversation('carol', 'alice');
+
+    expect(started?.request_status).toBe('accepted');
+  });
+
+  it('承認するまでは開いても既読にならず、承認すると既読になる', async () => {
+    const { data: started } = await findOrCreateConversation('carol', 'alice');
+    await sendMessage({ conversationId: started!.id, senderId: 'carol', content: 'はじめまして' });
+
+    await markConversationRead(started!.id, 'alice');
+    expect(fake.rows('messages').map(message => message.is_read)).toEqual([false]);
+
+    await acceptMessageRequest(started!.id, 'alice');
+    await markConversationRead(started!.id, 'alice');
+
+    expect(fake.rows('messages').map(message => message.is_read)).toEqual([true]);
+    expect((await fetchConversations('carol')).data?.find(conv => conv.id === started!.id)?.request_status)
+      .toBe('accepted');
+  });
+
+  it('送った側は自分のリクエストを承認できない', async () => {
+    const { data: started } = await findOrCreateConversation('carol', 'alice');
+
+    await acceptMessageRequest(started!.id, 'carol');
+
+    expect((await fetchConversations('alice')).data?.find(conv => conv.id === started!.id)?.request_status)
+      .toBe('incoming');
+  });
+
+  it('リクエストはメッセージごと削除できる', async () => {
+    const { data: started } = await findOrCreateConversation('carol', 'alice');
+    await sendMessage({ conversationId: started!.id, senderId: 'carol', content: 'はじめまして' });
+
+    const { error } = await deleteMessageRequest(started!.id);
+
+    expect(error).toBeNull();
+    expect(fake.rows('conversations').map(conv => conv.id)).toEqual(['conv-1']);
+    expect(fake.rows('messages')).toEqual([]);
+  });
+
+  it('DM の設定に合わない相手とは新しく始められない', async () => {
+    fake.seed('profiles', [
+      { id: 'dave', name: 'Dave', dm_policy: 'followers' },
+      { id: 'erin', name: 'Erin', dm_policy: 'nobody' },
+    ]);
+
+    expect((await findOrCreateConversation('alice', 'dave')).error?.code).toBe(DM_NOT_ALLOWED_ERROR_CODE);
+    expect((await findOrCreateConversation('alice', 'erin')).error?.code).toBe(DM_NOT_ALLOWED_ERROR_CODE);
+
+    await followUser('alice', 'dave');
+
+    expect((await findOrCreateConversation('alice', 'dave')).data?.request_status).toBe('outgoing');
+  });
+});
+
+describe('リアルタイムのチャット', () => {
+  const row = (overrides: Partial<Message>): Message => ({
+    id: 'messages-1',
+    conversation_id: 'conv-1',
+    sender_id: 'alice',
+    content: 'こんにちは',
+    is_read: false,
+    created_at: '2026-01-01T00:00:10.000Z',
+    ...overrides,
+  });
+
+  it('開いている会話の新着と既読の変化だけが届く', async () => {
+    fake.seed('conversations', [{ id: 'conv-2', user1_id: 'alice', user2_id: 'carol' }]);
+    const received: string[] = [];
+    const unsubscribe = subscribeConversationMessages('conv-1', message => {
+      received.push(`${message.content}:${message.is_read ? '既読' : '未読'}`);
+    });
+
+    await sendMessage({ conversationId: 'conv-1', senderId: 'bob', content: '届く' });
+    await sendMessage({ conversationId: 'conv-2', senderId: 'carol', content: '別の会話' });
+    await markConversationRead('conv-1', 'alice');
+    unsubscribe();
+    await sendMessage({ conversationId: 'conv-1', senderId: 'bob', content: '解除後' });
+
+    expect(received).toEqual(['届く:未読', '届く:既読']);
+  });
+
+  it('送信中のメッセージは、購読と送信の結果のどちらが先に届いても1つにまとまる', () => {
+    const pending = createPendingMessage({ conversationId: 'conv-1', senderId: 'alice', content: 'こんにちは' });
+    const sent = row({});
+
+    const viaSubscription = confirmPendingMessage(mergeChatMessages([pending], [sent]), pending.id, sent);
+    const viaResult = mergeChatMessages(confirmPendingMessage([pending], pending.id, sent), [sent]);
+
+    expect(viaSubscription).toEqual([{ ...sent, delivery: 'sent' }]);
+    expect(viaResult).toEqual([{ ...sent, delivery: 'sent' }]);
+  });
+
+  it('届いた行は送信済みのものを古い順に並べ、送信中・失敗したものはその後に置く', () => {
+    const pending = createPendingMessage({ conversationId: 'conv-1', senderId: 'alice', content: '送信中' });
+    const failed = setMessageDelivery([pending], pending.id, 'failed');
+
+    const merged = mergeChatMessages(failed, [
+      row({ id: 'm2', sender_id: 'bob', content: '後', created_at: '2026-01-01T00:00:20.000Z' }),
+      row({ id: 'm1', sender_id: 'bob', content: '先', created_at: '2026-01-01T00:00:10.000Z' }),
+    ]);
+
+    expect(merged.map(message => `${message.content}:${message.delivery}`))
+      .toEqual(['先:sent', '後:sent', '送信中:failed']);
+    expect(setMessageDelivery(merged, pending.id, 'pending')[2].delivery).toBe('pending');
+  });
+
+  it('受信箱は一覧にある会話の新着で、最後のメッセージと未読数を更新して先頭に移す', async () => {
+    fake.seed('profiles', [{ id: 'dave', name: 'Dave' }]);
+    fake.seed('conversations', [{ id: 'conv-2', user1_id: 'alice', user2_id: 'carol' }]);
+    let { data: conversations } = await fetchConversations('alice');
+    let created = 0;
+    const unsubscribe = subscribeInbox('alice', conversations!.map(conv => conv.id), {
+      onConversationCreated: () => {
+        created += 1;
+      },
+      onConversationUpdated: () => {},
+      onMessage: message => {
+        conversations = applyInboxMessage(conversations!, message, 'alice');
+      },
+    });
+
+    const last = conversations![conversations!.length - 1];
+    await sendMessage({ conversationId: last.id, senderId: last.other_user.id, content: '新着' });
+    await findOrCreateConversation('bob', 'carol');
+    await findOrCreateConversation('dave', 'alice');
+    unsubscribe();
+
+    expect(conversations![0]).toEqual(expect.objectContaining({
+      id: last.id,
+      unread_count: 1,
+      last_message: expect.objectContaining({ content: '新着' }),
+    }));
+    // 自分が加わっていない bob と carol の会話は届かない
+    expect(created).toBe(1);
+  });
+});
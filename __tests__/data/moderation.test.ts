@@ -0,0 +1,290 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { setSupabaseClient } from '../../Scripts/supabaseClient';
+import {
+  applyModerationAction,
+  fetchModerationLog,
+  fetchReportQueue,
+  isModerator,
+} from '../../Scripts/data/moderation';
+import { createPost, editPost, fetchFeedPosts } from '../../Scripts/data/posts';
+import { PostEvent, subscribePostEvents } from '../../Scripts/data/postEvents';
+import { createReply, editReply } from '../../Scripts/data/replies';
+import { sendMessage } from '../../Scripts/data/messages';
+import { SUSPENDED_ERROR_CODE } from '../../Scripts/data/suspensions';
+import { FakeSupabase, createFakeSupabase } from '../__support__/fakeSupabase';
+
+let fake: FakeSupabase;
+
+const NOW = new Date('2026-05-01T09:00:00.000Z');
+
+beforeEach(() => {
+  fake = createFakeSupabase();
+  setSupabaseClient(fake.client);
+
+  fake.seed('profiles', [
+    { id: 'mod', name: 'Mod', role: 'moderator' },
+    { id: 'alice', name: 'Alice' },
+    { id: 'bob', name: 'Bob' },
+    { id: 'carol', name: 'Carol' },
+  ]);
+  fake.seed('posts', [
+    { id: 'post-1', user_id: 'bob', content: '宣伝です', created_at: '2026-04-30T00:00:00.000Z' },
+    { id: 'post-2', user_id: 'alice', content: 'つらい', created_at: '2026-04-30T01:00:00.000Z' },
+  ]);
+  fake.seed('replies', [
+    { id: 'reply-1', post_id: 'post-2', user_id: 'bob', content: 'ひどい返信' },
+  ]);
+  fake.seed('conversations', [{ id: 'conv-1', user1_id: 'alice', user2_id: 'bob' }]);
+  fake.seed('messages', [
+    { id: 'msg-1', conversation_id: 'conv-1', sender_id: 'alice', content: 'こんにちは', created_at: '2026-04-30T02:00:00.000Z' },
+    { id: 'msg-2', conversation_id: 'conv-1', sender_id: 'bob', content: 'しつこいDM', created_at: '2026-04-30T03:00:00.000Z' },
+  ]);
+});
+
+const report = (id: string, reporterId: string, targetType: string, targetId: string, reason: string) => ({
+  id,
+  reporter_id: reporterId,
+  target_type: targetType,
+  target_id: targetId,
+  reason,
+  created_at: `2026-04-30T1${id.slice(-1)}:00:00.000Z`,
+});
+
+describe('モデレーター権限', () => {
+  it('profiles.role がモデレーターのときだけ true', async () => {
+    expect((await isModerator('mod')).data).toBe(true);
+    expect((await isModerator('alice')).data).toBe(false);
+  });
+});
+
+describe('通報の確認待ち一覧', () => {
+  it('対象ごとにまとめ、通報の多い順に内容と前後の文脈を付けて返す', async () => {
+    fake.seed('reports', [
+      report('r1', 'alice', 'message', 'msg-2', 'harassment'),
+      report('r2', 'alice', 'post', 'post-1', 'spam'),
+      report('r3', 'carol', 'post', 'post-1', 'spam'),
+      report('r4', 'carol', 'reply', 'reply-1', 'harassment'),
+      { ...report('r5', 'carol', 'user', 'bob', 'other'), resolved_at: NOW.toISOString() },
+    ]);
+
+    const { data: queue } = await fetchReportQueue();
+
+    expect(queue?.map(group => [group.target, group.reports.length])).toEqual([
+      [{ type: 'post', id: 'post-1' }, 2],
+      [{ type: 'message', id: 'msg-2' }, 1],
+      [{ type: 'reply', id: 'reply-1' }, 1],
+    ]);
+    expect(queue?.[0].content).toEqual(expect.objectContaining({
+      userId: 'bob',
+      authorName: 'Bob',
+      body: '宣伝です',
+      removed: false,
+    }));
+    expect(queue?.[1].content?.context).toEqual(['こんにちは']);
+    expect(queue?.[2].content?.context).toEqual(['つらい']);
+  });
+
+  it('危険な表現の検出も対象ごとにまとめ、通報より先に返す', async () => {
+    fake.seed('reports', [
+      report('r1', 'alice', 'post', 'post-1', 'spam'),
+      report('r2', 'carol', 'post', 'post-1', 'spam'),
+      report('r3', 'carol', 'post', 'post-2', 'self_harm'),
+    ]);
+    fake.seed('moderation_flags', [
+      { id: 'f1', content_type: 'post', content_id: 'post-2', user_id: 'alice', reason: 'crisis', matched_rules: ['suicide'], created_at: '2026-04-30T09:00:00.000Z' },
+      { id: 'f2', content_type: 'message', content_id: 'msg-1', user_id: 'alice', reason: 'crisis', matched_rules: ['suicide'], created_at: '2026-04-30T08:00:00.000Z' },
+    ]);
+
+    const { data: queue } = await fetchReportQueue();
+
+    expect(queue?.map(group => [group.target, group.reports.length, group.flags.length])).toEqual([
+      [{ type: 'post', id: 'post-2' }, 1, 1],
+      [{ type: 'message', id: 'msg-1' }, 0, 1],
+      [{ type: 'post', id: 'post-1' }, 2, 0],
+    ]);
+    expect(queue?.[1].content?.body).toBe('こんにちは');
+
+    const applied = await applyModerationAction({
+      moderatorId: 'mod',
+      action: 'delete',
+      target: { type: 'message', id: 'msg-1' },
+      subjectUserId: 'alice',
+      now: NOW,
+    });
+
+    expect(applied.error).toBeNull();
+    expect(fake.rows('moderation_flags').find(row => row.id === 'f2')?.resolved_at).toBe(NOW.toISOString());
+    expect((await fetchReportQueue()).data?.map(group => group.target.id)).toEqual(['post-2', 'post-1']);
+  });
+
+  it('削除済みの対象は内容なしで返す', async () => {
+    fake.seed('reports', [report('r1', 'alice', 'post', 'missing', 'spam')]);
+
+    const { data: queue } = await fetchReportQueue();
+
+    expect(queue?.[0].content).toBeNull();
+  });
+});
+
+describe('通報への対応', () => {
+  beforeEach(() => {
+    fake.signInAs('mod');
+    fake.seed('reports', [
+      report('r1', 'alice', 'post', 'post-1', 'spam'),
+      report('r2', 'carol', 'post', 'post-1', 'spam'),
+      report('r3', 'alice', 'reply', 'reply-1', 'harassment'),
+    ]);
+  });
+
+  it('投稿を非表示にするとフィードから消え、対象の通報が対応済みになり、監査ログに残る', async () => {
+    const events: PostEvent[] = [];
+    const unsubscribe = subscribePostEvents(event => events.push(event));
+
+    const applied = await applyModerationAction({
+      moderatorId: 'mod',
+      action: 'hide',
+      target: { type: 'post', id: 'post-1' },
+      subjectUserId: 'bob',
+      note: ' スパム ',
+      now: NOW,
+    });
+    unsubscribe();
+
+    expect(applied.error).toBeNull();
+    expect(events).toEqual([{ type: 'deleted', postId: 'post-1' }]);
+    expect((await fetchFeedPosts()).data?.map(post => post.id)).toEqual(['post-2']);
+    expect(fake.rows('reports').filter(row => row.resolved_by === 'mod').map(row => row.id)).toEqual(['r1', 'r2']);
+    expect((await fetchModerationLog(10)).data).toEqual([
+      expect.objectContaining({
+        moderator_id: 'mod',
+        action: 'hide',
+        target_type: 'post',
+        target_id: 'post-1',
+        subject_user_id: 'bob',
+        note: 'スパム',
+      }),
+    ]);
+    expect((await fetchReportQueue()).data?.map(group => group.target.id)).toEqual(['reply-1']);
+  });
+
+  it('投稿以外は非表示にできず、同じ ID の投稿にも触れない', async () => {
+    fake.seed('posts', [{ id: 'reply-1', user_id: 'carol', content: '同じ ID の投稿' }]);
+
+    const applied = await applyModerationAction({
+      moderatorId: 'mod',
+      action: 'hide',
+      target: { type: 'reply', id: 'reply-1' },
+      subjectUserId: 'bob',
+      now: NOW,
+    });
+
+    expect(applied.error).not.toBeNull();
+    expect(fake.rows('posts').find(post => post.id === 'reply-1')?.hidden_at ?? null).toBeNull();
+    expect(fake.rows('reports').find(row => row.id === 'r3')?.resolved_at ?? null).toBeNull();
+  });
+
+  it('モデレーター以外の非表示・一時停止は失敗し、通報も監査ログも残したままにする', async () => {
+    fake.signInAs('alice');
+
+    const hidden = await applyModerationAction({
+      moderatorId: 'alice',
+      action: 'hide',
+      target: { type: 'post', id: 'post-1' },
+      subjectUserId: 'bob',
+    });
+    const suspended = await applyModerationAction({
+      moderatorId: 'alice',
+      action: 'suspend',
+      target: { type: 'post', id: 'post-1' },
+      subjectUserId: 'bob',
+      suspendDays: 3,
+    });
+
+    expect([hidden.error?.code, suspended.error?.code]).toEqual(['42501', '42501']);
+    expect(fake.rows('posts').find(post => post.id === 'post-1')?.hidden_at).toBeNull();
+    expect(fake.rows('profiles').find(profile => profile.id === 'bob')?.suspended_until).toBeNull();
+    expect(fake.rows('reports').every(row => row.resolved_at === null)).toBe(true);
+    expect(fake.rows('moderation_actions')).toEqual([]);
+  });
+
+  it('対象が見つからない削除は失敗として返し、通報を対応済みにしない', async () => {
+    fake.seed('reports', [report('r4', 'alice', 'reply', 'missing', 'spam')]);
+
+    const applied = await applyModerationAction({
+      moderatorId: 'mod',
+      action: 'delete',
+      target: { type: 'reply', id: 'missing' },
+      subjectUserId: 'bob',
+    });
+
+    expect(applied.error).not.toBeNull();
+    expect(fake.rows('reports').find(row => row.id === 'r4')?.resolved_at).toBeNull();
+    expect(fake.rows('moderation_actions')).toEqual([]);
+  });
+
+  it('リプライの削除は本文を消して削除済みにする', async () => {
+    await applyModerationAction({
+      moderatorId: 'mod',
+      action: 'delete',
+      target: { type: 'reply', id: 'reply-1' },
+      subjectUserId: 'bob',
+    });
+
+    expect(fake.rows('replies')).toEqual([
+      expect.objectContaining({ id: 'reply-1', content: '', deleted_at: expect.any(String) }),
+    ]);
+  });
+
+  it('警告は本人への通知として届く', async () => {
+    await applyModerationAction({
+      moderatorId: 'mod',
+      action: 'warn',
+      target: { type: 'reply', id: 'reply-1' },
+      subjectUserId: 'bob',
+      note: '言葉遣いに気をつけてください',
+    });
+
+    expect(fake.rows('notifications')).toEqual([
+      expect.objectContaining({
+        user_id: 'bob',
+        type: 'moderation_warning',
+        message: expect.stringContaining('言葉遣いに気をつけてください'),
+      }),
+    ]);
+  });
+
+  it('一時停止中のユーザーは投稿・リプライ・DM を送れない', async () => {
+    await applyModerationAction({
+      moderatorId: 'mod',
+      action: 'suspend',
+      target: { type: 'post', id: 'post-1' },
+      subjectUserId: 'bob',
+      suspendDays: 3,
+    });
+
+    const posted = await createPost({ userId: 'bob', content: 'また宣伝', categories: [] });
+    const replied = await createReply({ postId: 'post-2', userId: 'bob', content: 'また返信' });
+    const sent = await sendMessage({ conversationId: 'conv-1', senderId: 'bob', content: 'またDM' });
+    const editedPost = await editPost({ postId: 'post-1', userId: 'bob', content: '書き換えた宣伝' });
+    const editedReply = await editReply({ replyId: 'reply-1', userId: 'bob', content: '書き換えた返信' });
+
+    expect([posted, replied, sent, editedPost, editedReply].map(result => result.error?.code)).toEqual([
+      SUSPENDED_ERROR_CODE,
+      SUSPENDED_ERROR_CODE,
+      SUSPENDED_ERROR_CODE,
+      SUSPENDED_ERROR_CODE,
+      SUSPENDED_ERROR_CODE,
+    ]);
+    expect(fake.rows('posts').find(post => post.id === 'post-1')?.content).toBe('宣伝です');
+    expect(fake.rows('moderation_actions')).toEqual([
+      expect.objectContaining({ action: 'suspend', note: '3日間' }),
+    ]);
+    expect((await createPost({ userId: 'alice', content: '元気です', categories: [] })).error).toBeNull();
+  });
+
+  it('停止期限を過ぎれば再び投稿できる', async () => {
+    fake.seed('profiles', [{ id: 'dave', name: 'Dave', suspended_until: '2020-01-01T00:00:00.000Z' }]);
+
+    expect((await createPost({ userId: 'dave', content: '戻ってきました', categories: [] })).error).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { setSupabaseClient } from '../../Scripts/supabaseClient';
+import {
+  MutedWord,
+  MutedWordEvent,
+  addMutedWord,
+  compileMutedWords,
+  fetchMutedWords,
+  matchesMutedWords,
+  normalizeMutedWordText,
+  removeMutedWord,
+  subscribeMutedWords,
+} from '../../Scripts/data/mutedWords';
+import { FakeSupabase, createFakeSupabase } from '../__support__/fakeSupabase';
+
+let fake: FakeSupabase;
+
+const NOW = new Date('2026-05-01T09:00:00.000Z');
+
+beforeEach(() => {
+  fake = createFakeSupabase();
+  setSupabaseClient(fake.client);
+
+  fake.seed('profiles', [{ id: 'alice', name: 'Alice' }]);
+});
+
+const word = (overrides: Partial<MutedWord>): MutedWord => ({
+  id: 'w1',
+  user_id: 'alice',
+  pattern: 'ネタバレ',
+  is_regex: false,
+  scopes: ['posts', 'replies', 'notifications'],
+  expires_at: null,
+  created_at: '2026-04-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('ミュートワードの一致判定', () => {
+  it('全角・半角、ひらがな・カタカナ、大文字・小文字の違いを区別しない', () => {
+    const matcher = compileMutedWords([
+      word({ id: 'w1', pattern: 'ネタバレ' }),
+      word({ id: 'w2', pattern: 'ＡＢＣ' }),
+    ], NOW);
+
+    expect(matchesMutedWords(matcher, ['今日のねたばれです'], 'posts')).toBe(true);
+    expect(matchesMutedWords(matcher, ['ﾈﾀﾊﾞﾚ注意'], 'posts')).toBe(true);
+    expect(matchesMutedWords(matcher, ['abcの話'], 'posts')).toBe(true);
+    expect(matchesMutedWords(matcher, ['関係ない話'], 'posts')).toBe(false);
+    expect(normalizeMutedWordText('ﾈﾀﾊﾞﾚＡＢＣ')).toBe('ねたばれabc');
+  });
+
+  it('正規表現のワードも同じようにそろえて当てはめる', () => {
+    const matcher = compileMutedWords([word({ pattern: '第\\d+話', is_regex: true })], NOW);
+
+    expect(matchesMutedWords(matcher, ['第１２話の感想'], 'posts')).toBe(true);
+    expect(matchesMutedWords(matcher, ['第二話の感想'], 'posts')).toBe(false);
+  });
+
+  it('ワードの場所に含まれないものや、期限切れのワードには一致しない', () => {
+    const matcher = compileMutedWords([
+      word({ id: 'w1', pattern: '試験', scopes: ['notifications'] }),
+      word({ id: 'w2', pattern: '就活', expires_at: '2026-04-30T00:00:00.000Z' }),
+    ], NOW);
+
+    expect(matchesMutedWords(matcher, ['試験がつらい'], 'posts')).toBe(false);
+    expect(matchesMutedWords(matcher, ['試験がつらい'], 'notifications')).toBe(true);
+    expect(matchesMutedWords(matcher, ['就活がつらい'], 'posts')).toBe(false);
+  });
+
+  it('正規表現の記号を含む普通のワードは文字どおりに一致させる', () => {
+    const matcher = compileMutedWords([word({ pattern: '(笑)' })], NOW);
+
+    expect(matchesMutedWords(matcher, ['それな(笑)'], 'posts')).toBe(true);
+    expect(matchesMutedWords(matcher, ['笑'], 'posts')).toBe(false);
+  });
+});
+
+describe('ミュートワードの保存', () => {
+  it('期限付きで追加でき、期限切れのワードは一覧に出さない', async () => {
+    const added = await addMutedWord({
+      userId: 'alice',
+      pattern: ' ネタバレ ',
+      isRegex: false,
+      scopes: ['posts'],
+      expiresInDays: 7,
+      now: NOW,
+    });
+
+    expect(added.data).toEqual(expect.objectContaining({
+      pattern: 'ネタバレ',
+      scopes: ['posts'],
+      expires_at: '2026-05-08T09:00:00.000Z',
+    }));
+    expect((await fetchMutedWords('alice', NOW)).data).toHaveLength(1);
+    expect((await fetchMutedWords('alice', new Date('2026-05-09T00:00:00.000Z'))).data).toEqual([]);
+  });
+
+  it('壊れた正規表現や場所のないワードは保存しない', async () => {
+    const badRegex = await addMutedWord({
+      userId: 'alice',
+      pattern: '([',
+      isRegex: true,
+      scopes: ['posts'],
+      expiresInDays: null,
+    });
+    const noScope = await addMutedWord({
+      userId: 'alice',
+      pattern: 'ネタバレ',
+      isRegex: false,
+      scopes: [],
+      expiresInDays: null,
+    });
+
+    expect(badRegex.error?.message).toBe('正規表現の書き方が正しくありません');
+    expect(noScope.error).not.toBeNull();
+    expect(fake.rows('muted_words')).toEqual([]);
+  });
+
+  it('追加・削除を購読している画面に知らせる', async () => {
+    const events: MutedWordEvent['type'][] = [];
+    const unsubscribe = subscribeMutedWords(event => events.push(event.type));
+
+    const { data } = await addMutedWord({
+      userId: 'alice',
+      pattern: 'ネタバレ',
+      isRegex: false,
+      scopes: ['posts'],
+      expiresInDays: null,
+    });
+    await removeMutedWord(data!.id);
+    unsubscribe();
+
+    expect(events).toEqual(['added', 'removed']);
+    expect(fake.rows('muted_words')).toEqual([]);
+  });
+});
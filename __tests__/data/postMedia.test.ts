@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { setSupabaseClient } from '../../Scripts/supabaseClient';
+import { stripImageMetadata } from '../../Scripts/data/imageMetadata';
+import { POST_MEDIA_BUCKET, PreparedImage } from '../../Scripts/data/postMedia';
+import { createPost, deletePost, fetchFeedPosts } from '../../Scripts/data/posts';
+import { FakeSupabase, createFakeSupabase } from '../__support__/fakeSupabase';
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+const segment = (marker: number, payload: number[]) => {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+};
+
+// 向きと GPS の IFD を持つリトルエンディアンの EXIF
+const exifSegment = (orientation: number) => segment(0xe1, [
+  ...ascii('Exif\0\0'),
+  0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00,
+  0x02, 0x00,
+  0x12, 0x01, 0x03, 0x00, 0x01, 0x00, 0x00, 0x00, orientation, 0x00, 0x00, 0x00,
+  0x25, 0x88, 0x04, 0x00, 0x01, 0x00, 0x00, 0x00, 0x26, 0x00, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00,
+  ...ascii('GPS 35.6812,139.7671'),
+]);
+
+const jfif = segment(0xe0, ascii('JFIF\0\x01\x01'));
+const dqt = segment(0xdb, [0x00, 1, 2, 3, 4]);
+const icc = segment(0xe2, [...ascii('ICC_PROFILE\0'), 1, 1, 9, 9]);
+const comment = segment(0xfe, ascii('Shot on my phone'));
+const scan = [0xff, 0xda, 0x00, 0x02, 0x11, 0x22, 0x33, 0xff, 0xd9];
+
+const jpeg = (...segments: number[][]) =>
+  new Uint8Array([0xff, 0xd8, ...segments.flat(), ...scan]);
+
+const chunk = (type: string, data: number[]) => [
+  0x00, 0x00, 0x00, data.length, ...ascii(type), ...data, 0xde, 0xad, 0xbe, 0xef,
+];
+
+const pngSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const ihdr = chunk('IHDR', [0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]);
+const idat = chunk('IDAT', [1, 2, 3]);
+const iend = chunk('IEND', []);
+
+const includes = (bytes: Uint8Array, text: string) =>
+  Buffer.from(bytes).includes(Buffer.from(text, 'latin1'));
+
+describe('画像のメタデータ除去', () => {
+  it('JPEG から EXIF とコメントを取り除き、画素データと ICC プロファイルは残す', () => {
+    const stripped = stripImageMetadata(jpeg(jfif, exifSegment(1), icc, comment, dqt));
+
+    expect(stripped?.contentType).toBe('image/jpeg');
+    expect(Array.from(stripped!.bytes)).toEqual([0xff, 0xd8, ...jfif, ...icc, ...dqt, ...scan]);
+  });
+
+  it('GPS を消しても向きの情報だけは残す', () => {
+    const stripped = stripImageMetadata(jpeg(jfif, exifSegment(6), dqt));
+    const bytes = stripped!.bytes;
+
+    expect(includes(bytes, 'GPS')).toBe(false);
+    expect(includes(bytes, 'Exif\0\0')).toBe(true);
+    expect(stripImageMetadata(bytes)?.bytes).toEqual(bytes);
+    expect(Array.from(bytes.subarray(bytes.length - scan.length))).toEqual(scan);
+  });
+
+  it('PNG からテキストや EXIF のチャンクを取り除く', () => {
+    const png = new Uint8Array([
+      ...pngSignature,
+      ...ihdr,
+      ...chunk('tEXt', ascii('Location\0Tokyo')),
+      ...chunk('eXIf', [0x4d, 0x4d, 0x00, 0x2a]),
+      ...idat,
+      ...iend,
+    ]);
+
+    const stripped = stripImageMetadata(png);
+
+    expect(stripped?.contentType).toBe('image/png');
+    expect(Array.from(stripped!.bytes)).toEqual([...pngSignature, ...ihdr, ...idat, ...iend]);
+  });
+
+  it('JPEG・PNG 以外や壊れた画像は null を返す', () => {
+    expect(stripImageMetadata(new Uint8Array(ascii('GIF89a')))).toBeNull();
+    expect(stripImageMetadata(new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0x10, 0x00]))).toBeNull();
+    expect(stripImageMetadata(new Uint8Array([...pngSignature, ...ihdr]))).toBeNull();
+  });
+});
+
+let fake: FakeSupabase;
+
+const image = (name: string): PreparedImage => ({
+  uri: `file:///${name}.jpg`,
+  bytes: jpeg(jfif, dqt),
+  contentType: 'image/jpeg',
+  width: 1200,
+  height: 900,
+});
+
+beforeEach(() => {
+  fake = createFakeSupabase();
+  setSupabaseClient(fake.client);
+
+  fake.seed('profiles', [{ id: 'alice', name: 'Alice' }]);
+});
+
+describe('画像付きの投稿', () => {
+  it('画像をアップロードし、並び順どおりにフィードへ埋め込む', async () => {
+    const created = await createPost({
+      userId: 'alice',
+      content: '写真',
+      categories: [],
+      images: [image('a'), image('b'), image('c')],
+    });
+    const postId = created.data!.id;
+
+    expect(created.error).toBeNull();
+    expect(Array.from(fake.objects(POST_MEDIA_BUCKET).keys())).toEqual([
+      `${postId}/0.jpg`,
+      `${postId}/1.jpg`,
+      `${postId}/2.jpg`,
+    ]);
+
+    const feed = await fetchFeedPosts({ viewerId: 'alice' });
+    expect(feed.data?.[0].post_media).toEqual([0, 1, 2].map(position => ({
+      url: `https://storage.test/${POST_MEDIA_BUCKET}/${postId}/${position}.jpg`,
+      width: 1200,
+      height: 900,
+      position,
+    })));
+  });
+
+  it('5枚以上は投稿できず、投稿も残らない', async () => {
+    const created = await createPost({
+      userId: 'alice',
+      content: '多すぎる',
+      categories: [],
+      images: ['a', 'b', 'c', 'd', 'e'].map(image),
+    });
+
+    expect(created.error).not.toBeNull();
+    expect(fake.rows('posts')).toEqual([]);
+    expect(fake.objects(POST_MEDIA_BUCKET).size).toBe(0);
+  });
+
+  it('投稿を削除すると画像ファイルも消える', async () => {
+    const created = await createPost({
+      userId: 'alice',
+      content: '写真',
+      categories: [],
+      images: [image('a')],
+    });
+
+    const deleted = await deletePost(created.data!.id, 'alice');
+
+    expect(deleted.error).toBeNull();
+    expect(fake.rows('post_media')).toEqual([]);
+    expect(fake.objects(POST_MEDIA_BUCKET).size).toBe(0);
+  });
+});
@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { setSupabaseClient } from '../../Scripts/supabaseClient';
+import { createAnonymousName } from '../../Scripts/constants/anonymous';
+import {
+  createPost,
+  deletePost,
+  editPost,
+  fetchFeedPosts,
+  fetchPostEdits,
+} from '../../Scripts/data/posts';
+import { PostEvent, applyPostEvent, subscribePostEvents } from '../../Scripts/data/postEvents';
+import { likePost } from '../../Scripts/data/likes';
+import { addBookmark } from '../../Scripts/data/bookmarks';
+import { createReply, fetchReplies } from '../../Scripts/data/replies';
+import { fetchNotifications } from '../../Scripts/data/notifications';
+import { FakeSupabase, createFakeSupabase } from '../__support__/fakeSupabase';
+
+let fake: FakeSupabase;
+
+beforeEach(() => {
+  fake = createFakeSupabase();
+  setSupabaseClient(fake.client);
+
+  fake.seed('profiles', [
+    { id: 'alice', name: 'Alice', avatar_url: 'https://example.com/alice.png', complex_level: 7 },
+    { id: 'bob', name: 'Bob' },
+  ]);
+  fake.seed('posts', [
+    { id: 'post-1', user_id: 'alice', content: '元の投稿' },
+    { id: 'post-2', user_id: 'bob', content: 'ボブの投稿' },
+  ]);
+});
+
+describe('投稿の編集', () => {
+  it('編集前の本文を履歴に残し、編集イベントを通知する', async () => {
+    const events: PostEvent[] = [];
+    const unsubscribe = subscribePostEvents(event => events.push(event));
+
+    const edited = await editPost({ postId: 'post-1', userId: 'alice', content: '編集後' });
+    unsubscribe();
+
+    expect(edited.error).toBeNull();
+    expect(edited.data?.edited_at).not.toBeNull();
+    expect(events).toEqual([{ type: 'edited', post: edited.data }]);
+
+    const edits = await fetchPostEdits('post-1');
+    expect(edits.data?.map(edit => edit.content)).toEqual(['元の投稿']);
+  });
+
+  it('他人の投稿は編集できない', async () => {
+    const edited = await editPost({ postId: 'post-2', userId: 'alice', content: '書き換え' });
+
+    expect(edited.error).not.toBeNull();
+    expect(fake.rows('post_edits')).toEqual([]);
+  });
+});
+
+describe('投稿の削除', () => {
+  it('いいね・ブックマーク・リプライもまとめて削除される', async () => {
+    await likePost('post-1', 'bob');
+    await addBookmark('post-1', 'bob');
+    await createReply({ postId: 'post-1', userId: 'bob', content: '返信' });
+
+    const deleted = await deletePost('post-1', 'alice');
+
+    expect(deleted.error).toBeNull();
+    expect(fake.rows('posts').map(post => post.id)).toEqual(['post-2']);
+    expect(fake.rows('likes')).toEqual([]);
+    expect(fake.rows('bookmarks')).toEqual([]);
+    expect(fake.rows('replies')).toEqual([]);
+  });
+
+  it('他人の投稿は削除できず、イベントも通知しない', async () => {
+    const events: PostEvent[] = [];
+    const unsubscribe = subscribePostEvents(event => events.push(event));
+
+    const deleted = await deletePost('post-2', 'alice');
+    unsubscribe();
+
+    expect(deleted.error?.code).toBe('PGRST116');
+    expect(events).toEqual([]);
+    expect(fake.rows('posts')).toHaveLength(2);
+  });
+
+  it('通知されたイベントを一覧に反映する', async () => {
+    const { data: posts } = await fetchFeedPosts();
+    const { data: post } = await editPost({ postId: 'post-1', userId: 'alice', content: '編集後' });
+
+    const edited = applyPostEvent(posts!, { type: 'edited', post: post! });
+    expect(edited.find(post => post.id === 'post-1')).toMatchObject({
+      content: '編集後',
+      edited_at: post!.edited_at,
+    });
+
+    const deleted = applyPostEvent(edited, { type: 'deleted', postId: 'post-1' });
+    expect(deleted.map(post => post.id)).toEqual(['post-2']);
+  });
+});
+
+describe('匿名投稿', () => {
+  const createAnonymousPost = async () => {
+    const { data } = await createPost({
+      userId: 'alice',
+      content: '誰にも言えない借金の話',
+      categories: [],
+      anonymous: true,
+    });
+    return data!;
+  };
+
+  it('投稿者の user_id は保存し、一覧では仮名と汎用アバターで表示する', async () => {
+    const created = await createAnonymousPost();
+
+    expect(created.user_id).toBe('alice');
+    expect(created.is_anonymous).toBe(true);
+    expect(created.anonymous_name).toBeTruthy();
+
+    fake.signInAs('bob');
+    const { data: posts } = await fetchFeedPosts({ postIds: [created.id] });
+    expect(posts?.[0].profiles).toEqual({
+      name: created.anonymous_name,
+      avatar_url: null,
+      complex_level: 0,
+    });
+  });
+
+  it('他人には投稿者の user_id を返さず、投稿者本人にだけ返す', async () => {
+    const created = await createAnonymousPost();
+
+    fake.signInAs('bob');
+    expect((await fetchFeedPosts({ postIds: [created.id] })).data?.[0].user_id).toBeNull();
+
+    fake.signInAs('alice');
+    expect((await fetchFeedPosts({ postIds: [created.id] })).data?.[0].user_id).toBe('alice');
+  });
+
+  it('ユーザーで絞った一覧には他人の匿名投稿を含めない', async () => {
+    const created = await createAnonymousPost();
+
+    fake.signInAs('bob');
+    const following = await fetchFeedPosts({ viewerId: 'bob', userIds: ['alice', 'bob'] });
+    expect(following.data?.map(post => post.id)).toEqual(['post-2', 'post-1']);
+
+    fake.signInAs('alice');
+    const own = await fetchFeedPosts({ viewerId: 'alice', userIds: ['alice'] });
+    expect(own.data?.map(post => post.id)).toContain(created.id);
+  });
+
+  it('投稿者自身のリプライも仮名で表示し、user_id を返さない', async () => {
+    const created = await createAnonymousPost();
+    await createReply({ postId: created.id, userId: 'bob', content: 'わかります' });
+    await createReply({ postId: created.id, userId: 'alice', content: 'ありがとう' });
+
+    fake.signInAs('bob');
+    const { data: replies } = await fetchReplies(created.id);
+    expect(replies?.map(reply => reply.profiles?.name)).toEqual(['Bob', created.anonymous_name]);
+    expect(replies?.map(reply => reply.user_id)).toEqual(['bob', null]);
+  });
+
+  it('投稿者からの通知は仮名に置き換える', async () => {
+    const created = await createAnonymousPost();
+    fake.seed('notifications', [
+      {
+        id: 'notification-1',
+        user_id: 'bob',
+        type: 'reply',
+        message: 'Aliceさんがリプライしました',
+        related_user_id: 'alice',
+        related_post_id: created.id,
+      },
+      {
+        id: 'notification-2',
+        user_id: 'bob',
+        type: 'follow',
+        message: 'Aliceさんがあなたをフォローしました',
+        related_user_id: 'alice',
+      },
+    ]);
+
+    fake.signInAs('bob');
+    const { data: notifications } = await fetchNotifications('bob');
+    const byId = new Map(notifications?.map(notification => [notification.id, notification]));
+
+    expect(byId.get('notification-1')).toMatchObject({
+      message: `${created.anonymous_name}さんがリプライしました`,
+      related_user_id: null,
+      profiles: { name: created.anonymous_name, avatar_url: null },
+    });
+    expect(byId.get('notification-2')?.profiles?.name).toBe('Alice');
+  });
+
+  it('仮名は形容詞と動物の組み合わせで作る', () => {
+    expect(createAnonymousName(() => 0)).toBe('静かなねこ');
+    expect(createAnonymousName(() => 0.99)).toBe('ねむたいかめ');
+  });
+});
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { setSupabaseClient } from '../../Scripts/supabaseClient';
+import {
+  joinConversationPresence,
+  setPresenceVisibility,
+  subscribePresenceVisibility,
+  throttle,
+  touchLastSeen,
+} from '../../Scripts/data/presence';
+import { FakeSupabase, createFakeSupabase } from '../__support__/fakeSupabase';
+
+let fake: FakeSupabase;
+
+// 購読の解除で走る保存を待つ
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  fake = createFakeSupabase();
+  setSupabaseClient(fake.client);
+
+  fake.seed('profiles', [
+    { id: 'alice', name: 'Alice', show_presence: true, last_seen_at: null },
+    { id: 'bob', name: 'Bob', show_presence: true, last_seen_at: null },
+  ]);
+});
+
+const lastSeenOf = (userId: string) =>
+  fake.rows('profiles').find(profile => profile.id === userId)?.last_seen_at;
+
+describe('入力中', () => {
+  it('間隔内の呼び出しは捨てる', () => {
+    let now = 0;
+    let calls = 0;
+    const throttled = throttle(() => {
+      calls += 1;
+    }, 2000, () => now);
+
+    throttled();
+    now = 1500;
+    throttled();
+    now = 2000;
+    throttled();
+
+    expect(calls).toBe(2);
+  });
+
+  it('会話のチャンネルで相手にだけ届き、続けて打っても1回にまとめる', () => {
+    const aliceReceived: string[] = [];
+    const bobReceived: string[] = [];
+    const join = (conversationId: string, userId: string, received: string[]) =>
+      joinConversationPresence(conversationId, userId, {
+        onOtherOnlineChange: () => {},
+        onTyping: typingUserId => received.push(typingUserId),
+      });
+    const alice = join('conv-1', 'alice', aliceReceived);
+    const bob = join('conv-1', 'bob', bobReceived);
+    const other = join('conv-2', 'carol', bobReceived);
+
+    alice.notifyTyping();
+    alice.notifyTyping();
+    alice.notifyTyping();
+    other.notifyTyping();
+
+    expect(bobReceived).toEqual(['alice']);
+    expect(aliceReceived).toEqual([]);
+
+    alice.leave();
+    bob.leave();
+    other.leave();
+  });
+});
+
+describe('オンライン状態', () => {
+  it('同じ会話を開いている相手のオンラインだけが分かり、抜けると最終オンラインを残す', async () => {
+    const aliceSees: boolean[] = [];
+    const carolSees: boolean[] = [];
+    const join = (conversationId: string, userId: string, seen: boolean[]) =>
+      joinConversationPresence(conversationId, userId, {
+        onOtherOnlineChange: online => seen.push(online),
+        onTyping: () => {},
+      });
+
+    const alice = join('conv-1', 'alice', aliceSees);
+    const carol = join('conv-2', 'carol', carolSees);
+    await flushPromises();
+
+    expect(aliceSees[aliceSees.length - 1]).toBe(false);
+    expect(fake.channels().map(channel => channel.name)).toEqual(['conversation:conv-1', 'conversation:conv-2']);
+
+    const bob = join('conv-1', 'bob', []);
+    await flushPromises();
+
+    expect(aliceSees[aliceSees.length - 1]).toBe(true);
+    expect(carolSees.every(online => !online)).toBe(true);
+
+    bob.leave();
+    await flushPromises();
+
+    expect(aliceSees[aliceSees.length - 1]).toBe(false);
+    expect(lastSeenOf('bob')).not.toBeNull();
+
+    alice.leave();
+    carol.leave();
+    await flushPromises();
+
+    expect(fake.channels()).toEqual([]);
+  });
+
+  it('見せない設定にすると最終オンラインを消し、以後は記録しない', async () => {
+    await touchLastSeen('alice');
+    const changes: boolean[] = [];
+    const unsubscribe = subscribePresenceVisibility(visible => changes.push(visible));
+
+    await setPresenceVisibility('alice', false);
+    await touchLastSeen('alice');
+    unsubscribe();
+
+    expect(lastSeenOf('alice')).toBeNull();
+    expect(changes).toEqual([false]);
+  });
+});
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { setSupabaseClient } from '../../Scripts/supabaseClient';
+import {
+  ThreadReply,
+  buildReplyThread,
+  createReply,
+  deleteReply,
+  editReply,
+  fetchReplies,
+  fetchReplyEdits,
+  likeReply,
+  unlikeReply,
+} from '../../Scripts/data/replies';
+import { FakeSupabase, createFakeSupabase } from '../__support__/fakeSupabase';
+
+let fake: FakeSupabase;
+
+beforeEach(() => {
+  fake = createFakeSupabase();
+  setSupabaseClient(fake.client);
+
+  fake.seed('profiles', [
+    { id: 'alice', name: 'Alice' },
+    { id: 'bob', name: 'Bob' },
+  ]);
+  fake.seed('posts', [{ id: 'post-1', user_id: 'alice', content: '投稿' }]);
+});
+
+const reply = (id: string, parentReplyId: string | null, createdAt: string): ThreadReply => ({
+  id,
+  post_id: 'post-1',
+  user_id: 'bob',
+  parent_reply_id: parentReplyId,
+  content: id,
+  created_at: createdAt,
+  edited_at: null,
+  deleted_at: null,
+  profiles: null,
+  likes_count: 0,
+  is_liked: false,
+});
+
+describe('リプライのスレッド', () => {
+  it('返信は返信先の直後に深さ付きで並び、返信先がないものはトップレベルになる', () => {
+    const thread = buildReplyThread([
+      reply('c', 'a', '2024-01-01T00:00:03Z'),
+      reply('a', null, '2024-01-01T00:00:01Z'),
+      reply('b', null, '2024-01-01T00:00:02Z'),
+      reply('d', 'c', '2024-01-01T00:00:04Z'),
+      reply('e', 'missing', '2024-01-01T00:00:05Z'),
+    ]);
+
+    expect(thread.map(item => [item.reply.id, item.depth])).toEqual([
+      ['a', 0],
+      ['c', 1],
+      ['d', 2],
+      ['b', 0],
+      ['e', 0],
+    ]);
+  });
+
+  it('返信先付きで作成したリプライを表示用の形で返す', async () => {
+    const parent = await createReply({ postId: 'post-1', userId: 'alice', content: '最初' });
+    const child = await createReply({
+      postId: 'post-1',
+      userId: 'bob',
+      content: '返信',
+      parentReplyId: parent.data?.id,
+    });
+
+    expect(child.error).toBeNull();
+    expect(child.data).toMatchObject({
+      parent_reply_id: parent.data?.id,
+      likes_count: 0,
+      is_liked: false,
+      profiles: { name: 'Bob' },
+    });
+  });
+});
+
+describe('リプライの取得', () => {
+  beforeEach(() => {
+    fake.seed('replies', [
+      { id: 'r1', post_id: 'post-1', user_id: 'bob', content: '1', created_at: '2024-01-01T00:00:01Z' },
+      { id: 'r2', post_id: 'post-1', user_id: 'bob', content: '2', created_at: '2024-01-01T00:00:02Z' },
+      { id: 'r3', post_id: 'post-1', user_id: 'bob', content: '3', created_at: '2024-01-01T00:00:02Z' },
+      { id: 'r4', post_id: 'post-1', user_id: 'bob', content: '4', created_at: '2024-01-01T00:00:04Z' },
+    ]);
+  });
+
+  it('古い順にカーソルの続きからページを返す', async () => {
+    const first = await fetchReplies('post-1', { limit: 2 });
+    expect(first.data?.map(r => r.id)).toEqual(['r1', 'r2']);
+
+    const second = await fetchReplies('post-1', { after: first.data![1], limit: 2 });
+    expect(second.data?.map(r => r.id)).toEqual(['r3', 'r4']);
+  });
+
+  it('いいね数と閲覧者のいいね状態を返し、取り消せる', async () => {
+    await likeReply('r2', 'alice');
+    await likeReply('r2', 'bob');
+
+    const liked = await fetchReplies('post-1', { viewerId: 'alice' });
+    expect(liked.data?.find(r => r.id === 'r2')).toMatchObject({ likes_count: 2, is_liked: true });
+
+    await unlikeReply('r2', 'alice');
+
+    const unliked = await fetchReplies('post-1', { viewerId: 'alice' });
+    expect(unliked.data?.find(r => r.id === 'r2')).toMatchObject({ likes_count: 1, is_liked: false });
+  });
+});
+
+describe('リプライの編集と削除', () => {
+  beforeEach(() => {
+    fake.seed('replies', [
+      { id: 'r1', post_id: 'post-1', user_id: 'bob', content: '元の本文', created_at: '2024-01-01T00:00:01Z' },
+      { id: 'r2', post_id: 'post-1', user_id: 'alice', parent_reply_id: 'r1', content: '返信', created_at: '2024-01-01T00:00:02Z' },
+    ]);
+  });
+
+  it('編集前の本文を履歴に残し、編集日時を記録する', async () => {
+    const edited = await editReply({ replyId: 'r1', userId: 'bob', content: '新しい本文' });
+
+    expect(edited.error).toBeNull();
+    expect(edited.data?.content).toBe('新しい本文');
+    expect(edited.data?.edited_at).not.toBeNull();
+
+    const edits = await fetchReplyEdits('r1');
+    expect(edits.data?.map(edit => edit.content)).toEqual(['元の本文']);
+  });
+
+  it('他人のリプライは編集・削除できない', async () => {
+    const edited = await editReply({ replyId: 'r1', userId: 'alice', content: '書き換え' });
+    const deleted = await deleteReply('r1', 'alice');
+
+    expect(edited.error).not.toBeNull();
+    expect(deleted.error?.code).toBe('PGRST116');
+    expect(fake.rows('replies').find(r => r.id === 'r1')?.content).toBe('元の本文');
+  });
+
+  it('返信が付いたリプライは本文を消して削除済みとして残す', async () => {
+    const deleted = await deleteReply('r1', 'bob');
+
+    expect(deleted.data).toEqual({ tombstoned: true });
+    expect(fake.rows('replies').find(r => r.id === 'r1')).toMatchObject({ content: '' });
+    expect(fake.rows('replies').find(r => r.id === 'r1')?.deleted_at).not.toBeNull();
+  });
+
+  it('返信のないリプライはいいねごと行を削除する', async () => {
+    await likeReply('r2', 'bob');
+
+    const deleted = await deleteReply('r2', 'alice');
+
+    expect(deleted.data).toEqual({ tombstoned: false });
+    expect(fake.rows('replies').map(r => r.id)).toEqual(['r1']);
+    expect(fake.rows('reply_likes')).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { setSupabaseClient } from '../../Scripts/supabaseClient';
+import {
+  ReportTarget,
+  fetchHiddenTargets,
+  filterHiddenPosts,
+  submitReport,
+  subscribeHiddenTargets,
+} from '../../Scripts/data/reports';
+import { FakeSupabase, createFakeSupabase } from '../__support__/fakeSupabase';
+
+let fake: FakeSupabase;
+
+beforeEach(() => {
+  fake = createFakeSupabase();
+  setSupabaseClient(fake.client);
+
+  fake.seed('profiles', [
+    { id: 'alice', name: 'Alice' },
+    { id: 'bob', name: 'Bob' },
+  ]);
+});
+
+describe('通報', () => {
+  it('理由と詳細、非表示の指定を保存する', async () => {
+    const reported = await submitReport({
+      reporterId: 'alice',
+      target: { type: 'post', id: 'post-1' },
+      reason: 'spam',
+      details: ' 同じ宣伝を何度も投稿している ',
+      hide: true,
+    });
+
+    expect(reported.data).toEqual({ alreadyReported: false });
+    expect(fake.rows('reports')).toEqual([
+      expect.objectContaining({
+        reporter_id: 'alice',
+        target_type: 'post',
+        target_id: 'post-1',
+        reason: 'spam',
+        details: '同じ宣伝を何度も投稿している',
+        hidden: true,
+      }),
+    ]);
+  });
+
+  it('同じ対象の通報は重複させず、あとから非表示にできる', async () => {
+    const target: ReportTarget = { type: 'reply', id: 'reply-1' };
+    await submitReport({ reporterId: 'alice', target, reason: 'harassment', hide: false });
+
+    const again = await submitReport({ reporterId: 'alice', target, reason: 'other', hide: true });
+
+    expect(again.data).toEqual({ alreadyReported: true });
+    expect(fake.rows('reports')).toEqual([
+      expect.objectContaining({ reason: 'harassment', details: null, hidden: true }),
+    ]);
+  });
+
+  it('別のユーザーは同じ対象を通報できる', async () => {
+    const target: ReportTarget = { type: 'user', id: 'carol' };
+    await submitReport({ reporterId: 'alice', target, reason: 'impersonation', hide: false });
+    const reported = await submitReport({ reporterId: 'bob', target, reason: 'impersonation', hide: false });
+
+    expect(reported.data).toEqual({ alreadyReported: false });
+    expect(fake.rows('reports')).toHaveLength(2);
+  });
+});
+
+describe('通報した対象の非表示', () => {
+  it('非表示にした対象だけを通報者ごとに返す', async () => {
+    await submitReport({ reporterId: 'alice', target: { type: 'post', id: 'post-1' }, reason: 'spam', hide: true });
+    await submitReport({ reporterId: 'alice', target: { type: 'message', id: 'message-1' }, reason: 'self_harm', hide: false });
+    await submitReport({ reporterId: 'bob', target: { type: 'user', id: 'alice' }, reason: 'harassment', hide: true });
+
+    expect((await fetchHiddenTargets('alice')).data).toEqual(['post:post-1']);
+    expect((await fetchHiddenTargets('bob')).data).toEqual(['user:alice']);
+  });
+
+  it('非表示にしたときだけ購読している画面に知らせる', async () => {
+    const hidden: ReportTarget[] = [];
+    const unsubscribe = subscribeHiddenTargets(target => hidden.push(target));
+
+    await submitReport({ reporterId: 'alice', target: { type: 'post', id: 'post-1' }, reason: 'spam', hide: false });
+    await submitReport({ reporterId: 'alice', target: { type: 'user', id: 'bob' }, reason: 'harassment', hide: true });
+    unsubscribe();
+
+    expect(hidden).toEqual([{ type: 'user', id: 'bob' }]);
+  });
+
+  it('非表示にした投稿と、非表示にしたユーザーの投稿を除く', () => {
+    const posts = [
+      { id: 'post-1', user_id: 'alice' },
+      { id: 'post-2', user_id: 'bob' },
+      { id: 'post-3', user_id: 'alice' },
+      { id: 'post-4', user_id: 'carol' },
+    ];
+
+    const visible = filterHiddenPosts(posts, new Set(['post:post-1', 'user:bob']));
+
+    expect(visible.map(post => post.id)).toEqual(['post-3', 'post-4']);
+  });
+});
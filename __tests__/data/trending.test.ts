@@ -0,0 +1,194 @@
+import { describe, expect, it } from '@jest/globals';
+import { setSupabaseClient } from '../../Scripts/supabaseClient';
+import { FeedPost } from '../../Scripts/data/posts';
+import { emptyReactionCounts } from '../../Scripts/constants/reactions';
+import {
+  calculateEngagementScore,
+  fetchTrendingCategories,
+  fetchTrendingPosts,
+  getTimeRangeStart,
+  rankTrendingCategories,
+  rankTrendingPosts,
+  TRENDING_CANDIDATE_LIMIT,
+} from '../../Scripts/data/trending';
+import { createFakeSupabase } from '../__support__/fakeSupabase';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * 60 * 60 * 1000).toISOString();
+
+const post = (id: string, createdAt: string, fields: Partial<FeedPost> = {}): FeedPost => ({
+  id,
+  user_id: 'user-1',
+  content: id,
+  created_at: createdAt,
+  edited_at: null,
+  is_anonymous: false,
+  anonymous_name: null,
+  content_warning: null,
+  hidden_at: null,
+  profiles: null,
+  post_complexes: [],
+  post_media: [],
+  likes_count: 0,
+  reaction_counts: emptyReactionCounts(),
+  shares_count: 0,
+  replies_count: 0,
+  is_liked: false,
+  is_shared: false,
+  is_bookmarked: false,
+  viewer_reaction: null,
+  ...fields,
+});
+
+const liked = (count: number) => ({
+  likes_count: count,
+  reaction_counts: { ...emptyReactionCounts(), like: count },
+});
+
+const tagged = (...categories: string[]) => ({
+  post_complexes: categories.map(category => ({ category })),
+});
+
+describe('トレンド', () => {
+  it('期間の開始日時を返す', () => {
+    expect(getTimeRangeStart('day', NOW).toISOString()).toBe('2026-03-09T12:00:00.000Z');
+    expect(getTimeRangeStart('week', NOW).toISOString()).toBe('2026-03-03T12:00:00.000Z');
+    expect(getTimeRangeStart('month', NOW).toISOString()).toBe('2026-02-08T12:00:00.000Z');
+  });
+
+  it('リアクションの種類ごと・リプライ・共有に重みを付けて合計する', () => {
+    const counts = {
+      reaction_counts: { like: 2, relate: 1, cheer: 0, hug: 2 },
+      replies_count: 3,
+      shares_count: 1,
+    };
+
+    expect(calculateEngagementScore(counts)).toBe(2 * 3 + 1 * 4 + 2 * 4 + 3 * 2 + 1 * 5);
+    expect(
+      calculateEngagementScore(counts, { like: 1, relate: 0, cheer: 0, hug: 5, replies: 0, shares: 10 })
+    ).toBe(22);
+  });
+
+  it('6日前の投稿は新しい投稿の活発な反応を上回らない', () => {
+    const old = post('old', hoursAgo(6 * 24), liked(30));
+    const fresh = post('fresh', hoursAgo(1), liked(3));
+
+    expect(rankTrendingPosts([old, fresh], { now: NOW }).map(p => p.id)).toEqual(['fresh', 'old']);
+    // 減衰なしではエンゲージメントだけで並ぶ
+    expect(rankTrendingPosts([old, fresh], { now: NOW, gravity: 0 }).map(p => p.id)).toEqual([
+      'old',
+      'fresh',
+    ]);
+  });
+
+  it('同点の投稿は指定した方法で並べ、上限で切る', () => {
+    const posts = [
+      post('a', hoursAgo(5), liked(1)),
+      post('b', hoursAgo(2), { shares_count: 1 }),
+      post('c', hoursAgo(3), liked(2)),
+    ];
+
+    const byRecent = rankTrendingPosts(posts, { now: NOW, gravity: 0, weights: { like: 5 } });
+    expect(byRecent.map(p => p.id)).toEqual(['c', 'b', 'a']);
+
+    const tied = rankTrendingPosts(posts, {
+      now: NOW,
+      gravity: 0,
+      weights: { like: 0, shares: 0 },
+      limit: 2,
+    });
+    expect(tied.map(p => p.id)).toEqual(['b', 'c']);
+
+    // 1 / (0 + 2) と 2 / (2 + 2) で同じスコアになる
+    const sameScore = [
+      post('x', hoursAgo(0), liked(1)),
+      post('y', hoursAgo(2), liked(2)),
+    ];
+    const scoreOptions = { now: NOW, gravity: 1, weights: { like: 1 } };
+
+    expect(rankTrendingPosts(sameScore, scoreOptions).map(p => p.id)).toEqual(['x', 'y']);
+
+    const byEngagement = rankTrendingPosts(sameScore, { ...scoreOptions, tieBreaker: 'engagement' });
+    expect(byEngagement.map(p => p.id)).toEqual(['y', 'x']);
+  });
+});
+
+describe('トレンドのトピック', () => {
+  it('期間内の投稿数とエンゲージメントの伸びでカテゴリを並べ、前の期間との差を返す', () => {
+    const posts = [
+      // 今週
+      post('a', hoursAgo(1), { ...tagged('debt', 'loneliness'), ...liked(1) }),
+      post('b', hoursAgo(30), { ...tagged('debt'), ...liked(2) }),
+      post('c', hoursAgo(50), { ...tagged('appearance'), shares_count: 4 }),
+      post('d', hoursAgo(60), tagged('loneliness')),
+      // 先週
+      post('e', hoursAgo(8 * 24), tagged('debt', 'debt')),
+      post('f', hoursAgo(9 * 24), { ...tagged('appearance'), ...liked(10) }),
+      post('g', hoursAgo(10 * 24), tagged('appearance')),
+      // 期間外
+      post('h', hoursAgo(20 * 24), tagged('job')),
+    ];
+
+    const ranking = rankTrendingCategories(posts, { timeRange: 'week', now: NOW });
+
+    expect(ranking.map(topic => topic.category)).toEqual(['debt', 'loneliness', 'appearance']);
+    expect(ranking[0]).toMatchObject({
+      post_count: 2,
+      previous_post_count: 1,
+      post_delta: 1,
+      engagement_score: 9,
+      engagement_growth: 9,
+    });
+    expect(ranking[2]).toMatchObject({ post_count: 1, previous_post_count: 2, post_delta: -1 });
+  });
+
+  it('期間内の投稿が取得の上限を超えても、前の期間の投稿を数える', async () => {
+    const fake = createFakeSupabase();
+    setSupabaseClient(fake.client);
+    const now = new Date();
+    const ago = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+    const current = Array.from({ length: TRENDING_CANDIDATE_LIMIT + 10 }, (_, i) => `c${i}`);
+
+    fake.seed('posts', [
+      ...current.map(id => ({ id, user_id: 'u1', content: '今週', created_at: ago(1) })),
+      { id: 'prev1', user_id: 'u1', content: '先週', created_at: ago(8 * 24) },
+      { id: 'prev2', user_id: 'u1', content: '先週', created_at: ago(9 * 24) },
+    ]);
+    fake.seed('post_complexes', [
+      ...current.map(post_id => ({ post_id, category: 'debt' })),
+      { post_id: 'prev1', category: 'debt' },
+      { post_id: 'prev2', category: 'debt' },
+    ]);
+
+    const { data } = await fetchTrendingCategories({ timeRange: 'week', now });
+
+    expect(data?.[0]).toMatchObject({
+      category: 'debt',
+      post_count: TRENDING_CANDIDATE_LIMIT,
+      previous_post_count: 2,
+    });
+  });
+
+  it('カテゴリのトップ投稿はそのカテゴリの投稿だけを返し、他のカテゴリの表示は残す', async () => {
+    const fake = createFakeSupabase();
+    setSupabaseClient(fake.client);
+    const recent = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+    fake.seed('posts', [
+      { id: 'p1', user_id: 'u1', content: '借金と孤独', created_at: recent },
+      { id: 'p2', user_id: 'u1', content: '容姿', created_at: recent },
+    ]);
+    fake.seed('post_complexes', [
+      { post_id: 'p1', category: 'debt' },
+      { post_id: 'p1', category: 'loneliness' },
+      { post_id: 'p2', category: 'appearance' },
+    ]);
+
+    const { data } = await fetchTrendingPosts({ timeRange: 'day', category: 'debt' });
+
+    expect(data?.map(p => p.id)).toEqual(['p1']);
+    expect(data?.[0].post_complexes.map(c => c.category)).toEqual(['debt', 'loneliness']);
+    expect(data?.[0]).not.toHaveProperty('category_filter');
+  });
+});
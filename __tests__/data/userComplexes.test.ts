@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { setSupabaseClient } from '../../Scripts/supabaseClient';
+import {
+  fetchUserComplexes,
+  fetchUserIdsWithComplexes,
+  removeUserComplex,
+  saveUserComplex,
+} from '../../Scripts/data/userComplexes';
+import { fetchProfile, updateProfile } from '../../Scripts/data/profiles';
+import { FakeSupabase, createFakeSupabase } from '../__support__/fakeSupabase';
+
+let fake: FakeSupabase;
+
+beforeEach(() => {
+  fake = createFakeSupabase();
+  setSupabaseClient(fake.client);
+
+  fake.seed('profiles', [
+    { id: 'alice', name: 'Alice' },
+    { id: 'bob', name: 'Bob' },
+  ]);
+});
+
+describe('コンプレックスレベルの保存', () => {
+  it('同じカテゴリは上書きされる', async () => {
+    await saveUserComplex('alice', 'appearance', 3);
+    await saveUserComplex('alice', 'appearance', 7);
+    await saveUserComplex('alice', 'debt', 20);
+
+    const { data, error } = await fetchUserComplexes('alice');
+
+    expect(error).toBeNull();
+    expect(data?.map(c => [c.category, c.level])).toEqual([
+      ['appearance', 7],
+      ['debt', 20],
+    ]);
+  });
+
+  it('削除したカテゴリは検索の対象から外れる', async () => {
+    await saveUserComplex('alice', 'appearance', 3);
+    await saveUserComplex('bob', 'debt', 10);
+
+    expect((await fetchUserIdsWithComplexes(['appearance', 'debt'])).data).toEqual(
+      new Set(['alice', 'bob'])
+    );
+
+    await removeUserComplex('alice', 'appearance');
+
+    expect((await fetchUserIdsWithComplexes(['appearance', 'debt'])).data).toEqual(
+      new Set(['bob'])
+    );
+  });
+
+  it('総合レベルをプロフィールに保存する', async () => {
+    const { error } = await updateProfile('alice', { complex_level: 27 });
+    expect(error).toBeNull();
+
+    const { data } = await fetchProfile('alice');
+    expect(data?.complex_level).toBe(27);
+    expect(data?.updated_at).not.toBe(fake.rows('profiles')[0].created_at);
+  });
+});
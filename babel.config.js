@@ -1,3 +1,13 @@
-module.exports = {
+module.exports = api => ({
   presets: ['module:@react-native/babel-preset'],
-};
+  // Scripts/config/supabaseConfig.ts で使う環境変数をバンドルに埋め込む。
+  // Jest では実行時の process.env をそのまま読む
+  plugins: api.env('test')
+    ? []
+    : [
+        [
+          'transform-inline-environment-variables',
+          { include: ['APP_ENV', 'SUPABASE_URL', 'SUPABASE_ANON_KEY'] },
+        ],
+      ],
+});
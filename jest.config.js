@@ -1,3 +1,9 @@
 module.exports = {
   preset: 'react-native',
+  setupFiles: ['<rootDir>/jest.setup.js'],
+  transformIgnorePatterns: [
+    'node_modules/(?!((jest-)?react-native|@react-native(-community)?|react-native-url-polyfill|react-native-image-picker)/)',
+  ],
+  // テスト用のフェイクなど、テストケースではないファイル
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/__support__/'],
 };
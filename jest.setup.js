@@ -0,0 +1,6 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+// テストは既定でローカルの Supabase を向く(各テストはフェイクに差し替える)
+process.env.APP_ENV = process.env.APP_ENV || 'local';
@@ -0,0 +1,374 @@
+-- 既存のテーブルに足した列と、新しく使い始めたテーブル。一意制約・外部キー・RLS もここで作る。
+-- 以降のマイグレーション(匿名投稿のビュー、カスケード削除など)はここで作ったものを前提にする
+
+-- ---- 既存のテーブルに足した列 ----
+
+alter table public.profiles
+  add column if not exists role text not null default 'member'
+    check (role in ('member', 'moderator')),
+  add column if not exists suspended_until timestamptz,
+  add column if not exists dm_policy text not null default 'everyone'
+    check (dm_policy in ('everyone', 'followers', 'nobody')),
+  add column if not exists show_presence boolean not null default true,
+  add column if not exists last_seen_at timestamptz;
+
+alter table public.posts
+  add column if not exists edited_at timestamptz,
+  add column if not exists is_anonymous boolean not null default false,
+  add column if not exists anonymous_name text,
+  add column if not exists content_warning text
+    check (char_length(content_warning) <= 60),
+  add column if not exists hidden_at timestamptz;
+
+alter table public.likes
+  add column if not exists reaction_type text not null default 'like'
+    check (reaction_type in ('like', 'relate', 'cheer', 'hug'));
+
+alter table public.replies
+  add column if not exists parent_reply_id uuid references public.replies (id),
+  add column if not exists edited_at timestamptz,
+  add column if not exists deleted_at timestamptz;
+
+alter table public.conversations
+  add column if not exists initiator_id uuid references public.profiles (id) on delete set null,
+  add column if not exists accepted_at timestamptz;
+
+-- 既存のテーブルの一意制約。重複の登録を 23505 で検出し、find-or-create のやり直しに使う
+create unique index if not exists follows_follower_id_following_id_key
+  on public.follows (follower_id, following_id);
+create unique index if not exists blocks_blocker_id_blocked_id_key
+  on public.blocks (blocker_id, blocked_id);
+create unique index if not exists shares_post_id_user_id_key
+  on public.shares (post_id, user_id);
+create unique index if not exists bookmarks_post_id_user_id_key
+  on public.bookmarks (post_id, user_id);
+create unique index if not exists conversations_user1_id_user2_id_key
+  on public.conversations (user1_id, user2_id);
+create unique index if not exists user_complexes_user_id_category_key
+  on public.user_complexes (user_id, category);
+
+-- ---- 権限の確認に使う関数 ----
+
+create or replace function public.is_moderator()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles where id = auth.uid() and role = 'moderator'
+  );
+$$;
+
+-- 非表示にされた投稿は、投稿者とモデレーターにしか見せない
+create or replace function public.can_view_post(target_post_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.posts
+    where id = target_post_id
+      and (hidden_at is null or user_id = auth.uid() or public.is_moderator())
+  );
+$$;
+
+create or replace function public.can_view_reply(target_reply_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.replies
+    where id = target_reply_id and public.can_view_post(post_id)
+  );
+$$;
+
+-- ---- ミュート ----
+
+create table if not exists public.mutes (
+  id uuid primary key default gen_random_uuid(),
+  muter_id uuid not null references public.profiles (id) on delete cascade,
+  muted_id uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  constraint mutes_muter_id_muted_id_key unique (muter_id, muted_id),
+  check (muter_id <> muted_id)
+);
+
+alter table public.mutes enable row level security;
+
+create policy "mutes are managed by the muter"
+  on public.mutes for all to authenticated
+  using (muter_id = auth.uid())
+  with check (muter_id = auth.uid());
+
+create table if not exists public.muted_words (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  pattern text not null check (char_length(pattern) between 1 and 100),
+  is_regex boolean not null default false,
+  scopes text[] not null
+    check (cardinality(scopes) > 0 and scopes <@ array['posts', 'replies', 'notifications']),
+  -- null なら無期限
+  expires_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists muted_words_user_id_idx on public.muted_words (user_id);
+
+alter table public.muted_words enable row level security;
+
+create policy "muted words are managed by their owner"
+  on public.muted_words for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- ---- カテゴリの設定 ----
+
+create table if not exists public.category_follows (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  category text not null,
+  created_at timestamptz not null default now(),
+  constraint category_follows_user_id_category_key unique (user_id, category)
+);
+
+alter table public.category_follows enable row level security;
+
+create policy "category follows are managed by their owner"
+  on public.category_follows for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create table if not exists public.collapsed_categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  category text not null,
+  created_at timestamptz not null default now(),
+  constraint collapsed_categories_user_id_category_key unique (user_id, category)
+);
+
+alter table public.collapsed_categories enable row level security;
+
+create policy "collapsed categories are managed by their owner"
+  on public.collapsed_categories for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- ---- 危険な表現の判定ルール ----
+
+-- 書き込みは運営が service role で行う
+create table if not exists public.crisis_rule_sets (
+  id uuid primary key default gen_random_uuid(),
+  version integer not null,
+  -- CrisisRule の配列
+  rules jsonb not null,
+  created_at timestamptz not null default now(),
+  constraint crisis_rule_sets_version_key unique (version)
+);
+
+alter table public.crisis_rule_sets enable row level security;
+
+create policy "crisis rules are readable by everyone"
+  on public.crisis_rule_sets for select to authenticated
+  using (true);
+
+-- ---- 投稿・リプライの編集履歴と画像 ----
+
+create table if not exists public.post_edits (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references public.posts (id) on delete cascade,
+  -- 編集前の本文
+  content text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists post_edits_post_id_idx on public.post_edits (post_id, created_at);
+
+alter table public.post_edits enable row level security;
+
+create policy "post edits are readable with the post"
+  on public.post_edits for select to authenticated
+  using (public.can_view_post(post_id));
+
+create policy "post edits are written by the post author"
+  on public.post_edits for insert to authenticated
+  with check (
+    exists (select 1 from public.posts where id = post_id and user_id = auth.uid())
+  );
+
+create table if not exists public.post_media (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references public.posts (id) on delete cascade,
+  -- post-media バケット内のパス
+  storage_path text not null,
+  url text not null,
+  width integer,
+  height integer,
+  -- 投稿内での並び順(0 始まり)
+  position integer not null check (position between 0 and 3),
+  created_at timestamptz not null default now(),
+  constraint post_media_post_id_position_key unique (post_id, position)
+);
+
+alter table public.post_media enable row level security;
+
+create policy "post media is readable with the post"
+  on public.post_media for select to authenticated
+  using (public.can_view_post(post_id));
+
+create policy "post media is written by the post author"
+  on public.post_media for insert to authenticated
+  with check (
+    exists (select 1 from public.posts where id = post_id and user_id = auth.uid())
+  );
+
+create table if not exists public.reply_edits (
+  id uuid primary key default gen_random_uuid(),
+  reply_id uuid not null references public.replies (id) on delete cascade,
+  -- 編集前の本文
+  content text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists reply_edits_reply_id_idx on public.reply_edits (reply_id, created_at);
+
+alter table public.reply_edits enable row level security;
+
+create policy "reply edits are readable with the reply"
+  on public.reply_edits for select to authenticated
+  using (public.can_view_reply(reply_id));
+
+create policy "reply edits are written by the reply author"
+  on public.reply_edits for insert to authenticated
+  with check (
+    exists (select 1 from public.replies where id = reply_id and user_id = auth.uid())
+  );
+
+create table if not exists public.reply_likes (
+  id uuid primary key default gen_random_uuid(),
+  reply_id uuid not null references public.replies (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  constraint reply_likes_reply_id_user_id_key unique (reply_id, user_id)
+);
+
+alter table public.reply_likes enable row level security;
+
+create policy "reply likes are readable with the reply"
+  on public.reply_likes for select to authenticated
+  using (public.can_view_reply(reply_id));
+
+create policy "reply likes are added by the liker"
+  on public.reply_likes for insert to authenticated
+  with check (user_id = auth.uid() and public.can_view_reply(reply_id));
+
+create policy "reply likes are removed by the liker"
+  on public.reply_likes for delete to authenticated
+  using (user_id = auth.uid());
+
+-- ---- 通報とモデレーション ----
+
+create table if not exists public.reports (
+  id uuid primary key default gen_random_uuid(),
+  reporter_id uuid not null references public.profiles (id) on delete cascade,
+  target_type text not null check (target_type in ('post', 'reply', 'user', 'message')),
+  target_id uuid not null,
+  reason text not null
+    check (reason in ('spam', 'harassment', 'self_harm', 'impersonation', 'other')),
+  details text check (char_length(details) <= 500),
+  -- 通報した人の画面から対象を隠す
+  hidden boolean not null default false,
+  -- モデレーターが対応した日時。未対応は null
+  resolved_at timestamptz,
+  resolved_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  -- 同じ人が同じ対象を二重に通報しない。submitReport は 23505 を通報済みとして扱う
+  constraint reports_reporter_id_target_type_target_id_key unique (reporter_id, target_type, target_id)
+);
+
+create index if not exists reports_unresolved_idx
+  on public.reports (target_type, target_id) where resolved_at is null;
+
+alter table public.reports enable row level security;
+
+create policy "reports are readable by the reporter and moderators"
+  on public.reports for select to authenticated
+  using (reporter_id = auth.uid() or public.is_moderator());
+
+create policy "reports are filed by the reporter"
+  on public.reports for insert to authenticated
+  with check (reporter_id = auth.uid() and resolved_at is null and resolved_by is null);
+
+-- 通報した人が変えられるのは、未対応の通報の hidden だけ
+create policy "unresolved reports are updated by the reporter"
+  on public.reports for update to authenticated
+  using (reporter_id = auth.uid() and resolved_at is null)
+  with check (reporter_id = auth.uid() and resolved_at is null and resolved_by is null);
+
+create policy "reports are resolved by moderators"
+  on public.reports for update to authenticated
+  using (public.is_moderator())
+  with check (public.is_moderator());
+
+create table if not exists public.moderation_flags (
+  id uuid primary key default gen_random_uuid(),
+  content_type text not null check (content_type in ('post', 'reply', 'message')),
+  content_id uuid not null,
+  -- 書いた人
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  reason text not null,
+  matched_rules text[] not null default '{}',
+  rule_version integer,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists moderation_flags_unresolved_idx
+  on public.moderation_flags (content_type, content_id) where resolved_at is null;
+
+alter table public.moderation_flags enable row level security;
+
+-- 送信した本人の端末で判定して立てる
+create policy "moderation flags are raised by the author"
+  on public.moderation_flags for insert to authenticated
+  with check (user_id = auth.uid() and resolved_at is null);
+
+create policy "moderation flags are readable by moderators"
+  on public.moderation_flags for select to authenticated
+  using (public.is_moderator());
+
+create policy "moderation flags are resolved by moderators"
+  on public.moderation_flags for update to authenticated
+  using (public.is_moderator())
+  with check (public.is_moderator());
+
+create table if not exists public.moderation_actions (
+  id uuid primary key default gen_random_uuid(),
+  moderator_id uuid not null references public.profiles (id),
+  action text not null check (action in ('dismiss', 'hide', 'delete', 'warn', 'suspend')),
+  target_type text not null check (target_type in ('post', 'reply', 'user', 'message')),
+  target_id uuid not null,
+  -- 対応の対象になった投稿者。対象がユーザーならその人
+  subject_user_id uuid references public.profiles (id) on delete set null,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists moderation_actions_created_at_idx
+  on public.moderation_actions (created_at desc);
+
+alter table public.moderation_actions enable row level security;
+
+create policy "moderation actions are readable by moderators"
+  on public.moderation_actions for select to authenticated
+  using (public.is_moderator());
+
+create policy "moderation actions are logged by the moderator"
+  on public.moderation_actions for insert to authenticated
+  with check (moderator_id = auth.uid() and public.is_moderator());
@@ -0,0 +1,111 @@
+-- 匿名投稿の投稿者をデータベース側で隠す。
+-- posts / replies / notifications は本人とモデレーターだけが直接読め、
+-- ほかの人は投稿者を隠したビュー(feed_posts / thread_replies / notification_feed)から読む。
+
+-- 投稿: 他人の匿名投稿では user_id を返さず、名前は仮名、アバターとレベルは出さない
+create or replace view public.feed_posts as
+select
+  p.id,
+  case when p.is_anonymous and p.user_id is distinct from auth.uid() then null else p.user_id end as user_id,
+  p.content,
+  p.created_at,
+  p.edited_at,
+  p.is_anonymous,
+  p.anonymous_name,
+  p.content_warning,
+  p.hidden_at,
+  case when p.is_anonymous then p.anonymous_name else pr.name end as author_name,
+  case when p.is_anonymous then null else pr.avatar_url end as author_avatar_url,
+  case when p.is_anonymous then 0 else coalesce(pr.complex_level, 0) end as author_complex_level
+from public.posts p
+left join public.profiles pr on pr.id = p.user_id;
+
+-- リプライ: 匿名投稿の投稿者が自分の投稿に付けたリプライは、投稿と同じく投稿者を隠す
+create or replace view public.thread_replies as
+select
+  r.id,
+  r.post_id,
+  case when anon.is_anonymous_author and r.user_id is distinct from auth.uid() then null else r.user_id end as user_id,
+  r.parent_reply_id,
+  r.content,
+  r.created_at,
+  r.edited_at,
+  r.deleted_at,
+  case when anon.is_anonymous_author then p.anonymous_name else pr.name end as author_name,
+  case when anon.is_anonymous_author then null else pr.avatar_url end as author_avatar_url,
+  case when anon.is_anonymous_author then 0 else coalesce(pr.complex_level, 0) end as author_complex_level
+from public.replies r
+join public.posts p on p.id = r.post_id
+left join public.profiles pr on pr.id = r.user_id
+cross join lateral (
+  select p.is_anonymous and p.user_id = r.user_id as is_anonymous_author
+) anon;
+
+-- 通知: 自分宛てだけを返す。匿名投稿の投稿者からの通知は相手を隠し、本文の実名も仮名に置き換える
+create or replace view public.notification_feed as
+select
+  n.id,
+  n.user_id,
+  n.type,
+  case when anon.is_anonymous_author and pr.name is not null
+    then replace(n.message, pr.name, p.anonymous_name)
+    else n.message
+  end as message,
+  case when anon.is_anonymous_author then null else n.related_user_id end as related_user_id,
+  n.related_post_id,
+  n.is_read,
+  n.created_at,
+  case when anon.is_anonymous_author then p.anonymous_name else pr.name end as related_user_name,
+  case when anon.is_anonymous_author then null else pr.avatar_url end as related_user_avatar_url
+from public.notifications n
+left join public.posts p on p.id = n.related_post_id
+left join public.profiles pr on pr.id = n.related_user_id
+cross join lateral (
+  select coalesce(p.is_anonymous and p.user_id = n.related_user_id, false) as is_anonymous_author
+) anon
+where n.user_id = auth.uid();
+
+-- ビューは所有者の権限で元の表を読み、列の出し分けはビューの中で行う
+alter view public.feed_posts set (security_invoker = false);
+alter view public.thread_replies set (security_invoker = false);
+alter view public.notification_feed set (security_invoker = false);
+
+grant select on public.feed_posts, public.thread_replies, public.notification_feed to authenticated;
+
+-- 元の表は本人とモデレーターだけが読める
+alter table public.posts enable row level security;
+alter table public.replies enable row level security;
+
+drop policy if exists "posts are readable by everyone" on public.posts;
+create policy "posts are readable by the author and moderators"
+  on public.posts for select to authenticated
+  using (user_id = auth.uid() or public.is_moderator());
+
+drop policy if exists "replies are readable by everyone" on public.replies;
+create policy "replies are readable by the author and moderators"
+  on public.replies for select to authenticated
+  using (user_id = auth.uid() or public.is_moderator());
+
+-- 通知の表からは相手と本文を読ませない。realtime の変更通知は再取得のきっかけにだけ使う
+revoke select on public.notifications from authenticated;
+grant select (id, user_id, type, related_post_id, is_read, created_at)
+  on public.notifications to authenticated;
+
+-- 投稿画像は「投稿 ID/連番.拡張子」に置き、アップロードと削除は投稿者だけに許す
+drop policy if exists "post media is writable by the post author" on storage.objects;
+create policy "post media is writable by the post author"
+  on storage.objects for all to authenticated
+  using (
+    bucket_id = 'post-media'
+    and exists (
+      select 1 from public.posts
+      where id::text = (storage.foldername(name))[1] and user_id = auth.uid()
+    )
+  )
+  with check (
+    bucket_id = 'post-media'
+    and exists (
+      select 1 from public.posts
+      where id::text = (storage.foldername(name))[1] and user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,53 @@
+-- 投稿・リプライの削除で、ぶら下がる行を外部キーの ON DELETE CASCADE で一緒に削除する。
+-- deletePost と通報対応の削除は posts の行だけを消し、残りはここに任せる
+
+alter table public.post_complexes
+  drop constraint if exists post_complexes_post_id_fkey,
+  add constraint post_complexes_post_id_fkey
+    foreign key (post_id) references public.posts (id) on delete cascade;
+
+alter table public.likes
+  drop constraint if exists likes_post_id_fkey,
+  add constraint likes_post_id_fkey
+    foreign key (post_id) references public.posts (id) on delete cascade;
+
+alter table public.shares
+  drop constraint if exists shares_post_id_fkey,
+  add constraint shares_post_id_fkey
+    foreign key (post_id) references public.posts (id) on delete cascade;
+
+alter table public.bookmarks
+  drop constraint if exists bookmarks_post_id_fkey,
+  add constraint bookmarks_post_id_fkey
+    foreign key (post_id) references public.posts (id) on delete cascade;
+
+alter table public.replies
+  drop constraint if exists replies_post_id_fkey,
+  add constraint replies_post_id_fkey
+    foreign key (post_id) references public.posts (id) on delete cascade;
+
+alter table public.post_edits
+  drop constraint if exists post_edits_post_id_fkey,
+  add constraint post_edits_post_id_fkey
+    foreign key (post_id) references public.posts (id) on delete cascade;
+
+alter table public.post_media
+  drop constraint if exists post_media_post_id_fkey,
+  add constraint post_media_post_id_fkey
+    foreign key (post_id) references public.posts (id) on delete cascade;
+
+alter table public.notifications
+  drop constraint if exists notifications_related_post_id_fkey,
+  add constraint notifications_related_post_id_fkey
+    foreign key (related_post_id) references public.posts (id) on delete cascade;
+
+-- リプライが消えたとき(投稿ごと消えたときを含む)のいいねと編集履歴
+alter table public.reply_likes
+  drop constraint if exists reply_likes_reply_id_fkey,
+  add constraint reply_likes_reply_id_fkey
+    foreign key (reply_id) references public.replies (id) on delete cascade;
+
+alter table public.reply_edits
+  drop constraint if exists reply_edits_reply_id_fkey,
+  add constraint reply_edits_reply_id_fkey
+    foreign key (reply_id) references public.replies (id) on delete cascade;
@@ -0,0 +1,32 @@
+-- DM の会話チャンネル(conversation:<会話 ID>)は private にし、会話の二人だけが参加できるようにする。
+-- オンライン状態(presence)と入力中(broadcast)はこのチャンネルでだけ送り合う
+
+create or replace function public.is_conversation_participant(topic text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.conversations c
+    where topic = 'conversation:' || c.id::text
+      and auth.uid() in (c.user1_id, c.user2_id)
+  );
+$$;
+
+drop policy if exists "conversation participants can receive" on realtime.messages;
+create policy "conversation participants can receive"
+  on realtime.messages for select to authenticated
+  using (
+    realtime.messages.extension in ('broadcast', 'presence')
+    and public.is_conversation_participant(realtime.topic())
+  );
+
+drop policy if exists "conversation participants can send" on realtime.messages;
+create policy "conversation participants can send"
+  on realtime.messages for insert to authenticated
+  with check (
+    realtime.messages.extension in ('broadcast', 'presence')
+    and public.is_conversation_participant(realtime.topic())
+  );
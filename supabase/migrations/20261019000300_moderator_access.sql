@@ -0,0 +1,158 @@
+-- モデレーターの対応をサーバー側で許可・制限する。
+-- 権限のない書き込みは RLS で 0 行になるだけなので、アプリは書き込んだ行を返させて確かめる
+
+-- ---- 本人が変えられない列 ----
+
+-- role と suspended_until は本人が書き換えられないようにする。停止はモデレーター用の関数から行う
+revoke insert, update on public.profiles from authenticated;
+grant insert (id, email, name, bio, avatar_url, complex_level, dm_policy, show_presence, last_seen_at)
+  on public.profiles to authenticated;
+grant update (email, name, bio, avatar_url, complex_level, dm_policy, show_presence, last_seen_at, updated_at)
+  on public.profiles to authenticated;
+
+-- 投稿者が変えられるのは本文と編集日時だけ。hidden_at はモデレーター用の関数から設定する
+revoke update on public.posts from authenticated;
+grant update (content, edited_at) on public.posts to authenticated;
+
+-- ---- 一時停止 ----
+
+create or replace function public.is_suspended()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles where id = auth.uid() and suspended_until > now()
+  );
+$$;
+
+-- ほかの許可ポリシーと AND で効く restrictive ポリシーで、停止中の投稿・編集・送信を止める
+create policy "suspended users cannot post"
+  on public.posts as restrictive for insert to authenticated
+  with check (not public.is_suspended());
+create policy "suspended users cannot edit posts"
+  on public.posts as restrictive for update to authenticated
+  using (not public.is_suspended());
+
+create policy "suspended users cannot reply"
+  on public.replies as restrictive for insert to authenticated
+  with check (not public.is_suspended());
+create policy "suspended users cannot edit replies"
+  on public.replies as restrictive for update to authenticated
+  using (not public.is_suspended() or public.is_moderator());
+
+create policy "suspended users cannot send messages"
+  on public.messages as restrictive for insert to authenticated
+  with check (not public.is_suspended());
+
+-- ---- モデレーターの対応 ----
+
+create policy "posts are deleted by moderators"
+  on public.posts for delete to authenticated
+  using (public.is_moderator());
+
+-- リプライの削除は本文を消して削除済みにする更新
+create policy "replies are removed by moderators"
+  on public.replies for update to authenticated
+  using (public.is_moderator())
+  with check (public.is_moderator());
+
+-- 通報された DM は確認のために読め、削除できる
+create policy "messages are readable by moderators"
+  on public.messages for select to authenticated
+  using (public.is_moderator());
+create policy "messages are deleted by moderators"
+  on public.messages for delete to authenticated
+  using (public.is_moderator());
+
+-- 警告は相手への通知として送る。送った行を返させるため、警告だけは読めるようにする
+create policy "warnings are sent by moderators"
+  on public.notifications for insert to authenticated
+  with check (public.is_moderator() and type = 'moderation_warning');
+create policy "warnings are readable by moderators"
+  on public.notifications for select to authenticated
+  using (public.is_moderator() and type = 'moderation_warning');
+
+-- 非表示にした投稿が見つかれば true
+create or replace function public.hide_post_as_moderator(target_post_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_moderator() then
+    raise exception 'permission denied' using errcode = '42501';
+  end if;
+
+  update public.posts set hidden_at = now() where id = target_post_id;
+  return found;
+end;
+$$;
+
+-- 一時停止したユーザーが見つかれば true
+create or replace function public.suspend_user_as_moderator(target_user_id uuid, suspended_until timestamptz)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_moderator() then
+    raise exception 'permission denied' using errcode = '42501';
+  end if;
+
+  update public.profiles set suspended_until = suspend_user_as_moderator.suspended_until
+  where id = target_user_id;
+  return found;
+end;
+$$;
+
+revoke execute on function public.hide_post_as_moderator(uuid) from public, anon;
+revoke execute on function public.suspend_user_as_moderator(uuid, timestamptz) from public, anon;
+grant execute on function public.hide_post_as_moderator(uuid) to authenticated;
+grant execute on function public.suspend_user_as_moderator(uuid, timestamptz) to authenticated;
+
+-- ---- 非表示にした投稿をビューから除く ----
+
+-- ビューは所有者の権限で読むため、元の表の RLS では隠れない。ビューの中で除く
+create or replace view public.feed_posts as
+select
+  p.id,
+  case when p.is_anonymous and p.user_id is distinct from auth.uid() then null else p.user_id end as user_id,
+  p.content,
+  p.created_at,
+  p.edited_at,
+  p.is_anonymous,
+  p.anonymous_name,
+  p.content_warning,
+  p.hidden_at,
+  case when p.is_anonymous then p.anonymous_name else pr.name end as author_name,
+  case when p.is_anonymous then null else pr.avatar_url end as author_avatar_url,
+  case when p.is_anonymous then 0 else coalesce(pr.complex_level, 0) end as author_complex_level
+from public.posts p
+left join public.profiles pr on pr.id = p.user_id
+where p.hidden_at is null;
+
+create or replace view public.thread_replies as
+select
+  r.id,
+  r.post_id,
+  case when anon.is_anonymous_author and r.user_id is distinct from auth.uid() then null else r.user_id end as user_id,
+  r.parent_reply_id,
+  r.content,
+  r.created_at,
+  r.edited_at,
+  r.deleted_at,
+  case when anon.is_anonymous_author then p.anonymous_name else pr.name end as author_name,
+  case when anon.is_anonymous_author then null else pr.avatar_url end as author_avatar_url,
+  case when anon.is_anonymous_author then 0 else coalesce(pr.complex_level, 0) end as author_complex_level
+from public.replies r
+join public.posts p on p.id = r.post_id
+left join public.profiles pr on pr.id = r.user_id
+cross join lateral (
+  select p.is_anonymous and p.user_id = r.user_id as is_anonymous_author
+) anon
+where p.hidden_at is null;
@@ -0,0 +1,41 @@
+-- ブロックとお互いのフォローの解除を1つのトランザクションで行う。
+-- 相手のフォロー行は RLS で消せず、アプリから消しても 0 行になるだけなので、security definer の関数で消す
+
+-- 解除したフォローの数を返す。フォローが残ればブロックごと取り消す
+create or replace function public.block_user(target_user_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  removed integer;
+begin
+  if auth.uid() is null then
+    raise exception 'permission denied' using errcode = '42501';
+  end if;
+
+  insert into public.blocks (blocker_id, blocked_id) values (auth.uid(), target_user_id);
+
+  delete from public.follows
+  where (follower_id = auth.uid() and following_id = target_user_id)
+     or (follower_id = target_user_id and following_id = auth.uid());
+  get diagnostics removed = row_count;
+
+  if exists (
+    select 1 from public.follows
+    where (follower_id = auth.uid() and following_id = target_user_id)
+       or (follower_id = target_user_id and following_id = auth.uid())
+  ) then
+    raise exception 'follows between blocked users remain';
+  end if;
+
+  return removed;
+end;
+$$;
+
+revoke execute on function public.block_user(uuid) from public, anon;
+grant execute on function public.block_user(uuid) to authenticated;
+
+-- フォローを残したままブロックできないよう、ブロックは関数からだけ作る
+revoke insert on public.blocks from authenticated;
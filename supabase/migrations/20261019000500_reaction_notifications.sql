@@ -0,0 +1,92 @@
+-- リアクションは1投稿につき1人1つ。アプリは (post_id, user_id) で upsert して種類を変える。
+-- 通知の type にはリアクションの種類(like / relate / cheer / hug)を入れ、アプリが種類ごとの文を出す
+
+-- ---- 一意キー ----
+
+-- 一意キーを張る前に、同じ人の重複したリアクションは新しいものだけを残す
+delete from public.likes l
+using public.likes newer
+where newer.post_id = l.post_id
+  and newer.user_id = l.user_id
+  and (newer.created_at, newer.id) > (l.created_at, l.id);
+
+create unique index if not exists likes_post_id_user_id_key
+  on public.likes (post_id, user_id);
+
+-- ---- 通知 ----
+
+-- 種類を区別しない以前のいいね通知のトリガーを外す
+do $$
+declare
+  old_trigger record;
+begin
+  for old_trigger in
+    select t.tgname
+    from pg_trigger t
+    join pg_proc p on p.oid = t.tgfoid
+    where t.tgrelid = 'public.likes'::regclass
+      and not t.tgisinternal
+      and p.prosrc ilike '%notifications%'
+  loop
+    execute format('drop trigger %I on public.likes', old_trigger.tgname);
+  end loop;
+end;
+$$;
+
+create or replace function public.notify_post_reaction()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  author_id uuid;
+  reactor_name text;
+  reaction_message text;
+begin
+  select user_id into author_id from public.posts where id = new.post_id;
+
+  if author_id is null or author_id = new.user_id then
+    return new;
+  end if;
+
+  -- 同じ種類で付け直しただけなら知らせ直さない
+  if tg_op = 'UPDATE' and old.reaction_type = new.reaction_type then
+    return new;
+  end if;
+
+  select name into reactor_name from public.profiles where id = new.user_id;
+
+  -- Scripts/constants/reactions.ts の notificationText と同じ文
+  reaction_message := coalesce(reactor_name, '名前未設定') || 'さん' || case new.reaction_type
+    when 'relate' then 'があなたの投稿に「わかる」と共感しました'
+    when 'cheer' then 'があなたの投稿を応援しています'
+    when 'hug' then 'があなたの投稿にハグを送りました'
+    else 'があなたの投稿にいいねしました'
+  end;
+
+  -- 種類を変えたときは、同じ人からの通知を書き換えて未読に戻す
+  if tg_op = 'UPDATE' then
+    update public.notifications
+    set type = new.reaction_type, message = reaction_message, is_read = false
+    where user_id = author_id
+      and related_user_id = new.user_id
+      and related_post_id = new.post_id
+      and type in ('like', 'relate', 'cheer', 'hug');
+
+    if found then
+      return new;
+    end if;
+  end if;
+
+  insert into public.notifications (user_id, type, message, related_user_id, related_post_id)
+  values (author_id, new.reaction_type, reaction_message, new.user_id, new.post_id);
+
+  return new;
+end;
+$$;
+
+create trigger on_post_reaction
+  after insert or update of reaction_type on public.likes
+  for each row
+  execute function public.notify_post_reaction();
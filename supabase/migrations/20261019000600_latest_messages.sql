@@ -0,0 +1,19 @@
+-- 会話一覧で、会話ごとの最後のメッセージを1回の問い合わせで読む。
+-- 読む人の権限で評価し、messages の RLS(会話の参加者だけ)をそのまま効かせる
+
+create index if not exists messages_conversation_id_created_at_idx
+  on public.messages (conversation_id, created_at desc);
+
+create or replace view public.latest_messages
+with (security_invoker = true) as
+select distinct on (m.conversation_id)
+  m.id,
+  m.conversation_id,
+  m.sender_id,
+  m.content,
+  m.is_read,
+  m.created_at
+from public.messages m
+order by m.conversation_id, m.created_at desc;
+
+grant select on public.latest_messages to authenticated;